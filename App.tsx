@@ -5,36 +5,85 @@ import DashboardScreen from './components/DashboardScreen';
 import InterviewSessionScreen from './components/InterviewSessionScreen';
 import ProfileScreen from './components/ProfileScreen';
 import ResumeScreen from './components/ResumeScreen';
-import { Subject, View, Difficulty } from './types';
-import { isLoggedIn } from './services/authService';
+import ObjectiveTestScreen from './components/ObjectiveTestScreen';
+import AnswerWritingScreen from './components/AnswerWritingScreen';
+import { Subject, Company, View, Difficulty, SessionSettings, ExamPattern, AnswerWritingSettings } from './types';
+import { isLoggedIn, refreshCurrentUser, getCurrentUser } from './services/authService';
+import { syncOnLogin, startBackgroundSync } from './services/syncService';
+import { UNTIMED_SETTINGS } from './services/sessionPresets';
 
 const App: React.FC = () => {
   const [view, setView] = useState<View>('login');
   const [currentSubject, setCurrentSubject] = useState<Subject | string | null>(null);
+  // Set for company interviews, which run that company's rounds
+  const [currentCompany, setCurrentCompany] = useState<Company | null>(null);
   const [currentDifficulty, setCurrentDifficulty] = useState<Difficulty | null>(null);
+  const [currentSettings, setCurrentSettings] = useState<SessionSettings>(UNTIMED_SETTINGS);
+  // Set for timed MCQ tests, which run on their own screen
+  const [currentTest, setCurrentTest] = useState<ExamPattern | null>(null);
+  // Set for UPSC Mains answer writing, which also runs on its own screen
+  const [currentWriting, setCurrentWriting] = useState<AnswerWritingSettings | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(isLoggedIn());
 
   useEffect(() => {
-    // Check if user is logged in on app load
-    // Temporarily bypass login for testing
-    setIsAuthenticated(true);
-    setView('dashboard');
-    // if (isLoggedIn()) {
-    //   setIsAuthenticated(true);
-    //   setView('dashboard');
-    // }
+    // Check if user is logged in on app load, then confirm the stored token with the backend
+    if (isLoggedIn()) {
+      setIsAuthenticated(true);
+      setView('dashboard');
+    }
+    refreshCurrentUser().then(user => {
+      if (!user) {
+        setIsAuthenticated(false);
+        setView('login');
+      }
+    });
   }, []);
 
-  const handleStartInterview = useCallback((subject: Subject | string, difficulty: Difficulty) => {
+  useEffect(() => {
+    // Upload local progress and keep the offline queue flushing while someone is logged in
+    const user = isAuthenticated ? getCurrentUser() : null;
+    if (!user) return;
+    syncOnLogin(user);
+    return startBackgroundSync(user.id);
+  }, [isAuthenticated]);
+
+  const handleStartInterview = useCallback((subject: Subject | string, difficulty: Difficulty, settings: SessionSettings) => {
     setCurrentSubject(subject);
+    setCurrentCompany(null);
+    setCurrentDifficulty(difficulty);
+    setCurrentSettings(settings);
+    setView('session');
+  }, []);
+
+  const handleStartCompanyInterview = useCallback((company: Company, difficulty: Difficulty, settings: SessionSettings) => {
+    // The company name doubles as the session's subject in history and reports
+    setCurrentSubject(company);
+    setCurrentCompany(company);
     setCurrentDifficulty(difficulty);
+    setCurrentSettings(settings);
     setView('session');
   }, []);
 
+  const handleStartTest = useCallback((pattern: ExamPattern, difficulty: Difficulty) => {
+    setCurrentTest(pattern);
+    setCurrentDifficulty(difficulty);
+    setView('test');
+  }, []);
+
+  const handleStartAnswerWriting = useCallback((settings: AnswerWritingSettings, difficulty: Difficulty) => {
+    setCurrentWriting(settings);
+    setCurrentDifficulty(difficulty);
+    setView('answerWriting');
+  }, []);
+
   const handleEndInterview = useCallback(() => {
     setView('dashboard');
     setCurrentSubject(null);
+    setCurrentCompany(null);
     setCurrentDifficulty(null);
+    setCurrentSettings(UNTIMED_SETTINGS);
+    setCurrentTest(null);
+    setCurrentWriting(null);
   }, []);
 
   const handleLogout = useCallback(() => {
@@ -54,16 +103,26 @@ const App: React.FC = () => {
           />
         );
       case 'dashboard':
-        return <DashboardScreen onStartInterview={handleStartInterview} onViewProfile={() => setView('profile')} onResumeInterview={() => setView('resume')} />;
+        return <DashboardScreen onStartInterview={handleStartInterview} onStartCompanyInterview={handleStartCompanyInterview} onStartTest={handleStartTest} onStartAnswerWriting={handleStartAnswerWriting} onViewProfile={() => setView('profile')} onResumeInterview={() => setView('resume')} />;
       case 'profile':
         return <ProfileScreen onBack={() => setView('dashboard')} onLogout={handleLogout} />;
       case 'resume':
         return <ResumeScreen onBack={() => setView('dashboard')} />;
       case 'session':
         if (currentSubject && currentDifficulty) {
-          return <InterviewSessionScreen subject={currentSubject} difficulty={currentDifficulty} onEndSession={handleEndInterview} />;
+          return <InterviewSessionScreen subject={currentSubject} company={currentCompany ?? undefined} difficulty={currentDifficulty} settings={currentSettings} onEndSession={handleEndInterview} />;
+        }
+        return <DashboardScreen onStartInterview={handleStartInterview} onStartCompanyInterview={handleStartCompanyInterview} onStartTest={handleStartTest} onStartAnswerWriting={handleStartAnswerWriting} onViewProfile={() => setView('profile')} onResumeInterview={() => setView('resume')} />;
+      case 'test':
+        if (currentTest && currentDifficulty) {
+          return <ObjectiveTestScreen pattern={currentTest} difficulty={currentDifficulty} onExit={handleEndInterview} />;
+        }
+        return <DashboardScreen onStartInterview={handleStartInterview} onStartCompanyInterview={handleStartCompanyInterview} onStartTest={handleStartTest} onStartAnswerWriting={handleStartAnswerWriting} onViewProfile={() => setView('profile')} onResumeInterview={() => setView('resume')} />;
+      case 'answerWriting':
+        if (currentWriting && currentDifficulty) {
+          return <AnswerWritingScreen settings={currentWriting} difficulty={currentDifficulty} onExit={handleEndInterview} />;
         }
-        return <DashboardScreen onStartInterview={handleStartInterview} onViewProfile={() => setView('profile')} onResumeInterview={() => setView('resume')} />;
+        return <DashboardScreen onStartInterview={handleStartInterview} onStartCompanyInterview={handleStartCompanyInterview} onStartTest={handleStartTest} onStartAnswerWriting={handleStartAnswerWriting} onViewProfile={() => setView('profile')} onResumeInterview={() => setView('resume')} />;
       default:
         return <LoginScreen onGetStarted={() => setView('dashboard')} />;
     }
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { prisma } from './db';
+
+const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+let devSecret: string | null = null;
+
+// Read lazily so dotenv has been loaded by the time the first token is signed.
+const getAuthSecret = (): string => {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (!devSecret) {
+    console.warn('⚠️ AUTH_SECRET not found in environment - using a random secret, logins will not survive a restart');
+    devSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return devSecret;
+};
+
+export interface PublicUser {
+  id: string;
+  username: string;
+  email: string;
+  createdAt: string;
+}
+
+export const toPublicUser = (user: { id: string; username: string | null; email: string; createdAt: Date }): PublicUser => ({
+  id: user.id,
+  username: user.username ?? user.email.split('@')[0],
+  email: user.email,
+  createdAt: user.createdAt.toISOString(),
+});
+
+/**
+ * Hash a password with a random salt. Stored as `salt:hash`, both hex encoded.
+ */
+export const hashPassword = (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, (err, derived) => {
+      if (err) return reject(err);
+      resolve(`${salt}:${derived.toString('hex')}`);
+    });
+  });
+};
+
+export const verifyPassword = (password: string, stored: string): Promise<boolean> => {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return Promise.resolve(false);
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, (err, derived) => {
+      if (err) return reject(err);
+      const expected = Buffer.from(hash, 'hex');
+      resolve(expected.length === derived.length && crypto.timingSafeEqual(expected, derived));
+    });
+  });
+};
+
+const sign = (value: string): string =>
+  crypto.createHmac('sha256', getAuthSecret()).update(value).digest('base64url');
+
+/**
+ * Issue a login token for a user. The token is `<authTokenId>.<signature>`; the id
+ * points at an AuthToken row so the token can be revoked on logout.
+ */
+export const issueToken = async (userId: string): Promise<string> => {
+  const record = await prisma.authToken.create({
+    data: { userId, expiresAt: new Date(Date.now() + TOKEN_TTL_MS) },
+  });
+  return `${record.id}.${sign(record.id)}`;
+};
+
+/**
+ * Resolve a token to its AuthToken row, or null when it is forged, expired or revoked.
+ */
+export const verifyToken = async (token: string) => {
+  const [id, signature] = token.split('.');
+  if (!id || !signature) return null;
+
+  const expected = Buffer.from(sign(id));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+
+  const record = await prisma.authToken.findUnique({ where: { id } });
+  if (!record || record.revokedAt || record.expiresAt < new Date()) return null;
+  return record;
+};
+
+export const revokeToken = async (id: string) => {
+  await prisma.authToken.update({ where: { id }, data: { revokedAt: new Date() } });
+};
+
+const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+/**
+ * Express middleware rejecting requests without a valid bearer token.
+ * On success `res.locals.userId` and `res.locals.authTokenId` are set.
+ */
+export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = getBearerToken(req);
+    if (!token) return res.status(401).json({ error: 'authentication required' });
+
+    const record = await verifyToken(token);
+    if (!record) return res.status(401).json({ error: 'invalid or expired token' });
+
+    res.locals.userId = record.userId;
+    res.locals.authTokenId = record.id;
+    next();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+};
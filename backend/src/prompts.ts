@@ -0,0 +1,1259 @@
+import { Type } from '@google/genai';
+
+// Schemas and prompts for the Gemini calls proxied by the backend.
+// These mirror the ones in the frontend's services/geminiService.ts so the client
+// gets the same response shapes whether it goes through the server or calls Gemini directly.
+
+export const questionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    question: {
+      type: Type.STRING,
+      description: 'A single interview question. No multiple parts, no follow-ups, no numbering.'
+    }
+  },
+  required: ['question']
+};
+
+export const followUpSchema = {
+  type: Type.OBJECT,
+  properties: {
+    askFollowUp: {
+      type: Type.BOOLEAN,
+      description: "True if the candidate's last answer warrants drilling down with a follow-up question."
+    },
+    question: {
+      type: Type.STRING,
+      description: "The follow-up question, referencing the candidate's previous answer. Empty when askFollowUp is false."
+    }
+  },
+  required: ['askFollowUp', 'question']
+};
+
+export const sessionReportSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: 'Two or three sentences summarising how the session went overall.'
+    },
+    strengths: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Specific things the candidate did well across their answers.'
+    },
+    weaknesses: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Specific gaps or habits the candidate should work on.'
+    },
+    topicsCovered: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Short topic names covered by the questions, e.g. 'Closures', 'Event loop'."
+    },
+    recommendedDifficulty: {
+      type: Type.STRING,
+      enum: ['Beginner', 'Intermediate', 'Advanced'],
+      description: 'The difficulty the candidate should practise at next.'
+    }
+  },
+  required: ['summary', 'strengths', 'weaknesses', 'topicsCovered', 'recommendedDifficulty']
+};
+
+export const baseFeedbackSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: {
+      type: Type.INTEGER,
+      description: "A score from 0 to 10 for the user's answer. 0 is very poor, 10 is excellent."
+    },
+    feedback: {
+      type: Type.STRING,
+      description: "Constructive feedback on the user's answer. Highlight good points and areas for improvement. Be encouraging."
+    },
+    suggestedAnswer: {
+      type: Type.STRING,
+      description: 'An ideal, well-structured answer to the original question.'
+    },
+    rubricScores: {
+      type: Type.OBJECT,
+      description: 'Scores from 0 to 10 for each rubric dimension the prompt lists. Leave out dimensions it does not list.',
+      properties: {
+        technicalAccuracy: { type: Type.INTEGER },
+        completeness: { type: Type.INTEGER },
+        clarity: { type: Type.INTEGER },
+        structure: { type: Type.INTEGER },
+        examples: { type: Type.INTEGER }
+      }
+    }
+  },
+  required: ['score', 'feedback', 'suggestedAnswer']
+};
+
+export const visualFeedbackSchema = {
+  ...baseFeedbackSchema,
+  properties: {
+    ...baseFeedbackSchema.properties,
+    nonVerbalFeedback: {
+      type: Type.STRING,
+      description: "Feedback on the user's non-verbal communication (e.g., facial expression, confidence, engagement) based on their image. Comment on their professionalism. Be constructive."
+    }
+  }
+};
+
+const starAnalysisProperty = {
+  type: Type.OBJECT,
+  properties: {
+    elements: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          component: { type: Type.STRING, enum: ['situation', 'task', 'action', 'result'] },
+          strength: { type: Type.STRING, enum: ['strong', 'weak', 'missing'] },
+          excerpt: { type: Type.STRING, description: 'The exact words from the answer that cover this part, copied verbatim. Empty when missing.' },
+          comment: { type: Type.STRING, description: 'One sentence on what is there or what to add.' }
+        },
+        required: ['component', 'strength', 'excerpt', 'comment']
+      }
+    }
+  },
+  required: ['elements']
+};
+
+/**
+ * A feedback schema that also asks for a STAR breakdown of a behavioral answer
+ */
+export const withStarAnalysis = <T extends typeof baseFeedbackSchema>(schema: T) => ({
+  ...schema,
+  properties: { ...schema.properties, starAnalysis: starAnalysisProperty },
+  required: [...schema.required, 'starAnalysis']
+});
+
+const correctionsProperty = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      original: { type: Type.STRING, description: 'The wrong words exactly as they appear in the answer.' },
+      corrected: { type: Type.STRING, description: 'How those words should have been said.' },
+      type: { type: Type.STRING, enum: ['grammar', 'vocabulary', 'pronunciation'] },
+      rule: { type: Type.STRING, description: "Short rule name, e.g. 'Subject-verb agreement'." },
+      explanation: { type: Type.STRING, description: 'One sentence explaining the rule.' }
+    },
+    required: ['original', 'corrected', 'type', 'rule', 'explanation']
+  }
+};
+
+/**
+ * A feedback schema that also asks for language corrections to an English practice answer
+ */
+export const withCorrections = <T extends typeof baseFeedbackSchema>(schema: T) => ({
+  ...schema,
+  properties: { ...schema.properties, corrections: correctionsProperty },
+  required: [...schema.required, 'corrections']
+});
+
+const componentFeedbackProperty = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      component: { type: Type.STRING, description: 'The id of a component as listed on the diagram, e.g. n1.' },
+      concern: { type: Type.STRING, enum: ['scalability', 'bottleneck', 'dataStore', 'reliability'] },
+      comment: { type: Type.STRING, description: 'One or two sentences on the problem and how to fix it.' }
+    },
+    required: ['component', 'concern', 'comment']
+  }
+};
+
+/**
+ * A feedback schema that also asks for feedback on individual components of a system design diagram
+ */
+export const withComponentFeedback = <T extends typeof baseFeedbackSchema>(schema: T) => ({
+  ...schema,
+  properties: { ...schema.properties, componentFeedback: componentFeedbackProperty },
+  required: [...schema.required, 'componentFeedback']
+});
+
+export const codeFeedbackSchema = {
+  ...baseFeedbackSchema,
+  properties: {
+    ...baseFeedbackSchema.properties,
+    codeScores: {
+      type: Type.OBJECT,
+      properties: {
+        correctness: { type: Type.INTEGER, description: '0-10: does the code solve the problem, including edge cases?' },
+        complexity: { type: Type.INTEGER, description: '0-10: are the time and space complexity appropriate for the problem?' },
+        style: { type: Type.INTEGER, description: '0-10: naming, structure, readability and idiomatic use of the language' }
+      },
+      required: ['correctness', 'complexity', 'style']
+    }
+  },
+  required: [...baseFeedbackSchema.required, 'codeScores']
+};
+
+export const codingQuestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    question: {
+      type: Type.STRING,
+      description: 'The problem statement: what the function receives, what it returns, and one small example.'
+    },
+    functionName: {
+      type: Type.STRING,
+      description: 'The exact name of the function the candidate must write, e.g. twoSum'
+    },
+    testCases: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          args: { type: Type.STRING, description: 'JSON array of the arguments to call the function with, e.g. "[[2, 7, 11, 15], 9]"' },
+          expected: { type: Type.STRING, description: 'JSON of the exact return value expected, e.g. "[0, 1]"' }
+        },
+        required: ['args', 'expected']
+      },
+      description: 'Four to six test cases including edge cases. Expected values must be the only correct answer (no "any order").'
+    }
+  },
+  required: ['question', 'functionName', 'testCases']
+};
+
+export const objectiveQuestionsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ['mcq', 'numerical'] },
+          question: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Exactly four options; multiple choice only.' },
+          correctOption: { type: Type.INTEGER, description: 'Index (0-3) of the correct option; multiple choice only.' },
+          correctValue: { type: Type.NUMBER, description: 'The answer; numerical questions only.' },
+          tolerance: { type: Type.NUMBER, description: 'Allowed distance from correctValue; numerical questions only.' },
+          explanation: { type: Type.STRING, description: 'A short worked solution.' },
+          topic: { type: Type.STRING },
+          marks: { type: Type.INTEGER, description: '1, or 2 for harder questions.' }
+        },
+        required: ['type', 'question', 'explanation', 'topic', 'marks']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+export const mainsFeedbackSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: {
+      type: Type.INTEGER,
+      description: 'A score from 0 to 10 for the answer as a whole.'
+    },
+    feedback: {
+      type: Type.STRING,
+      description: 'What an examiner would tell the candidate: what earned marks, what lost them and what to change next time.'
+    },
+    suggestedAnswer: {
+      type: Type.STRING,
+      description: 'A model answer within the word limit, with an introduction, sub-headed body and conclusion.'
+    },
+    criteria: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterion: { type: Type.STRING, enum: ['introduction', 'body', 'examples', 'conclusion'] },
+          score: { type: Type.INTEGER, description: '0-10' },
+          comment: { type: Type.STRING, description: 'One or two sentences on what is there or what to add.' }
+        },
+        required: ['criterion', 'score', 'comment']
+      }
+    }
+  },
+  required: ['score', 'feedback', 'suggestedAnswer', 'criteria']
+};
+
+export const resumeParsingSchema = {
+  type: Type.OBJECT,
+  properties: {
+    skills: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'List of technical and professional skills found in the resume'
+    },
+    projects: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'List of projects and their descriptions found in the resume'
+    },
+    experience: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'List of work experience and roles mentioned in the resume'
+    },
+    education: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'List of educational qualifications mentioned in the resume'
+    },
+    suggestions: {
+      type: Type.OBJECT,
+      properties: {
+        toAdd: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: 'Skills the candidate should consider adding based on their goals/projects'
+        },
+        toRemove: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: 'Outdated or irrelevant skills/buzzwords they should consider removing'
+        },
+        justification: {
+          type: Type.STRING,
+          description: 'A brief, professional explanation for these suggestions'
+        }
+      },
+      required: ['toAdd', 'toRemove', 'justification']
+    }
+  },
+  required: ['skills', 'projects', 'experience', 'education', 'suggestions']
+};
+
+export const jobDescriptionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: {
+      type: Type.STRING,
+      description: 'The job title, or a short description of the role if no title is given'
+    },
+    requiredSkills: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Skills, technologies and qualifications the posting says are required. Short names, e.g. 'React', 'SQL'."
+    },
+    preferredSkills: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Skills listed as nice-to-have, preferred or a bonus'
+    },
+    responsibilities: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'The main day-to-day responsibilities of the role, one short sentence each'
+    }
+  },
+  required: ['title', 'requiredSkills', 'preferredSkills', 'responsibilities']
+};
+
+export const bulletRewriteSchema = {
+  type: Type.OBJECT,
+  properties: {
+    rewrites: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'The id of the bullet being rewritten, copied exactly' },
+          rewritten: { type: Type.STRING, description: 'The improved bullet: starts with a strong action verb and states a concrete, quantified impact' },
+          rationale: { type: Type.STRING, description: 'One short sentence on what was improved' }
+        },
+        required: ['id', 'rewritten', 'rationale']
+      },
+      description: 'One entry per bullet that can be improved. Leave out bullets that are already strong.'
+    }
+  },
+  required: ['rewrites']
+};
+
+export interface ResumeData {
+  skills: string[];
+  projects: string[];
+  experience: string[];
+  education: string[];
+}
+
+export interface JobDescriptionData {
+  title: string;
+  requiredSkills: string[];
+  preferredSkills: string[];
+  responsibilities: string[];
+}
+
+export interface JobContext {
+  jobDescription: JobDescriptionData;
+  gapAnalysis: {
+    matchedSkills: string[];
+    missingRequiredSkills: string[];
+    missingPreferredSkills: string[];
+    matchScore: number;
+  };
+}
+
+export interface ConversationTurn {
+  role: 'interviewer' | 'candidate';
+  text: string;
+}
+
+export const isConversation = (value: unknown): value is ConversationTurn[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(turn => turn && (turn.role === 'interviewer' || turn.role === 'candidate') && typeof turn.text === 'string');
+
+export interface ReportTurn {
+  question: string;
+  answer: string;
+  score: number;
+  feedback: string;
+  followUp?: boolean;
+}
+
+export const isReportTurns = (value: unknown): value is ReportTurn[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(t => t && typeof t.question === 'string' && typeof t.answer === 'string' && typeof t.score === 'number' && typeof t.feedback === 'string');
+
+export const isDifficulty = (value: unknown): value is 'Beginner' | 'Intermediate' | 'Advanced' =>
+  value === 'Beginner' || value === 'Intermediate' || value === 'Advanced';
+
+export const CODING_LANGUAGE_NAMES: Record<string, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+  java: 'Java',
+  cpp: 'C++',
+  csharp: 'C#',
+  go: 'Go',
+  rust: 'Rust',
+  kotlin: 'Kotlin',
+  swift: 'Swift',
+  php: 'PHP',
+  ruby: 'Ruby',
+};
+
+export const isCodingLanguage = (value: unknown): value is string =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(CODING_LANGUAGE_NAMES, value);
+
+// Mirrors services/rubrics.ts: the dimensions each subject family is scored on
+type RubricFamily = 'engineering' | 'behavioral' | 'english' | 'exam';
+
+const RUBRICS: Record<RubricFamily, Array<[string, string]>> = {
+  engineering: [
+    ['technicalAccuracy', 'are the facts, terms and reasoning correct?'],
+    ['completeness', 'does it cover the key points, trade-offs and edge cases the question calls for?'],
+    ['clarity', 'could another engineer follow the explanation?'],
+    ['examples', 'does it use concrete code, scenarios or real-world use to back up the points?'],
+  ],
+  behavioral: [
+    ['structure', 'does it walk through the situation, their own actions and the result in order?'],
+    ['examples', 'is it grounded in a specific, real experience rather than generalities?'],
+    ['clarity', 'is it concise, confident and easy to follow?'],
+    ['completeness', 'does it answer what was asked, including the outcome and what they learned?'],
+  ],
+  english: [
+    ['clarity', 'grammar, vocabulary and how easily the meaning comes across'],
+    ['structure', 'do the ideas flow logically, with linking words between them?'],
+    ['examples', 'does it support its points with details or examples?'],
+    ['completeness', 'does it fully answer the question at a natural length?'],
+  ],
+  exam: [
+    ['technicalAccuracy', 'are the facts, figures, formulas or provisions correct?'],
+    ['completeness', 'does it cover every part of the question at the depth the exam expects?'],
+    ['structure', 'is it organised the way a model exam answer would be?'],
+    ['examples', 'does it cite relevant examples, data, cases or derivations?'],
+  ],
+};
+
+const SUBJECT_FAMILIES: Record<string, RubricFamily> = {
+  'HR Interview': 'behavioral',
+  'English Speaking Practice': 'english',
+  'GATE Exam': 'exam',
+  'UPSC Exam': 'exam',
+};
+
+// Programming subjects, company interviews and resume interviews are all scored as engineering answers
+const getRubric = (subject: string): Array<[string, string]> => RUBRICS[SUBJECT_FAMILIES[subject] ?? 'engineering'];
+
+const describeRubric = (subject: string): string =>
+  `Also score each of these dimensions from 0 to 10 in 'rubricScores':\n${getRubric(subject).map(([dimension, description]) => `- ${dimension}: ${description}`).join('\n')}\nThe overall 'score' should be consistent with them.`;
+
+/**
+ * Keep the model's scores for the subject's own dimensions, rounded and clamped to 0-10
+ */
+export const normalizeRubricScores = (value: unknown, subject: string): Record<string, number> | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const scores: Record<string, number> = {};
+  getRubric(subject).forEach(([dimension]) => {
+    const score = (value as Record<string, unknown>)[dimension];
+    if (typeof score === 'number' && Number.isFinite(score)) {
+      scores[dimension] = Math.max(0, Math.min(10, Math.round(score)));
+    }
+  });
+  return Object.keys(scores).length > 0 ? scores : undefined;
+};
+
+// Mirrors services/starService.ts
+const STAR_COMPONENTS = ['situation', 'task', 'action', 'result'];
+const STAR_STRENGTHS = ['strong', 'weak', 'missing'];
+const STRENGTH_CREDIT: Record<string, number> = { strong: 1, weak: 0.5, missing: 0 };
+
+const BEHAVIORAL_QUESTION = /\b(?:tell (?:me|us) about a time|describe a (?:\w+ )?(?:time|situation)|give (?:me |us )?an example|walk (?:me|us) through a (?:\w+ )?(?:time|situation)|a time when|how did you (?:handle|deal with|resolve|manage|overcome)|have you ever)\b/i;
+
+export const isBehavioralQuestion = (question: string): boolean => BEHAVIORAL_QUESTION.test(question);
+
+const STAR_INSTRUCTIONS = `This is a behavioral answer, so also break it down with the STAR method in 'starAnalysis.elements', one entry each for situation, task, action and result:
+- 'strength': 'strong' if it's clearly there with specifics, 'weak' if it's vague or only implied, 'missing' if it isn't there
+- 'excerpt': the words from their answer that cover it, copied exactly (empty when missing)
+- 'comment': one short sentence on what's there or what to add
+Call out the missing and weak parts in the feedback.`;
+
+/**
+ * One element per STAR component in order, with excerpts kept only when they're verbatim in the answer
+ */
+export const normalizeStarAnalysis = (value: any, answer: string) => {
+  if (!Array.isArray(value?.elements)) return undefined;
+  const lowerAnswer = answer.toLowerCase();
+  const elements = STAR_COMPONENTS.map(component => {
+    const found = value.elements.find((e: any) => e?.component === component);
+    const strength: string = STAR_STRENGTHS.includes(found?.strength) ? found.strength : 'missing';
+    const excerpt = typeof found?.excerpt === 'string' ? found.excerpt.trim() : '';
+    return {
+      component,
+      strength,
+      excerpt: strength !== 'missing' && excerpt && lowerAnswer.includes(excerpt.toLowerCase()) ? excerpt : undefined,
+      comment: typeof found?.comment === 'string' ? found.comment : '',
+    };
+  });
+  const credit = elements.reduce((sum, element) => sum + STRENGTH_CREDIT[element.strength], 0);
+  return { elements, completeness: Math.round((credit / STAR_COMPONENTS.length) * 100) };
+};
+
+// Mirrors services/companyTracks.ts: what each kind of round asks and how each company asks it
+const ROUND_FOCUS: Record<string, string> = {
+  onlineAssessment: 'a timed coding problem with a clear input and output, like an online assessment',
+  aptitude: 'a quantitative aptitude, logical reasoning or verbal ability question with one correct answer, like a campus placement test',
+  technical: 'core computer science and programming: data structures, algorithms, OOP, databases, operating systems and networks',
+  systemDesign: 'designing a real system end to end: requirements, components, data model, scaling and trade-offs',
+  managerial: 'how they have handled ownership, conflict, prioritisation and working with a team, drawn from their past projects',
+  hr: 'motivation, fit with the company, career goals and behavioral questions about past experience',
+};
+
+const COMPANY_STYLES: Record<string, { questionStyle: string; principles?: { name: string; items: string[] } }> = {
+  'Google': { questionStyle: "Open-ended algorithm problems where the candidate is expected to clarify the problem, talk through approaches and their complexity, then refine. Behavioral questions look for 'Googleyness': comfort with ambiguity, collaboration and intellectual humility." },
+  'Microsoft': { questionStyle: 'Practical problem solving with an emphasis on working, well-tested code and explaining design choices. Behavioral questions often come back to a growth mindset and learning from failure.' },
+  'Amazon': {
+    questionStyle: 'Behavioral questions are built around the Leadership Principles and expect specific stories with data and measurable results. Coding and design questions are practical and often framed around services at Amazon scale.',
+    principles: {
+      name: 'Leadership Principles',
+      items: [
+        'Customer Obsession', 'Ownership', 'Invent and Simplify', 'Are Right, A Lot', 'Learn and Be Curious',
+        'Hire and Develop the Best', 'Insist on the Highest Standards', 'Think Big', 'Bias for Action', 'Frugality',
+        'Earn Trust', 'Dive Deep', 'Have Backbone; Disagree and Commit', 'Deliver Results',
+        "Strive to be Earth's Best Employer", 'Success and Scale Bring Broad Responsibility',
+      ],
+    },
+  },
+  'Apple': { questionStyle: "Deep dives into past projects and the details of the candidate's own domain, with attention to quality, user experience and cross-functional work." },
+  'Meta': { questionStyle: 'Fast-paced coding, usually two problems in 45 minutes, so a clear, optimal solution matters more than a long discussion. Behavioral questions focus on impact, conflict and moving fast.' },
+  'Netflix': { questionStyle: 'Senior-level expectations throughout: pragmatic design for streaming scale and reliability, and culture questions about freedom and responsibility, candour, and context over control.' },
+  'TCS (Tata Consultancy Services)': { questionStyle: "Campus-placement style: aptitude from the National Qualifier Test, then programming fundamentals, OOP, DBMS and the candidate's final-year project. HR asks about relocation, shifts and willingness to learn new technologies." },
+  'Infosys': { questionStyle: 'Logical reasoning and puzzle-style aptitude with pseudo-code output questions, then the fundamentals of one programming language, DBMS and SQL. HR checks communication and flexibility.' },
+  'Wipro': { questionStyle: 'Aptitude, verbal ability and written communication in the National Level Talent Hunt, then programming basics and a walk through their project. HR focuses on communication and adaptability.' },
+  'HCL Technologies': { questionStyle: 'Aptitude and basic programming, then C, C++ or Java along with networking and operating system concepts used in infrastructure and support projects.' },
+  'Cognizant': { questionStyle: 'Aptitude and automata-style coding in the GenC assessment, then OOP, SQL and project questions. HR looks at communication, teamwork and readiness to work on client projects.' },
+  'IBM': { questionStyle: "A coding assessment, then technical questions on the candidate's projects and on cloud and data fundamentals. Behavioral questions center on client focus and teamwork." },
+  'Oracle': { questionStyle: 'Strong emphasis on databases, SQL and Java; design questions tend to revolve around data-heavy enterprise systems.' },
+  'Accenture': { questionStyle: 'Cognitive and technical assessment covering pseudo-code, networking and cloud basics, then a combined technical and HR interview about projects, teamwork and client scenarios.' },
+};
+
+export interface CompanyRound {
+  type: string;
+  name: string;
+}
+
+export const isCompanyRound = (company: unknown, round: any): round is CompanyRound =>
+  typeof company === 'string' && company in COMPANY_STYLES &&
+  !!round && typeof round.type === 'string' && round.type in ROUND_FOCUS &&
+  typeof round.name === 'string' && round.name.length > 0 && round.name.length <= 60;
+
+export const describeCompanyRound = (company: string, round: CompanyRound): string => {
+  const style = COMPANY_STYLES[company];
+  const isBehavioral = round.type === 'managerial' || round.type === 'hr';
+  const principles = style.principles && isBehavioral
+    ? ` Base the question on one of ${company}'s ${style.principles.name}: ${style.principles.items.join(', ')}.`
+    : '';
+  return `This is the ${round.name} round of a ${company} interview, so ask about ${ROUND_FOCUS[round.type]}. How ${company} interviews: ${style.questionStyle}${principles}`;
+};
+
+// Mirrors services/correctionService.ts
+const CORRECTION_RULES = [
+  'Verb tense', 'Subject-verb agreement', 'Articles', 'Prepositions', 'Plurals',
+  'Pronouns', 'Word order', 'Word choice', 'Sentence structure', 'Mispronounced word',
+];
+const CORRECTION_TYPES = ['grammar', 'vocabulary', 'pronunciation'];
+const MAX_CORRECTIONS = 10;
+export const MAX_FOCUS_MISTAKES = 5;
+
+export const isMistakeFocus = (value: unknown): value is string[] =>
+  isStringArray(value) && value.length <= MAX_FOCUS_MISTAKES && value.every(rule => rule.length <= 60);
+
+const getCorrectionInstructions = (focusMistakes: string[]): string => `This is English speaking practice, so also correct their language in 'corrections'. For each mistake give:
+- 'original': the wrong words exactly as they appear in their answer, just the phrase that's wrong
+- 'corrected': how it should have been said
+- 'type': 'grammar', 'vocabulary' for a wrong or unnatural word, or 'pronunciation' when a word makes no sense in context (the answer came from speech recognition, so it was probably mispronounced)
+- 'rule': a short rule name, one of ${CORRECTION_RULES.join(', ')} where it fits
+- 'explanation': one sentence explaining the rule
+Don't correct informal but natural spoken English, and leave 'corrections' empty if there's nothing to fix.${focusMistakes.length > 0
+  ? `\nThey keep making these mistakes: ${focusMistakes.join(', ')}. Check carefully for them and say in the feedback whether they avoided them this time.`
+  : ''}`;
+
+export const getMistakeFocusPrompt = (focusMistakes: string[]): string =>
+  focusMistakes.length > 0
+    ? `\n\nThey are working on these recurring mistakes: ${focusMistakes.join(', ')}. Ask a question whose natural answer would use those structures, e.g. a question about the past for verb tense.`
+    : '';
+
+/**
+ * Corrections that point at words really in the answer and change something
+ */
+export const normalizeCorrections = (value: unknown, answer: string) => {
+  if (!Array.isArray(value)) return undefined;
+  const lowerAnswer = answer.toLowerCase();
+  const corrections = value
+    .filter((c: any) =>
+      c &&
+      typeof c.original === 'string' && c.original.trim() &&
+      typeof c.corrected === 'string' &&
+      typeof c.rule === 'string' && c.rule.trim() &&
+      typeof c.explanation === 'string' &&
+      CORRECTION_TYPES.includes(c.type) &&
+      c.original.trim() !== c.corrected.trim() &&
+      lowerAnswer.includes(c.original.trim().toLowerCase())
+    )
+    .slice(0, MAX_CORRECTIONS)
+    .map((c: any) => ({ original: c.original.trim(), corrected: c.corrected.trim(), type: c.type, rule: c.rule.trim(), explanation: c.explanation }));
+  return corrections.length > 0 ? corrections : undefined;
+};
+
+// Mirrors services/diagramService.ts
+const DIAGRAM_NODE_KINDS: Record<string, string> = {
+  client: 'Client',
+  loadBalancer: 'Load Balancer',
+  service: 'Service',
+  database: 'Database',
+  cache: 'Cache',
+  queue: 'Queue',
+  storage: 'Object Storage',
+  external: 'External API',
+};
+const DESIGN_CONCERNS = ['scalability', 'bottleneck', 'dataStore', 'reliability'];
+const MAX_DIAGRAM_NODES = 30;
+const MAX_DIAGRAM_EDGES = 60;
+const MAX_DIAGRAM_LABEL_LENGTH = 40;
+const MAX_COMPONENT_FEEDBACK = 8;
+
+export const DESIGN_QUESTION_CONTEXT = 'Ask them to design one real system, like a URL shortener, a chat service or a news feed, scoped to their level. They will sketch its architecture on a diagram and talk you through it, so name the system and its key requirements but leave the design to them.';
+
+export interface SystemDiagram {
+  nodes: Array<{ id: string; kind: string; label: string; x: number; y: number }>;
+  edges: Array<{ id: string; from: string; to: string; label: string }>;
+}
+
+const isDiagramLabel = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= MAX_DIAGRAM_LABEL_LENGTH;
+
+export const isSystemDiagram = (value: any): value is SystemDiagram =>
+  !!value &&
+  Array.isArray(value.nodes) && value.nodes.length <= MAX_DIAGRAM_NODES &&
+  Array.isArray(value.edges) && value.edges.length <= MAX_DIAGRAM_EDGES &&
+  value.nodes.every((n: any) => n && typeof n.id === 'string' && Object.prototype.hasOwnProperty.call(DIAGRAM_NODE_KINDS, n.kind) && isDiagramLabel(n.label) && typeof n.x === 'number' && typeof n.y === 'number') &&
+  value.edges.every((e: any) => e && typeof e.id === 'string' && typeof e.from === 'string' && typeof e.to === 'string' && isDiagramLabel(e.label));
+
+const describeDiagram = (diagram: SystemDiagram): string => {
+  const names = new Map(diagram.nodes.map(n => [n.id, `[${n.id}] ${n.label}`]));
+  const components = diagram.nodes.map(n => `- ${names.get(n.id)} (${DIAGRAM_NODE_KINDS[n.kind]})`);
+  const connections = diagram.edges
+    .filter(e => names.has(e.from) && names.has(e.to))
+    .map(e => `- ${names.get(e.from)} → ${names.get(e.to)}${e.label ? `: ${e.label}` : ''}`);
+  return `Components:\n${components.join('\n')}\nConnections:\n${connections.length > 0 ? connections.join('\n') : '- none'}`;
+};
+
+// The box a feedback entry refers to: by id, or by label when only one box has that label
+const findFeedbackNode = (diagram: SystemDiagram, component: string) => {
+  const name = component.trim().replace(/^\[|\]$/g, '').toLowerCase();
+  const byId = diagram.nodes.find(n => n.id.toLowerCase() === name);
+  if (byId) return byId;
+  const byLabel = diagram.nodes.filter(n => n.label.toLowerCase() === name);
+  return byLabel.length === 1 ? byLabel[0] : undefined;
+};
+
+/**
+ * Component feedback that names a box really on the diagram, with its id and the diagram's spelling of the label
+ */
+export const normalizeComponentFeedback = (value: unknown, diagram: SystemDiagram) => {
+  if (!Array.isArray(value)) return undefined;
+  const feedback = value
+    .map((f: any) => {
+      const node = typeof f?.component === 'string' ? findFeedbackNode(diagram, f.component) : undefined;
+      if (!node || !DESIGN_CONCERNS.includes(f.concern) || typeof f.comment !== 'string' || !f.comment.trim()) return null;
+      return { component: node.label, nodeId: node.id, concern: f.concern, comment: f.comment.trim() };
+    })
+    .filter(f => f !== null)
+    .slice(0, MAX_COMPONENT_FEEDBACK);
+  return feedback.length > 0 ? feedback : undefined;
+};
+
+// Mirrors services/objectiveTests.ts: practice test sections and checking generated questions
+export interface TestSection {
+  name: string;
+  topics: string[];
+  questionCount: number;
+  numerical: boolean;
+}
+
+const MAX_SECTION_QUESTIONS = 15;
+
+export const isTestSection = (value: any): value is TestSection =>
+  !!value &&
+  typeof value.name === 'string' && value.name.length > 0 && value.name.length <= 60 &&
+  isStringArray(value.topics) && value.topics.length > 0 && value.topics.length <= 12 &&
+  Number.isInteger(value.questionCount) && value.questionCount > 0 && value.questionCount <= MAX_SECTION_QUESTIONS &&
+  typeof value.numerical === 'boolean';
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const toObjectiveQuestion = (value: any, section: TestSection) => {
+  if (!value || !isNonEmptyString(value.question) || !isNonEmptyString(value.explanation)) return null;
+  const topic = typeof value.topic === 'string'
+    ? section.topics.find(t => t.toLowerCase() === value.topic.trim().toLowerCase())
+    : undefined;
+  if (!topic) return null;
+  const marks = value.marks === 2 ? 2 : 1;
+  const base = { question: value.question.trim(), explanation: value.explanation.trim(), topic, marks };
+
+  if (value.type === 'mcq') {
+    const options = Array.isArray(value.options) ? value.options : [];
+    const distinct = new Set(options.map((o: unknown) => (typeof o === 'string' ? o.trim().toLowerCase() : '')));
+    if (options.length !== 4 || !options.every(isNonEmptyString) || distinct.size !== 4) return null;
+    if (!Number.isInteger(value.correctOption) || value.correctOption < 0 || value.correctOption > 3) return null;
+    return { type: 'mcq', ...base, options: options.map((o: string) => o.trim()), correctOption: value.correctOption };
+  }
+  if (value.type === 'numerical' && section.numerical) {
+    if (typeof value.correctValue !== 'number' || !Number.isFinite(value.correctValue)) return null;
+    const tolerance = typeof value.tolerance === 'number' && Number.isFinite(value.tolerance) && value.tolerance >= 0 ? value.tolerance : 0;
+    return { type: 'numerical', ...base, correctValue: value.correctValue, tolerance };
+  }
+  return null;
+};
+
+/**
+ * Questions that can be graded without the model, without repeats, up to the section's count
+ */
+export const normalizeObjectiveQuestions = (value: unknown, section: TestSection) => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value
+    .map(q => toObjectiveQuestion(q, section))
+    .filter(q => {
+      if (!q || seen.has(q.question)) return false;
+      seen.add(q.question);
+      return true;
+    })
+    .slice(0, section.questionCount);
+};
+
+// Mirrors services/mainsAnswers.ts: UPSC Mains papers, word limits and the examiner's rubric
+const MAINS_PAPERS: Record<string, { name: string; topics: string[] }> = {
+  GS1: { name: 'GS Paper I', topics: ['Indian Heritage and Culture', 'Modern Indian History', 'World History', 'Indian Society', 'Geography of India and the World'] },
+  GS2: { name: 'GS Paper II', topics: ['Indian Constitution and Polity', 'Governance', 'Social Justice', 'International Relations'] },
+  GS3: { name: 'GS Paper III', topics: ['Indian Economy', 'Agriculture', 'Science and Technology', 'Environment and Biodiversity', 'Disaster Management', 'Internal Security'] },
+  GS4: { name: 'GS Paper IV', topics: ['Ethics and Human Interface', 'Attitude and Aptitude', 'Emotional Intelligence', 'Probity in Governance', 'Case Studies'] },
+};
+
+const WORD_LIMITS: Record<number, { marks: number; minutes: number }> = {
+  150: { marks: 10, minutes: 7 },
+  250: { marks: 15, minutes: 11 },
+};
+
+const MAINS_CRITERIA: Array<[string, string]> = [
+  ['introduction', 'does it open with context, a definition or a fact that frames the question, in two or three lines?'],
+  ['body', 'does it address every part of the directive (discuss, examine, critically analyse...) under clear sub-points or headings?'],
+  ['examples', 'does it back its points with data, reports, schemes, judgments, case studies or current affairs?'],
+  ['conclusion', 'does it close with a balanced, forward-looking way ahead rather than repeating the body?'],
+];
+
+const WORD_LIMIT_LEEWAY = 0.1;
+const MIN_WORD_SHARE = 0.8;
+export const MAX_MAINS_ANSWER_LENGTH = 12000;
+
+export interface AnswerWritingSettings {
+  paper: string;
+  wordLimit: number;
+}
+
+export const isAnswerWritingSettings = (value: any): value is AnswerWritingSettings =>
+  !!value && Object.keys(MAINS_PAPERS).includes(value.paper) &&
+  typeof value.wordLimit === 'number' && Object.keys(WORD_LIMITS).includes(String(value.wordLimit));
+
+const countWords = (text: string): number => text.trim().split(/\s+/).filter(Boolean).length;
+
+const scoreWordLimit = (wordCount: number, wordLimit: number) => {
+  const ratio = wordCount / wordLimit;
+  const over = ratio > 1 + WORD_LIMIT_LEEWAY;
+  const within = !over && ratio >= MIN_WORD_SHARE;
+  const score = over
+    ? Math.max(0, 10 - Math.ceil((ratio - 1 - WORD_LIMIT_LEEWAY) / 0.1) * 2)
+    : within ? 10 : Math.round((ratio / MIN_WORD_SHARE) * 10);
+  const comment = over
+    ? `${wordCount} words for a ${wordLimit}-word answer. In the exam that time comes out of the next question, so trim the body.`
+    : within
+      ? `${wordCount} words for a ${wordLimit}-word answer, within the limit.`
+      : `${wordCount} words for a ${wordLimit}-word answer. Too short to cover the question at the depth its marks expect.`;
+  return { criterion: 'wordLimit', score, comment };
+};
+
+/**
+ * The model's rubric scores completed with the measured word-limit score, and marks scaled from
+ * their average to the nearest half mark. Undefined unless every judged criterion was scored.
+ */
+export const normalizeMainsEvaluation = (value: unknown, answer: string, settings: AnswerWritingSettings) => {
+  if (!Array.isArray(value)) return undefined;
+  const judged = MAINS_CRITERIA.map(([criterion]) => {
+    const entry = value.find((c: any) => c?.criterion === criterion);
+    if (!entry || typeof entry.score !== 'number' || !Number.isFinite(entry.score)) return null;
+    return {
+      criterion,
+      score: Math.max(0, Math.min(10, Math.round(entry.score))),
+      comment: typeof entry.comment === 'string' ? entry.comment.trim() : '',
+    };
+  });
+  if (judged.some(c => c === null)) return undefined;
+
+  const wordCount = countWords(answer);
+  const criteria = [...(judged as Array<{ criterion: string; score: number; comment: string }>), scoreWordLimit(wordCount, settings.wordLimit)];
+  const maxMarks = WORD_LIMITS[settings.wordLimit].marks;
+  const average = criteria.reduce((sum, c) => sum + c.score, 0) / criteria.length;
+  const marks = Math.round((average / 10) * maxMarks * 2) / 2;
+  return { paper: settings.paper, wordLimit: settings.wordLimit, wordCount, criteria, marks, maxMarks };
+};
+
+export interface CodeTestCase {
+  args: unknown[];
+  expected: unknown;
+}
+
+export interface CodeTestRun {
+  results: Array<{ args: unknown[]; expected: unknown; passed: boolean; actual?: string; error?: string }>;
+  passed: number;
+  total: number;
+  error?: string;
+}
+
+export const isCodeTestRun = (value: any): value is CodeTestRun =>
+  !!value &&
+  typeof value.passed === 'number' &&
+  typeof value.total === 'number' &&
+  (value.error === undefined || typeof value.error === 'string') &&
+  Array.isArray(value.results) &&
+  value.results.every((r: any) => r && Array.isArray(r.args) && typeof r.passed === 'boolean');
+
+/**
+ * Test cases come back with JSON-encoded args and expected values (the response schema
+ * can't describe arbitrary JSON); decode them and drop any that don't parse.
+ */
+export const parseModelTestCases = (value: unknown): CodeTestCase[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(raw => {
+    try {
+      const args = JSON.parse(raw?.args);
+      const expected = JSON.parse(raw?.expected);
+      return Array.isArray(args) ? [{ args, expected }] : [];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export const isResumeData = (value: any): value is ResumeData =>
+  !!value &&
+  ['skills', 'projects', 'experience', 'education'].every(key => Array.isArray(value[key]));
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const isJobDescriptionData = (value: any): value is JobDescriptionData =>
+  !!value &&
+  typeof value.title === 'string' &&
+  ['requiredSkills', 'preferredSkills', 'responsibilities'].every(key => isStringArray(value[key]));
+
+export interface ResumeBullet {
+  id: string;
+  section: 'experience' | 'projects';
+  text: string;
+}
+
+export const isBulletList = (value: unknown): value is ResumeBullet[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(b => b && typeof b.id === 'string' && (b.section === 'experience' || b.section === 'projects') && typeof b.text === 'string');
+
+export const isJobContext = (value: any): value is JobContext =>
+  !!value &&
+  isJobDescriptionData(value.jobDescription) &&
+  !!value.gapAnalysis &&
+  ['matchedSkills', 'missingRequiredSkills', 'missingPreferredSkills'].every(key => isStringArray(value.gapAnalysis[key])) &&
+  typeof value.gapAnalysis.matchScore === 'number';
+
+// Parse the model's JSON reply, tolerating stray text around the JSON block.
+export const parseModelJson = (raw: string): any => {
+  const text = (raw || '').trim();
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    const match = text.match(/\{[\s\S]*\}/);
+    if (match) {
+      return JSON.parse(match[0]);
+    }
+    throw new Error('Could not parse JSON from model response');
+  }
+};
+
+export const getEvaluationPrompt = (question: string, answer: string, subject: string, difficulty: string, withVisualAnalysis: boolean, focusMistakes: string[] = []): string => {
+  let evaluationCriteria = '';
+  let examContext = '';
+
+  if (subject === 'GATE Exam' || subject === 'UPSC Exam') {
+    examContext = `This is ${subject} prep, so think like an expert in that field would. `;
+  }
+
+  switch (difficulty) {
+    case 'Beginner':
+      evaluationCriteria = 'Assess their understanding like a supportive mentor. Is the core concept there? That\'s what matters at this stage. Be encouraging—point out what they got right and gently guide them on what could be better. Your suggested answer should be simple and clear, not overwhelming.';
+      break;
+    case 'Intermediate':
+      evaluationCriteria = 'Evaluate like you\'re checking if they really understand this stuff and can apply it. Is their answer correct? Is it complete? Can they handle real situations? Give them solid feedback that helps them improve. Your suggested answer should be professional and thorough.';
+      break;
+    case 'Advanced':
+      evaluationCriteria = 'Think critically like you\'re talking to another senior person. Do they understand the deep concepts? Are they thinking about edge cases and trade-offs? This should be challenging feedback that pushes them. Your suggested answer should be expert-level and show best practices.';
+      break;
+  }
+
+  const visualAnalysisInstruction = withVisualAnalysis
+    ? "Also, look at their facial expression in the image. Are they confident? Engaged? Professional-looking? Comment naturally on what you see. Include this in the 'nonVerbalFeedback' field."
+    : '';
+
+  return `
+        You're coaching someone preparing for ${subject} at ${difficulty} level.
+        ${examContext}${evaluationCriteria}
+        ${visualAnalysisInstruction}
+
+        Question they were asked: "${question}"
+        Their answer: "${answer}"
+
+        ${describeRubric(subject)}
+        ${subject === 'HR Interview' ? STAR_INSTRUCTIONS : ''}
+        ${subject === 'English Speaking Practice' ? getCorrectionInstructions(focusMistakes) : ''}
+
+        Give them real, human feedback. Be honest but kind. Return JSON with:
+        1. 'score': A number from 0-10
+        2. 'feedback': What you really think about their answer (honest, encouraging, specific)
+        3. 'suggestedAnswer': How an ideal answer to this question might sound
+        4. 'rubricScores': The per-dimension scores above
+        ${withVisualAnalysis ? "5. 'nonVerbalFeedback': Your thoughts on their presence and confidence (based on their image)" : ''}
+    `;
+};
+
+const MAX_REPORTED_FAILURES = 5;
+
+const describeTestRun = (testRun: CodeTestRun): string => {
+  if (testRun.error && testRun.results.length === 0) {
+    return `\nWe tried to run their code but it failed before any test ran: ${testRun.error}\n`;
+  }
+  const failures = testRun.results
+    .filter(r => !r.passed)
+    .slice(0, MAX_REPORTED_FAILURES)
+    .map(r => `- args ${JSON.stringify(r.args)}: expected ${JSON.stringify(r.expected)}, ${r.error ? `threw ${r.error}` : `got ${r.actual ?? 'undefined'}`}`);
+  return `
+We ran their code against ${testRun.total} test case(s) and ${testRun.passed} passed.${testRun.error ? ` The run was stopped: ${testRun.error}.` : ''}
+${failures.length > 0 ? `Failing cases:\n${failures.join('\n')}\n` : ''}These results are real execution output: base the correctness score on them, and explain any failures in the feedback.
+`;
+};
+
+export const getCodeEvaluationPrompt = (question: string, code: string, language: string, subject: string, difficulty: string, testRun?: CodeTestRun): string => `You're a ${difficulty}-level ${subject} coding interviewer reviewing a candidate's solution written in ${CODING_LANGUAGE_NAMES[language] ?? language}.
+
+Problem: "${question}"
+
+Their code:
+\`\`\`${language}
+${code}
+\`\`\`
+${testRun ? describeTestRun(testRun) : ''}
+Score it with this rubric, each 0-10:
+- correctness: does it solve the problem, including edge cases (empty input, duplicates, large values)? Trace through it rather than assuming.
+- complexity: are the time and space complexity appropriate? State the complexity you see in the feedback.
+- style: naming, structure, readability and idiomatic ${CODING_LANGUAGE_NAMES[language] ?? language}.
+
+Weight correctness most heavily in the overall 'score' (0-10); code that doesn't work can't score above 4. Point to specific lines or constructs in the feedback. Put a clean reference solution in ${CODING_LANGUAGE_NAMES[language] ?? language} in 'suggestedAnswer'.
+
+Return JSON with 'score', 'feedback', 'suggestedAnswer' and 'codeScores' ({"correctness", "complexity", "style"}).`;
+
+export const getDesignEvaluationPrompt = (question: string, answer: string, diagram: SystemDiagram, subject: string, difficulty: string): string => `You're a ${difficulty}-level ${subject} system design interviewer. The candidate drew an architecture diagram and talked you through it.
+
+Design problem: "${question}"
+
+Their diagram:
+${describeDiagram(diagram)}
+
+What they said: "${answer}"
+
+Judge the design as a whole: does it meet the problem's requirements, are the components and connections sensible, and did they explain the trade-offs?
+${describeRubric(subject)}
+
+Then give feedback on specific components in 'componentFeedback'. Each entry gives one component's id as listed in the diagram (e.g. 'n1') in 'component', a 'concern' and a short comment:
+- 'scalability': it won't keep up as traffic or data grows, e.g. a single instance with no way to scale out
+- 'bottleneck': everything funnels through it, or it sits on the hot path doing slow work
+- 'dataStore': the wrong kind of store for the data or access pattern, a missing index, cache or replica, or unclear consistency
+- 'reliability': a single point of failure, or no retries, redundancy or backpressure
+Only comment on real problems, at most one or two per component. If something important is missing from the diagram altogether, say so in 'feedback' instead.
+
+Return JSON with 'score' (0-10), 'feedback', 'suggestedAnswer' (a short description of a strong design for this problem), 'rubricScores' and 'componentFeedback'.`;
+
+export const getCodingQuestionPrompt = (subject: string, language: string, difficulty: string, previousQuestions: string[]): string => {
+  const avoid = previousQuestions.length > 0
+    ? `\n\nDo NOT repeat any of these:\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+    : '';
+  const scope = difficulty === 'Beginner'
+    ? 'an EASY problem: arrays, strings or simple loops, solvable in under 15 lines'
+    : difficulty === 'Intermediate'
+      ? 'a MEDIUM problem: hash maps, two pointers, sorting, recursion or basic trees'
+      : 'a HARD problem: dynamic programming, graphs, or an efficient solution to a problem with an obvious slow one';
+
+  return `You're a coding interviewer for '${subject}'. Set ${scope}, to be solved in ${CODING_LANGUAGE_NAMES[language] ?? language}.
+
+Describe it in 2-4 sentences: what the function receives, what it must return, and one small example input with its expected output. Name the function to write. Don't include a solution or hints.
+
+Also give the function's exact name and four to six test cases, including edge cases, as JSON-encoded arguments and expected return values. Only use inputs and outputs that JSON can represent, and make sure every expected value is the single correct answer.${avoid}
+
+Return JSON like this: {"question": "Write a function twoSum(nums, target) ...", "functionName": "twoSum", "testCases": [{"args": "[[2, 7, 11, 15], 9]", "expected": "[0, 1]"}]}`;
+};
+
+const OBJECTIVE_LEVELS: Record<string, string> = {
+  Beginner: 'EASY questions: one step, on the basics of each topic',
+  Intermediate: 'MEDIUM questions: two or three steps, typical of the real paper',
+  Advanced: 'HARD questions: the trickiest the paper asks, with tempting wrong options',
+};
+
+export const getObjectiveQuestionsPrompt = (exam: string, section: TestSection, difficulty: string, previousQuestions: string[]): string => {
+  const avoid = previousQuestions.length > 0
+    ? `\n\nDo NOT repeat any of these:\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+    : '';
+  const mix = section.numerical
+    ? "Make most of them multiple choice ('mcq') and about a third numerical answer type ('numerical'), where the candidate types a number."
+    : "Make all of them multiple choice ('mcq').";
+
+  return `You're setting the ${section.name} section of a ${exam} practice test. Write ${section.questionCount} ${OBJECTIVE_LEVELS[difficulty]}, spread across these topics: ${section.topics.join(', ')}.
+
+${mix} For each question give:
+- 'type': 'mcq' or 'numerical'
+- 'question': the full question, with every number and detail needed to solve it
+- 'options' (mcq only): exactly four distinct options, with plausible wrong ones
+- 'correctOption' (mcq only): the index (0-3) of the single correct option
+- 'correctValue' (numerical only): the answer as a plain number
+- 'tolerance' (numerical only): how far an answer may be from it and still count; 0 for exact answers, 0.01 for answers rounded to two decimals
+- 'explanation': a short worked solution
+- 'topic': exactly one of the topics above
+- 'marks': 1, or 2 for the harder questions
+
+Solve every question yourself before writing it down, and make sure exactly one option is correct.${avoid}
+
+Return JSON like this: {"questions": [{"type": "mcq", "question": "...", "options": ["...", "...", "...", "..."], "correctOption": 2, "explanation": "...", "topic": "...", "marks": 1}]}`;
+};
+
+const MAINS_LEVELS: Record<string, string> = {
+  Beginner: "a direct question on one well-known issue, with a simple directive like 'Discuss' or 'Explain'",
+  Intermediate: 'a question typical of recent Mains papers, linking the static syllabus to a current issue',
+  Advanced: "a multi-dimensional question with a demanding directive like 'Critically examine' or 'Evaluate', the kind toppers separate themselves on",
+};
+
+export const getMainsQuestionPrompt = (settings: AnswerWritingSettings, difficulty: string, previousQuestions: string[]): string => {
+  const paper = MAINS_PAPERS[settings.paper];
+  const { marks } = WORD_LIMITS[settings.wordLimit];
+  const avoid = previousQuestions.length > 0
+    ? `\n\nDo NOT repeat any of these:\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+    : '';
+  return `You're setting a UPSC Civil Services Mains question for ${paper.name}, which covers ${paper.topics.join(', ')}. Write ${MAINS_LEVELS[difficulty]}.
+
+It is a ${marks}-mark question, so it must be answerable in ${settings.wordLimit} words. Word it exactly as the paper would, ending with the word limit and marks in brackets, e.g. "(${settings.wordLimit} words, ${marks} marks)".${settings.paper === 'GS4' ? ' It may be a short ethics case study.' : ''}${avoid}
+
+Return JSON with 'question'.`;
+};
+
+export const getMainsEvaluationPrompt = (question: string, answer: string, settings: AnswerWritingSettings, difficulty: string): string => `You're a UPSC Mains examiner marking a ${MAINS_PAPERS[settings.paper].name} answer from a ${difficulty}-level aspirant.
+
+Question (${settings.wordLimit} words, ${WORD_LIMITS[settings.wordLimit].marks} marks): "${question}"
+
+Their answer:
+"""
+${answer}
+"""
+
+Score each of these from 0 to 10 in 'criteria', with a short comment on each:
+${MAINS_CRITERIA.map(([criterion, description]) => `- ${criterion}: ${description}`).join('\n')}
+Word-limit adherence is measured separately, so don't score it.
+
+Mark the way real Mains examiners do: content that answers the directive matters most, and even good answers rarely score above 7. In 'feedback', say what earned marks, what lost them and what to change next time. Put a model answer of about ${settings.wordLimit} words in 'suggestedAnswer'.
+
+Return JSON with 'score' (0-10), 'feedback', 'suggestedAnswer' and 'criteria'.`;
+
+export const getResumeParsingPrompt = (resumeText: string): string => `Please analyze this resume and extract the following information in JSON format:
+- skills: Array of technical and professional skills
+- projects: Array of projects with brief descriptions
+- experience: Array of work experience/job roles
+- education: Array of educational qualifications
+- suggestions: An object with:
+    - toAdd: Skills to add to improve the resume
+    - toRemove: Skills to remove or update
+    - justification: Why these changes matter
+
+Resume content:
+${resumeText}
+
+Return ONLY valid JSON with the exact structure specified.`;
+
+export const getJobDescriptionPrompt = (jobDescriptionText: string): string => `Please analyze this job description and extract, in JSON format:
+- title: The job title
+- requiredSkills: Skills and technologies the role requires
+- preferredSkills: Skills listed as nice-to-have
+- responsibilities: The main responsibilities of the role
+
+Keep skill names short (e.g. "Kubernetes", not "Experience deploying services to Kubernetes").
+
+Job description:
+${jobDescriptionText}
+
+Return ONLY valid JSON with the exact structure specified.`;
+
+export const getBulletRewritePrompt = (bullets: ResumeBullet[]): string => `You're a resume coach. Rewrite these resume bullets so each one:
+- starts with a strong action verb (Built, Led, Reduced, Automated...)
+- states the concrete impact, quantified where possible (%, time saved, users, revenue)
+- stays truthful: keep the facts from the original, and where a number is missing use a clear placeholder like [X%] for the candidate to fill in
+- stays to one line
+
+Bullets:
+${bullets.map(b => `[${b.id}] (${b.section}) ${b.text}`).join('\n')}
+
+Return JSON: {"rewrites": [{"id": "<bullet id>", "rewritten": "...", "rationale": "..."}]}. Skip bullets that are already strong.`;
+
+// With a target role, steer questions towards skills the role needs but the resume doesn't show,
+// then role-critical skills the candidate has, then the role's responsibilities
+const getJobQuestionType = (resumeData: ResumeData, jobContext: JobContext, questionIndex: number): string => {
+  const { jobDescription, gapAnalysis } = jobContext;
+  const round = Math.floor(questionIndex / 4);
+  const pick = (items: string[]): string | undefined => (items.length > 0 ? items[round % items.length] : undefined);
+
+  const gap = pick(gapAnalysis.missingRequiredSkills) ?? pick(gapAnalysis.missingPreferredSkills);
+  const strength = pick(gapAnalysis.matchedSkills);
+  const responsibility = pick(jobDescription.responsibilities);
+
+  const questionTypes = [
+    gap && `The role needs ${gap}, which their resume doesn't show. Ask a question that checks whether they understand ${gap}, or how they would apply closely related experience to it.`,
+    strength && `The role relies on ${strength}, which is on their resume. Ask an in-depth technical question about ${strength} at the level this role expects.`,
+    responsibility && `One responsibility of the role is: "${responsibility}". Ask a scenario question about how they would handle it, drawing on their past experience.`,
+    `Ask a behavioral question related to the experience mentioned (${resumeData.experience[0] || 'work experience'}) and how it prepares them for this role.`
+  ].filter((type): type is string => !!type);
+
+  return questionTypes[questionIndex % questionTypes.length];
+};
+
+export const getResumeQuestionPrompt = (resumeData: ResumeData, questionIndex: number, jobContext?: JobContext): string => {
+  if (jobContext) {
+    const { jobDescription } = jobContext;
+    return `You are interviewing a candidate for the role of ${jobDescription.title}. ${getJobQuestionType(resumeData, jobContext, questionIndex)}
+
+Role requirements:
+Required skills: ${jobDescription.requiredSkills.join(', ')}
+Responsibilities: ${jobDescription.responsibilities.slice(0, 4).join('; ')}
+
+Resume Summary:
+Skills: ${resumeData.skills.join(', ')}
+Projects: ${resumeData.projects.slice(0, 2).join('; ')}
+Experience: ${resumeData.experience.slice(0, 2).join('; ')}
+
+Generate EXACTLY ONE clear, professional interview question. The question should be relevant to this role and assess their technical knowledge or problem-solving approach.
+
+Return ONLY the question in this JSON format: {"question": "Your question here?"}`;
+  }
+
+  // Rotate through different question types based on index
+  const questionTypes = [
+    `Based on the skills mentioned (${resumeData.skills.slice(0, 3).join(', ')}), ask a technical question related to one of these skills.`,
+    'Based on the projects mentioned, ask a question about the most relevant project and how it demonstrates problem-solving.',
+    `Ask a behavioral question related to the experience mentioned (${resumeData.experience[0] || 'work experience'}).`,
+    `Ask a question about how one of the skills (${resumeData.skills[Math.floor(Math.random() * resumeData.skills.length)] || 'mentioned skills'}) has been applied in practice.`
+  ];
+  const selectedType = questionTypes[questionIndex % questionTypes.length];
+
+  return `You are conducting a technical interview based on someone's resume. ${selectedType}
+
+Resume Summary:
+Skills: ${resumeData.skills.join(', ')}
+Projects: ${resumeData.projects.slice(0, 2).join('; ')}
+Experience: ${resumeData.experience.slice(0, 2).join('; ')}
+
+Generate EXACTLY ONE clear, professional interview question. The question should be specific to their resume and assess their technical knowledge or problem-solving approach.
+
+Return ONLY the question in this JSON format: {"question": "Your question here?"}`;
+};
+
+export const getResumeFeedbackPrompt = (question: string, answer: string, resumeData: ResumeData): string => `You are evaluating a resume-based interview answer.
+
+Question asked: "${question}"
+
+Candidate's answer: "${answer}"
+
+Candidate's skills from resume: ${resumeData.skills.join(', ')}
+
+Please evaluate the answer based on:
+1. Technical accuracy and relevance to their stated skills
+2. Clarity and communication
+3. Depth of understanding
+4. How well it aligns with their resume
+
+${describeRubric('Resume Interview')}
+${isBehavioralQuestion(question) ? `\n${STAR_INSTRUCTIONS}\n` : ''}
+Provide constructive feedback and a score from 0-10.`;
+
+export const getCustomQuestionPrompt = (question: string, subject: string, difficulty: string): string =>
+  `You're a friendly interview coach helping someone prepare for ${subject} at the ${difficulty} level. They're asking: "${question}". Give them a helpful, straight answer (keep it under 150 words). Sound like a real person, not a textbook. Be encouraging and practical. Don't ask them follow-up questions.`;
+
+export const getFollowUpPrompt = (subject: string, difficulty: string, history: ConversationTurn[], lastScore: number): string => {
+  const transcript = history
+    .map(turn => `${turn.role === 'interviewer' ? 'Interviewer' : 'Candidate'}: ${turn.text}`)
+    .join('\n');
+
+  return `You're interviewing a candidate on '${subject}' at ${difficulty} level. Here is the conversation on the current question so far:
+
+${transcript}
+
+Their last answer scored ${lastScore}/10. Decide whether a real interviewer would drill down here: probe a vague claim, ask them to go deeper on something they mentioned, or check a gap in their reasoning. If the answer was complete or the thread has run its course, don't ask a follow-up.
+
+If you do ask, ask EXACTLY ONE short follow-up question that directly references something from their last answer. No lists or multiple parts.
+
+Return JSON like this: {"askFollowUp": true, "question": "You mentioned X - how would ...?"} or {"askFollowUp": false, "question": ""}`;
+};
+
+export const getSessionReportPrompt = (subject: string, difficulty: string, turns: ReportTurn[]): string => {
+  const transcript = turns
+    .map((t, i) => `Q${i + 1}${t.followUp ? ' (follow-up)' : ''}: ${t.question}\nAnswer: ${t.answer}\nScore: ${t.score}/10\nEvaluator notes: ${t.feedback}`)
+    .join('\n\n');
+
+  return `You're reviewing a finished ${difficulty} ${subject} practice interview. Here is every question, the candidate's answer, its score and the evaluator's notes:
+
+${transcript}
+
+Write an end-of-session report. Be specific and refer to what they actually said. Keep each strength and weakness to one sentence, list the topics covered, and recommend the difficulty they should practise at next (step up only if they were consistently strong, step down if they struggled).`;
+};
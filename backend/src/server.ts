@@ -1,16 +1,79 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { PrismaClient } from '@prisma/client';
 import { GoogleGenAI } from '@google/genai';
+import {
+  baseFeedbackSchema,
+  visualFeedbackSchema,
+  questionSchema,
+  resumeParsingSchema,
+  isDifficulty,
+  isResumeData,
+  parseModelJson,
+  getEvaluationPrompt,
+  getResumeParsingPrompt,
+  getResumeQuestionPrompt,
+  getResumeFeedbackPrompt,
+  getCustomQuestionPrompt,
+  followUpSchema,
+  isConversation,
+  getFollowUpPrompt,
+  sessionReportSchema,
+  isReportTurns,
+  getSessionReportPrompt,
+  jobDescriptionSchema,
+  isJobDescriptionData,
+  isJobContext,
+  getJobDescriptionPrompt,
+  bulletRewriteSchema,
+  isBulletList,
+  getBulletRewritePrompt,
+  codeFeedbackSchema,
+  isCodingLanguage,
+  getCodeEvaluationPrompt,
+  getCodingQuestionPrompt,
+  codingQuestionSchema,
+  isCodeTestRun,
+  parseModelTestCases,
+  normalizeRubricScores,
+  withStarAnalysis,
+  isBehavioralQuestion,
+  normalizeStarAnalysis,
+  withCorrections,
+  normalizeCorrections,
+  isMistakeFocus,
+  getMistakeFocusPrompt,
+  MAX_FOCUS_MISTAKES,
+  isCompanyRound,
+  describeCompanyRound,
+  withComponentFeedback,
+  isSystemDiagram,
+  normalizeComponentFeedback,
+  getDesignEvaluationPrompt,
+  DESIGN_QUESTION_CONTEXT,
+  objectiveQuestionsSchema,
+  isTestSection,
+  normalizeObjectiveQuestions,
+  getObjectiveQuestionsPrompt,
+  mainsFeedbackSchema,
+  isAnswerWritingSettings,
+  normalizeMainsEvaluation,
+  getMainsQuestionPrompt,
+  getMainsEvaluationPrompt,
+  MAX_MAINS_ANSWER_LENGTH,
+} from './prompts';
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { isProfileData, isSessionRecordData, mergeProfiles, MAX_SESSIONS_PER_SYNC, SessionRecordData } from './sync';
+import { requireAuth, hashPassword, verifyPassword, issueToken, revokeToken, toPublicUser } from './auth';
 
 dotenv.config();
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+// Advanced-mode evaluations carry a base64 webcam frame, which exceeds the default 100kb limit
+app.use(express.json({ limit: '5mb' }));
 
-const prisma = new PrismaClient();
 const port = process.env.PORT || 4000;
 
 // Initialize Gemini client if key provided
@@ -26,10 +89,103 @@ app.get('/api/health', (_req, res) => {
   res.json({ ok: true });
 });
 
-app.post('/api/sessions', async (req, res) => {
+const MIN_PASSWORD_LENGTH = 8;
+
+app.post('/api/auth/register', async (req, res) => {
+  try {
+    const { username, email, password } = req.body;
+    if (typeof username !== 'string' || username.trim().length < 3) {
+      return res.status(400).json({ error: 'Username must be at least 3 characters long.' });
+    }
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return res.status(400).json({ error: 'Please enter a valid email address.' });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const trimmedUsername = username.trim();
+    if (await prisma.user.findUnique({ where: { email: normalizedEmail } })) {
+      return res.status(409).json({ error: 'Email already registered. Please login instead.' });
+    }
+    if (await prisma.user.findUnique({ where: { username: trimmedUsername } })) {
+      return res.status(409).json({ error: 'Username already taken. Please choose a different one.' });
+    }
+
+    const user = await prisma.user.create({
+      data: { email: normalizedEmail, username: trimmedUsername, passwordHash: await hashPassword(password) },
+    });
+    const token = await issueToken(user.id);
+    res.status(201).json({ user: toPublicUser(user), token });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+app.post('/api/auth/login', async (req, res) => {
   try {
-    const { userId, subject, company, difficulty } = req.body;
-    if (!userId || !subject || !difficulty) return res.status(400).json({ error: 'missing fields' });
+    const { email, password } = req.body;
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return res.status(400).json({ error: 'Email and password are required.' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: email.trim().toLowerCase() } });
+    // Same message for unknown email and wrong password so accounts can't be enumerated
+    if (!user || !user.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ error: 'Invalid email or password.' });
+    }
+
+    const token = await issueToken(user.id);
+    res.json({ user: toPublicUser(user), token });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+app.post('/api/auth/logout', requireAuth, async (_req, res) => {
+  try {
+    await revokeToken(res.locals.authTokenId);
+    res.json({ ok: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+app.get('/api/auth/me', requireAuth, async (_req, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: res.locals.userId } });
+    if (!user) return res.status(401).json({ error: 'invalid or expired token' });
+    res.json({ user: toPublicUser(user) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+const MAX_PAGE_SIZE = 100;
+
+// Parse ?page=&pageSize= query params, clamping to sane bounds. Returns null on invalid input.
+const parsePagination = (query: Record<string, unknown>): { page: number; pageSize: number } | null => {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  const pageSize = query.pageSize === undefined ? 20 : Number(query.pageSize);
+  if (!Number.isInteger(page) || page < 1) return null;
+  if (!Number.isInteger(pageSize) || pageSize < 1) return null;
+  return { page, pageSize: Math.min(pageSize, MAX_PAGE_SIZE) };
+};
+
+const isValidScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 10;
+
+app.post('/api/sessions', requireAuth, async (req, res) => {
+  try {
+    const userId: string = res.locals.userId;
+    const { subject, company, difficulty } = req.body;
+    if (!subject || !difficulty) return res.status(400).json({ error: 'missing fields' });
+    if (!isDifficulty(difficulty)) return res.status(400).json({ error: 'difficulty must be Beginner, Intermediate or Advanced' });
     const session = await prisma.session.create({ data: { userId, subject, company, difficulty } });
     res.json(session);
   } catch (err) {
@@ -38,11 +194,13 @@ app.post('/api/sessions', async (req, res) => {
   }
 });
 
-app.post('/api/sessions/:id/questions', async (req, res) => {
+app.post('/api/sessions/:id/questions', requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
     const { text } = req.body;
-    if (!text) return res.status(400).json({ error: 'text required' });
+    if (!text || typeof text !== 'string') return res.status(400).json({ error: 'text required' });
+    const session = await prisma.session.findUnique({ where: { id } });
+    if (!session || session.userId !== res.locals.userId) return res.status(404).json({ error: 'session not found' });
     const q = await prisma.question.create({ data: { sessionId: id, text } });
     res.json(q);
   } catch (err) {
@@ -51,13 +209,207 @@ app.post('/api/sessions/:id/questions', async (req, res) => {
   }
 });
 
+app.get('/api/users/:id/sessions', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (id !== res.locals.userId) return res.status(403).json({ error: 'cannot list another user\'s sessions' });
+    const pagination = parsePagination(req.query);
+    if (!pagination) return res.status(400).json({ error: 'page and pageSize must be positive integers' });
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) return res.status(404).json({ error: 'user not found' });
+
+    const { page, pageSize } = pagination;
+    const [total, items] = await Promise.all([
+      prisma.session.count({ where: { userId: id } }),
+      prisma.session.findMany({
+        where: { userId: id },
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: { _count: { select: { questions: true } } },
+      }),
+    ]);
+    res.json({ items, page, pageSize, total });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+app.get('/api/sessions/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const session = await prisma.session.findUnique({
+      where: { id },
+      include: {
+        questions: { orderBy: { createdAt: 'asc' }, include: { feedback: true } },
+        feedbacks: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+    if (!session || session.userId !== res.locals.userId) return res.status(404).json({ error: 'session not found' });
+    res.json(session);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+app.patch('/api/sessions/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { endedAt, score } = req.body;
+    if (endedAt === undefined && score === undefined) return res.status(400).json({ error: 'endedAt or score required' });
+
+    const data: { endedAt?: Date | null; score?: number | null } = {};
+    if (endedAt !== undefined) {
+      const parsed = endedAt === null ? null : new Date(endedAt);
+      if (parsed && (typeof endedAt !== 'string' || Number.isNaN(parsed.getTime()))) {
+        return res.status(400).json({ error: 'endedAt must be an ISO date string or null' });
+      }
+      data.endedAt = parsed;
+    }
+    if (score !== undefined) {
+      if (score !== null && !isValidScore(score)) return res.status(400).json({ error: 'score must be a number from 0 to 10 or null' });
+      data.score = score;
+    }
+
+    const existing = await prisma.session.findUnique({ where: { id } });
+    if (!existing || existing.userId !== res.locals.userId) return res.status(404).json({ error: 'session not found' });
+    if (data.endedAt && data.endedAt < existing.startedAt) {
+      return res.status(400).json({ error: 'endedAt cannot be before startedAt' });
+    }
+
+    const session = await prisma.session.update({ where: { id }, data });
+    res.json(session);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+app.post('/api/questions/:id/feedback', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId: string = res.locals.userId;
+    const { score, feedback } = req.body;
+    if (typeof feedback !== 'string' || !feedback.trim()) {
+      return res.status(400).json({ error: 'feedback required' });
+    }
+    if (!isValidScore(score) || !Number.isInteger(score)) {
+      return res.status(400).json({ error: 'score must be an integer from 0 to 10' });
+    }
+
+    const question = await prisma.question.findUnique({ where: { id }, include: { feedback: true, session: true } });
+    if (!question || question.session.userId !== userId) return res.status(404).json({ error: 'question not found' });
+    if (question.feedback) return res.status(409).json({ error: 'feedback already recorded for this question' });
+
+    const created = await prisma.feedback.create({
+      data: { sessionId: question.sessionId, userId, questionId: id, score, feedback: feedback.trim() },
+    });
+    res.status(201).json(created);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+// Profile and feedback history sync for the browser's localStorage data
+const loadSyncState = async (userId: string) => {
+  const [progress, records] = await Promise.all([
+    prisma.userProgress.findUnique({ where: { userId } }),
+    prisma.sessionRecord.findMany({ where: { userId }, orderBy: { timestamp: 'asc' } }),
+  ]);
+  return {
+    profile: isProfileData(progress?.profile) ? progress.profile : null,
+    sessions: records.map((r: { data: unknown }) => r.data),
+  };
+};
+
+app.get('/api/sync', requireAuth, async (_req, res) => {
+  try {
+    res.json(await loadSyncState(res.locals.userId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
+app.post('/api/sync', requireAuth, async (req, res) => {
+  try {
+    const userId: string = res.locals.userId;
+    const { profile = null, sessions = [] } = req.body;
+    if (profile !== null && !isProfileData(profile)) return res.status(400).json({ error: 'invalid profile' });
+    if (!Array.isArray(sessions) || sessions.length > MAX_SESSIONS_PER_SYNC) {
+      return res.status(400).json({ error: `sessions must be an array of at most ${MAX_SESSIONS_PER_SYNC} records` });
+    }
+    const invalid = sessions.findIndex((s: unknown) => !isSessionRecordData(s));
+    if (invalid !== -1) return res.status(400).json({ error: `invalid session record at index ${invalid}` });
+
+    // A re-uploaded sessionId replaces the stored copy: the browser only re-sends a session
+    // after adding to it (e.g. attaching the end-of-session report)
+    const existingIds = new Set(
+      (await prisma.sessionRecord.findMany({ where: { userId }, select: { sessionId: true } }))
+        .map((r: { sessionId: string }) => r.sessionId)
+    );
+    const unique: SessionRecordData[] = Array.from(
+      new Map((sessions as SessionRecordData[]).map(s => [s.sessionId, s])).values()
+    );
+    // Created one at a time so a record that a concurrent sync stored first is reported back in
+    // `conflicts` rather than skipped; the browser keeps those queued and sends them again
+    const conflicts: string[] = [];
+    for (const s of unique.filter(s => !existingIds.has(s.sessionId))) {
+      try {
+        await prisma.sessionRecord.create({
+          data: { userId, sessionId: s.sessionId, timestamp: new Date(s.timestamp), data: s as unknown as Prisma.InputJsonValue },
+        });
+      } catch (err) {
+        if (!(err instanceof Prisma.PrismaClientKnownRequestError) || err.code !== 'P2002') throw err;
+        conflicts.push(s.sessionId);
+      }
+    }
+    for (const s of unique.filter(s => existingIds.has(s.sessionId))) {
+      await prisma.sessionRecord.update({
+        where: { userId_sessionId: { userId, sessionId: s.sessionId } },
+        data: { data: s as unknown as Prisma.InputJsonValue },
+      });
+    }
+
+    const [stored, records] = await Promise.all([
+      prisma.userProgress.findUnique({ where: { userId } }),
+      prisma.sessionRecord.findMany({ where: { userId }, select: { data: true } }),
+    ]);
+    const history = records.map((r: { data: unknown }) => r.data).filter(isSessionRecordData);
+    const merged = mergeProfiles(isProfileData(stored?.profile) ? stored.profile : null, profile, history);
+    if (merged) {
+      const data = merged as unknown as Prisma.InputJsonValue;
+      await prisma.userProgress.upsert({
+        where: { userId },
+        create: { userId, profile: data },
+        update: { profile: data },
+      });
+    }
+
+    res.json({ ...(await loadSyncState(userId)), conflicts });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'server error' });
+  }
+});
+
 // Generate question server-side (calls Gemini if key is present)
 app.post('/api/generate-question', async (req, res) => {
   try {
-    const { subject, difficulty, previousQuestions = [] } = req.body;
+    const { subject, difficulty, previousQuestions = [], focusMistakes = [], company, round } = req.body;
     console.log('📝 /api/generate-question called with:', { subject, difficulty, previousQuestionsCount: previousQuestions.length });
 
     if (!subject || !difficulty) return res.status(400).json({ error: 'subject & difficulty required' });
+    if (!isMistakeFocus(focusMistakes)) {
+      return res.status(400).json({ error: `focusMistakes must be at most ${MAX_FOCUS_MISTAKES} short rule names` });
+    }
+    if ((company !== undefined || round !== undefined) && !isCompanyRound(company, round)) {
+      return res.status(400).json({ error: 'company and round must name a known company and one of its rounds' });
+    }
 
     // If no Gemini key available, return a placeholder
     if (!genai) {
@@ -72,11 +424,14 @@ app.post('/api/generate-question', async (req, res) => {
       prevContext = '\n\nPreviously asked questions:\n' + previousQuestions.map((q: string, i: number) => `${i + 1}. ${q}`).join('\n') + '\n\nDo not repeat these.';
     }
 
-    const prompt = `You are a ${persona}. The topic is '${subject}'. 
+    const roundContext = company
+      ? `\n\n${describeCompanyRound(company, round)}`
+      : subject === 'System Design' ? `\n\n${DESIGN_QUESTION_CONTEXT}` : '';
+    const prompt = `You are a ${persona}. The topic is '${subject}'.${roundContext}
 
 IMPORTANT: Ask EXACTLY ONE interview question only. Do not ask multiple questions, sub-questions, or follow-up questions. Do not include any numbering, bullets, introductions, or additional commentary.
 
-CRITICAL: Return ONLY a JSON object with a single property named "question". Example: {"question": "What is ...?"}. Do not include any other text or commentary.${prevContext}`;
+CRITICAL: Return ONLY a JSON object with a single property named "question". Example: {"question": "What is ...?"}. Do not include any other text or commentary.${prevContext}${subject === 'English Speaking Practice' ? getMistakeFocusPrompt(focusMistakes) : ''}`;
 
     const response = await genai.models.generateContent({ model: 'gemini-1.5-flash', contents: prompt, config: { temperature: 0.8, maxOutputTokens: 120, responseMimeType: 'application/json' } });
     const raw = (response.text || '').trim();
@@ -119,4 +474,388 @@ CRITICAL: Return ONLY a JSON object with a single property named "question". Exa
   }
 });
 
+// The routes below proxy the remaining Gemini calls so the browser never needs an API key.
+// Unlike /api/generate-question they return 503 without a key, letting the client fall back.
+const GEMINI_MODEL = 'gemini-1.5-flash';
+
+app.post('/api/evaluate-answer', async (req, res) => {
+  try {
+    const { question, answer, subject, difficulty, imageB64Data, codeLanguage, testRun, focusMistakes = [], diagram } = req.body;
+    if (!question || !answer || !subject || !isDifficulty(difficulty)) {
+      return res.status(400).json({ error: 'question, answer, subject & difficulty required' });
+    }
+    if (codeLanguage !== undefined && !isCodingLanguage(codeLanguage)) {
+      return res.status(400).json({ error: 'codeLanguage is not a supported language' });
+    }
+    if (testRun !== undefined && (!codeLanguage || !isCodeTestRun(testRun))) {
+      return res.status(400).json({ error: 'testRun is malformed' });
+    }
+    if (!isMistakeFocus(focusMistakes)) {
+      return res.status(400).json({ error: `focusMistakes must be at most ${MAX_FOCUS_MISTAKES} short rule names` });
+    }
+    if (diagram !== undefined && (codeLanguage || !isSystemDiagram(diagram))) {
+      return res.status(400).json({ error: 'diagram is malformed' });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    // Code answers are scored against the coding rubric and design answers against their diagram;
+    // the webcam frame only applies to other spoken answers
+    const withVisualAnalysis = !codeLanguage && !diagram && difficulty === 'Advanced' && typeof imageB64Data === 'string' && imageB64Data.includes(',');
+    const prompt = codeLanguage
+      ? getCodeEvaluationPrompt(question, answer, codeLanguage, subject, difficulty, testRun)
+      : diagram
+        ? getDesignEvaluationPrompt(question, answer, diagram, subject, difficulty)
+        : getEvaluationPrompt(question, answer, subject, difficulty, withVisualAnalysis, focusMistakes);
+    const contents = withVisualAnalysis
+      ? [{ role: 'user', parts: [{ text: prompt }, { inlineData: { mimeType: 'image/jpeg', data: imageB64Data.split(',')[1] } }] }]
+      : prompt;
+    const feedbackSchema = codeLanguage ? codeFeedbackSchema : withVisualAnalysis ? visualFeedbackSchema : baseFeedbackSchema;
+    // HR answers are also broken down with the STAR method, and English answers get language corrections
+    const withStar = !codeLanguage && !diagram && subject === 'HR Interview';
+    const withLanguageCorrections = !codeLanguage && !diagram && subject === 'English Speaking Practice';
+    const responseSchema = diagram
+      ? withComponentFeedback(feedbackSchema)
+      : withStar
+        ? withStarAnalysis(feedbackSchema)
+        : withLanguageCorrections ? withCorrections(feedbackSchema) : feedbackSchema;
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents,
+      config: { responseMimeType: 'application/json', responseSchema }
+    });
+    const parsed = parseModelJson(response.text);
+    if (typeof parsed?.score !== 'number') {
+      console.error('❌ Evaluation response missing score:', response.text);
+      return res.status(502).json({ error: 'Failed to parse feedback from the model response.' });
+    }
+    // Code answers are scored on codeScores instead of the subject rubric
+    res.json({
+      ...parsed,
+      rubricScores: codeLanguage ? undefined : normalizeRubricScores(parsed.rubricScores, subject),
+      starAnalysis: withStar ? normalizeStarAnalysis(parsed.starAnalysis, answer) : undefined,
+      corrections: withLanguageCorrections ? normalizeCorrections(parsed.corrections, answer) : undefined,
+      componentFeedback: diagram ? normalizeComponentFeedback(parsed.componentFeedback, diagram) : undefined,
+    });
+  } catch (err) {
+    console.error('❌ evaluate error', err);
+    res.status(500).json({ error: 'failed to evaluate' });
+  }
+});
+
+app.post('/api/follow-up', async (req, res) => {
+  try {
+    const { subject, difficulty, history, lastScore } = req.body;
+    if (!subject || !isDifficulty(difficulty) || !isConversation(history) || typeof lastScore !== 'number') {
+      return res.status(400).json({ error: 'subject, difficulty, history & lastScore required' });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: getFollowUpPrompt(subject, difficulty, history, lastScore),
+      config: { responseMimeType: 'application/json', responseSchema: followUpSchema, temperature: 0.7, maxOutputTokens: 160 }
+    });
+    const parsed = parseModelJson(response.text);
+    const question = typeof parsed?.question === 'string' ? parsed.question.trim() : '';
+    res.json({ askFollowUp: !!parsed?.askFollowUp && !!question, question });
+  } catch (err) {
+    console.error('❌ follow-up error', err);
+    res.status(500).json({ error: 'failed to generate' });
+  }
+});
+
+app.post('/api/coding/question', async (req, res) => {
+  try {
+    const { subject, language, difficulty, previousQuestions = [] } = req.body;
+    if (!subject || !isCodingLanguage(language) || !isDifficulty(difficulty) || !Array.isArray(previousQuestions)) {
+      return res.status(400).json({ error: 'subject, language & difficulty required' });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: getCodingQuestionPrompt(subject, language, difficulty, previousQuestions),
+      config: { responseMimeType: 'application/json', responseSchema: codingQuestionSchema, temperature: 0.8, maxOutputTokens: 800 }
+    });
+    const parsed = parseModelJson(response.text);
+    const question = typeof parsed?.question === 'string' ? parsed.question.trim() : '';
+    if (!question) {
+      console.error('❌ Coding question response malformed:', response.text);
+      return res.status(502).json({ error: 'Failed to parse a coding question from the model response.' });
+    }
+    // The question is still usable without tests; the client only runs them when both are present
+    const functionName = typeof parsed.functionName === 'string' ? parsed.functionName.trim() : '';
+    res.json({ question, functionName, testCases: functionName ? parseModelTestCases(parsed.testCases) : [] });
+  } catch (err) {
+    console.error('❌ coding question error', err);
+    res.status(500).json({ error: 'failed to generate' });
+  }
+});
+
+app.post('/api/objective-questions', async (req, res) => {
+  try {
+    const { exam, section, difficulty, previousQuestions = [] } = req.body;
+    if (typeof exam !== 'string' || !exam || exam.length > 80 || !isTestSection(section) || !isDifficulty(difficulty) || !Array.isArray(previousQuestions)) {
+      return res.status(400).json({ error: 'exam, section & difficulty required' });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: getObjectiveQuestionsPrompt(exam, section, difficulty, previousQuestions),
+      config: { responseMimeType: 'application/json', responseSchema: objectiveQuestionsSchema, temperature: 0.7, maxOutputTokens: 4000 }
+    });
+    const parsed = parseModelJson(response.text);
+    // Questions that can't be graded reliably are dropped; the client tops up a short set
+    const questions = normalizeObjectiveQuestions(parsed?.questions, section);
+    if (questions.length === 0) {
+      console.error('❌ Objective questions response malformed:', response.text);
+      return res.status(502).json({ error: 'Failed to parse any gradable questions from the model response.' });
+    }
+    res.json({ questions });
+  } catch (err) {
+    console.error('❌ objective questions error', err);
+    res.status(500).json({ error: 'failed to generate' });
+  }
+});
+
+app.post('/api/mains-question', async (req, res) => {
+  try {
+    const { paper, wordLimit, difficulty, previousQuestions = [] } = req.body;
+    const settings = { paper, wordLimit };
+    if (!isAnswerWritingSettings(settings) || !isDifficulty(difficulty) || !Array.isArray(previousQuestions)) {
+      return res.status(400).json({ error: 'paper, wordLimit & difficulty required' });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: getMainsQuestionPrompt(settings, difficulty, previousQuestions),
+      config: { responseMimeType: 'application/json', responseSchema: questionSchema, temperature: 0.8, maxOutputTokens: 400 }
+    });
+    const parsed = parseModelJson(response.text);
+    const question = typeof parsed?.question === 'string' ? parsed.question.trim() : '';
+    if (!question) {
+      console.error('❌ Mains question response malformed:', response.text);
+      return res.status(502).json({ error: 'Failed to parse a question from the model response.' });
+    }
+    res.json({ question });
+  } catch (err) {
+    console.error('❌ mains question error', err);
+    res.status(500).json({ error: 'failed to generate' });
+  }
+});
+
+app.post('/api/evaluate-mains-answer', async (req, res) => {
+  try {
+    const { question, answer, paper, wordLimit, difficulty } = req.body;
+    const settings = { paper, wordLimit };
+    if (!question || typeof answer !== 'string' || !answer.trim() || !isAnswerWritingSettings(settings) || !isDifficulty(difficulty)) {
+      return res.status(400).json({ error: 'question, answer, paper, wordLimit & difficulty required' });
+    }
+    if (answer.length > MAX_MAINS_ANSWER_LENGTH) {
+      return res.status(400).json({ error: `answer must be at most ${MAX_MAINS_ANSWER_LENGTH} characters` });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: getMainsEvaluationPrompt(question, answer, settings, difficulty),
+      config: { responseMimeType: 'application/json', responseSchema: mainsFeedbackSchema }
+    });
+    const parsed = parseModelJson(response.text);
+    if (typeof parsed?.score !== 'number' || typeof parsed.feedback !== 'string') {
+      console.error('❌ Mains evaluation response missing score:', response.text);
+      return res.status(502).json({ error: 'Failed to parse feedback from the model response.' });
+    }
+    // The rubric's marks set the overall score, so the two can't disagree
+    const mainsEvaluation = normalizeMainsEvaluation(parsed.criteria, answer, settings);
+    res.json({
+      score: mainsEvaluation ? Math.round((mainsEvaluation.marks / mainsEvaluation.maxMarks) * 10) : parsed.score,
+      feedback: parsed.feedback,
+      suggestedAnswer: typeof parsed.suggestedAnswer === 'string' ? parsed.suggestedAnswer : '',
+      mainsEvaluation,
+    });
+  } catch (err) {
+    console.error('❌ mains evaluate error', err);
+    res.status(500).json({ error: 'failed to evaluate' });
+  }
+});
+
+app.post('/api/session-report', async (req, res) => {
+  try {
+    const { subject, difficulty, turns } = req.body;
+    if (!subject || !isDifficulty(difficulty) || !isReportTurns(turns)) {
+      return res.status(400).json({ error: 'subject, difficulty & turns required' });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: getSessionReportPrompt(subject, difficulty, turns),
+      config: { responseMimeType: 'application/json', responseSchema: sessionReportSchema }
+    });
+    const parsed = parseModelJson(response.text);
+    if (typeof parsed?.summary !== 'string' || !isDifficulty(parsed?.recommendedDifficulty)) {
+      console.error('❌ Session report response malformed:', response.text);
+      return res.status(502).json({ error: 'Failed to parse the session report from the model response.' });
+    }
+    res.json(parsed);
+  } catch (err) {
+    console.error('❌ session report error', err);
+    res.status(500).json({ error: 'failed to generate report' });
+  }
+});
+
+app.post('/api/resume/parse', async (req, res) => {
+  try {
+    const { resumeText } = req.body;
+    if (!resumeText || typeof resumeText !== 'string') return res.status(400).json({ error: 'resumeText required' });
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ role: 'user', parts: [{ text: getResumeParsingPrompt(resumeText) }] }],
+      config: { responseMimeType: 'application/json', responseSchema: resumeParsingSchema }
+    });
+    const parsed = parseModelJson(response.text);
+    if (!isResumeData(parsed)) {
+      console.error('❌ Resume parse response malformed:', response.text);
+      return res.status(502).json({ error: 'Failed to parse resume data from the model response.' });
+    }
+    res.json(parsed);
+  } catch (err) {
+    console.error('❌ resume parse error', err);
+    res.status(500).json({ error: 'failed to parse resume' });
+  }
+});
+
+app.post('/api/job-description/parse', async (req, res) => {
+  try {
+    const { jobDescriptionText } = req.body;
+    if (!jobDescriptionText || typeof jobDescriptionText !== 'string') return res.status(400).json({ error: 'jobDescriptionText required' });
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ role: 'user', parts: [{ text: getJobDescriptionPrompt(jobDescriptionText) }] }],
+      config: { responseMimeType: 'application/json', responseSchema: jobDescriptionSchema }
+    });
+    const parsed = parseModelJson(response.text);
+    if (!isJobDescriptionData(parsed)) {
+      console.error('❌ Job description response malformed:', response.text);
+      return res.status(502).json({ error: 'Failed to parse job description from the model response.' });
+    }
+    res.json(parsed);
+  } catch (err) {
+    console.error('❌ job description parse error', err);
+    res.status(500).json({ error: 'failed to parse job description' });
+  }
+});
+
+app.post('/api/resume/question', async (req, res) => {
+  try {
+    const { resumeData, questionIndex = 0, jobContext } = req.body;
+    if (!isResumeData(resumeData)) return res.status(400).json({ error: 'resumeData required' });
+    if (jobContext !== undefined && !isJobContext(jobContext)) return res.status(400).json({ error: 'jobContext is malformed' });
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ role: 'user', parts: [{ text: getResumeQuestionPrompt(resumeData, Number(questionIndex) || 0, jobContext) }] }],
+      config: { responseMimeType: 'application/json', responseSchema: questionSchema }
+    });
+    const parsed = parseModelJson(response.text);
+    const question = typeof parsed?.question === 'string' ? parsed.question.trim() : '';
+    if (!question) return res.status(502).json({ error: 'Failed to parse a valid question from the model response.' });
+    res.json({ question });
+  } catch (err) {
+    console.error('❌ resume question error', err);
+    res.status(500).json({ error: 'failed to generate' });
+  }
+});
+
+app.post('/api/resume/rewrite', async (req, res) => {
+  try {
+    const { bullets } = req.body;
+    if (!isBulletList(bullets)) return res.status(400).json({ error: 'bullets required' });
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ role: 'user', parts: [{ text: getBulletRewritePrompt(bullets) }] }],
+      config: { responseMimeType: 'application/json', responseSchema: bulletRewriteSchema }
+    });
+    const parsed = parseModelJson(response.text);
+    if (!Array.isArray(parsed?.rewrites)) {
+      console.error('❌ Bullet rewrite response malformed:', response.text);
+      return res.status(502).json({ error: 'Failed to parse bullet rewrites from the model response.' });
+    }
+    // Drop anything that doesn't refer back to a bullet we sent
+    const ids = new Set(bullets.map(b => b.id));
+    const rewrites = parsed.rewrites.filter((r: any) =>
+      r && ids.has(r.id) && typeof r.rewritten === 'string' && r.rewritten.trim() && typeof r.rationale === 'string'
+    );
+    res.json({ rewrites });
+  } catch (err) {
+    console.error('❌ resume rewrite error', err);
+    res.status(500).json({ error: 'failed to rewrite resume' });
+  }
+});
+
+app.post('/api/resume/feedback', async (req, res) => {
+  try {
+    const { question, answer, resumeData } = req.body;
+    if (!question || !answer || !isResumeData(resumeData)) {
+      return res.status(400).json({ error: 'question, answer & resumeData required' });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    // Behavioral questions about their experience get a STAR breakdown
+    const withStar = isBehavioralQuestion(question);
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ role: 'user', parts: [{ text: getResumeFeedbackPrompt(question, answer, resumeData) }] }],
+      config: { responseMimeType: 'application/json', responseSchema: withStar ? withStarAnalysis(baseFeedbackSchema) : baseFeedbackSchema }
+    });
+    const parsed = parseModelJson(response.text);
+    if (typeof parsed?.score !== 'number') {
+      console.error('❌ Resume feedback response missing score:', response.text);
+      return res.status(502).json({ error: 'Failed to parse feedback from the model response.' });
+    }
+    res.json({
+      ...parsed,
+      rubricScores: normalizeRubricScores(parsed.rubricScores, 'Resume Interview'),
+      starAnalysis: withStar ? normalizeStarAnalysis(parsed.starAnalysis, answer) : undefined,
+    });
+  } catch (err) {
+    console.error('❌ resume feedback error', err);
+    res.status(500).json({ error: 'failed to evaluate' });
+  }
+});
+
+app.post('/api/ask', async (req, res) => {
+  try {
+    const { question, subject, difficulty } = req.body;
+    if (!question || !subject || !isDifficulty(difficulty)) {
+      return res.status(400).json({ error: 'question, subject & difficulty required' });
+    }
+    if (!genai) return res.status(503).json({ error: 'GEMINI_API_KEY not configured on server' });
+
+    const response = await genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: getCustomQuestionPrompt(question, subject, difficulty),
+      config: { temperature: 0.6, maxOutputTokens: 220 }
+    });
+    const answer = (response.text || '').trim();
+    if (!answer) return res.status(502).json({ error: 'The model returned an empty answer.' });
+    res.json({ answer });
+  } catch (err) {
+    console.error('❌ ask error', err);
+    res.status(500).json({ error: 'failed to answer' });
+  }
+});
+
 app.listen(port, () => console.log(`Backend API listening on http://localhost:${port}`));
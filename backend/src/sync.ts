@@ -0,0 +1,121 @@
+// Merging of the browser's profile and feedback history with what the server already has.
+// Shapes mirror ProfileData (types.ts) and SessionFeedback (services/feedbackService.ts) in the frontend.
+
+export interface ProfileData {
+  username: string;
+  interviewsCompleted: number;
+  averageScore: number;
+  currentStreak: number;
+  longestStreak: number;
+  lastSessionDate: string | null;
+  badges: string[];
+  subjectStats: { [subject: string]: number };
+}
+
+export interface SessionRecordData {
+  sessionId: string;
+  subject: string;
+  difficulty: string | null;
+  timestamp: string;
+  feedbacks: Array<{ question: string; answer: string; feedback: { score: number; error?: boolean } }>;
+  averageScore: number;
+}
+
+export const MAX_SESSIONS_PER_SYNC = 500;
+const DEFAULT_USERNAME = 'Learner';
+// Resume interviews are kept in the history but never counted on the profile
+const UNCOUNTED_SUBJECT = 'Resume Interview';
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+export const isProfileData = (value: any): value is ProfileData =>
+  !!value &&
+  typeof value.username === 'string' &&
+  isNonNegativeNumber(value.interviewsCompleted) &&
+  isNonNegativeNumber(value.averageScore) &&
+  isNonNegativeNumber(value.currentStreak) &&
+  isNonNegativeNumber(value.longestStreak) &&
+  (value.lastSessionDate === null || isValidDate(value.lastSessionDate)) &&
+  Array.isArray(value.badges) && value.badges.every((b: unknown) => typeof b === 'string') &&
+  !!value.subjectStats && typeof value.subjectStats === 'object' &&
+  Object.values(value.subjectStats).every(isNonNegativeNumber);
+
+export const isSessionRecordData = (value: any): value is SessionRecordData =>
+  !!value &&
+  typeof value.sessionId === 'string' && value.sessionId.length > 0 && value.sessionId.length <= 191 &&
+  typeof value.subject === 'string' &&
+  (value.difficulty === null || typeof value.difficulty === 'string') &&
+  isValidDate(value.timestamp) &&
+  isNonNegativeNumber(value.averageScore) &&
+  Array.isArray(value.feedbacks) &&
+  value.feedbacks.every((f: any) => f && typeof f.question === 'string' && typeof f.answer === 'string' && typeof f.feedback?.score === 'number');
+
+// Which sessions the frontend counted on the profile when they ended: any with at least one
+// answer that was actually scored (see updateProfileOnSessionEnd in services/profileService.ts)
+const countSessions = (sessions: SessionRecordData[]) => {
+  const subjectStats: { [subject: string]: number } = {};
+  let interviewsCompleted = 0;
+  for (const session of sessions) {
+    if (session.subject === UNCOUNTED_SUBJECT || !session.feedbacks.some(f => !f.feedback.error)) continue;
+    interviewsCompleted++;
+    subjectStats[session.subject] = (subjectStats[session.subject] ?? 0) + 1;
+  }
+  return { interviewsCompleted, subjectStats };
+};
+
+/**
+ * Merge two profiles so the result does not depend on which side is "local":
+ * badges are unioned, and streaks follow the most recent session. The counters are
+ * recomputed from `sessions`, the merged history, so sessions that two machines
+ * recorded independently all count; a profile's own count only wins when it is higher,
+ * i.e. when it covers sessions that were never synced.
+ */
+export const mergeProfiles = (a: ProfileData | null, b: ProfileData | null, sessions: SessionRecordData[] = []): ProfileData | null => {
+  const counted = countSessions(sessions);
+  const withCounts = (profile: ProfileData, others: ProfileData[]): ProfileData => {
+    const subjectStats: { [subject: string]: number } = {};
+    const all = [profile, ...others];
+    const keys = new Set([...Object.keys(counted.subjectStats), ...all.flatMap(p => Object.keys(p.subjectStats))]);
+    for (const key of keys) {
+      subjectStats[key] = Math.max(counted.subjectStats[key] ?? 0, ...all.map(p => p.subjectStats[key] ?? 0));
+    }
+    return {
+      ...profile,
+      interviewsCompleted: Math.max(counted.interviewsCompleted, ...all.map(p => p.interviewsCompleted)),
+      subjectStats,
+    };
+  };
+
+  if (!a || !b) {
+    const only = a ?? b;
+    return only ? withCounts(only, []) : null;
+  }
+
+  // The side with more completed interviews has the more complete average
+  const richer = a.interviewsCompleted !== b.interviewsCompleted
+    ? (a.interviewsCompleted > b.interviewsCompleted ? a : b)
+    : (a.averageScore >= b.averageScore ? a : b);
+
+  const aTime = a.lastSessionDate ? new Date(a.lastSessionDate).getTime() : 0;
+  const bTime = b.lastSessionDate ? new Date(b.lastSessionDate).getTime() : 0;
+  const latest = aTime !== bTime
+    ? (aTime > bTime ? a : b)
+    : (a.currentStreak >= b.currentStreak ? a : b);
+
+  const username = a.username !== DEFAULT_USERNAME ? a.username : b.username;
+
+  return withCounts({
+    username,
+    interviewsCompleted: 0,
+    averageScore: richer.averageScore,
+    currentStreak: latest.currentStreak,
+    longestStreak: Math.max(a.longestStreak, b.longestStreak, latest.currentStreak),
+    lastSessionDate: latest.lastSessionDate,
+    badges: Array.from(new Set([...a.badges, ...b.badges])).sort(),
+    subjectStats: {},
+  }, [a, b]);
+};
@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AnswerWritingSettings, Difficulty, Feedback, Subject } from '../types';
+import { evaluateMainsAnswer } from '../services/geminiService';
+import { getMainsQuestion } from '../services/mainsQuestionService';
+import { MAINS_PAPERS, WORD_LIMITS, countWords, getWordCountStatus } from '../services/mainsAnswers';
+import { addFeedback, endSessionAndSaveFeedbacks } from '../services/feedbackService';
+import { updateProfileOnSessionEnd } from '../services/profileService';
+import { getCurrentUser } from '../services/authService';
+import { formatDuration } from '../services/sessionPresets';
+import { FeedbackCard } from './FeedbackCard';
+
+interface AnswerWritingScreenProps {
+  settings: AnswerWritingSettings;
+  difficulty: Difficulty;
+  onExit: () => void;
+}
+
+// Timer turns red in the last minute
+const WRITING_WARNING_SECONDS = 60;
+
+type Phase = 'loading' | 'writing' | 'evaluating' | 'feedback';
+
+const COUNTER_STYLES: Record<ReturnType<typeof getWordCountStatus>, string> = {
+  short: 'text-gray-400',
+  within: 'text-green-400',
+  over: 'text-red-400',
+};
+
+const AnswerWritingScreen: React.FC<AnswerWritingScreenProps> = ({ settings, difficulty, onExit }) => {
+  const userId = getCurrentUser()?.id ?? '';
+  const { marks, minutes } = WORD_LIMITS[settings.wordLimit];
+  const [phase, setPhase] = useState<Phase>('loading');
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState('');
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Set when time ran out before anything was written
+  const [timeUp, setTimeUp] = useState(false);
+  const [timedOut, setTimedOut] = useState(false);
+  const askedRef = useRef<string[]>([]);
+  const scoresRef = useRef<number[]>([]);
+  const answeredRef = useRef(0);
+  const hasEndedRef = useRef(false);
+  // Only the latest question request is shown, e.g. when the effect runs twice in development
+  const requestRef = useRef(0);
+
+  const wordCount = countWords(answer);
+  const secondsLeft = deadline !== null ? (deadline - now) / 1000 : null;
+
+  const loadQuestion = useCallback(() => {
+    setPhase('loading');
+    setAnswer('');
+    setFeedback(null);
+    setTimeUp(false);
+    setTimedOut(false);
+    const request = ++requestRef.current;
+    getMainsQuestion(settings, difficulty, askedRef.current).then(next => {
+      if (request !== requestRef.current) return;
+      askedRef.current.push(next);
+      setQuestion(next);
+      setNow(Date.now());
+      setDeadline(Date.now() + minutes * 60 * 1000);
+      setPhase('writing');
+    });
+  }, [settings, difficulty, minutes]);
+
+  useEffect(() => {
+    loadQuestion();
+  }, [loadQuestion]);
+
+  useEffect(() => {
+    if (phase !== 'writing') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  const submitAnswer = useCallback(async (wasTimedOut: boolean) => {
+    const timeTakenSeconds = deadline !== null ? Math.round(minutes * 60 - Math.max(0, (deadline - Date.now()) / 1000)) : undefined;
+    setDeadline(null);
+    setTimedOut(wasTimedOut);
+    setPhase('evaluating');
+
+    const result = await evaluateMainsAnswer(question, answer, settings, difficulty);
+    if (!result.error) {
+      scoresRef.current.push(result.score);
+    }
+    addFeedback(userId, question, answer, result, Subject.UPSC, difficulty, { timeTakenSeconds, timedOut: wasTimedOut || undefined });
+    answeredRef.current++;
+    setFeedback(result);
+    setPhase('feedback');
+  }, [deadline, minutes, question, answer, settings, difficulty, userId]);
+
+  useEffect(() => {
+    if (phase !== 'writing' || secondsLeft === null || secondsLeft > 0) return;
+    // Like the real paper, the pen goes down when time is up
+    if (answer.trim()) {
+      submitAnswer(true);
+    } else {
+      setDeadline(null);
+      setTimeUp(true);
+    }
+  }, [phase, secondsLeft, answer, submitAnswer]);
+
+  const handleFinish = () => {
+    if (hasEndedRef.current) return;
+    hasEndedRef.current = true;
+    if (answeredRef.current > 0) {
+      endSessionAndSaveFeedbacks(userId, Subject.UPSC, difficulty);
+    }
+    if (scoresRef.current.length > 0) {
+      const averageScore = scoresRef.current.reduce((a, b) => a + b, 0) / scoresRef.current.length;
+      updateProfileOnSessionEnd(Subject.UPSC, averageScore);
+    }
+    onExit();
+  };
+
+  const counterStatus = getWordCountStatus(wordCount, settings.wordLimit);
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 flex flex-col items-center">
+      <header className="w-full max-w-4xl flex flex-wrap justify-between items-center gap-3 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">UPSC Mains Answer Writing</h1>
+          <p className="text-sm text-gray-400">
+            {MAINS_PAPERS[settings.paper].name} · {settings.wordLimit} words · {marks} marks · {minutes} min · {difficulty}
+          </p>
+        </div>
+        <button onClick={handleFinish} disabled={phase === 'evaluating'} className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+          {answeredRef.current > 0 ? 'Finish & Save' : 'Back to Dashboard'}
+        </button>
+      </header>
+
+      <div className="w-full max-w-4xl space-y-4">
+        {phase === 'loading' ? (
+          <p className="text-gray-300 animate-pulse text-center mt-12">Setting your question…</p>
+        ) : (
+          <>
+            <div className="bg-gray-800 border border-gray-700 rounded-lg p-6">
+              <div className="flex justify-between items-start gap-4">
+                <p className="text-white text-lg whitespace-pre-wrap">{question}</p>
+                {secondsLeft !== null && (
+                  <span className={`shrink-0 text-sm font-mono font-semibold px-2 py-1 rounded-md ${secondsLeft <= WRITING_WARNING_SECONDS ? 'bg-red-600 text-white animate-pulse' : 'bg-gray-700 text-gray-200'}`}>
+                    {formatDuration(secondsLeft)}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <textarea
+                value={answer}
+                onChange={e => setAnswer(e.target.value)}
+                disabled={phase !== 'writing' || timeUp}
+                rows={14}
+                placeholder="Introduction, body with sub-points, way forward…"
+                className="w-full bg-gray-800 border border-gray-600 text-gray-100 rounded-lg p-4 leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-70"
+              />
+              <div className="flex justify-between items-center mt-2 text-sm">
+                <span className={`font-semibold ${COUNTER_STYLES[counterStatus]}`}>
+                  {wordCount} / {settings.wordLimit} words{counterStatus === 'over' ? ' · over the limit' : ''}
+                </span>
+                {phase === 'writing' && !timeUp && (
+                  <button
+                    onClick={() => submitAnswer(false)}
+                    disabled={!answer.trim()}
+                    className="bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-5 rounded-lg transition-colors"
+                  >
+                    Submit Answer
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {timeUp && (
+              <div className="bg-gray-800 border border-yellow-600/60 rounded-lg p-4 flex justify-between items-center gap-4">
+                <p className="text-yellow-300 text-sm">⏱ Time's up before you started writing. In the exam, move on and come back if time allows.</p>
+                <button onClick={loadQuestion} className="bg-blue-600 hover:bg-blue-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+                  Next Question
+                </button>
+              </div>
+            )}
+
+            {phase === 'evaluating' && <p className="text-gray-300 animate-pulse text-center">Marking your answer…</p>}
+
+            {phase === 'feedback' && feedback && (
+              <div className="space-y-4 pb-8">
+                {timedOut && <p className="text-yellow-300 text-sm">⏱ Time's up, so your answer was submitted automatically.</p>}
+                <FeedbackCard feedback={feedback} />
+                <div className="flex justify-center gap-3">
+                  <button onClick={loadQuestion} className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-8 rounded-full transition-colors">
+                    Next Question
+                  </button>
+                  <button onClick={handleFinish} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-8 rounded-full transition-colors">
+                    Finish & Save
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnswerWritingScreen;
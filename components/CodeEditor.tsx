@@ -0,0 +1,63 @@
+import React from 'react';
+import Editor from 'react-simple-code-editor';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-csharp';
+import 'prismjs/components/prism-go';
+import 'prismjs/components/prism-rust';
+import 'prismjs/components/prism-kotlin';
+import 'prismjs/components/prism-swift';
+import 'prismjs/components/prism-markup-templating';
+import 'prismjs/components/prism-php';
+import 'prismjs/components/prism-ruby';
+import 'prismjs/themes/prism-tomorrow.css';
+import { CodingLanguage } from '../types';
+import { CODING_LANGUAGES } from '../services/codingLanguages';
+
+interface CodeEditorProps {
+  code: string;
+  language: CodingLanguage;
+  onChange: (code: string) => void;
+  onLanguageChange: (language: CodingLanguage) => void;
+  disabled?: boolean;
+}
+
+const highlight = (code: string, language: CodingLanguage): string => {
+  const grammar = Prism.languages[language];
+  return grammar ? Prism.highlight(code, grammar, language) : code;
+};
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({ code, language, onChange, onLanguageChange, disabled }) => (
+  <div className="w-full rounded-lg border border-gray-600 bg-gray-900 overflow-hidden">
+    <div className="flex justify-between items-center px-3 py-2 bg-gray-800 border-b border-gray-700">
+      <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Code Editor</span>
+      <select
+        value={language}
+        onChange={e => onLanguageChange(e.target.value as CodingLanguage)}
+        disabled={disabled}
+        className="text-xs bg-gray-700 text-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {CODING_LANGUAGES.map(option => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+    <div className="max-h-80 overflow-auto">
+      <Editor
+        value={code}
+        onValueChange={onChange}
+        highlight={value => highlight(value, language)}
+        disabled={disabled}
+        padding={12}
+        tabSize={4}
+        insertSpaces
+        textareaClassName="focus:outline-none"
+        className="font-mono text-sm text-gray-100 min-h-[12rem]"
+      />
+    </div>
+  </div>
+);
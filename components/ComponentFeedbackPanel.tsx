@@ -0,0 +1,40 @@
+import React from 'react';
+import { ComponentFeedback, DesignConcern, SystemDiagram } from '../types';
+import { DESIGN_CONCERN_LABELS } from '../services/diagramService';
+import { DiagramCanvas } from './DiagramCanvas';
+
+interface ComponentFeedbackPanelProps {
+  feedback: ComponentFeedback[];
+  // The diagram that was reviewed; when given it's shown with the components the feedback names highlighted
+  diagram?: SystemDiagram;
+}
+
+const CONCERN_STYLES: Record<DesignConcern, string> = {
+  scalability: 'bg-sky-500/20 text-sky-300',
+  bottleneck: 'bg-amber-500/20 text-amber-300',
+  dataStore: 'bg-emerald-500/20 text-emerald-300',
+  reliability: 'bg-rose-500/20 text-rose-300',
+};
+
+export const ComponentFeedbackPanel: React.FC<ComponentFeedbackPanelProps> = ({ feedback, diagram }) => (
+  <div className="space-y-3">
+    <div className="flex justify-between items-baseline">
+      <h4 className="font-semibold text-cyan-400">Design Review:</h4>
+      <span className="text-sm text-gray-400">{feedback.length} comment{feedback.length === 1 ? '' : 's'}</span>
+    </div>
+
+    {diagram && <DiagramCanvas diagram={diagram} highlight={feedback.flatMap(f => (f.nodeId ? [f.nodeId] : []))} />}
+
+    <ul className="space-y-2">
+      {feedback.map((item, i) => (
+        <li key={i} className="p-2 rounded-md bg-gray-800/60 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold text-white">{item.component}</span>
+            <span className={`text-xs font-semibold rounded-full px-2 py-0.5 ${CONCERN_STYLES[item.concern]}`}>{DESIGN_CONCERN_LABELS[item.concern]}</span>
+          </div>
+          <p className="text-gray-300 mt-1">{item.comment}</p>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
@@ -0,0 +1,59 @@
+import React from 'react';
+import { CorrectionType, LanguageCorrection } from '../types';
+import { CORRECTION_TYPE_LABELS, buildTrackedChanges } from '../services/correctionService';
+
+interface CorrectionsPanelProps {
+  corrections: LanguageCorrection[];
+  // The answer that was corrected; when given it's shown with the fixes as tracked changes
+  answer?: string;
+}
+
+const TYPE_STYLES: Record<CorrectionType, string> = {
+  grammar: 'bg-sky-500/20 text-sky-300',
+  vocabulary: 'bg-purple-500/20 text-purple-300',
+  pronunciation: 'bg-amber-500/20 text-amber-300',
+};
+
+export const CorrectionsPanel: React.FC<CorrectionsPanelProps> = ({ corrections, answer }) => (
+  <div className="space-y-3">
+    <div className="flex justify-between items-baseline">
+      <h4 className="font-semibold text-rose-400">Language Corrections:</h4>
+      <span className="text-sm text-gray-400">{corrections.length} to fix</span>
+    </div>
+
+    {answer && (
+      <div>
+        <p className="text-xs text-gray-400 mb-1">Your answer, with the fixes marked:</p>
+        <p className="text-sm text-gray-200 leading-relaxed bg-gray-800/60 rounded-md p-3">
+          {buildTrackedChanges(answer, corrections).map((part, i) =>
+            part.correction ? (
+              <span key={i} title={part.correction.rule}>
+                <del className="text-red-300 bg-red-500/20 rounded px-0.5">{part.text}</del>{' '}
+                <ins className="no-underline text-green-300 bg-green-500/20 rounded px-0.5">{part.correction.corrected}</ins>
+              </span>
+            ) : (
+              <span key={i}>{part.text}</span>
+            )
+          )}
+        </p>
+      </div>
+    )}
+
+    <ul className="space-y-2">
+      {corrections.map((correction, i) => (
+        <li key={i} className="p-2 rounded-md bg-gray-800/60 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`text-xs font-semibold rounded-full px-2 py-0.5 ${TYPE_STYLES[correction.type]}`}>{CORRECTION_TYPE_LABELS[correction.type]}</span>
+            <span className="font-semibold text-white">{correction.rule}</span>
+          </div>
+          <p className="mt-1">
+            <span className="text-red-300 line-through">{correction.original}</span>
+            <span className="text-gray-400"> → </span>
+            <span className="text-green-300">{correction.corrected}</span>
+          </p>
+          {correction.explanation && <p className="text-xs text-gray-300 mt-1">{correction.explanation}</p>}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
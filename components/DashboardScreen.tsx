@@ -1,9 +1,14 @@
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Subject, Difficulty, Company, ChatMessage } from '../types';
+import { Subject, Difficulty, Company, ChatMessage, SessionSettings, CompanyTrack, ExamPattern, AnswerWritingSettings, MainsPaper, MainsWordLimit } from '../types';
 import { askCustomQuestion } from '../services/geminiService';
+import { SESSION_PRESETS } from '../services/sessionPresets';
+import { getCompanyTrack, getTrackQuestionCount } from '../services/companyTracks';
+import { NEGATIVE_MARKING_OPTIONS, getExamPattern, getPatternMinutes, getPatternQuestionCount } from '../services/objectiveTests';
+import { MAINS_PAPERS, MAINS_PAPER_ORDER, WORD_LIMITS } from '../services/mainsAnswers';
 import { MicrophoneIcon } from './icons/MicrophoneIcon';
 import { StopIcon } from './icons/StopIcon';
+import { QuestionBankPanel } from './QuestionBankPanel';
 
 declare global {
   interface Window {
@@ -13,7 +18,10 @@ declare global {
 }
 
 interface DashboardScreenProps {
-  onStartInterview: (subject: Subject | string, difficulty: Difficulty) => void;
+  onStartInterview: (subject: Subject | string, difficulty: Difficulty, settings: SessionSettings) => void;
+  onStartCompanyInterview: (company: Company, difficulty: Difficulty, settings: SessionSettings) => void;
+  onStartTest: (pattern: ExamPattern, difficulty: Difficulty) => void;
+  onStartAnswerWriting: (settings: AnswerWritingSettings, difficulty: Difficulty) => void;
   onViewProfile: () => void;
   onResumeInterview: () => void;
 }
@@ -24,7 +32,7 @@ interface SubjectItem {
 }
 
 interface CompanyItem {
-  name: string;
+  name: Company;
   icon: string;
 }
 
@@ -40,6 +48,7 @@ const categories: Category[] = [
       { name: Subject.Java, icon: '☕' },
       { name: Subject.Python, icon: '🐍' },
       { name: Subject.DSA, icon: '📊' },
+      { name: Subject.SystemDesign, icon: '🏗️' },
       { name: Subject.JavaScript, icon: '🟨' },
       { name: Subject.TypeScript, icon: '🟦' },
       { name: Subject.C_Plus_Plus, icon: '⚙️' },
@@ -97,14 +106,141 @@ const companies: CompaniesGroup[] = [
 
 const DifficultyModal: React.FC<{
     subject: string;
-    onSelect: (difficulty: Difficulty) => void;
+    // For company interviews: the rounds that will be run, which also set the number of questions
+    track?: CompanyTrack;
+    // GATE and campus aptitude rounds can also be taken as a timed MCQ test
+    examPattern?: ExamPattern | null;
+    onSelect: (difficulty: Difficulty, settings: SessionSettings) => void;
+    onStartTest: (pattern: ExamPattern, difficulty: Difficulty) => void;
+    // UPSC can also be practised as timed Mains answer writing
+    onStartAnswerWriting?: (settings: AnswerWritingSettings, difficulty: Difficulty) => void;
     onClose: () => void;
-}> = ({ subject, onSelect, onClose }) => {
+}> = ({ subject, track, examPattern, onSelect: onSelectDifficulty, onStartTest, onStartAnswerWriting, onClose }) => {
+    const [presetId, setPresetId] = useState(SESSION_PRESETS[0].id);
+    const preset = SESSION_PRESETS.find(p => p.id === presetId) ?? SESSION_PRESETS[0];
+    const [mode, setMode] = useState<'interview' | 'test' | 'writing'>('interview');
+    const [negativeFraction, setNegativeFraction] = useState(examPattern?.marking.negativeFraction ?? 0);
+    const [paper, setPaper] = useState<MainsPaper>('GS1');
+    const [wordLimit, setWordLimit] = useState<MainsWordLimit>(150);
+    const modes = [
+        { id: 'interview' as const, label: 'Interview' },
+        ...(examPattern ? [{ id: 'test' as const, label: `${examPattern.name} MCQ Test` }] : []),
+        ...(onStartAnswerWriting ? [{ id: 'writing' as const, label: 'Answer Writing' }] : []),
+    ];
+    const isInterview = mode === 'interview';
+    const onSelect = (difficulty: Difficulty) => {
+        if (mode === 'test' && examPattern) {
+            onStartTest({ ...examPattern, marking: { ...examPattern.marking, negativeFraction } }, difficulty);
+        } else if (mode === 'writing' && onStartAnswerWriting) {
+            onStartAnswerWriting({ paper, wordLimit }, difficulty);
+        } else {
+            onSelectDifficulty(difficulty, preset.settings);
+        }
+    };
+    // Adaptive sessions start in the middle and move with the candidate's scores
+    const onSelectAdaptive = () => onSelectDifficulty('Intermediate', { ...preset.settings, adaptiveDifficulty: true });
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in-up">
             <div className="bg-gray-800 rounded-lg p-8 shadow-xl max-w-sm w-full text-center border border-gray-700">
                 <h2 className="text-2xl font-bold text-white mb-2">Select Difficulty</h2>
                 <p className="text-lg text-gray-300 mb-6">for <span className="font-bold text-blue-400">{subject}</span></p>
+                {modes.length > 1 && (
+                    <div className="mb-6 flex flex-wrap justify-center gap-2">
+                        {modes.map(m => (
+                            <button
+                                key={m.id}
+                                onClick={() => setMode(m.id)}
+                                className={`text-sm font-semibold py-1.5 px-4 rounded-full transition-colors ${m.id === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                            >
+                                {m.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {mode === 'writing' && (
+                    <div className="mb-6 text-left">
+                        <p className="text-sm text-gray-400 mb-2">Paper</p>
+                        <div className="grid grid-cols-2 gap-2 mb-4">
+                            {MAINS_PAPER_ORDER.map(p => (
+                                <button
+                                    key={p}
+                                    onClick={() => setPaper(p)}
+                                    title={MAINS_PAPERS[p].topics.join(', ')}
+                                    className={`text-xs font-semibold py-1.5 px-3 rounded-lg transition-colors ${p === paper ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                                >
+                                    {MAINS_PAPERS[p].name}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-sm text-gray-400 mb-2">Word limit</p>
+                        <div className="flex gap-2">
+                            {([150, 250] as MainsWordLimit[]).map(limit => (
+                                <button
+                                    key={limit}
+                                    onClick={() => setWordLimit(limit)}
+                                    className={`text-xs font-semibold py-1 px-3 rounded-full transition-colors ${limit === wordLimit ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                                >
+                                    {limit} words
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">{WORD_LIMITS[wordLimit].marks} marks · {WORD_LIMITS[wordLimit].minutes} min per answer</p>
+                    </div>
+                )}
+                {mode === 'test' && examPattern && (
+                    <div className="mb-6 text-left">
+                        <p className="text-sm text-gray-400 mb-2">
+                            Sections <span className="text-gray-500">· {getPatternQuestionCount(examPattern)} questions in {getPatternMinutes(examPattern)} min</span>
+                        </p>
+                        <ol className="space-y-1 text-sm text-gray-200 list-decimal list-inside mb-4">
+                            {examPattern.sections.map(section => (
+                                <li key={section.name}>
+                                    {section.name} <span className="text-gray-500">· {section.questionCount} questions · {section.minutes} min</span>
+                                </li>
+                            ))}
+                        </ol>
+                        <p className="text-sm text-gray-400 mb-2">Negative marking per wrong MCQ</p>
+                        <div className="flex flex-wrap gap-2">
+                            {NEGATIVE_MARKING_OPTIONS.map(option => (
+                                <button
+                                    key={option.label}
+                                    onClick={() => setNegativeFraction(option.fraction)}
+                                    className={`text-xs font-semibold py-1 px-3 rounded-full transition-colors ${option.fraction === negativeFraction ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {track && isInterview && (
+                    <div className="mb-6 text-left">
+                        <p className="text-sm text-gray-400 mb-2">Rounds</p>
+                        <ol className="space-y-1 text-sm text-gray-200 list-decimal list-inside">
+                            {track.rounds.map(round => (
+                                <li key={round.name}>
+                                    {round.name} <span className="text-gray-500">· {round.questionCount} question{round.questionCount === 1 ? '' : 's'}</span>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
+                {isInterview && <div className="mb-6">
+                    <p className="text-sm text-gray-400 mb-2">Session length</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {SESSION_PRESETS.map(p => (
+                            <button
+                                key={p.id}
+                                onClick={() => setPresetId(p.id)}
+                                className={`text-xs font-semibold py-1 px-3 rounded-full transition-colors ${p.id === presetId ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                            >
+                                {p.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">{track ? `${preset.description}; the rounds set the number of questions` : preset.description}</p>
+                </div>}
                 <div className="flex flex-col space-y-4">
                     <button onClick={() => onSelect('Beginner')} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105">
                         Beginner
@@ -115,6 +251,10 @@ const DifficultyModal: React.FC<{
                     <button onClick={() => onSelect('Advanced')} className="w-full bg-red-600 hover:bg-red-500 text-white font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105">
                         Advanced
                     </button>
+                    {isInterview && <button onClick={onSelectAdaptive} className="w-full bg-gradient-to-r from-green-600 via-yellow-600 to-red-600 hover:opacity-90 text-white font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105">
+                        Adaptive
+                        <span className="block text-xs font-normal text-white/80">Steps up after strong answers, down after weak ones</span>
+                    </button>}
                 </div>
                 <button onClick={onClose} className="mt-6 text-gray-400 hover:text-white transition-colors">
                     Cancel
@@ -125,7 +265,7 @@ const DifficultyModal: React.FC<{
 };
 
 
-const DashboardScreen: React.FC<DashboardScreenProps> = ({ onStartInterview, onViewProfile, onResumeInterview }) => {
+const DashboardScreen: React.FC<DashboardScreenProps> = ({ onStartInterview, onStartCompanyInterview, onStartTest, onStartAnswerWriting, onViewProfile, onResumeInterview }) => {
   const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
   const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
   const [customMessages, setCustomMessages] = useState<ChatMessage[]>([]);
@@ -136,18 +276,17 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({ onStartInterview, onV
   const [isListening, setIsListening] = useState(false);
   const recognitionRef = useRef<any>(null);
 
-  const handleDifficultySelect = (difficulty: Difficulty) => {
+  const handleDifficultySelect = (difficulty: Difficulty, settings: SessionSettings) => {
     if (selectedSubject) {
-      onStartInterview(selectedSubject, difficulty);
+      onStartInterview(selectedSubject, difficulty, settings);
       setSelectedSubject(null);
     }
   };
 
-  const handleCompanyDifficultySelect = (difficulty: Difficulty) => {
+  const handleCompanyDifficultySelect = (difficulty: Difficulty, settings: SessionSettings) => {
     if (selectedCompany) {
-      // Use the company name as the subject for now
-      const companyAsSubject = selectedCompany as any as Subject;
-      onStartInterview(companyAsSubject, difficulty);
+      const track = getCompanyTrack(selectedCompany);
+      onStartCompanyInterview(selectedCompany, difficulty, { ...settings, questionCount: getTrackQuestionCount(track) });
       setSelectedCompany(null);
     }
   };
@@ -324,12 +463,17 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({ onStartInterview, onV
               ))}
             </div>
           </div>
+
+          <QuestionBankPanel />
         </div>
       </div>
       {selectedSubject && (
         <DifficultyModal
           subject={selectedSubject}
+          examPattern={getExamPattern(selectedSubject)}
           onSelect={handleDifficultySelect}
+          onStartTest={onStartTest}
+          onStartAnswerWriting={selectedSubject === Subject.UPSC ? onStartAnswerWriting : undefined}
           onClose={() => setSelectedSubject(null)}
         />
       )}
@@ -337,7 +481,10 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({ onStartInterview, onV
       {selectedCompany && (
         <DifficultyModal
           subject={selectedCompany}
+          track={getCompanyTrack(selectedCompany)}
+          examPattern={getExamPattern(selectedCompany)}
           onSelect={handleCompanyDifficultySelect}
+          onStartTest={onStartTest}
           onClose={() => setSelectedCompany(null)}
         />
       )}
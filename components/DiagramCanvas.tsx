@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import { DiagramNode, DiagramNodeKind, SystemDiagram } from '../types';
+import {
+  DIAGRAM_NODE_KINDS,
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  MAX_DIAGRAM_LABEL_LENGTH,
+  addNode,
+  addEdge,
+  removeElement,
+} from '../services/diagramService';
+
+interface DiagramCanvasProps {
+  diagram: SystemDiagram;
+  // Without it the diagram is shown read-only
+  onChange?: (diagram: SystemDiagram) => void;
+  // Ids of components to highlight, e.g. the ones the feedback talks about
+  highlight?: string[];
+  disabled?: boolean;
+}
+
+const NODE_WIDTH = 132;
+const NODE_HEIGHT = 48;
+
+const KIND_COLORS: Record<DiagramNodeKind, string> = {
+  client: '#38bdf8',
+  loadBalancer: '#a78bfa',
+  service: '#60a5fa',
+  database: '#34d399',
+  cache: '#fbbf24',
+  queue: '#f472b6',
+  storage: '#2dd4bf',
+  external: '#9ca3af',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Where the line from one box's centre towards a point leaves the box, so arrows stop at its border
+const pointOnBorder = (node: DiagramNode, towardsX: number, towardsY: number) => {
+  const dx = towardsX - node.x;
+  const dy = towardsY - node.y;
+  if (dx === 0 && dy === 0) return { x: node.x, y: node.y };
+  const scale = Math.min(
+    dx !== 0 ? NODE_WIDTH / 2 / Math.abs(dx) : Infinity,
+    dy !== 0 ? NODE_HEIGHT / 2 / Math.abs(dy) : Infinity
+  );
+  return { x: node.x + dx * scale, y: node.y + dy * scale };
+};
+
+export const DiagramCanvas: React.FC<DiagramCanvasProps> = ({ diagram, onChange, highlight = [], disabled = false }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  // First box clicked in connect mode
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<{ id: string; offsetX: number; offsetY: number } | null>(null);
+  const editable = !!onChange && !disabled;
+  const highlighted = new Set(highlight);
+
+  const selectedNode = diagram.nodes.find(n => n.id === selectedId);
+  const selectedEdge = diagram.edges.find(e => e.id === selectedId);
+
+  const toCanvasPoint = (event: React.PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!svgRef.current || !matrix) return { x: 0, y: 0 };
+    const point = svgRef.current.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const { x, y } = point.matrixTransform(matrix);
+    return { x, y };
+  };
+
+  const handleNodePointerDown = (event: React.PointerEvent, node: DiagramNode) => {
+    if (!editable) return;
+    event.stopPropagation();
+    if (connecting) {
+      if (connectFrom && connectFrom !== node.id) {
+        onChange!(addEdge(diagram, connectFrom, node.id));
+        setConnectFrom(null);
+      } else {
+        setConnectFrom(node.id);
+      }
+      return;
+    }
+    setSelectedId(node.id);
+    const { x, y } = toCanvasPoint(event);
+    setDragging({ id: node.id, offsetX: x - node.x, offsetY: y - node.y });
+    (event.target as Element).setPointerCapture?.(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragging) return;
+    const { x, y } = toCanvasPoint(event);
+    onChange!({
+      ...diagram,
+      nodes: diagram.nodes.map(n => n.id === dragging.id
+        ? {
+          ...n,
+          x: clamp(x - dragging.offsetX, NODE_WIDTH / 2, CANVAS_WIDTH - NODE_WIDTH / 2),
+          y: clamp(y - dragging.offsetY, NODE_HEIGHT / 2, CANVAS_HEIGHT - NODE_HEIGHT / 2),
+        }
+        : n),
+    });
+  };
+
+  const handleAddNode = (kind: DiagramNodeKind) => {
+    const next = addNode(diagram, kind);
+    onChange!(next);
+    setSelectedId(next.nodes[next.nodes.length - 1]?.id ?? null);
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+    onChange!(removeElement(diagram, selectedId));
+    setSelectedId(null);
+  };
+
+  const handleLabelChange = (label: string) => {
+    onChange!({
+      nodes: diagram.nodes.map(n => (n.id === selectedId ? { ...n, label } : n)),
+      edges: diagram.edges.map(e => (e.id === selectedId ? { ...e, label } : e)),
+    });
+  };
+
+  const toggleConnecting = () => {
+    setConnecting(on => !on);
+    setConnectFrom(null);
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      {editable && (
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(DIAGRAM_NODE_KINDS) as DiagramNodeKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => handleAddNode(kind)}
+              className="text-xs font-semibold py-1 px-2 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors">
+              {DIAGRAM_NODE_KINDS[kind].icon} {DIAGRAM_NODE_KINDS[kind].label}
+            </button>
+          ))}
+          <button
+            onClick={toggleConnecting}
+            disabled={diagram.nodes.length < 2}
+            title="Click a component, then the component it sends requests or data to"
+            className={`text-xs font-semibold py-1 px-2 rounded-md transition-colors disabled:opacity-50 ${connecting ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}>
+            → Connect{connecting ? 'ing…' : ''}
+          </button>
+        </div>
+      )}
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+        className={`w-full bg-gray-900 border border-gray-700 rounded-lg select-none touch-none ${connecting ? 'cursor-crosshair' : ''}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerLeave={() => setDragging(null)}
+        onPointerDown={() => setSelectedId(null)}
+      >
+        <defs>
+          <marker id="diagram-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+          </marker>
+        </defs>
+
+        {diagram.nodes.length === 0 && (
+          <text x={CANVAS_WIDTH / 2} y={CANVAS_HEIGHT / 2} textAnchor="middle" fill="#6b7280" fontSize="16">
+            {editable ? 'Add components above, then connect them' : 'No diagram'}
+          </text>
+        )}
+
+        {diagram.edges.map(edge => {
+          const from = diagram.nodes.find(n => n.id === edge.from);
+          const to = diagram.nodes.find(n => n.id === edge.to);
+          if (!from || !to) return null;
+          const start = pointOnBorder(from, to.x, to.y);
+          const end = pointOnBorder(to, from.x, from.y);
+          const selected = edge.id === selectedId;
+          return (
+            <g
+              key={edge.id}
+              onPointerDown={event => {
+                if (!editable || connecting) return;
+                event.stopPropagation();
+                setSelectedId(edge.id);
+              }}
+              className={editable ? 'cursor-pointer' : ''}
+            >
+              {/* Wide transparent line so the arrow is easy to click */}
+              <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="transparent" strokeWidth="12" />
+              <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke={selected ? '#60a5fa' : '#9ca3af'} strokeWidth="2" markerEnd="url(#diagram-arrow)" />
+              {edge.label && (
+                <text x={(start.x + end.x) / 2} y={(start.y + end.y) / 2 - 6} textAnchor="middle" fill="#d1d5db" fontSize="12">
+                  {edge.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {diagram.nodes.map(node => {
+          const color = KIND_COLORS[node.kind];
+          const isHighlighted = highlighted.has(node.id);
+          const isActive = node.id === selectedId || node.id === connectFrom;
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${node.x - NODE_WIDTH / 2}, ${node.y - NODE_HEIGHT / 2})`}
+              onPointerDown={event => handleNodePointerDown(event, node)}
+              className={editable ? (connecting ? 'cursor-crosshair' : 'cursor-move') : ''}
+            >
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx="8"
+                fill="#1f2937"
+                stroke={isHighlighted ? '#f87171' : isActive ? '#ffffff' : color}
+                strokeWidth={isHighlighted || isActive ? 3 : 2}
+              />
+              <text x="10" y={NODE_HEIGHT / 2 + 5} fontSize="16">{DIAGRAM_NODE_KINDS[node.kind].icon}</text>
+              <text x="34" y={NODE_HEIGHT / 2 + 4} fill="#f3f4f6" fontSize="12">
+                {node.label.length > 14 ? `${node.label.slice(0, 13)}…` : node.label}
+                <title>{node.label}</title>
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {editable && (selectedNode || selectedEdge) && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={selectedNode ? selectedNode.label : selectedEdge!.label}
+            onChange={event => handleLabelChange(event.target.value)}
+            maxLength={MAX_DIAGRAM_LABEL_LENGTH}
+            placeholder={selectedNode ? 'Component name' : 'What flows along this arrow, e.g. "writes orders"'}
+            className="flex-1 bg-gray-700 border border-gray-600 text-white text-sm rounded-md py-1.5 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleDelete}
+            className="text-xs font-semibold py-1.5 px-3 rounded-md bg-red-600/80 hover:bg-red-500 text-white transition-colors">
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,18 @@
 
 import React from 'react';
-import { Feedback } from '../types';
+import { Feedback, CodeScores, RubricDimension, SystemDiagram } from '../types';
+import { RUBRIC_DIMENSION_LABELS } from '../services/rubrics';
+import { StarAnalysisPanel } from './StarAnalysisPanel';
+import { CorrectionsPanel } from './CorrectionsPanel';
+import { ComponentFeedbackPanel } from './ComponentFeedbackPanel';
+import { MainsEvaluationPanel } from './MainsEvaluationPanel';
 
 interface FeedbackCardProps {
   feedback: Feedback;
+  // The answer being scored, highlighted in the STAR analysis or marked with corrections when there are any
+  answer?: string;
+  // The diagram a system design answer was drawn with, marked where the component feedback points
+  diagram?: SystemDiagram;
 }
 
 const ScoreCircle: React.FC<{ score: number }> = ({ score }) => {
@@ -44,8 +53,28 @@ const ScoreCircle: React.FC<{ score: number }> = ({ score }) => {
     );
 };
 
+const CODE_SCORE_LABELS: Record<keyof CodeScores, string> = {
+  correctness: 'Correctness',
+  complexity: 'Complexity',
+  style: 'Style',
+};
+
+const SubScoreBar: React.FC<{ label: string; score: number }> = ({ label, score }) => {
+  const color = score >= 8 ? 'bg-green-500' : score >= 5 ? 'bg-yellow-500' : 'bg-red-500';
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-300 mb-1">
+        <span>{label}</span>
+        <span className="font-semibold">{score}/10</span>
+      </div>
+      <div className="h-2 bg-gray-600 rounded-full overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${Math.max(0, Math.min(score, 10)) * 10}%` }} />
+      </div>
+    </div>
+  );
+};
 
-export const FeedbackCard: React.FC<FeedbackCardProps> = ({ feedback }) => {
+export const FeedbackCard: React.FC<FeedbackCardProps> = ({ feedback, answer, diagram }) => {
   return (
     <div className="w-full bg-gray-700/50 backdrop-blur-sm border border-gray-600 rounded-lg p-4 space-y-4">
       <div className="flex items-center gap-4">
@@ -56,11 +85,34 @@ export const FeedbackCard: React.FC<FeedbackCardProps> = ({ feedback }) => {
         </div>
       </div>
 
+      {feedback.codeScores && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {(Object.keys(CODE_SCORE_LABELS) as Array<keyof CodeScores>).map(key => (
+            <SubScoreBar key={key} label={CODE_SCORE_LABELS[key]} score={feedback.codeScores![key]} />
+          ))}
+        </div>
+      )}
+
+      {feedback.rubricScores && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {(Object.keys(RUBRIC_DIMENSION_LABELS) as RubricDimension[])
+            .filter(dimension => feedback.rubricScores![dimension] !== undefined)
+            .map(dimension => (
+              <SubScoreBar key={dimension} label={RUBRIC_DIMENSION_LABELS[dimension]} score={feedback.rubricScores![dimension]!} />
+            ))}
+        </div>
+      )}
+
       <div>
         <h4 className="font-semibold text-blue-400 mb-1">Evaluation:</h4>
         <p className="text-gray-300">{feedback.feedback}</p>
       </div>
 
+      {feedback.starAnalysis && <StarAnalysisPanel analysis={feedback.starAnalysis} answer={answer} />}
+      {feedback.corrections && <CorrectionsPanel corrections={feedback.corrections} answer={answer} />}
+      {feedback.componentFeedback && <ComponentFeedbackPanel feedback={feedback.componentFeedback} diagram={diagram} />}
+      {feedback.mainsEvaluation && <MainsEvaluationPanel evaluation={feedback.mainsEvaluation} />}
+
       {feedback.nonVerbalFeedback && (
         <div>
             <h4 className="font-semibold text-purple-400 mb-1">Non-Verbal Feedback:</h4>
@@ -69,8 +121,12 @@ export const FeedbackCard: React.FC<FeedbackCardProps> = ({ feedback }) => {
       )}
       
       <div>
-        <h4 className="font-semibold text-green-400 mb-1">Suggested Answer:</h4>
-        <p className="text-gray-300 italic">{feedback.suggestedAnswer}</p>
+        <h4 className="font-semibold text-green-400 mb-1">{feedback.mainsEvaluation ? 'Model Answer:' : 'Suggested Answer:'}</h4>
+        {feedback.codeScores ? (
+          <pre className="text-sm text-gray-200 bg-gray-900 rounded-md p-3 overflow-x-auto whitespace-pre">{feedback.suggestedAnswer}</pre>
+        ) : (
+          <p className={`text-gray-300 italic ${feedback.mainsEvaluation ? 'whitespace-pre-line' : ''}`}>{feedback.suggestedAnswer}</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,64 @@
+import React from 'react';
+import { FluencyMetrics } from '../types';
+import { LONG_PAUSE_SECONDS } from '../services/fluencyService';
+
+interface FluencyPanelProps {
+  fluency: FluencyMetrics;
+}
+
+// Comfortable conversational pace, in words per minute
+const PACE_RANGE = { min: 110, max: 160 };
+
+const describePace = (wpm: number): { label: string; className: string } => {
+  if (wpm < PACE_RANGE.min) return { label: 'A little slow', className: 'text-yellow-400' };
+  if (wpm > PACE_RANGE.max) return { label: 'A little fast', className: 'text-yellow-400' };
+  return { label: 'Natural pace', className: 'text-green-400' };
+};
+
+const Metric: React.FC<{ label: string; value: string; note?: React.ReactNode }> = ({ label, value, note }) => (
+  <div className="bg-gray-800/60 rounded-md p-3">
+    <div className="text-xs text-gray-400">{label}</div>
+    <div className="text-xl font-bold text-white">{value}</div>
+    {note && <div className="text-xs mt-0.5">{note}</div>}
+  </div>
+);
+
+export const FluencyPanel: React.FC<FluencyPanelProps> = ({ fluency }) => {
+  const pace = describePace(fluency.wordsPerMinute);
+  const topFillers = Object.entries(fluency.fillers).sort((a, b) => b[1] - a[1]).slice(0, 3);
+
+  return (
+    <div className="w-full bg-gray-700/50 border border-gray-600 rounded-lg p-4 space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-semibold text-teal-400">Speaking Fluency</h4>
+        <span className="text-xs text-gray-400">{fluency.wordCount} words in {fluency.speakingSeconds}s</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <Metric label="Pace" value={`${fluency.wordsPerMinute} wpm`} note={<span className={pace.className}>{pace.label}</span>} />
+        <Metric
+          label="Filler words"
+          value={String(fluency.fillerCount)}
+          note={topFillers.length > 0 && <span className="text-gray-300">{topFillers.map(([word, count]) => `"${word}" ×${count}`).join(', ')}</span>}
+        />
+        <Metric
+          label={`Pauses over ${LONG_PAUSE_SECONDS}s`}
+          value={String(fluency.longPauses)}
+          note={fluency.longPauses > 0 && <span className="text-gray-300">longest {fluency.longestPauseSeconds}s</span>}
+        />
+        <Metric label="Vocabulary variety" value={`${Math.round(fluency.vocabularyDiversity * 100)}%`} note={<span className="text-gray-300">distinct words</span>} />
+      </div>
+
+      {fluency.repeatedPhrases.length > 0 && (
+        <div>
+          <div className="text-xs text-gray-400 mb-1">Repeated phrases</div>
+          <div className="flex flex-wrap gap-2">
+            {fluency.repeatedPhrases.map(({ phrase, count }) => (
+              <span key={phrase} className="text-xs bg-gray-800 text-gray-200 rounded-full px-2 py-1">"{phrase}" ×{count}</span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
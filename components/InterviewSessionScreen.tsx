@@ -1,14 +1,32 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Subject, ChatMessage, Feedback, Difficulty } from '../types';
-import { generateQuestion, evaluateAnswer } from '../services/geminiService';
+import { Subject, Company, ChatMessage, Feedback, Difficulty, ConversationTurn, SessionReport, SessionSettings, CodingLanguage, CodeTestRun, SpeechSegment, SystemDiagram } from '../types';
+import { generateQuestion, evaluateAnswer, generateFollowUpQuestion } from '../services/geminiService';
 import { updateProfileOnSessionEnd } from '../services/profileService';
+import { addFeedback, endSessionAndSaveFeedbacks, attachSessionReport, getSessionFeedback, getMistakeFocus, FeedbackEntry, SessionFeedback } from '../services/feedbackService';
+import { createSessionReport, summarizeRound } from '../services/reportService';
+import { getCurrentUser } from '../services/authService';
+import { UNTIMED_SETTINGS, formatDuration } from '../services/sessionPresets';
+import { DIFFICULTY_ORDER, getAdaptiveDifficulty } from '../services/difficultyService';
+import { isCodingSubject, getDefaultCodingLanguage, getStarterCode } from '../services/codingLanguages';
+import { getCodingQuestion } from '../services/codingService';
+import { canRunTests, runCodeTests } from '../services/codeRunner';
+import { computeFluencyMetrics } from '../services/fluencyService';
+import { getCompanyTrack, getRoundEnd, getRoundSubject } from '../services/companyTracks';
+import { EMPTY_DIAGRAM, isDiagramEmpty } from '../services/diagramService';
 import { Avatar, AvatarState } from './Avatar';
 import { MicrophoneIcon } from './icons/MicrophoneIcon';
 import { SendIcon } from './icons/SendIcon';
 import { StopIcon } from './icons/StopIcon';
 import { FeedbackCard } from './FeedbackCard';
 import { WebcamMonitor } from './WebcamMonitor';
+import { SessionReportCard } from './SessionReportCard';
+import { SessionExportButtons } from './SessionExportButtons';
+import { CodeEditor } from './CodeEditor';
+import { TestResultsPanel } from './TestResultsPanel';
+import { FluencyPanel } from './FluencyPanel';
+import { RoundSummaryCard } from './RoundSummaryCard';
+import { DiagramCanvas } from './DiagramCanvas';
 
 // SpeechRecognition interfaces for TypeScript
 declare global {
@@ -20,13 +38,48 @@ declare global {
 
 interface InterviewSessionScreenProps {
   subject: Subject | string;
+  // Company interviews run the company's rounds in order
+  company?: Company;
   difficulty: Difficulty;
+  settings?: SessionSettings;
   onEndSession: () => void;
 }
 
 const speakingAvatarStates: AvatarState[] = ['speaking', 'speaking_o', 'speaking_e', 'speaking_m'];
 
-const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject, difficulty, onEndSession }) => {
+// How many times the interviewer may drill down on one main question
+const MAX_FOLLOW_UPS = 2;
+
+// Submitted in place of an answer when the answer timer runs out before anything was said
+const NO_ANSWER_TEXT = '(No answer given before time ran out)';
+// Countdowns turn red for the last stretch
+const TIMER_WARNING_SECONDS = 30;
+
+const TimerBadge: React.FC<{ label: string; seconds: number }> = ({ label, seconds }) => (
+  <span className={`text-sm font-mono font-semibold px-2 py-1 rounded-md ${seconds <= TIMER_WARNING_SECONDS ? 'bg-red-600 text-white animate-pulse' : 'bg-gray-700 text-gray-200'}`}>
+    {label} {formatDuration(seconds)}
+  </span>
+);
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  Beginner: 'bg-green-600',
+  Intermediate: 'bg-yellow-600',
+  Advanced: 'bg-red-600',
+};
+
+// The main question currently being discussed and every follow-up turn after it
+const getCurrentThread = (messages: ChatMessage[]): ConversationTurn[] => {
+  let start = -1;
+  messages.forEach((m, i) => {
+    if (m.role === 'model' && !m.isFollowUp) start = i;
+  });
+  return messages
+    .slice(Math.max(start, 0))
+    .filter(m => m.role === 'model' || m.role === 'user')
+    .map(m => ({ role: m.role === 'model' ? 'interviewer' : 'candidate', text: m.text }));
+};
+
+const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject, company, difficulty, settings = UNTIMED_SETTINGS, onEndSession }) => {
   console.log('🎬 InterviewSessionScreen mounted with:', { subject, difficulty });
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [userInput, setUserInput] = useState('');
@@ -47,18 +100,102 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
   const mouthShapeIndex = useRef(0);
   const hasInitializedRef = useRef(false);
   const autoStartAttemptsRef = useRef(0);
+  const hasEndedRef = useRef(false);
+  const [interviewerMode, setInterviewerMode] = useState(false);
+  const followUpCountRef = useRef(0);
+  const sessionEntriesRef = useRef<FeedbackEntry[]>([]);
+  const [sessionEnded, setSessionEnded] = useState(false);
+  const [report, setReport] = useState<SessionReport | null>(null);
+  const [savedSession, setSavedSession] = useState<SessionFeedback | null>(null);
+  // When the current question finished being asked; null while no answer is expected
+  const [answerStartedAt, setAnswerStartedAt] = useState<number | null>(null);
+  const [sessionDeadline] = useState<number | null>(() => settings.totalTimeLimit ? Date.now() + settings.totalTimeLimit * 60000 : null);
+  const [now, setNow] = useState(() => Date.now());
+  const [sessionTimeUp, setSessionTimeUp] = useState(false);
+  const [mainQuestionCount, setMainQuestionCount] = useState(0);
+  // Level new questions are asked at; only changes in adaptive sessions
+  const [currentDifficulty, setCurrentDifficulty] = useState<Difficulty>(difficulty);
+  const currentDifficultyRef = useRef<Difficulty>(difficulty);
+  // Scores earned since the adaptive level last changed
+  const scoresAtLevelRef = useRef<number[]>([]);
+  // Coding mode asks problems to solve in the editor instead of spoken questions
+  const [codingMode, setCodingMode] = useState(false);
+  const [codingLanguage, setCodingLanguage] = useState<CodingLanguage>(() => getDefaultCodingLanguage(subject));
+  const [code, setCode] = useState(() => getStarterCode(getDefaultCodingLanguage(subject)));
+  // Latest "Run Tests" result for the code in the editor
+  const [testRun, setTestRun] = useState<CodeTestRun | null>(null);
+  // English answers are recorded continuously, so the speaker can pause and we can measure it,
+  // and submitted when they stop; other subjects submit at the first pause
+  const isFluencySession = subject === Subject.English;
+  const speechSegmentsRef = useRef<SpeechSegment[]>([]);
+  const listeningStartedAtRef = useRef<number | null>(null);
+  const pendingTranscriptRef = useRef('');
+  const [isRunningTests, setIsRunningTests] = useState(false);
+  // The diagram being drawn for the current system design question
+  const [diagram, setDiagram] = useState<SystemDiagram>(EMPTY_DIAGRAM);
+  const userId = getCurrentUser()?.id ?? '';
+  // Rules the user keeps getting wrong in past English sessions; questions and corrections focus on them
+  const [focusMistakes] = useState<string[]>(() => (isFluencySession ? getMistakeFocus(userId) : []));
+  // Company interviews move through the track's rounds; each ends after its question count
+  const track = company ? getCompanyTrack(company) : null;
+  const [roundIndex, setRoundIndex] = useState(0);
+  const currentRound = track?.rounds[roundIndex];
+  const roundComplete = !!track && mainQuestionCount >= getRoundEnd(track, roundIndex);
+  const roundNotStarted = !!track && roundIndex > 0 && mainQuestionCount === getRoundEnd(track, roundIndex - 1);
+
+  const questionLimitReached = settings.questionCount !== null && mainQuestionCount >= settings.questionCount;
+  const answerSecondsLeft = settings.answerTimeLimit !== null && answerStartedAt !== null
+    ? Math.min(settings.answerTimeLimit, settings.answerTimeLimit - (now - answerStartedAt) / 1000)
+    : null;
+  const sessionSecondsLeft = sessionDeadline !== null ? (sessionDeadline - now) / 1000 : null;
+  const getNextButtonLabel = () => {
+    if (sessionTimeUp || (questionLimitReached && !interviewerMode)) return 'Finish Session';
+    if (roundComplete && !interviewerMode) return `Finish ${currentRound!.name}`;
+    if (questionLimitReached || roundComplete) return 'Continue';
+    return roundNotStarted ? `Start ${currentRound!.name}` : 'Next Question';
+  };
+  const nextButtonLabel = getNextButtonLabel();
 
   const hasModelQuestion = messages.some(m => m.role === 'model');
-
-  const handleEndSessionClick = () => {
+  const canCode = isCodingSubject(subject);
+  const currentQuestion = [...messages].reverse().find(m => m.role === 'model');
+  const isCodingTurn = !!currentQuestion?.isCoding && !showNextQuestionButton;
+  const isDesignTurn = !!currentQuestion?.isDesign && !showNextQuestionButton;
+  const hasWrittenCode = code.trim().length > 0 && code.trim() !== getStarterCode(codingLanguage).trim();
+  const canRunCurrentTests = isCodingTurn && canRunTests(codingLanguage, currentQuestion?.functionName, currentQuestion?.testCases);
+  // The answer a feedback message scores is the candidate's last message before it
+  const getAnswerBefore = (index: number) => messages.slice(0, index).reverse().find(m => m.role === 'user');
+  const getRoundAfter = (round: string) => track?.rounds[track.rounds.findIndex(r => r.name === round) + 1]?.name;
+
+  const handleEndSessionClick = useCallback(() => {
+    // The absence timer can fire more than once; only record the session a single time
+    if (hasEndedRef.current) return;
+    hasEndedRef.current = true;
+
+    const { sessionId } = endSessionAndSaveFeedbacks(userId, subject, difficulty, settings.adaptiveDifficulty);
     if (sessionScores.current.length > 0) {
       const averageScore = sessionScores.current.reduce((a, b) => a + b, 0) / sessionScores.current.length;
       updateProfileOnSessionEnd(subject as Subject, averageScore);
     }
     // Cancel any ongoing speech
     window.speechSynthesis.cancel();
-    onEndSession();
-  };
+    recognitionRef.current?.stop();
+
+    const entries = sessionEntriesRef.current;
+    if (entries.length === 0) {
+      onEndSession();
+      return;
+    }
+
+    setSessionEnded(true);
+    createSessionReport(subject, currentDifficultyRef.current, entries).then(sessionReport => {
+      setReport(sessionReport);
+      if (sessionId) {
+        attachSessionReport(userId, sessionId, sessionReport);
+        setSavedSession(getSessionFeedback(userId, sessionId));
+      }
+    });
+  }, [userId, subject, difficulty, settings.adaptiveDifficulty, onEndSession]);
 
   const handleUserPresent = () => {
     // Reset absence counter on return
@@ -167,8 +304,38 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
     setIsLoading(true);
     setAvatarState('thinking');
     try {
-      console.log('About to call generateQuestion with:', { subject, difficulty, prevQuestions: previousQuestionsRef.current.length });
-      const question = await generateQuestion(subject, difficulty, previousQuestionsRef.current);
+      const questionDifficulty = settings.adaptiveDifficulty
+        ? getAdaptiveDifficulty(currentDifficultyRef.current, scoresAtLevelRef.current)
+        : difficulty;
+      if (questionDifficulty !== currentDifficultyRef.current) {
+        const steppedUp = DIFFICULTY_ORDER.indexOf(questionDifficulty) > DIFFICULTY_ORDER.indexOf(currentDifficultyRef.current);
+        currentDifficultyRef.current = questionDifficulty;
+        scoresAtLevelRef.current = [];
+        setCurrentDifficulty(questionDifficulty);
+        setMessages(prev => [...prev, {
+          role: 'system',
+          text: steppedUp
+            ? `📈 Strong answers! Stepping up to ${questionDifficulty}.`
+            : `📉 Let's ease off a little. Moving to ${questionDifficulty}.`
+        }]);
+      }
+
+      console.log('About to call generateQuestion with:', { subject, difficulty: questionDifficulty, codingMode, prevQuestions: previousQuestionsRef.current.length });
+      let question: string;
+      let codingDetails: Pick<ChatMessage, 'isCoding' | 'functionName' | 'testCases'> = {};
+      // Online assessment rounds are always solved in the editor
+      const askCodingQuestion = codingMode || currentRound?.type === 'onlineAssessment';
+      if (askCodingQuestion) {
+        const codingSubject = company && currentRound ? getRoundSubject(company, currentRound) : subject;
+        const codingQuestion = await getCodingQuestion(codingSubject, codingLanguage, questionDifficulty, previousQuestionsRef.current);
+        question = codingQuestion.question;
+        codingDetails = { isCoding: true, functionName: codingQuestion.functionName, testCases: codingQuestion.testCases };
+      } else {
+        const companyRound = company && currentRound ? { company, round: currentRound } : undefined;
+        question = await generateQuestion(subject, questionDifficulty, previousQuestionsRef.current, focusMistakes, companyRound);
+      }
+      // System design questions are answered on the diagram canvas as well as by voice
+      const isDesign = !askCodingQuestion && (subject === Subject.SystemDesign || currentRound?.type === 'systemDesign');
       console.log('Question generated:', question);
 
       if (!question || question.trim().length === 0) {
@@ -180,10 +347,19 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
 
       // Track this question to avoid repetition in future calls
       previousQuestionsRef.current.push(question);
+      followUpCountRef.current = 0;
+      setMainQuestionCount(count => count + 1);
+      if (askCodingQuestion) {
+        setCode(getStarterCode(codingLanguage));
+        setTestRun(null);
+      }
+      if (isDesign) {
+        setDiagram(EMPTY_DIAGRAM);
+      }
 
       console.log('Setting message with question:', question);
       setMessages(prev => {
-        const newMessages: ChatMessage[] = [...prev, { role: 'model', text: question }];
+        const newMessages: ChatMessage[] = [...prev, { role: 'model', text: question, difficulty: questionDifficulty, isDesign: isDesign || undefined, ...codingDetails }];
         console.log('Messages updated, total:', newMessages.length);
         return newMessages;
       });
@@ -197,6 +373,7 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
       }
       console.log('Done speaking');
       setAvatarState('listening');
+      setAnswerStartedAt(Date.now());
     } catch (error) {
       console.error('Error in startNewTurn:', error);
       setIsLoading(false);
@@ -204,7 +381,65 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
       // Show error message to user
       setMessages(prev => [...prev, { role: 'system', text: 'Oops, something went wrong getting the next question. Give me a second and try again?' }]);
     }
-  }, [subject, difficulty, speak]);
+  }, [subject, difficulty, settings.adaptiveDifficulty, speak, codingMode, codingLanguage, focusMistakes, company, currentRound]);
+
+  // Between rounds of a company interview: sum up the round just finished and wait for the
+  // candidate to start the next one
+  const finishRound = useCallback(() => {
+    const nextRound = track?.rounds[roundIndex + 1];
+    if (!currentRound || !nextRound) {
+      handleEndSessionClick();
+      return;
+    }
+    setMessages(prev => [...prev, {
+      role: 'system',
+      text: `${currentRound.name} complete.`,
+      roundSummary: summarizeRound(currentRound.name, sessionEntriesRef.current),
+    }]);
+    setRoundIndex(roundIndex + 1);
+    speak(`That's the end of the ${currentRound.name}. Next up: ${nextRound.name}.`);
+  }, [track, roundIndex, currentRound, handleEndSessionClick, speak]);
+
+  // In interviewer mode, let the model drill down on the last answer before moving to a new question.
+  // Timed sessions wrap up here once the clock or the question count runs out.
+  const handleNextClick = useCallback(async () => {
+    if (sessionTimeUp) {
+      handleEndSessionClick();
+      return;
+    }
+    const moveOn = () => {
+      if (questionLimitReached) handleEndSessionClick();
+      else if (roundComplete) finishRound();
+      else startNewTurn();
+    };
+
+    // Starting the next round of a company interview never follows up on the last round's answer
+    const lastFeedback = [...messages].reverse().find(m => m.feedback)?.feedback;
+    if (!interviewerMode || roundNotStarted || followUpCountRef.current >= MAX_FOLLOW_UPS || !lastFeedback || lastFeedback.error) {
+      moveOn();
+      return;
+    }
+
+    setShowNextQuestionButton(false);
+    setIsLoading(true);
+    setAvatarState('thinking');
+    const followUp = await generateFollowUpQuestion(subject, currentDifficultyRef.current, getCurrentThread(messages), lastFeedback.score);
+    if (!followUp) {
+      setIsLoading(false);
+      moveOn();
+      return;
+    }
+
+    followUpCountRef.current += 1;
+    previousQuestionsRef.current.push(followUp);
+    // Follow-ups on a design question are answered on the same diagram
+    const isDesign = [...messages].reverse().find(m => m.role === 'model' && !m.isFollowUp)?.isDesign;
+    setMessages(prev => [...prev, { role: 'model', text: followUp, isFollowUp: true, difficulty: currentDifficultyRef.current, isDesign }]);
+    setIsLoading(false);
+    await speak(followUp);
+    setAvatarState('listening');
+    setAnswerStartedAt(Date.now());
+  }, [interviewerMode, messages, subject, speak, startNewTurn, sessionTimeUp, questionLimitReached, roundComplete, roundNotStarted, finishRound, handleEndSessionClick]);
 
   const captureFrame = (): string | null => {
     if (videoRef.current && canvasRef.current && videoRef.current.readyState >= 2) { // Ensure video data is available
@@ -221,30 +456,66 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
     return null;
   };
 
-  const handleSubmit = useCallback(async (text: string) => {
+  const handleSubmit = useCallback(async (text: string, timedOut = false) => {
     const currentInput = text.trim();
     if (!currentInput || isInteractionDisabled) return;
 
+    const timeTakenSeconds = answerStartedAt !== null ? Math.round((Date.now() - answerStartedAt) / 1000) : undefined;
+    setAnswerStartedAt(null);
+
+    // Only answers given by voice have timings to measure; typed ones have no recording
+    const fluency = isFluencySession && listeningStartedAtRef.current !== null
+      ? computeFluencyMetrics(speechSegmentsRef.current, listeningStartedAtRef.current) ?? undefined
+      : undefined;
+    pendingTranscriptRef.current = '';
+    speechSegmentsRef.current = [];
+    listeningStartedAtRef.current = null;
+    if (isFluencySession) {
+      // Sent while still recording: stop, so later speech doesn't become another answer
+      recognitionRef.current?.stop();
+    }
     setUserInput('');
     setIsLoading(true);
     setAvatarState('thinking');
 
-    const lastQuestion = [...messages].reverse().find(m => m.role === 'model')?.text;
+    const lastQuestionMessage = [...messages].reverse().find(m => m.role === 'model');
+    const lastQuestion = lastQuestionMessage?.text;
+    const isFollowUp = !!lastQuestionMessage?.isFollowUp;
+    const questionDifficulty = lastQuestionMessage?.difficulty ?? difficulty;
+    const codeLanguage = lastQuestionMessage?.isCoding && currentInput !== NO_ANSWER_TEXT ? codingLanguage : undefined;
+    const answerDiagram = lastQuestionMessage?.isDesign && !isDiagramEmpty(diagram) ? diagram : undefined;
     if (!lastQuestion) {
       console.error("Could not find the last question.");
       setIsLoading(false);
       return;
     }
 
-    const userMessage: ChatMessage = { role: 'user', text: currentInput };
-    setMessages(prev => [...prev, userMessage]);
+    // Run the tests before evaluating so the score reflects whether the code actually works
+    const executedRun = codeLanguage && canRunTests(codeLanguage, lastQuestionMessage.functionName, lastQuestionMessage.testCases)
+      ? await runCodeTests(currentInput, codeLanguage, lastQuestionMessage.functionName!, lastQuestionMessage.testCases!)
+      : undefined;
+    setTestRun(null);
 
-    const imageB64Data = difficulty === 'Advanced' ? captureFrame() : null;
-    const feedback: Feedback = await evaluateAnswer(lastQuestion, currentInput, subject as Subject, difficulty, imageB64Data);
+    const userMessage: ChatMessage = { role: 'user', text: currentInput, isFollowUp, codeLanguage, testRun: executedRun, fluency, diagram: answerDiagram };
+    setMessages(prev => timedOut
+      ? [...prev, userMessage, { role: 'system', text: "⏱ Time's up, so your answer was submitted automatically." }]
+      : [...prev, userMessage]);
+
+    const imageB64Data = difficulty === 'Advanced' && !codeLanguage ? captureFrame() : null;
+    // Company rounds are scored as the subject they test, e.g. HR rounds with the behavioral rubric
+    const evaluationSubject = company && currentRound ? getRoundSubject(company, currentRound) : subject;
+    const feedback: Feedback = await evaluateAnswer(lastQuestion, currentInput, evaluationSubject as Subject, questionDifficulty, imageB64Data, codeLanguage, executedRun, focusMistakes, answerDiagram);
 
     if (!feedback.error) {
       sessionScores.current.push(feedback.score);
+      scoresAtLevelRef.current.push(feedback.score);
     }
+    const parentQuestion = isFollowUp
+      ? [...messages].reverse().find(m => m.role === 'model' && !m.isFollowUp)?.text
+      : undefined;
+    const details = { followUpTo: parentQuestion, timeTakenSeconds, timedOut: timedOut || undefined, codeLanguage, testRun: executedRun, fluency, round: currentRound?.name, diagram: answerDiagram };
+    addFeedback(userId, lastQuestion, currentInput, feedback, subject, questionDifficulty, details);
+    sessionEntriesRef.current.push({ question: lastQuestion, answer: currentInput, feedback, difficulty: questionDifficulty, ...details });
 
     // Set avatar reaction based on score
     if (feedback.error) {
@@ -263,7 +534,8 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
     const feedbackMessage: ChatMessage = {
       role: 'system',
       text: 'Here is your feedback:',
-      feedback: feedback
+      feedback: feedback,
+      isFollowUp
     };
     setMessages(prev => [...prev, feedbackMessage]);
 
@@ -272,7 +544,7 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
     setIsLoading(false);
     setAvatarState('idle');
     setShowNextQuestionButton(true);
-  }, [isInteractionDisabled, messages, subject, difficulty, speak]);
+  }, [isInteractionDisabled, messages, subject, difficulty, speak, userId, answerStartedAt, codingLanguage, isFluencySession, focusMistakes, company, currentRound, diagram]);
 
   useEffect(() => {
     console.log('🔵 useEffect initialization hook running, hasInitializedRef.current:', hasInitializedRef.current);
@@ -288,9 +560,16 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
 
     const initialMessage: ChatMessage = {
       role: 'system',
-      text: `Alright, let's do this! Starting a ${difficulty} interview on ${subject}. Ready whenever you are.`
+      text: track
+        ? `Alright, let's do this! Starting a ${difficulty} ${track.company} interview with ${track.rounds.length} rounds: ${track.rounds.map(r => r.name).join(' → ')}. Ready whenever you are.`
+        : settings.adaptiveDifficulty
+        ? `Alright, let's do this! Starting an adaptive interview on ${subject} at ${difficulty} level. Questions get harder or easier as you go. Ready whenever you are.`
+        : `Alright, let's do this! Starting a ${difficulty} interview on ${subject}. Ready whenever you are.`
     };
-    setMessages([initialMessage]);
+    const focusMessage: ChatMessage[] = focusMistakes.length > 0
+      ? [{ role: 'system', text: `🎯 This session focuses on your recurring mistakes: ${focusMistakes.join(', ')}.` }]
+      : [];
+    setMessages([initialMessage, ...focusMessage]);
 
     return () => {
       console.log('🔵 useEffect cleanup');
@@ -315,17 +594,22 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
     if (SpeechRecognition) {
       const recognition = new SpeechRecognition();
-      recognition.continuous = false;
+      recognition.continuous = isFluencySession;
       recognition.interimResults = true;
       recognition.lang = 'en-US';
 
       recognition.onstart = () => {
+        speechSegmentsRef.current = [];
+        listeningStartedAtRef.current = Date.now();
         setIsListening(true);
         setAvatarState('listening');
       };
       recognition.onend = () => {
         setIsListening(false);
         setAvatarState('idle');
+        if (pendingTranscriptRef.current) {
+          handleSubmit(pendingTranscriptRef.current);
+        }
       };
       recognition.onerror = (event: any) => {
         console.error('Speech recognition error:', event.error);
@@ -333,12 +617,29 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
         setAvatarState('idle');
       };
       recognition.onresult = (event: any) => {
+        // Each result is one phrase; note when it was first heard and last updated
+        const heardAt = Date.now();
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const text = event.results[i][0].transcript;
+          const segment = speechSegmentsRef.current[i];
+          if (segment) {
+            segment.text = text;
+            segment.endedAt = heardAt;
+          } else {
+            speechSegmentsRef.current[i] = { text, startedAt: heardAt, endedAt: heardAt };
+          }
+        }
+
         const transcript = Array.from(event.results)
           .map((result: any) => result[0])
           .map((result) => result.transcript)
           .join('');
         setUserInput(transcript);
 
+        if (isFluencySession) {
+          pendingTranscriptRef.current = transcript;
+          return;
+        }
         const lastResult = event.results[event.results.length - 1];
         if (lastResult.isFinal) {
           handleSubmit(transcript);
@@ -346,12 +647,135 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
       };
       recognitionRef.current = recognition;
     }
-  }, [handleSubmit]);
+  }, [handleSubmit, isFluencySession]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Tick once a second while a countdown is running
+  const hasCountdown = !sessionEnded && (sessionDeadline !== null || answerSecondsLeft !== null);
+  useEffect(() => {
+    if (!hasCountdown) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasCountdown]);
+
+  const submitTimedOutAnswer = useCallback(() => {
+    recognitionRef.current?.stop();
+    if (isCodingTurn) {
+      handleSubmit(hasWrittenCode ? code : NO_ANSWER_TEXT, true);
+      return;
+    }
+    handleSubmit(userInput.trim() || NO_ANSWER_TEXT, true);
+  }, [isCodingTurn, hasWrittenCode, code, userInput, handleSubmit]);
+
+  useEffect(() => {
+    if (answerSecondsLeft !== null && answerSecondsLeft <= 0 && !isLoading) {
+      submitTimedOutAnswer();
+    }
+  }, [answerSecondsLeft, isLoading, submitTimedOutAnswer]);
+
+  useEffect(() => {
+    if (sessionSecondsLeft !== null && sessionSecondsLeft <= 0) {
+      setSessionTimeUp(true);
+    }
+  }, [sessionSecondsLeft]);
+
+  // Once the session clock runs out, close out the answer in progress and wrap up
+  useEffect(() => {
+    if (!sessionTimeUp || isLoading || hasEndedRef.current) return;
+    if (answerStartedAt !== null) {
+      submitTimedOutAnswer();
+    } else if (!showNextQuestionButton) {
+      handleEndSessionClick();
+    }
+  }, [sessionTimeUp, isLoading, answerStartedAt, showNextQuestionButton, submitTimedOutAnswer, handleEndSessionClick]);
+
+  const timerBadges = (
+    <>
+      {settings.questionCount !== null && mainQuestionCount > 0 && (
+        <span className="text-sm font-semibold px-2 py-1 rounded-md bg-gray-700 text-gray-200">
+          Q {Math.min(mainQuestionCount, settings.questionCount)}/{settings.questionCount}
+        </span>
+      )}
+      {answerSecondsLeft !== null && <TimerBadge label="Answer" seconds={answerSecondsLeft} />}
+      {sessionSecondsLeft !== null && <TimerBadge label="Session" seconds={sessionSecondsLeft} />}
+    </>
+  );
+
+  const roundBadge = track && currentRound && (
+    <span className="ml-2 text-xs font-semibold px-2 py-1 rounded-md bg-blue-900/60 text-blue-200" title={track.rounds.map(r => r.name).join(' → ')}>
+      Round {roundIndex + 1}/{track.rounds.length}: {currentRound.name}
+    </span>
+  );
+
+  const adaptiveBadge = settings.adaptiveDifficulty && (
+    <span className="ml-2 text-xs font-semibold px-2 py-1 rounded-md bg-gray-700 text-gray-300" title="Difficulty moves with your scores">
+      Adaptive
+    </span>
+  );
+
+  const handleCodingLanguageChange = (language: CodingLanguage) => {
+    // Swap the starter comment for the new language, but never throw away code the candidate wrote
+    if (!hasWrittenCode) {
+      setCode(getStarterCode(language));
+    }
+    setCodingLanguage(language);
+  };
+
+  const handleRunTests = async () => {
+    if (!currentQuestion?.functionName || !currentQuestion.testCases) return;
+    setIsRunningTests(true);
+    setTestRun(await runCodeTests(code, codingLanguage, currentQuestion.functionName, currentQuestion.testCases));
+    setIsRunningTests(false);
+  };
+
+  const codingToggle = canCode && (
+    <button
+      onClick={() => setCodingMode(on => !on)}
+      title="Ask coding problems to solve in the editor, starting with the next question"
+      className={`text-sm font-semibold py-2 px-3 rounded-lg transition-colors ${codingMode ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}>
+      Coding: {codingMode ? 'On' : 'Off'}
+    </button>
+  );
+
+  const designPanel = (
+    <div className="w-full space-y-1">
+      <p className="text-xs text-gray-400">Sketch your architecture, then talk us through it. The diagram is sent with your answer.</p>
+      <DiagramCanvas diagram={diagram} onChange={setDiagram} disabled={isInteractionDisabled} />
+    </div>
+  );
+
+  const codeAnswerPanel = (
+    <div className="w-full space-y-2">
+      <CodeEditor
+        code={code}
+        language={codingLanguage}
+        onChange={setCode}
+        onLanguageChange={handleCodingLanguageChange}
+        disabled={isInteractionDisabled}
+      />
+      {testRun && <TestResultsPanel testRun={testRun} />}
+      <div className="flex justify-end gap-2">
+        {canRunCurrentTests && (
+          <button
+            onClick={handleRunTests}
+            disabled={!hasWrittenCode || isInteractionDisabled || isRunningTests}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 font-semibold py-2 px-5 rounded-lg transition-colors">
+            {isRunningTests ? 'Running...' : `Run Tests (${currentQuestion?.testCases?.length})`}
+          </button>
+        )}
+        <button
+          onClick={() => handleSubmit(code)}
+          disabled={!hasWrittenCode || isInteractionDisabled || isRunningTests}
+          className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-2 px-5 rounded-lg transition-colors">
+          Submit Code
+        </button>
+      </div>
+    </div>
+  );
+
   const toggleListen = () => {
     if (isInteractionDisabled || showNextQuestionButton) return;
     if (isListening) {
@@ -361,9 +785,45 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
     }
   };
 
+  if (sessionEnded) {
+    return (
+      <div className="min-h-screen p-4 sm:p-8 flex flex-col items-center w-full bg-gray-900 animate-fade-in-up">
+        <header className="w-full max-w-4xl flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-white">Session Report</h1>
+            <p className="text-sm text-gray-400">
+            {subject} · {settings.adaptiveDifficulty ? `Adaptive (${difficulty} → ${currentDifficulty})` : difficulty}
+          </p>
+          </div>
+          <button
+            onClick={onEndSession}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+            Back to Dashboard
+          </button>
+        </header>
+        <div className="w-full max-w-4xl">
+          {report ? (
+            <>
+              <SessionReportCard report={report} />
+              {savedSession && (
+                <div className="mt-4 flex justify-end">
+                  <SessionExportButtons session={savedSession} />
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center text-gray-400 animate-pulse py-16">Putting your report together...</div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (difficulty === 'Advanced') {
     const lastMessage = messages[messages.length - 1];
     const feedbackToShow = lastMessage?.feedback;
+    const answerToShow = getAnswerBefore(messages.length - 1);
+    const roundSummaryToShow = lastMessage?.roundSummary;
 
     return (
       <div className="flex flex-col h-screen bg-black relative overflow-hidden">
@@ -382,13 +842,25 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
         <header className="absolute top-0 left-0 right-0 z-20 flex justify-between items-center p-4">
           <div>
             <h1 className="text-xl sm:text-2xl font-bold text-white">{subject}</h1>
-            <span className="text-sm font-semibold px-2 py-1 rounded-md bg-red-600">{difficulty}</span>
+            <span className={`text-sm font-semibold px-2 py-1 rounded-md ${DIFFICULTY_COLORS[currentDifficulty]}`}>{currentDifficulty}</span>
+            {adaptiveBadge}
+            {roundBadge}
+          </div>
+          <div className="flex items-center gap-2 z-30">
+            {timerBadges}
+            {codingToggle}
+            <button
+              onClick={() => setInterviewerMode(on => !on)}
+              title={`Let the interviewer ask up to ${MAX_FOLLOW_UPS} follow-ups on each answer`}
+              className={`text-sm font-semibold py-2 px-3 rounded-lg transition-colors ${interviewerMode ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}>
+              Follow-ups: {interviewerMode ? 'On' : 'Off'}
+            </button>
+            <button
+              onClick={handleEndSessionClick}
+              className="bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors z-30">
+              End Session
+            </button>
           </div>
-          <button
-            onClick={handleEndSessionClick}
-            className="bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors z-30">
-            End Session
-          </button>
         </header>
 
         {/* Main View: Avatar (left) + Webcam (right) layout for Advanced mode */}
@@ -427,17 +899,25 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
           {/* Compact question box shown above controls */}
           {(!feedbackToShow && lastMessage?.role === 'model' && lastMessage.text) && (
             <div className="w-full max-w-3xl mb-3 p-3 bg-gray-800/60 border border-gray-700 rounded-lg text-left text-white text-sm">
-              <div className="text-xs text-gray-300 font-semibold mb-1">Question</div>
-              <div className="truncate" title={lastMessage.text}>{lastMessage.text}</div>
+              <div className="text-xs text-gray-300 font-semibold mb-1">
+                {lastMessage.isFollowUp ? 'Follow-up' : 'Question'}
+                {settings.adaptiveDifficulty && lastMessage.difficulty && ` · ${lastMessage.difficulty}`}
+              </div>
+              <div className={lastMessage.isCoding ? 'whitespace-pre-wrap' : 'truncate'} title={lastMessage.text}>{lastMessage.text}</div>
             </div>
           )}
 
-          <div className="text-center text-white text-lg sm:text-xl md:text-2xl font-medium mb-4 h-24 p-2 flex items-center justify-center">
-            {isLoading ? <span className="animate-pulse">...</span> :
-              isListening ? <span className="text-gray-400 italic">{userInput || "Listening..."}</span> :
-                showNextQuestionButton ? 'Review your feedback.' : ' '
-            }
-          </div>
+          {isDesignTurn && <div className="w-full max-w-3xl mb-2">{designPanel}</div>}
+          {isCodingTurn ? (
+            <div className="w-full max-w-3xl mb-4">{codeAnswerPanel}</div>
+          ) : (
+            <div className="text-center text-white text-lg sm:text-xl md:text-2xl font-medium mb-4 h-24 p-2 flex items-center justify-center">
+              {isLoading ? <span className="animate-pulse">...</span> :
+                isListening ? <span className="text-gray-400 italic">{userInput || "Listening..."}</span> :
+                  showNextQuestionButton ? 'Review your feedback.' : ' '
+              }
+            </div>
+          )}
 
           {!hasModelQuestion && !isLoading && (
             <button
@@ -449,27 +929,37 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
           )}
 
           {/* Controls */}
-          <div className="flex items-center justify-center">
-            <button onClick={toggleListen} disabled={isInteractionDisabled || showNextQuestionButton} className={`w-16 h-16 sm:w-20 sm:h-20 rounded-full flex items-center justify-center transition-all transform hover:scale-110 ${isListening ? 'bg-red-500' : 'bg-blue-600 hover:bg-blue-500'} disabled:bg-gray-600 disabled:cursor-not-allowed`}>
-              {isListening ? <StopIcon className="w-8 h-8 sm:w-10 sm:h-10 text-white" /> : <MicrophoneIcon className="w-8 h-8 sm:w-10 sm:h-10 text-white" />}
-            </button>
-          </div>
-          <p className="text-gray-500 mt-2 text-sm h-5">
-            {showNextQuestionButton ? 'Click "Next Question" to continue' : isListening ? '' : 'Press the button to speak'}
-          </p>
+          {!isCodingTurn && (
+            <>
+              <div className="flex items-center justify-center">
+                <button onClick={toggleListen} disabled={isInteractionDisabled || showNextQuestionButton} className={`w-16 h-16 sm:w-20 sm:h-20 rounded-full flex items-center justify-center transition-all transform hover:scale-110 ${isListening ? 'bg-red-500' : 'bg-blue-600 hover:bg-blue-500'} disabled:bg-gray-600 disabled:cursor-not-allowed`}>
+                  {isListening ? <StopIcon className="w-8 h-8 sm:w-10 sm:h-10 text-white" /> : <MicrophoneIcon className="w-8 h-8 sm:w-10 sm:h-10 text-white" />}
+                </button>
+              </div>
+              <p className="text-gray-500 mt-2 text-sm h-5">
+                {showNextQuestionButton ? 'Click "Next Question" to continue' : isListening ? (isFluencySession ? 'Press stop when you have finished your answer' : '') : 'Press the button to speak'}
+              </p>
+            </>
+          )}
         </div>
 
-        {/* Feedback Modal */}
-        {feedbackToShow && showNextQuestionButton && (
+        {/* Feedback Modal, or the summary between rounds of a company interview */}
+        {(feedbackToShow || roundSummaryToShow) && showNextQuestionButton && (
           <div className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center z-30 animate-fade-in-up p-4">
             <div className="max-w-2xl w-full p-0 sm:p-4">
-              <FeedbackCard feedback={feedbackToShow} />
+              {roundSummaryToShow && <RoundSummaryCard summary={roundSummaryToShow} nextRound={getRoundAfter(roundSummaryToShow.round)} />}
+              {feedbackToShow && <FeedbackCard feedback={feedbackToShow} answer={answerToShow?.text} diagram={answerToShow?.diagram} />}
+              {feedbackToShow && answerToShow?.fluency && (
+                <div className="mt-4">
+                  <FluencyPanel fluency={answerToShow.fluency} />
+                </div>
+              )}
               <div className="flex justify-center mt-6">
                 <button
-                  onClick={startNewTurn}
+                  onClick={handleNextClick}
                   className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-8 rounded-full transition-colors text-lg"
                 >
-                  Next Question
+                  {nextButtonLabel}
                 </button>
               </div>
             </div>
@@ -479,20 +969,41 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
     );
   }
 
+  const nextButton = (
+    <div className="flex justify-center mt-4">
+      <button
+        onClick={handleNextClick}
+        className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-6 rounded-full transition-colors"
+      >
+        {nextButtonLabel}
+      </button>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-screen p-4 bg-gray-900 relative">
       <header className="flex justify-between items-center mb-4">
         <div>
           <h1 className="text-xl sm:text-2xl font-bold text-white">{subject}</h1>
-          <span className={`text-sm font-semibold px-2 py-1 rounded-md ${difficulty === 'Beginner' ? 'bg-green-600' :
-            difficulty === 'Intermediate' ? 'bg-yellow-600' : 'bg-red-600'
-            }`}>{difficulty}</span>
+          <span className={`text-sm font-semibold px-2 py-1 rounded-md ${DIFFICULTY_COLORS[currentDifficulty]}`}>{currentDifficulty}</span>
+          {adaptiveBadge}
+          {roundBadge}
+        </div>
+        <div className="flex items-center gap-2">
+          {timerBadges}
+          {codingToggle}
+          <button
+            onClick={() => setInterviewerMode(on => !on)}
+            title={`Let the interviewer ask up to ${MAX_FOLLOW_UPS} follow-ups on each answer`}
+            className={`text-sm font-semibold py-2 px-3 rounded-lg transition-colors ${interviewerMode ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}>
+            Follow-ups: {interviewerMode ? 'On' : 'Off'}
+          </button>
+          <button
+            onClick={handleEndSessionClick}
+            className="bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+            End Session
+          </button>
         </div>
-        <button
-          onClick={handleEndSessionClick}
-          className="bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
-          End Session
-        </button>
       </header>
       <div className="flex-1 flex flex-col gap-4 overflow-hidden">
         <div className="flex-1 flex flex-col md:flex-row gap-4 overflow-hidden">
@@ -517,26 +1028,47 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
                 </div>
               )}
               {messages.map((msg, index) => (
-                <div key={index} className={`flex w-full ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div key={index} className={`flex w-full ${msg.role === 'user' ? 'justify-end' : 'justify-start'} ${msg.isFollowUp ? 'pl-6 border-l-2 border-blue-500/40' : ''}`}>
                   {msg.feedback ? (
                     <div className="w-full">
-                      <FeedbackCard feedback={msg.feedback} />
-                      {showNextQuestionButton && (
-                        <div className="flex justify-center mt-4">
-                          <button
-                            onClick={startNewTurn}
-                            className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-6 rounded-full transition-colors"
-                          >
-                            Next Question
-                          </button>
+                      <FeedbackCard feedback={msg.feedback} answer={getAnswerBefore(index)?.text} diagram={getAnswerBefore(index)?.diagram} />
+                      {getAnswerBefore(index)?.fluency && (
+                        <div className="mt-3">
+                          <FluencyPanel fluency={getAnswerBefore(index)!.fluency!} />
                         </div>
                       )}
+                      {showNextQuestionButton && index === messages.length - 1 && nextButton}
+                    </div>
+                  ) : msg.roundSummary ? (
+                    <div className="w-full">
+                      <RoundSummaryCard summary={msg.roundSummary} nextRound={getRoundAfter(msg.roundSummary.round)} />
+                      {showNextQuestionButton && index === messages.length - 1 && nextButton}
                     </div>
                   ) : (
                     <div className={`max-w-xl p-3 rounded-lg ${msg.role === 'user' ? 'bg-blue-600 text-white' :
                       msg.role === 'model' ? 'bg-gray-700 text-gray-200' : 'bg-transparent text-center w-full text-gray-400 italic'
                       }`}>
-                      {msg.text}
+                      {msg.role === 'model' && msg.isFollowUp && (
+                        <div className="text-xs font-semibold text-blue-300 mb-1">↳ Follow-up</div>
+                      )}
+                      {msg.role === 'model' && settings.adaptiveDifficulty && msg.difficulty && !msg.isFollowUp && (
+                        <span className={`block w-fit text-[10px] font-semibold uppercase tracking-wider px-1.5 py-0.5 rounded mb-1 text-white ${DIFFICULTY_COLORS[msg.difficulty]}`}>
+                          {msg.difficulty}
+                        </span>
+                      )}
+                      {msg.codeLanguage ? (
+                        <pre className="font-mono text-sm whitespace-pre overflow-x-auto text-left">{msg.text}</pre>
+                      ) : msg.text}
+                      {msg.testRun && (
+                        <div className="mt-2 pt-2 border-t border-blue-400/40">
+                          <TestResultsPanel testRun={msg.testRun} compact />
+                        </div>
+                      )}
+                      {msg.diagram && (
+                        <div className="mt-2 pt-2 border-t border-blue-400/40 w-96 max-w-full">
+                          <DiagramCanvas diagram={msg.diagram} />
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -544,23 +1076,28 @@ const InterviewSessionScreen: React.FC<InterviewSessionScreenProps> = ({ subject
               {isLoading && <div className="flex justify-start"><div className="bg-gray-700 text-gray-200 p-3 rounded-lg">...</div></div>}
               <div ref={chatEndRef} />
             </div>
-            <div className="p-4 border-t border-gray-700 flex items-center gap-2">
-              <button onClick={toggleListen} disabled={isInteractionDisabled || showNextQuestionButton} className={`p-3 rounded-full transition-colors ${isListening ? 'bg-red-500' : 'bg-blue-600 hover:bg-blue-500'} disabled:bg-gray-600 disabled:cursor-not-allowed`}>
-                {isListening ? <StopIcon /> : <MicrophoneIcon />}
-              </button>
-              <input
-                type="text"
-                value={userInput}
-                onChange={(e) => setUserInput(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleSubmit(userInput)}
-                placeholder={isListening ? 'Listening...' : showNextQuestionButton ? 'Review feedback and click Next.' : 'Type your answer or use the microphone...'}
-                className="flex-1 bg-gray-700 border-gray-600 text-white rounded-full py-3 px-5 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed"
-                disabled={isInteractionDisabled || showNextQuestionButton}
-              />
-              <button onClick={() => handleSubmit(userInput)} disabled={!userInput || isInteractionDisabled || showNextQuestionButton} className="p-3 rounded-full bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed">
-                <SendIcon />
-              </button>
-            </div>
+            {isDesignTurn && <div className="p-4 border-t border-gray-700 max-h-[55vh] overflow-y-auto">{designPanel}</div>}
+            {isCodingTurn ? (
+              <div className="p-4 border-t border-gray-700">{codeAnswerPanel}</div>
+            ) : (
+              <div className="p-4 border-t border-gray-700 flex items-center gap-2">
+                <button onClick={toggleListen} disabled={isInteractionDisabled || showNextQuestionButton} className={`p-3 rounded-full transition-colors ${isListening ? 'bg-red-500' : 'bg-blue-600 hover:bg-blue-500'} disabled:bg-gray-600 disabled:cursor-not-allowed`}>
+                  {isListening ? <StopIcon /> : <MicrophoneIcon />}
+                </button>
+                <input
+                  type="text"
+                  value={userInput}
+                  onChange={(e) => setUserInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSubmit(userInput)}
+                  placeholder={isListening ? 'Listening...' : showNextQuestionButton ? 'Review feedback and click Next.' : 'Type your answer or use the microphone...'}
+                  className="flex-1 bg-gray-700 border-gray-600 text-white rounded-full py-3 px-5 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed"
+                  disabled={isInteractionDisabled || showNextQuestionButton}
+                />
+                <button onClick={() => handleSubmit(userInput)} disabled={!userInput || isInteractionDisabled || showNextQuestionButton} className="p-3 rounded-full bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed">
+                  <SendIcon />
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
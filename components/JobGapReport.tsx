@@ -0,0 +1,68 @@
+import React from 'react';
+import { JobContext } from '../types';
+
+interface JobGapReportProps {
+  jobContext: JobContext;
+  source: 'ai' | 'fallback';
+}
+
+const SkillChips: React.FC<{ title: string; skills: string[]; className: string; prefix: string }> = ({ title, skills, className, prefix }) => (
+  <div>
+    <h4 className="text-sm font-bold text-gray-300 mb-2 uppercase tracking-wider">{title}</h4>
+    {skills.length > 0 ? (
+      <div className="flex flex-wrap gap-2">
+        {skills.map((skill, i) => (
+          <span key={i} className={`text-xs px-2 py-1 rounded ${className}`}>{prefix}{skill}</span>
+        ))}
+      </div>
+    ) : (
+      <p className="text-xs text-gray-500 italic">None</p>
+    )}
+  </div>
+);
+
+const getMatchColor = (score: number): string => {
+  if (score >= 75) return 'text-green-400';
+  if (score >= 50) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+export const JobGapReport: React.FC<JobGapReportProps> = ({ jobContext, source }) => {
+  const { jobDescription, gapAnalysis } = jobContext;
+
+  return (
+    <div className="p-6 bg-gray-700/50 border border-gray-600 rounded-xl space-y-5">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">🎯 {jobDescription.title}</h3>
+          <p className="text-sm text-gray-400">Questions will focus on the gaps and the skills this role depends on.</p>
+        </div>
+        <div className="text-right shrink-0">
+          <div className={`text-3xl font-bold ${getMatchColor(gapAnalysis.matchScore)}`}>{gapAnalysis.matchScore}%</div>
+          <p className="text-xs text-gray-400">required skills matched</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <SkillChips title="On Your Resume" skills={gapAnalysis.matchedSkills} className="bg-green-500/20 text-green-300" prefix="✓ " />
+        <SkillChips title="Missing (Required)" skills={gapAnalysis.missingRequiredSkills} className="bg-red-500/20 text-red-300" prefix="✗ " />
+        <SkillChips title="Missing (Nice to Have)" skills={gapAnalysis.missingPreferredSkills} className="bg-yellow-500/20 text-yellow-300" prefix="~ " />
+      </div>
+
+      {jobDescription.responsibilities.length > 0 && (
+        <div>
+          <h4 className="text-sm font-bold text-gray-300 mb-2 uppercase tracking-wider">Key Responsibilities</h4>
+          <ul className="space-y-1">
+            {jobDescription.responsibilities.slice(0, 5).map((item, i) => (
+              <li key={i} className="text-sm text-gray-300">• {item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {source === 'fallback' && (
+        <p className="text-xs text-gray-500">The AI coach was unavailable, so skills were matched by keyword only.</p>
+      )}
+    </div>
+  );
+};
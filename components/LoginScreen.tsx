@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { registerUser, loginUser, getCurrentUser, isLoggedIn } from '../services/authService';
+import { registerUser, loginUser, isLoggedIn } from '../services/authService';
 
 interface LoginScreenProps {
   onGetStarted: () => void;
@@ -11,6 +11,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onGetStarted }) => {
   const [mode, setMode] = useState<AuthMode>('splash');
   const [email, setEmail] = useState('');
   const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
   const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -26,7 +27,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onGetStarted }) => {
     setLoading(true);
     setMessage('');
 
-    const result = registerUser(username, email);
+    const result = await registerUser(username, email, password);
     if (result.success) {
       setMessage('✅ Registration successful! Redirecting...');
       setTimeout(() => {
@@ -43,7 +44,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onGetStarted }) => {
     setLoading(true);
     setMessage('');
 
-    const result = loginUser(email);
+    const result = await loginUser(email, password);
     if (result.success) {
       setMessage('✅ Login successful! Redirecting...');
       setTimeout(() => {
@@ -105,6 +106,18 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onGetStarted }) => {
                 required
               />
             </div>
+            <div>
+              <label className="block text-gray-300 text-sm font-semibold mb-2">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Your password"
+                autoComplete="current-password"
+                className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg py-3 px-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
             {message && (
               <div className={`text-sm text-center p-3 rounded-lg ${message.includes('✅') ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'}`}>
                 {message}
@@ -166,6 +179,18 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onGetStarted }) => {
               required
             />
           </div>
+          <div>
+            <label className="block text-gray-300 text-sm font-semibold mb-2">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Choose a password (min 8 chars)"
+              autoComplete="new-password"
+              className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg py-3 px-4 focus:outline-none focus:ring-2 focus:ring-green-500"
+              required
+            />
+          </div>
           {message && (
             <div className={`text-sm text-center p-3 rounded-lg ${message.includes('✅') ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'}`}>
               {message}
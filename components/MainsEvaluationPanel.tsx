@@ -0,0 +1,32 @@
+import React from 'react';
+import { MainsEvaluation } from '../types';
+import { MAINS_PAPERS, getMainsCriterionLabel } from '../services/mainsAnswers';
+
+interface MainsEvaluationPanelProps {
+  evaluation: MainsEvaluation;
+}
+
+const scoreColor = (score: number) => (score >= 7 ? 'text-green-400' : score >= 4 ? 'text-yellow-400' : 'text-red-400');
+
+export const MainsEvaluationPanel: React.FC<MainsEvaluationPanelProps> = ({ evaluation }) => (
+  <div className="space-y-3">
+    <div className="flex justify-between items-baseline">
+      <h4 className="font-semibold text-orange-400">Mains Rubric:</h4>
+      <span className="text-sm text-gray-400">
+        {MAINS_PAPERS[evaluation.paper].name} · <span className="font-semibold text-white">{evaluation.marks}/{evaluation.maxMarks} marks</span>
+      </span>
+    </div>
+
+    <ul className="space-y-2">
+      {evaluation.criteria.map(item => (
+        <li key={item.criterion} className="p-2 rounded-md bg-gray-800/60 text-sm">
+          <div className="flex justify-between">
+            <span className="font-semibold text-white">{getMainsCriterionLabel(item.criterion)}</span>
+            <span className={`font-semibold ${scoreColor(item.score)}`}>{item.score}/10</span>
+          </div>
+          {item.comment && <p className="text-xs text-gray-300 mt-1">{item.comment}</p>}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
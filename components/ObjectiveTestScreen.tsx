@@ -0,0 +1,329 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Difficulty, ExamPattern, ObjectiveQuestion, ObjectiveResult } from '../types';
+import { getSectionQuestions } from '../services/objectiveQuestionService';
+import { describeMarking, getTestTotals, gradeObjectiveAnswer, summarizeByTopic } from '../services/objectiveTests';
+import { formatDuration } from '../services/sessionPresets';
+
+interface ObjectiveTestScreenProps {
+  pattern: ExamPattern;
+  difficulty: Difficulty;
+  onExit: () => void;
+}
+
+// Timer turns red in the last minute of a section
+const SECTION_WARNING_SECONDS = 60;
+
+type Phase = 'loading' | 'answering' | 'results';
+
+const formatMarks = (marks: number): string => {
+  const rounded = Math.round(marks * 100) / 100;
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+};
+
+const describeAnswer = (question: ObjectiveQuestion, answer: number | null): string => {
+  if (answer === null) return 'Not answered';
+  return question.type === 'mcq' ? question.options![answer] : String(answer);
+};
+
+const describeCorrectAnswer = (question: ObjectiveQuestion): string => {
+  if (question.type === 'mcq') return question.options![question.correctOption!];
+  return question.tolerance ? `${question.correctValue} (±${question.tolerance})` : String(question.correctValue);
+};
+
+const OUTCOME_STYLES: Record<ObjectiveResult['outcome'], string> = {
+  correct: 'border-green-500/60',
+  wrong: 'border-red-500/60',
+  unattempted: 'border-gray-600',
+};
+
+const ObjectiveTestScreen: React.FC<ObjectiveTestScreenProps> = ({ pattern, difficulty, onExit }) => {
+  const [attempt, setAttempt] = useState(0);
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [phase, setPhase] = useState<Phase>('loading');
+  const [questions, setQuestions] = useState<ObjectiveQuestion[]>([]);
+  // The option index or the typed number for each question, as text; empty when skipped
+  const [responses, setResponses] = useState<string[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [results, setResults] = useState<ObjectiveResult[]>([]);
+  // Sections that were submitted because their time ran out
+  const [timedOutSections, setTimedOutSections] = useState<string[]>([]);
+  const askedRef = useRef<string[]>([]);
+
+  const section = pattern.sections[sectionIndex];
+  const secondsLeft = deadline !== null ? (deadline - now) / 1000 : null;
+
+  useEffect(() => {
+    let cancelled = false;
+    setPhase('loading');
+    getSectionQuestions(pattern.name, section, difficulty, askedRef.current).then(sectionQuestions => {
+      if (cancelled) return;
+      askedRef.current.push(...sectionQuestions.map(q => q.question));
+      setQuestions(sectionQuestions);
+      setResponses(sectionQuestions.map(() => ''));
+      setCurrentIndex(0);
+      setNow(Date.now());
+      setDeadline(Date.now() + section.minutes * 60 * 1000);
+      setPhase('answering');
+    });
+    return () => { cancelled = true; };
+  }, [pattern.name, section, difficulty, attempt]);
+
+  useEffect(() => {
+    if (phase !== 'answering') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  const submitSection = useCallback((timedOut: boolean) => {
+    const graded = questions.map((question, i) => {
+      const response = responses[i].trim();
+      return gradeObjectiveAnswer(question, section.name, response === '' ? null : Number(response), pattern.marking);
+    });
+    setResults(prev => [...prev, ...graded]);
+    if (timedOut) setTimedOutSections(prev => [...prev, section.name]);
+    setDeadline(null);
+    if (sectionIndex + 1 < pattern.sections.length) {
+      setSectionIndex(sectionIndex + 1);
+    } else {
+      setPhase('results');
+    }
+  }, [questions, responses, section, sectionIndex, pattern]);
+
+  useEffect(() => {
+    if (phase === 'answering' && secondsLeft !== null && secondsLeft <= 0) {
+      submitSection(true);
+    }
+  }, [phase, secondsLeft, submitSection]);
+
+  const setResponse = (index: number, value: string) => {
+    setResponses(prev => prev.map((r, i) => (i === index ? value : r)));
+  };
+
+  const handleRetake = () => {
+    askedRef.current = [];
+    setResults([]);
+    setTimedOutSections([]);
+    setSectionIndex(0);
+    setAttempt(n => n + 1);
+  };
+
+  const handleSubmitClick = () => {
+    const skipped = responses.filter(r => r.trim() === '').length;
+    if (skipped > 0 && !window.confirm(`${skipped} question${skipped === 1 ? ' is' : 's are'} unanswered. Submit this section anyway?`)) return;
+    submitSection(false);
+  };
+
+  const header = (
+    <header className="w-full max-w-4xl flex flex-wrap justify-between items-center gap-3 mb-6">
+      <div>
+        <h1 className="text-2xl font-bold text-white">{pattern.name} Practice Test</h1>
+        <p className="text-sm text-gray-400">
+          {difficulty} · {describeMarking(pattern.marking, pattern.sections.some(s => s.numerical))}
+        </p>
+      </div>
+      <button onClick={onExit} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+        {phase === 'results' ? 'Back to Dashboard' : 'Quit Test'}
+      </button>
+    </header>
+  );
+
+  if (phase === 'loading') {
+    return (
+      <div className="min-h-screen p-4 sm:p-8 flex flex-col items-center">
+        {header}
+        <p className="text-gray-300 animate-pulse mt-12">Preparing {section.name}…</p>
+      </div>
+    );
+  }
+
+  if (phase === 'results') {
+    const totals = getTestTotals(results);
+    const topics = summarizeByTopic(results);
+    return (
+      <div className="min-h-screen p-4 sm:p-8 flex flex-col items-center">
+        {header}
+        <div className="w-full max-w-4xl space-y-6">
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+            <div>
+              <p className="text-3xl font-bold text-white">{totals.marks}<span className="text-lg text-gray-400">/{totals.maxMarks}</span></p>
+              <p className="text-xs text-gray-400">Marks</p>
+            </div>
+            <div>
+              <p className="text-3xl font-bold text-green-400">{totals.correct}</p>
+              <p className="text-xs text-gray-400">Correct</p>
+            </div>
+            <div>
+              <p className="text-3xl font-bold text-red-400">{totals.wrong}</p>
+              <p className="text-xs text-gray-400">Wrong</p>
+            </div>
+            <div>
+              <p className="text-3xl font-bold text-blue-300">{totals.accuracy}%</p>
+              <p className="text-xs text-gray-400">Accuracy ({totals.unattempted} skipped)</p>
+            </div>
+          </div>
+
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-white mb-3">Sections</h2>
+            <ul className="space-y-1 text-sm text-gray-200">
+              {pattern.sections.map(s => {
+                const sectionTotals = getTestTotals(results.filter(r => r.section === s.name));
+                return (
+                  <li key={s.name} className="flex justify-between">
+                    <span>{s.name}{timedOutSections.includes(s.name) && <span className="text-yellow-400"> · time ran out</span>}</span>
+                    <span className="font-semibold">{sectionTotals.marks}/{sectionTotals.maxMarks}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-white mb-3">By Topic</h2>
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="font-normal pb-2">Topic</th>
+                  <th className="font-normal pb-2 text-center">✓</th>
+                  <th className="font-normal pb-2 text-center">✗</th>
+                  <th className="font-normal pb-2 text-center">Skipped</th>
+                  <th className="font-normal pb-2 text-right">Marks</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-200">
+                {topics.map(t => (
+                  <tr key={t.topic} className="border-t border-gray-700">
+                    <td className="py-1.5">{t.topic}</td>
+                    <td className="py-1.5 text-center text-green-400">{t.correct}</td>
+                    <td className="py-1.5 text-center text-red-400">{t.wrong}</td>
+                    <td className="py-1.5 text-center text-gray-400">{t.unattempted}</td>
+                    <td className="py-1.5 text-right font-semibold">{t.marks}/{t.maxMarks}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-3">
+            <h2 className="text-xl font-semibold text-white">Review</h2>
+            {results.map((r, i) => (
+              <div key={i} className={`bg-gray-800 border-l-4 ${OUTCOME_STYLES[r.outcome]} rounded-lg p-4 text-sm space-y-1`}>
+                <div className="flex justify-between gap-4 text-xs text-gray-400">
+                  <span>{r.section} · {r.question.topic}</span>
+                  <span className="font-semibold">{formatMarks(r.marks)} / {r.question.marks}</span>
+                </div>
+                <p className="text-white">{i + 1}. {r.question.question}</p>
+                <p className="text-gray-300">Your answer: <span className={r.outcome === 'correct' ? 'text-green-400' : r.outcome === 'wrong' ? 'text-red-400' : 'text-gray-400'}>{describeAnswer(r.question, r.answer)}</span></p>
+                {r.outcome !== 'correct' && <p className="text-gray-300">Correct answer: <span className="text-green-400">{describeCorrectAnswer(r.question)}</span></p>}
+                <p className="text-gray-400 italic">{r.question.explanation}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-center gap-3 pb-8">
+            <button onClick={handleRetake} className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-8 rounded-full transition-colors">
+              Take Another Test
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const question = questions[currentIndex];
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 flex flex-col items-center">
+      {header}
+      <div className="w-full max-w-4xl space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-white">
+              Section {sectionIndex + 1}/{pattern.sections.length}: {section.name}
+            </h2>
+            <p className="text-xs text-gray-400">{describeMarking(pattern.marking, section.numerical)}</p>
+          </div>
+          {secondsLeft !== null && (
+            <span className={`text-sm font-mono font-semibold px-2 py-1 rounded-md ${secondsLeft <= SECTION_WARNING_SECONDS ? 'bg-red-600 text-white animate-pulse' : 'bg-gray-700 text-gray-200'}`}>
+              {section.name} {formatDuration(secondsLeft)}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {questions.map((q, i) => (
+            <button
+              key={i}
+              onClick={() => setCurrentIndex(i)}
+              className={`w-9 h-9 rounded-md text-sm font-semibold transition-colors ${i === currentIndex ? 'ring-2 ring-blue-400' : ''} ${responses[i].trim() ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {i + 1}
+            </button>
+          ))}
+        </div>
+
+        {question && (
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 space-y-4">
+            <div className="flex justify-between text-xs text-gray-400">
+              <span>{question.topic} · {question.type === 'mcq' ? 'Multiple choice' : 'Numerical answer'}</span>
+              <span>{question.marks} mark{question.marks === 1 ? '' : 's'}</span>
+            </div>
+            <p className="text-white text-lg whitespace-pre-wrap">{question.question}</p>
+
+            {question.type === 'mcq' ? (
+              <div className="space-y-2">
+                {question.options!.map((option, i) => {
+                  const selected = responses[currentIndex] === String(i);
+                  return (
+                    <button
+                      key={i}
+                      onClick={() => setResponse(currentIndex, selected ? '' : String(i))}
+                      className={`w-full text-left py-2 px-4 rounded-lg border transition-colors ${selected ? 'bg-blue-600/30 border-blue-500 text-white' : 'bg-gray-700/50 border-gray-600 text-gray-200 hover:bg-gray-700'}`}
+                    >
+                      <span className="font-semibold mr-2">{String.fromCharCode(65 + i)}.</span>{option}
+                    </button>
+                  );
+                })}
+                <p className="text-xs text-gray-500">Click a selected option again to clear it.</p>
+              </div>
+            ) : (
+              <input
+                type="number"
+                step="any"
+                value={responses[currentIndex]}
+                onChange={e => setResponse(currentIndex, e.target.value)}
+                placeholder="Type your answer"
+                className="w-48 bg-gray-700 border border-gray-600 text-white rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setCurrentIndex(i => i - 1)}
+              disabled={currentIndex === 0}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setCurrentIndex(i => i + 1)}
+              disabled={currentIndex >= questions.length - 1}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              Next
+            </button>
+          </div>
+          <button onClick={handleSubmitClick} className="bg-green-600 hover:bg-green-500 text-white font-semibold py-2 px-5 rounded-lg transition-colors">
+            {sectionIndex + 1 < pattern.sections.length ? 'Submit Section' : 'Submit Test'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ObjectiveTestScreen;
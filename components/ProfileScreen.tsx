@@ -1,9 +1,15 @@
 
-import React, { useState, useEffect } from 'react';
-import { ProfileData } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { ProfileData, RubricDimension } from '../types';
 import { getProfileData, getAllBadges } from '../services/profileService';
 import { getCurrentUser, logoutUser } from '../services/authService';
-import { getUserFeedbacks, SessionFeedback } from '../services/feedbackService';
+import { getUserFeedbacks, getRubricAverages, getStarHistory, getFluencyHistory, getRecurringMistakes, getMainsPaperPerformance, importFeedbackBundle, FluencyHistoryPoint, MainsPaperPerformance, RecurringMistake, RubricAverage, SessionFeedback, StarHistoryPoint } from '../services/feedbackService';
+import { CORRECTION_TYPE_LABELS } from '../services/correctionService';
+import { exportAllSessions } from '../services/exportService';
+import { describeDifficultyPath } from '../services/difficultyService';
+import { RUBRIC_DIMENSION_LABELS } from '../services/rubrics';
+import { MAINS_PAPERS, getMainsCriterionLabel } from '../services/mainsAnswers';
+import { SessionExportButtons } from './SessionExportButtons';
 
 interface ProfileScreenProps {
   onBack: () => void;
@@ -20,6 +26,164 @@ const StatCard: React.FC<{ label: string; value: string | number; icon: string }
   </div>
 );
 
+const RubricBar: React.FC<{ rubric: RubricAverage }> = ({ rubric }) => {
+  const color = rubric.average >= 8 ? 'bg-green-500' : rubric.average >= 5 ? 'bg-yellow-500' : 'bg-red-500';
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+      <div className="flex justify-between items-baseline mb-2">
+        <span className="font-semibold text-white">{RUBRIC_DIMENSION_LABELS[rubric.dimension]}</span>
+        <span className="text-lg font-bold text-white">{rubric.average.toFixed(1)}</span>
+      </div>
+      <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${rubric.average * 10}%` }} />
+      </div>
+      <p className="text-xs text-gray-400 mt-2">{rubric.count} answer(s) scored</p>
+    </div>
+  );
+};
+
+// Most recent sessions shown in the trend charts
+const TREND_SESSIONS = 10;
+
+interface TrendPoint {
+  id: string;
+  value: number;
+  title: string;
+}
+
+const TrendBars: React.FC<{ points: TrendPoint[]; max: number; barClassName: string }> = ({ points, max, barClassName }) => (
+  <div className="flex items-end gap-2 h-24">
+    {points.map(point => (
+      <div
+        key={point.id}
+        title={point.title}
+        className={`flex-1 rounded-t transition-colors ${barClassName}`}
+        style={{ height: `${Math.max((point.value / max) * 100, 2)}%` }}
+      />
+    ))}
+  </div>
+);
+
+const TrendSummary: React.FC<{ value: string; label: string }> = ({ value, label }) => (
+  <div>
+    <div className="text-2xl font-bold text-white">{value}</div>
+    <div className="text-xs text-gray-400">{label}</div>
+  </div>
+);
+
+const StarTrend: React.FC<{ history: StarHistoryPoint[] }> = ({ history }) => {
+  const recent = history.slice(-TREND_SESSIONS);
+  const latest = recent[recent.length - 1];
+  const average = history.reduce((sum, point) => sum + point.completeness, 0) / history.length;
+  const points = recent.map(point => ({
+    id: point.sessionId,
+    value: point.completeness,
+    title: `${new Date(point.timestamp).toLocaleDateString()}: ${Math.round(point.completeness)}% over ${point.answers} answer(s)`,
+  }));
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+      <div className="flex flex-wrap gap-6 mb-4">
+        <TrendSummary value={`${Math.round(latest.completeness)}%`} label="Latest session" />
+        <TrendSummary value={`${Math.round(average)}%`} label={`Average over ${history.length} session(s)`} />
+      </div>
+      <TrendBars points={points} max={100} barClassName="bg-amber-500/70 hover:bg-amber-400" />
+      <p className="text-xs text-gray-500 mt-2">Last {recent.length} session(s) with behavioral answers, oldest on the left</p>
+    </div>
+  );
+};
+
+const FluencyTrend: React.FC<{ history: FluencyHistoryPoint[] }> = ({ history }) => {
+  const recent = history.slice(-TREND_SESSIONS);
+  const latest = recent[recent.length - 1];
+  const date = (point: FluencyHistoryPoint) => new Date(point.timestamp).toLocaleDateString();
+  const pacePoints = recent.map(point => ({
+    id: point.sessionId,
+    value: point.wordsPerMinute,
+    title: `${date(point)}: ${Math.round(point.wordsPerMinute)} wpm`,
+  }));
+  const fillerPoints = recent.map(point => ({
+    id: point.sessionId,
+    value: point.fillerRate,
+    title: `${date(point)}: ${point.fillerRate.toFixed(1)} fillers per 100 words`,
+  }));
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+        <TrendSummary value={`${Math.round(latest.wordsPerMinute)} wpm`} label="Pace, latest session" />
+        <div className="mt-4">
+          <TrendBars points={pacePoints} max={Math.max(200, ...pacePoints.map(p => p.value))} barClassName="bg-teal-500/70 hover:bg-teal-400" />
+        </div>
+      </div>
+      <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+        <TrendSummary value={latest.fillerRate.toFixed(1)} label="Fillers per 100 words, latest session" />
+        <div className="mt-4">
+          <TrendBars points={fillerPoints} max={Math.max(10, ...fillerPoints.map(p => p.value))} barClassName="bg-rose-500/70 hover:bg-rose-400" />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 md:col-span-2">Last {recent.length} session(s) with spoken English answers, oldest on the left</p>
+    </div>
+  );
+};
+
+const MainsPaperCard: React.FC<{ performance: MainsPaperPerformance }> = ({ performance }) => {
+  const recent = performance.history.slice(-TREND_SESSIONS);
+  const points = recent.map((point, i) => ({
+    id: `${point.timestamp}-${i}`,
+    value: point.share,
+    title: `${new Date(point.timestamp).toLocaleDateString()}: ${Math.round(point.share)}% of the marks`,
+  }));
+  const weakest = [...performance.criteria].sort((a, b) => a.average - b.average)[0];
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+      <div className="flex justify-between items-baseline mb-4">
+        <span className="font-semibold text-white">{MAINS_PAPERS[performance.paper].name}</span>
+        <span className="text-sm text-gray-400">{performance.answers} answer(s)</span>
+      </div>
+      <TrendSummary value={`${Math.round(performance.averageShare)}%`} label="Average share of marks" />
+      <div className="mt-4">
+        <TrendBars points={points} max={100} barClassName="bg-orange-500/70 hover:bg-orange-400" />
+      </div>
+      <ul className="mt-4 space-y-1 text-sm">
+        {performance.criteria.map(c => (
+          <li key={c.criterion} className="flex justify-between text-gray-300">
+            <span>{getMainsCriterionLabel(c.criterion)}</span>
+            <span className="font-semibold text-white">{c.average.toFixed(1)}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500 mt-2">Work on: {getMainsCriterionLabel(weakest.criterion).toLowerCase()}</p>
+    </div>
+  );
+};
+
+const MAX_MISTAKES_SHOWN = 6;
+
+const RecurringMistakeList: React.FC<{ mistakes: RecurringMistake[] }> = ({ mistakes }) => (
+  <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    {mistakes.slice(0, MAX_MISTAKES_SHOWN).map(mistake => (
+      <li key={mistake.rule} className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+        <div className="flex justify-between items-baseline">
+          <span className="font-semibold text-white">{mistake.rule}</span>
+          <span className="text-sm text-gray-400">{mistake.count}× · {CORRECTION_TYPE_LABELS[mistake.type]}</span>
+        </div>
+        <ul className="mt-2 space-y-1 text-sm">
+          {mistake.examples.map((example, i) => (
+            <li key={i}>
+              <span className="text-red-300 line-through">{example.original}</span>
+              <span className="text-gray-400"> → </span>
+              <span className="text-green-300">{example.corrected}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-gray-500 mt-2">Last seen {new Date(mistake.lastSeen).toLocaleDateString()}</p>
+      </li>
+    ))}
+  </ul>
+);
+
 const BadgeDisplay: React.FC<{ badge: { name: string; description: string; icon: string; earned: boolean } }> = ({ badge }) => (
     <div className={`bg-gray-800 p-4 rounded-lg text-center transition-all duration-300 ${badge.earned ? 'border-2 border-yellow-400' : 'opacity-40'}`}>
         <div className={`text-5xl mx-auto mb-2 ${badge.earned ? '' : 'filter grayscale'}`}>{badge.icon}</div>
@@ -32,7 +196,9 @@ const FeedbackCard: React.FC<{ session: SessionFeedback }> = ({ session }) => (
   <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 hover:bg-gray-750 transition-colors">
     <div className="flex justify-between items-start mb-3">
       <div>
-        <h4 className="font-semibold text-white">{session.subject} - {session.difficulty}</h4>
+        <h4 className="font-semibold text-white">
+          {session.subject}{session.adaptive ? ' - Adaptive' : session.difficulty ? ` - ${session.difficulty}` : ''}
+        </h4>
         <p className="text-xs text-gray-400">{new Date(session.timestamp).toLocaleDateString()} at {new Date(session.timestamp).toLocaleTimeString()}</p>
       </div>
       <div className="text-right">
@@ -41,6 +207,12 @@ const FeedbackCard: React.FC<{ session: SessionFeedback }> = ({ session }) => (
       </div>
     </div>
     <p className="text-sm text-gray-300">{session.feedbacks.length} question(s) answered</p>
+    {session.adaptive && (
+      <p className="text-xs text-gray-400 mt-1">Levels: {describeDifficultyPath(session.feedbacks)}</p>
+    )}
+    <div className="mt-3 pt-3 border-t border-gray-700">
+      <SessionExportButtons session={session} />
+    </div>
   </div>
 );
 
@@ -49,6 +221,8 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack, onLogout }) => {
   const [currentUser, setCurrentUser] = useState(getCurrentUser());
   const [userFeedbacks, setUserFeedbacks] = useState<SessionFeedback[]>([]);
   const [showFeedbacks, setShowFeedbacks] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ text: string; success: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const badges = getAllBadges();
 
   useEffect(() => {
@@ -60,17 +234,38 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack, onLogout }) => {
     }
   }, []);
 
-  const handleLogout = () => {
-    logoutUser();
+  const handleLogout = async () => {
+    await logoutUser();
     if (onLogout) {
       onLogout();
     }
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentUser) return;
+
+    const result = importFeedbackBundle(currentUser.id, await file.text());
+    setImportMessage({ text: result.message, success: result.success });
+    if (result.imported > 0) {
+      setUserFeedbacks(getUserFeedbacks(currentUser.id));
+      setProfile(getProfileData());
+    }
+  };
+
   if (!profile) {
     return <div>Loading...</div>;
   }
 
+  const rubricAverages = getRubricAverages(userFeedbacks);
+  const rubricOrder = Object.keys(RUBRIC_DIMENSION_LABELS) as RubricDimension[];
+  rubricAverages.sort((a, b) => rubricOrder.indexOf(a.dimension) - rubricOrder.indexOf(b.dimension));
+  const starHistory = getStarHistory(userFeedbacks);
+  const fluencyHistory = getFluencyHistory(userFeedbacks);
+  const recurringMistakes = getRecurringMistakes(userFeedbacks);
+  const mainsPerformance = getMainsPaperPerformance(userFeedbacks);
+
   return (
     <div className="min-h-screen p-4 sm:p-8 flex flex-col items-center w-full animate-fade-in-up">
       <header className="w-full max-w-5xl flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8 gap-4 sm:gap-0">
@@ -105,6 +300,54 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack, onLogout }) => {
             </div>
         </section>
 
+        {/* Rubric Breakdown */}
+        {rubricAverages.length > 0 && (
+          <section>
+            <h2 className="text-2xl sm:text-3xl font-semibold text-white mb-6 border-b-2 border-gray-700 pb-3">Skill Breakdown</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {rubricAverages.map(rubric => (
+                <RubricBar key={rubric.dimension} rubric={rubric} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* STAR Completeness */}
+        {starHistory.length > 0 && (
+          <section>
+            <h2 className="text-2xl sm:text-3xl font-semibold text-white mb-6 border-b-2 border-gray-700 pb-3">STAR Completeness</h2>
+            <StarTrend history={starHistory} />
+          </section>
+        )}
+
+        {/* Speaking Fluency */}
+        {fluencyHistory.length > 0 && (
+          <section>
+            <h2 className="text-2xl sm:text-3xl font-semibold text-white mb-6 border-b-2 border-gray-700 pb-3">Speaking Fluency</h2>
+            <FluencyTrend history={fluencyHistory} />
+          </section>
+        )}
+
+        {/* Recurring Mistakes */}
+        {recurringMistakes.length > 0 && (
+          <section>
+            <h2 className="text-2xl sm:text-3xl font-semibold text-white mb-6 border-b-2 border-gray-700 pb-3">Recurring Mistakes</h2>
+            <RecurringMistakeList mistakes={recurringMistakes} />
+          </section>
+        )}
+
+        {/* UPSC Answer Writing */}
+        {mainsPerformance.length > 0 && (
+          <section>
+            <h2 className="text-2xl sm:text-3xl font-semibold text-white mb-6 border-b-2 border-gray-700 pb-3">UPSC Answer Writing</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {mainsPerformance.map(performance => (
+                <MainsPaperCard key={performance.paper} performance={performance} />
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Badges Section */}
         <section>
             <h2 className="text-2xl sm:text-3xl font-semibold text-white mb-6 border-b-2 border-gray-700 pb-3">Badges</h2>
@@ -120,13 +363,33 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack, onLogout }) => {
           <section>
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-2xl sm:text-3xl font-semibold text-white border-b-2 border-gray-700 pb-3 flex-1">Feedback History</h2>
-              <button
-                onClick={() => setShowFeedbacks(!showFeedbacks)}
-                className="bg-blue-600 hover:bg-blue-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors text-sm"
-              >
-                {showFeedbacks ? 'Hide' : 'Show'} ({userFeedbacks.length})
-              </button>
+              <div className="flex gap-2 ml-4">
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors text-sm"
+                >
+                  Import
+                </button>
+                <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+                {userFeedbacks.length > 0 && (
+                  <button
+                    onClick={() => exportAllSessions(userFeedbacks)}
+                    className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors text-sm"
+                  >
+                    Export All
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowFeedbacks(!showFeedbacks)}
+                  className="bg-blue-600 hover:bg-blue-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors text-sm"
+                >
+                  {showFeedbacks ? 'Hide' : 'Show'} ({userFeedbacks.length})
+                </button>
+              </div>
             </div>
+            {importMessage && (
+              <p className={`text-sm mb-4 ${importMessage.success ? 'text-green-400' : 'text-red-400'}`}>{importMessage.text}</p>
+            )}
             {showFeedbacks && (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {userFeedbacks.length > 0 ? (
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Difficulty, Subject } from '../types';
+import { DIFFICULTY_ORDER } from '../services/difficultyService';
+import { describeBankAnswer, getBankQuestions, getQuestionBankTags, searchQuestionBank } from '../services/questionBankService';
+
+// Subjects with questions of their own in the offline bank
+const BANK_SUBJECTS = Object.values(Subject).filter(subject => getBankQuestions(subject).length > 0);
+const MAX_RESULTS = 20;
+
+/**
+ * Search the offline question bank by words, subject, difficulty and topic tag,
+ * with each question's reference answer a click away
+ */
+export const QuestionBankPanel: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [subject, setSubject] = useState<Subject | ''>('');
+  const [difficulty, setDifficulty] = useState<Difficulty | ''>('');
+  const [tag, setTag] = useState('');
+  const [openQuestion, setOpenQuestion] = useState<string | null>(null);
+
+  const tags = subject ? getQuestionBankTags(subject) : [];
+  const results = searchQuestionBank(query, {
+    subject: subject || undefined,
+    difficulty: difficulty || undefined,
+    tags: tag ? [tag] : undefined,
+  });
+  const hasSearch = query.trim().length > 0 || !!subject;
+
+  const handleSubjectChange = (value: Subject | '') => {
+    setSubject(value);
+    // Tags belong to one subject's bank
+    setTag('');
+  };
+
+  return (
+    <div className="bg-gray-800/70 border border-gray-700 rounded-xl p-6 shadow-lg">
+      <div className="mb-4">
+        <h2 className="text-2xl font-semibold text-white">Question Bank</h2>
+        <p className="text-sm text-gray-400">Browse the built-in questions, available even when you're offline.</p>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-3 mb-3">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="flex-1 bg-gray-700 border border-gray-600 text-white rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Search questions, topics or key points (e.g., closures, indexing)"
+        />
+        <select
+          value={subject}
+          onChange={(e) => handleSubjectChange(e.target.value as Subject | '')}
+          className="bg-gray-700 border border-gray-600 text-white rounded-lg py-2 px-3"
+        >
+          <option value="">All subjects</option>
+          {BANK_SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select
+          value={difficulty}
+          onChange={(e) => setDifficulty(e.target.value as Difficulty | '')}
+          className="bg-gray-700 border border-gray-600 text-white rounded-lg py-2 px-3"
+        >
+          <option value="">Any level</option>
+          {DIFFICULTY_ORDER.map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {tags.map(t => (
+            <button
+              key={t}
+              onClick={() => setTag(tag === t ? '' : t)}
+              className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+                tag === t ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      )}
+      {hasSearch && (
+        <div className="max-h-80 overflow-y-auto space-y-2 bg-gray-900/40 border border-gray-800 rounded-lg p-3">
+          {results.length === 0 && <div className="text-sm text-gray-500">No questions match.</div>}
+          {results.slice(0, MAX_RESULTS).map(q => (
+            <div key={q.question} className="bg-gray-700/50 rounded-lg p-3">
+              <button
+                onClick={() => setOpenQuestion(openQuestion === q.question ? null : q.question)}
+                className="w-full text-left text-sm text-white"
+              >
+                {q.question}
+              </button>
+              <div className="flex flex-wrap gap-2 mt-2 text-xs text-gray-400">
+                <span className="text-blue-300">{q.difficulty}</span>
+                {q.tags.map(t => <span key={t}>#{t}</span>)}
+              </div>
+              {openQuestion === q.question && (
+                <p className="mt-2 text-sm text-gray-300">{describeBankAnswer(q)}</p>
+              )}
+            </div>
+          ))}
+          {results.length > MAX_RESULTS && (
+            <div className="text-xs text-gray-500">Showing {MAX_RESULTS} of {results.length}; narrow the search to see more.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { ResumeData, BulletRewrite } from '../types';
+import {
+  createRewriteSuggestions,
+  diffWords,
+  buildImprovedResume,
+  RewriteDecision,
+  ResumeOutputFormat,
+} from '../services/resumeRewriteService';
+import { downloadFile } from '../services/exportService';
+
+interface ResumeRewritePanelProps {
+  resumeData: ResumeData;
+  onClose: () => void;
+}
+
+const BulletDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="text-sm leading-relaxed">
+    {diffWords(before, after).map((part, i) => {
+      if (part.type === 'added') return <span key={i} className="bg-green-500/20 text-green-300">{part.text}</span>;
+      if (part.type === 'removed') return <span key={i} className="bg-red-500/20 text-red-300 line-through">{part.text}</span>;
+      return <span key={i} className="text-gray-300">{part.text}</span>;
+    })}
+  </p>
+);
+
+const RewriteRow: React.FC<{
+  rewrite: BulletRewrite;
+  decision?: RewriteDecision;
+  onDecide: (decision: RewriteDecision) => void;
+}> = ({ rewrite, decision, onDecide }) => (
+  <div className={`p-4 rounded-lg border transition ${
+    decision === 'accepted' ? 'border-green-500/60 bg-green-900/10'
+      : decision === 'rejected' ? 'border-gray-700 bg-gray-800/50 opacity-60'
+      : 'border-gray-600 bg-gray-700/50'
+  }`}>
+    <BulletDiff before={rewrite.original} after={rewrite.rewritten} />
+    <p className="text-xs text-gray-400 italic mt-2">{rewrite.rationale}</p>
+    <div className="flex gap-2 mt-3">
+      <button
+        onClick={() => onDecide('accepted')}
+        className={`text-xs font-semibold py-1 px-3 rounded-full transition-colors ${decision === 'accepted' ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+      >
+        ✓ Accept
+      </button>
+      <button
+        onClick={() => onDecide('rejected')}
+        className={`text-xs font-semibold py-1 px-3 rounded-full transition-colors ${decision === 'rejected' ? 'bg-red-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+      >
+        ✗ Keep original
+      </button>
+    </div>
+  </div>
+);
+
+export const ResumeRewritePanel: React.FC<ResumeRewritePanelProps> = ({ resumeData, onClose }) => {
+  const [rewrites, setRewrites] = useState<BulletRewrite[] | null>(null);
+  const [source, setSource] = useState<'ai' | 'fallback'>('ai');
+  const [decisions, setDecisions] = useState<Record<string, RewriteDecision>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    createRewriteSuggestions(resumeData).then(result => {
+      if (cancelled) return;
+      setRewrites(result.rewrites);
+      setSource(result.source);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeData]);
+
+  const decideAll = (decision: RewriteDecision) => {
+    setDecisions(Object.fromEntries((rewrites ?? []).map(r => [r.id, decision])));
+  };
+
+  const handleDownload = (format: ResumeOutputFormat) => {
+    const content = buildImprovedResume(resumeData, rewrites ?? [], decisions, format);
+    if (format === 'markdown') {
+      downloadFile(content, 'resume-improved.md', 'text/markdown');
+    } else {
+      downloadFile(content, 'resume-improved.txt', 'text/plain');
+    }
+  };
+
+  const acceptedCount = Object.values(decisions).filter(d => d === 'accepted').length;
+
+  return (
+    <div className="mb-8 p-6 bg-gray-900/40 border border-purple-500/30 rounded-xl">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-300 to-blue-400">
+          ✍️ Improve Your Bullets
+        </h3>
+        <button onClick={onClose} className="text-sm text-gray-400 hover:text-white transition">Close</button>
+      </div>
+
+      {rewrites === null ? (
+        <p className="text-gray-400 animate-pulse py-6 text-center">Reviewing your experience and projects...</p>
+      ) : rewrites.length === 0 ? (
+        <p className="text-gray-400 py-6 text-center">Your bullets already read well—nothing to suggest.</p>
+      ) : (
+        <>
+          <div className="flex justify-between items-center mb-3">
+            <p className="text-sm text-gray-400">{acceptedCount} of {rewrites.length} suggestion(s) accepted</p>
+            <div className="flex gap-2">
+              <button onClick={() => decideAll('accepted')} className="text-xs text-green-400 hover:text-green-300">Accept all</button>
+              <button onClick={() => decideAll('rejected')} className="text-xs text-gray-400 hover:text-gray-300">Reject all</button>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {rewrites.map(rewrite => (
+              <RewriteRow
+                key={rewrite.id}
+                rewrite={rewrite}
+                decision={decisions[rewrite.id]}
+                onDecide={decision => setDecisions(prev => ({ ...prev, [rewrite.id]: decision }))}
+              />
+            ))}
+          </div>
+          {source === 'fallback' && (
+            <p className="text-xs text-gray-500 mt-3">The AI coach was unavailable, so these are rule-based suggestions. Fill in the [placeholders] before using them.</p>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center gap-2 mt-5 pt-4 border-t border-gray-700">
+        <span className="text-xs text-gray-400">Download resume with accepted changes:</span>
+        <button
+          onClick={() => handleDownload('text')}
+          disabled={rewrites === null}
+          className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 font-semibold py-1 px-3 rounded-full transition-colors"
+        >
+          Plain text
+        </button>
+        <button
+          onClick={() => handleDownload('markdown')}
+          disabled={rewrites === null}
+          className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 font-semibold py-1 px-3 rounded-full transition-colors"
+        >
+          Markdown
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ResumeData, Feedback } from '../types';
+import { ResumeData, Feedback, JobContext } from '../types';
 import { parseResumeText, generateResumeBasedQuestion, provideFeedbackOnAnswer } from '../services/geminiService';
+import { saveFeedback, getSessionFeedback, SessionFeedback } from '../services/feedbackService';
+import { getCurrentUser } from '../services/authService';
+import { extractResumeText, RESUME_FILE_ACCEPT } from '../services/resumeExtractionService';
+import { analyzeJobFit } from '../services/jobMatchService';
 import { Avatar, AvatarState } from './Avatar';
+import { SessionExportButtons } from './SessionExportButtons';
+import { JobGapReport } from './JobGapReport';
+import { ResumeRewritePanel } from './ResumeRewritePanel';
+import { StarAnalysisPanel } from './StarAnalysisPanel';
 import { MicrophoneIcon } from './icons/MicrophoneIcon';
 import { StopIcon } from './icons/StopIcon';
 import { SendIcon } from './icons/SendIcon';
@@ -23,6 +31,10 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
   const [resumeData, setResumeData] = useState<ResumeData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [extractionNotice, setExtractionNotice] = useState('');
+  const [jobDescriptionText, setJobDescriptionText] = useState('');
+  const [jobFit, setJobFit] = useState<{ jobContext: JobContext; source: 'ai' | 'fallback' } | null>(null);
+  const [showRewrites, setShowRewrites] = useState(false);
 
   // Interview session state
   const [inSession, setInSession] = useState(false);
@@ -32,6 +44,8 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
   const [isListening, setIsListening] = useState(false);
   const [questionIndex, setQuestionIndex] = useState(0);
   const [sessionAnswers, setSessionAnswers] = useState<Array<{ question: string; answer: string; feedback: Feedback }>>([]);
+  // The session just ended, kept so it can be exported from the upload screen
+  const [lastSession, setLastSession] = useState<SessionFeedback | null>(null);
 
   const [avatarState, setAvatarState] = useState<AvatarState>('idle');
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -97,31 +111,52 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
     }
   }, []);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
 
-    setResumeFile(file);
     setError('');
+    setExtractionNotice('');
+    setLoading(true);
+    const result = await extractResumeText(file);
+    setLoading(false);
+
+    if (!result.success) {
+      setResumeFile(null);
+      setResumeText('');
+      setError(result.message ?? 'Could not read this file.');
+      return;
+    }
 
-    // Read file content
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      try {
-        const text = e.target?.result as string;
-        setResumeText(text);
-
-        // Parse resume
-        setLoading(true);
-        const parsed = await parseResumeText(text);
-        setResumeData(parsed);
-        setLoading(false);
-      } catch (err) {
-        setError('Failed to parse resume. Please try again.');
-        setLoading(false);
-      }
-    };
-    reader.readAsText(file);
+    // Show the extracted text so the user can fix anything the extraction got wrong before parsing
+    setResumeFile(file);
+    setResumeText(result.text);
+    setExtractionNotice(result.message ?? '');
+  };
+
+  const handleAnalyzeResume = async () => {
+    if (!resumeText.trim()) return;
+
+    try {
+      setError('');
+      setLoading(true);
+      const parsed = await parseResumeText(resumeText);
+      setResumeData(parsed);
+      setLoading(false);
+    } catch (err) {
+      setError('Failed to parse resume. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  const handleAnalyzeJobFit = async () => {
+    if (!resumeData || !jobDescriptionText.trim()) return;
+
+    setError('');
+    setLoading(true);
+    setJobFit(await analyzeJobFit(jobDescriptionText, resumeData));
+    setLoading(false);
   };
 
   const startInterview = async () => {
@@ -130,7 +165,7 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
     try {
       setLoading(true);
       // Generate first question
-      const question = await generateResumeBasedQuestion(resumeData, 0);
+      const question = await generateResumeBasedQuestion(resumeData, 0, jobFit?.jobContext);
       setCurrentQuestion(question);
       setInSession(true);
       setUserAnswer('');
@@ -199,7 +234,7 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
     try {
       setLoading(true);
       const nextIndex = questionIndex + 1;
-      const newQuestion = await generateResumeBasedQuestion(resumeData!, nextIndex);
+      const newQuestion = await generateResumeBasedQuestion(resumeData!, nextIndex, jobFit?.jobContext);
       setCurrentQuestion(newQuestion);
       setQuestionIndex(nextIndex);
       setUserAnswer('');
@@ -213,6 +248,11 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
   };
 
   const endSession = () => {
+    const user = getCurrentUser();
+    if (user && sessionAnswers.length > 0) {
+      const { sessionId } = saveFeedback(user.id, 'Resume Interview', null, sessionAnswers);
+      setLastSession(sessionId ? getSessionFeedback(user.id, sessionId) : null);
+    }
     setInSession(false);
     setResumeData(null);
     setResumeFile(null);
@@ -223,6 +263,10 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
     setQuestionIndex(0);
     setSessionAnswers([]);
     setError('');
+    setExtractionNotice('');
+    setJobDescriptionText('');
+    setJobFit(null);
+    setShowRewrites(false);
   };
 
   if (!inSession && !resumeData) {
@@ -236,6 +280,15 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
             ← Back
           </button>
 
+          {lastSession && (
+            <div className="mb-6 bg-gray-800 border border-gray-700 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <p className="text-sm text-gray-300">
+                Session saved: {lastSession.feedbacks.length} question(s), average score {lastSession.averageScore.toFixed(1)}/10
+              </p>
+              <SessionExportButtons session={lastSession} />
+            </div>
+          )}
+
           <div className="bg-gray-800 rounded-xl p-8 shadow-2xl">
             <h1 className="text-4xl font-bold mb-4 text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-500">
               📄 Resume-Based Interview
@@ -250,19 +303,45 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
             >
               <div className="text-5xl mb-4">📁</div>
               <p className="text-xl font-semibold mb-2">Upload Your Resume</p>
-              <p className="text-gray-400">Click to select a text file or PDF</p>
+              <p className="text-gray-400">Click to select a PDF, Word (.docx) or text file</p>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".txt,.pdf,.doc,.docx"
+                accept={RESUME_FILE_ACCEPT}
                 onChange={handleFileSelect}
                 hidden
               />
             </div>
 
             {resumeFile && (
-              <div className="mt-6 p-4 bg-green-900/30 border border-green-500 rounded-lg">
-                <p className="text-green-400">✓ Resume loaded: {resumeFile.name}</p>
+              <div className="mt-6 space-y-4">
+                <div className="p-4 bg-green-900/30 border border-green-500 rounded-lg">
+                  <p className="text-green-400">✓ Resume loaded: {resumeFile.name}</p>
+                </div>
+                {extractionNotice && (
+                  <div className="p-4 bg-yellow-900/30 border border-yellow-500 rounded-lg">
+                    <p className="text-yellow-400">{extractionNotice}</p>
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="resume-text" className="block text-sm font-semibold text-gray-300 mb-2">
+                    Extracted text — check it and fix anything that looks wrong before analysis
+                  </label>
+                  <textarea
+                    id="resume-text"
+                    value={resumeText}
+                    onChange={(e) => setResumeText(e.target.value)}
+                    rows={12}
+                    className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg text-sm text-gray-200 font-mono focus:outline-none focus:border-blue-400"
+                  />
+                </div>
+                <button
+                  onClick={handleAnalyzeResume}
+                  disabled={loading || !resumeText.trim()}
+                  className="w-full px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition"
+                >
+                  Analyze Resume
+                </button>
               </div>
             )}
 
@@ -291,6 +370,8 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
             onClick={() => {
               setResumeData(null);
               setResumeFile(null);
+              setJobFit(null);
+              setShowRewrites(false);
             }}
             className="mb-6 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition"
           >
@@ -365,6 +446,56 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
               </div>
             )}
 
+            {/* Bullet Rewrite Section */}
+            {showRewrites ? (
+              <ResumeRewritePanel resumeData={resumeData} onClose={() => setShowRewrites(false)} />
+            ) : (resumeData.experience.length > 0 || resumeData.projects.length > 0) && (
+              <button
+                onClick={() => setShowRewrites(true)}
+                className="w-full mb-8 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition"
+              >
+                ✍️ Improve My Resume Bullets
+              </button>
+            )}
+
+            {/* Target Role Section */}
+            <div className="mb-8">
+              <h3 className="text-xl font-bold mb-2 text-white">🎯 Target Role (optional)</h3>
+              <p className="text-sm text-gray-400 mb-3">
+                Paste the job description you're applying for to see how your resume matches and get questions aimed at the gaps.
+              </p>
+              <textarea
+                value={jobDescriptionText}
+                onChange={(e) => {
+                  setJobDescriptionText(e.target.value);
+                  setJobFit(null);
+                }}
+                rows={6}
+                placeholder="Paste the job description here..."
+                className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg text-sm text-gray-200 focus:outline-none focus:border-blue-400"
+              />
+              {!jobFit && (
+                <button
+                  onClick={handleAnalyzeJobFit}
+                  disabled={loading || !jobDescriptionText.trim()}
+                  className="mt-3 px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition"
+                >
+                  {loading ? '⏳ Analyzing...' : 'Analyze Fit'}
+                </button>
+              )}
+              {jobFit && (
+                <div className="mt-4">
+                  <JobGapReport jobContext={jobFit.jobContext} source={jobFit.source} />
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-900/30 border border-red-500 rounded-lg">
+                <p className="text-red-400">✗ {error}</p>
+              </div>
+            )}
+
             <button
               onClick={startInterview}
               disabled={loading}
@@ -382,9 +513,12 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
     <div className="min-h-screen bg-gradient-to-b from-gray-900 to-gray-800 p-6">
       <div className="max-w-2xl mx-auto">
         <div className="flex justify-between items-center mb-6">
-          <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-500">
-            Resume-Based Interview
-          </h2>
+          <div>
+            <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-500">
+              Resume-Based Interview
+            </h2>
+            {jobFit && <p className="text-sm text-gray-400">Target role: {jobFit.jobContext.jobDescription.title}</p>}
+          </div>
           <button
             onClick={endSession}
             className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition"
@@ -490,6 +624,12 @@ const ResumeScreen: React.FC<ResumeScreenProps> = ({ onBack }) => {
               <p className="text-gray-300">{feedback.feedback}</p>
             </div>
 
+            {feedback.starAnalysis && (
+              <div className="mb-6">
+                <StarAnalysisPanel analysis={feedback.starAnalysis} answer={sessionAnswers[sessionAnswers.length - 1]?.answer} />
+              </div>
+            )}
+
             {feedback.nonVerbalFeedback && (
               <div className="mb-6 p-4 bg-blue-900/20 border border-blue-500 rounded-lg">
                 <h5 className="font-semibold text-blue-300 mb-2">Non-Verbal Feedback</h5>
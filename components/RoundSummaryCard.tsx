@@ -0,0 +1,41 @@
+import React from 'react';
+import { RoundSummary } from '../types';
+import { STRONG_SCORE, WEAK_SCORE } from '../services/difficultyService';
+
+interface RoundSummaryCardProps {
+  summary: RoundSummary;
+  // Shown between rounds: what comes next
+  nextRound?: string;
+}
+
+const getVerdict = (summary: RoundSummary): { label: string; className: string } => {
+  if (summary.answered === 0) return { label: 'Not scored', className: 'text-gray-400' };
+  if (summary.averageScore >= STRONG_SCORE) return { label: 'Strong round', className: 'text-green-400' };
+  if (summary.averageScore >= WEAK_SCORE) return { label: 'Borderline', className: 'text-yellow-400' };
+  return { label: 'Needs work', className: 'text-red-400' };
+};
+
+export const RoundSummaryCard: React.FC<RoundSummaryCardProps> = ({ summary, nextRound }) => {
+  const verdict = getVerdict(summary);
+
+  return (
+    <div className="w-full bg-gray-700/50 border border-gray-600 rounded-lg p-4 space-y-2">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-semibold text-white">{summary.round}</h4>
+        <span className={`text-sm font-semibold ${verdict.className}`}>{verdict.label}</span>
+      </div>
+      <p className="text-sm text-gray-300">
+        {summary.answered > 0
+          ? `${summary.averageScore.toFixed(1)}/10 average over ${summary.answered} answer${summary.answered === 1 ? '' : 's'}`
+          : 'No answers were scored in this round.'}
+      </p>
+      {summary.bestAnswer && summary.worstAnswer && summary.answered > 1 && (
+        <ul className="text-xs text-gray-400 space-y-1">
+          <li><span className="text-green-400 font-semibold">Best ({summary.bestAnswer.score}/10):</span> {summary.bestAnswer.question}</li>
+          <li><span className="text-red-400 font-semibold">Weakest ({summary.worstAnswer.score}/10):</span> {summary.worstAnswer.question}</li>
+        </ul>
+      )}
+      {nextRound && <p className="text-sm text-blue-300">Next up: {nextRound}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import type { SessionFeedback } from '../services/feedbackService';
+import { exportSession, ExportFormat } from '../services/exportService';
+
+interface SessionExportButtonsProps {
+  session: SessionFeedback;
+}
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+export const SessionExportButtons: React.FC<SessionExportButtonsProps> = ({ session }) => {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-gray-400">Export:</span>
+      {EXPORT_OPTIONS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => exportSession(session, format)}
+          className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-1 px-3 rounded-full transition-colors"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { SessionReport, ScoredQuestion } from '../types';
+import { RoundSummaryCard } from './RoundSummaryCard';
+
+interface SessionReportCardProps {
+  report: SessionReport;
+}
+
+const ReportList: React.FC<{ title: string; items: string[]; color: string; empty: string }> = ({ title, items, color, empty }) => (
+  <div className="bg-gray-700/50 border border-gray-600 rounded-lg p-4">
+    <h4 className={`font-semibold mb-2 ${color}`}>{title}</h4>
+    {items.length > 0 ? (
+      <ul className="space-y-1 text-sm text-gray-300 list-disc list-inside">
+        {items.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    ) : (
+      <p className="text-sm text-gray-500 italic">{empty}</p>
+    )}
+  </div>
+);
+
+const AnswerHighlight: React.FC<{ label: string; answer: ScoredQuestion | null; color: string }> = ({ label, answer, color }) => (
+  <div className="bg-gray-700/50 border border-gray-600 rounded-lg p-4">
+    <div className="flex justify-between items-center mb-1">
+      <h4 className="font-semibold text-gray-200">{label}</h4>
+      {answer && <span className={`text-lg font-bold ${color}`}>{answer.score}/10</span>}
+    </div>
+    <p className="text-sm text-gray-300">{answer ? answer.question : 'No scored answers.'}</p>
+  </div>
+);
+
+export const SessionReportCard: React.FC<SessionReportCardProps> = ({ report }) => {
+  return (
+    <div className="w-full space-y-4">
+      <div className="bg-gray-700/50 border border-gray-600 rounded-lg p-4">
+        <p className="text-gray-200">{report.summary}</p>
+        <p className="text-sm text-gray-400 mt-3">
+          Recommended next difficulty: <span className="font-bold text-blue-400">{report.recommendedDifficulty}</span>
+        </p>
+      </div>
+
+      {report.rounds && (
+        <div>
+          <h4 className="font-semibold text-blue-400 mb-2">Rounds</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {report.rounds.map(round => <RoundSummaryCard key={round.round} summary={round} />)}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <AnswerHighlight label="Best Answer" answer={report.bestAnswer} color="text-green-400" />
+        <AnswerHighlight label="Needs the Most Work" answer={report.worstAnswer} color="text-red-400" />
+        <ReportList title="Strengths" items={report.strengths} color="text-green-400" empty="Nothing stood out yet—keep practising." />
+        <ReportList title="Areas to Improve" items={report.weaknesses} color="text-yellow-400" empty="No major gaps this session." />
+      </div>
+
+      <div className="bg-gray-700/50 border border-gray-600 rounded-lg p-4">
+        <h4 className="font-semibold text-purple-400 mb-2">Topics Covered</h4>
+        <div className="flex flex-wrap gap-2">
+          {report.topicsCovered.map((topic, index) => (
+            <span key={index} className="bg-purple-500/20 text-purple-300 px-3 py-1 rounded-full text-xs">{topic}</span>
+          ))}
+        </div>
+      </div>
+
+      {report.source === 'fallback' && (
+        <p className="text-xs text-gray-500 text-center">This report was built from your scores only because the AI coach was unavailable.</p>
+      )}
+    </div>
+  );
+};
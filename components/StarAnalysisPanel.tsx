@@ -0,0 +1,71 @@
+import React from 'react';
+import { StarAnalysis, StarComponent, StarStrength } from '../types';
+import { STAR_LABELS, annotateStarAnswer } from '../services/starService';
+
+interface StarAnalysisPanelProps {
+  analysis: StarAnalysis;
+  // The answer that was analysed; when given it's shown with each component's excerpt highlighted
+  answer?: string;
+}
+
+const COMPONENT_BORDERS: Record<StarComponent, string> = {
+  situation: 'border-sky-400',
+  task: 'border-purple-400',
+  action: 'border-amber-400',
+  result: 'border-green-400',
+};
+
+const COMPONENT_HIGHLIGHTS: Record<StarComponent, string> = {
+  situation: 'bg-sky-500/30',
+  task: 'bg-purple-500/30',
+  action: 'bg-amber-500/30',
+  result: 'bg-green-500/30',
+};
+
+const STRENGTH_STYLES: Record<StarStrength, { label: string; className: string }> = {
+  strong: { label: 'Strong', className: 'text-green-400' },
+  weak: { label: 'Weak', className: 'text-yellow-400' },
+  missing: { label: 'Missing', className: 'text-red-400' },
+};
+
+export const StarAnalysisPanel: React.FC<StarAnalysisPanelProps> = ({ analysis, answer }) => {
+  const color = analysis.completeness >= 80 ? 'text-green-400' : analysis.completeness >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-semibold text-amber-400">STAR Analysis:</h4>
+        <span className={`text-sm font-semibold ${color}`}>{analysis.completeness}% complete</span>
+      </div>
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {analysis.elements.map(element => (
+          <li key={element.component} className={`p-2 rounded-md border-l-4 bg-gray-800/60 ${COMPONENT_BORDERS[element.component]}`}>
+            <div className="flex justify-between text-sm">
+              <span className="font-semibold text-white">{STAR_LABELS[element.component]}</span>
+              <span className={`font-semibold ${STRENGTH_STYLES[element.strength].className}`}>{STRENGTH_STYLES[element.strength].label}</span>
+            </div>
+            {element.comment && <p className="text-xs text-gray-300 mt-1">{element.comment}</p>}
+          </li>
+        ))}
+      </ul>
+
+      {answer && (
+        <div>
+          <p className="text-xs text-gray-400 mb-1">Your answer, with each part highlighted:</p>
+          <p className="text-sm text-gray-200 leading-relaxed bg-gray-800/60 rounded-md p-3">
+            {annotateStarAnswer(answer, analysis).map((part, i) =>
+              part.component ? (
+                <mark key={i} title={STAR_LABELS[part.component]} className={`text-gray-100 rounded px-0.5 border-b-2 ${COMPONENT_HIGHLIGHTS[part.component]} ${COMPONENT_BORDERS[part.component]}`}>
+                  {part.text}
+                </mark>
+              ) : (
+                <span key={i}>{part.text}</span>
+              )
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
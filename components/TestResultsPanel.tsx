@@ -0,0 +1,35 @@
+import React from 'react';
+import { CodeTestRun } from '../types';
+
+interface TestResultsPanelProps {
+  testRun: CodeTestRun;
+  // Only the pass count and any run error, for the transcript
+  compact?: boolean;
+}
+
+const formatArgs = (args: unknown[]): string => args.map(arg => JSON.stringify(arg)).join(', ');
+
+export const TestResultsPanel: React.FC<TestResultsPanelProps> = ({ testRun, compact }) => {
+  const allPassed = testRun.total > 0 && testRun.passed === testRun.total && !testRun.error;
+
+  return (
+    <div className="w-full text-left text-xs space-y-2">
+      <div className={`font-semibold ${allPassed ? 'text-green-400' : 'text-yellow-400'}`}>
+        {allPassed ? '✓' : '✗'} {testRun.passed}/{testRun.total} tests passed
+      </div>
+      {testRun.error && <div className="text-red-400 font-mono whitespace-pre-wrap">{testRun.error}</div>}
+      {!compact && testRun.results.length > 0 && (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {testRun.results.map((result, i) => (
+            <li key={i} className={`p-2 rounded font-mono ${result.passed ? 'bg-green-900/20 text-green-200' : 'bg-red-900/20 text-red-200'}`}>
+              <div>{result.passed ? '✓' : '✗'} ({formatArgs(result.args)}) → expected {JSON.stringify(result.expected)}</div>
+              {!result.passed && (
+                <div className="text-gray-300 mt-0.5">{result.error ? result.error : `got ${result.actual ?? 'undefined'}`}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
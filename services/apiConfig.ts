@@ -0,0 +1,52 @@
+// Shared helpers for locating and calling the MakePrepWithMe backend
+
+export const getApiBaseUrl = (): string => {
+    // Prefer explicit API base URL from Vite env (e.g., VITE_API_BASE_URL="https://api.example.com")
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const meta: any = typeof import.meta !== 'undefined' ? (import.meta as any) : undefined;
+        const envBase = meta?.env?.VITE_API_BASE_URL;
+        if (envBase && typeof envBase === 'string') {
+            return envBase.replace(/\/+$/, '');
+        }
+    } catch (e) {
+        // ignore
+    }
+
+    // If running locally or on LAN, default to the same host on port 4000.
+    try {
+        if (typeof window !== 'undefined' && window.location) {
+            const { hostname, protocol } = window.location;
+            const isLocalhost =
+                hostname === 'localhost' ||
+                hostname === '127.0.0.1' ||
+                hostname === '[::1]' ||
+                hostname.endsWith('.local') ||
+                /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+            if (isLocalhost) {
+                return `${protocol}//${hostname}:4000`;
+            }
+        }
+    } catch (e) {
+        // ignore
+    }
+
+    // Fallback to relative path (useful in production if API is on same origin)
+    return '';
+};
+
+export const buildApiUrl = (path: string) => {
+    const base = getApiBaseUrl();
+    if (!base) return path.startsWith('/') ? path : `/${path}`;
+    return `${base}${path.startsWith('/') ? path : `/${path}`}`;
+};
+
+export const fetchWithTimeout = async (url: string, options: RequestInit, ms: number) => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), ms);
+    try {
+        return await fetch(url, { ...options, signal: controller.signal });
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
@@ -1,4 +1,6 @@
-// Authentication service for user login and registration
+// Authentication service for user login and registration, backed by the /api/auth routes
+
+import { buildApiUrl, fetchWithTimeout } from './apiConfig';
 
 export interface User {
   id: string;
@@ -9,40 +11,39 @@ export interface User {
 
 export interface UserSession {
   user: User;
+  token: string;
   loginTime: string;
 }
 
-const USERS_KEY = 'makePrepWithMe_users';
-const CURRENT_SESSION_KEY = 'makePrepWithMe_session';
+export interface AuthResult {
+  success: boolean;
+  message: string;
+  user?: User;
+}
 
-/**
- * Get all registered users
- */
-export const getAllUsers = (): User[] => {
-  try {
-    const data = localStorage.getItem(USERS_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch (error) {
-    console.error('Failed to get users:', error);
-    return [];
-  }
-};
+const CURRENT_SESSION_KEY = 'makePrepWithMe_session';
+const AUTH_TIMEOUT_MS = 8000;
 
 /**
- * Save all users
+ * Call an auth endpoint and return its status and parsed JSON body
  */
-const saveUsers = (users: User[]) => {
-  try {
-    localStorage.setItem(USERS_KEY, JSON.stringify(users));
-  } catch (error) {
-    console.error('Failed to save users:', error);
-  }
+const authRequest = async (path: string, init: RequestInit = {}): Promise<{ status: number; data: any }> => {
+  const token = getAuthToken();
+  const response = await fetchWithTimeout(buildApiUrl(path), {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  }, AUTH_TIMEOUT_MS);
+  const data = await response.json().catch(() => ({}));
+  return { status: response.status, data };
 };
 
 /**
  * Register a new user
  */
-export const registerUser = (username: string, email: string): { success: boolean; message: string; user?: User } => {
+export const registerUser = async (username: string, email: string, password: string): Promise<AuthResult> => {
   // Validation
   if (!username || username.trim().length < 3) {
     return { success: false, message: 'Username must be at least 3 characters long.' };
@@ -52,65 +53,68 @@ export const registerUser = (username: string, email: string): { success: boolea
     return { success: false, message: 'Please enter a valid email address.' };
   }
 
-  const users = getAllUsers();
-
-  // Check if user already exists
-  if (users.some(u => u.email.toLowerCase() === email.toLowerCase())) {
-    return { success: false, message: 'Email already registered. Please login instead.' };
-  }
-
-  if (users.some(u => u.username.toLowerCase() === username.toLowerCase())) {
-    return { success: false, message: 'Username already taken. Please choose a different one.' };
+  if (!password || password.length < 8) {
+    return { success: false, message: 'Password must be at least 8 characters long.' };
   }
 
-  // Create new user
-  const newUser: User = {
-    id: `user_${Date.now()}`,
-    username: username.trim(),
-    email: email.trim().toLowerCase(),
-    createdAt: new Date().toISOString(),
-  };
-
-  users.push(newUser);
-  saveUsers(users);
+  try {
+    const { status, data } = await authRequest('/api/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ username: username.trim(), email: email.trim(), password }),
+    });
+    if (status !== 201 || !data?.user || !data?.token) {
+      return { success: false, message: data?.error || 'Registration failed. Please try again.' };
+    }
 
-  // Auto-login after registration
-  setCurrentSession(newUser);
+    // Auto-login after registration
+    setCurrentSession(data.user, data.token);
 
-  return { success: true, message: 'Registration successful!', user: newUser };
+    return { success: true, message: 'Registration successful!', user: data.user };
+  } catch (error) {
+    console.error('Failed to register:', error);
+    return { success: false, message: 'Could not reach the server. Please try again.' };
+  }
 };
 
 /**
  * Login user
  */
-export const loginUser = (email: string, password?: string): { success: boolean; message: string; user?: User } => {
-  // Note: In a real app, password would be hashed and verified on a secure backend.
-  // For this demo, we use email-based login (no password).
-  
+export const loginUser = async (email: string, password: string): Promise<AuthResult> => {
   if (!email || !email.includes('@')) {
     return { success: false, message: 'Please enter a valid email address.' };
   }
 
-  const users = getAllUsers();
-  const user = users.find(u => u.email.toLowerCase() === email.toLowerCase());
-
-  if (!user) {
-    return { success: false, message: 'User not found. Please register first.' };
+  if (!password) {
+    return { success: false, message: 'Please enter your password.' };
   }
 
-  // Set current session
-  setCurrentSession(user);
+  try {
+    const { status, data } = await authRequest('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email: email.trim(), password }),
+    });
+    if (status !== 200 || !data?.user || !data?.token) {
+      return { success: false, message: data?.error || 'Login failed. Please try again.' };
+    }
+
+    // Set current session
+    setCurrentSession(data.user, data.token);
 
-  return { success: true, message: 'Login successful!', user };
+    return { success: true, message: 'Login successful!', user: data.user };
+  } catch (error) {
+    console.error('Failed to login:', error);
+    return { success: false, message: 'Could not reach the server. Please try again.' };
+  }
 };
 
 /**
  * Set current user session
  */
-export const setCurrentSession = (user: User) => {
+export const setCurrentSession = (user: User, token: string) => {
   try {
     const session: UserSession = {
       user,
+      token,
       loginTime: new Date().toISOString(),
     };
     localStorage.setItem(CURRENT_SESSION_KEY, JSON.stringify(session));
@@ -119,26 +123,70 @@ export const setCurrentSession = (user: User) => {
   }
 };
 
-/**
- * Get current logged-in user
- */
-export const getCurrentUser = (): User | null => {
+const getCurrentSession = (): UserSession | null => {
   try {
     const data = localStorage.getItem(CURRENT_SESSION_KEY);
     if (data) {
       const session: UserSession = JSON.parse(data);
-      return session.user;
+      // Sessions saved before server-side auth have no token and can't be used
+      return session.token ? session : null;
     }
   } catch (error) {
-    console.error('Failed to get current user:', error);
+    console.error('Failed to get current session:', error);
   }
   return null;
 };
 
+/**
+ * Get current logged-in user
+ */
+export const getCurrentUser = (): User | null => {
+  return getCurrentSession()?.user ?? null;
+};
+
+/**
+ * Get the signed token to send as a bearer token to protected routes
+ */
+export const getAuthToken = (): string | null => {
+  return getCurrentSession()?.token ?? null;
+};
+
+/**
+ * Re-validate the stored token with the backend. Clears the local session if the
+ * server rejects it; keeps it when the server can't be reached so offline use still works.
+ */
+export const refreshCurrentUser = async (): Promise<User | null> => {
+  const session = getCurrentSession();
+  if (!session) return null;
+
+  try {
+    const { status, data } = await authRequest('/api/auth/me');
+    if (status === 401) {
+      localStorage.removeItem(CURRENT_SESSION_KEY);
+      return null;
+    }
+    if (status === 200 && data?.user) {
+      setCurrentSession(data.user, session.token);
+      return data.user;
+    }
+  } catch (error) {
+    console.error('Failed to refresh current user:', error);
+  }
+  return session.user;
+};
+
 /**
  * Logout current user
  */
-export const logoutUser = () => {
+export const logoutUser = async () => {
+  try {
+    if (getAuthToken()) {
+      await authRequest('/api/auth/logout', { method: 'POST' });
+    }
+  } catch (error) {
+    console.error('Failed to revoke token on server:', error);
+  }
+
   try {
     localStorage.removeItem(CURRENT_SESSION_KEY);
   } catch (error) {
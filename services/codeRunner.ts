@@ -0,0 +1,118 @@
+// Executes JavaScript and TypeScript answers against a question's test cases in a Web Worker sandbox.
+// Browsers don't let a page cap a worker's heap, so memory is bounded indirectly: code size is
+// capped, the time limit stops runaway allocation loops, and a worker that runs out of memory
+// crashes and is reported as a runtime error.
+
+import { CodingLanguage, CodeTestCase, CodeTestRun, TestCaseResult } from '../types';
+import type { SandboxRequest, SandboxReply } from './codeSandbox.worker';
+
+export const RUNNABLE_LANGUAGES: CodingLanguage[] = ['javascript', 'typescript'];
+
+// Wall-clock budget for the whole run, covering every test case
+export const TIME_LIMIT_MS = 5000;
+const MAX_CODE_CHARS = 20000;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Whether an answer in this language can be executed against these tests
+ */
+export const canRunTests = (language: CodingLanguage, functionName?: string, testCases?: CodeTestCase[]): boolean => {
+  return RUNNABLE_LANGUAGES.includes(language) &&
+    !!functionName && IDENTIFIER.test(functionName) &&
+    !!testCases && testCases.length > 0;
+};
+
+// The sandbox evaluates a plain script, so module syntax and type annotations have to go
+const toScript = async (code: string, language: CodingLanguage): Promise<string> => {
+  let script = code;
+  if (language === 'typescript') {
+    const { transform } = await import('sucrase');
+    script = transform(code, { transforms: ['typescript'] }).code;
+  }
+  return script.replace(/^(\s*)export\s+(?:default\s+)?/gm, '$1');
+};
+
+const failedRun = (testCases: CodeTestCase[], error: string): CodeTestRun => ({
+  results: [],
+  passed: 0,
+  total: testCases.length,
+  error,
+});
+
+/**
+ * Run the candidate's code against every test case. Never rejects: compile errors, a missing
+ * function, crashes and timeouts are all reported in the returned run.
+ */
+export const runCodeTests = async (
+  code: string,
+  language: CodingLanguage,
+  functionName: string,
+  testCases: CodeTestCase[]
+): Promise<CodeTestRun> => {
+  if (code.length > MAX_CODE_CHARS) {
+    return failedRun(testCases, `Code is longer than ${MAX_CODE_CHARS} characters`);
+  }
+
+  let script: string;
+  try {
+    script = await toScript(code, language);
+  } catch (error) {
+    return failedRun(testCases, `Could not compile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return new Promise(resolve => {
+    const worker = new Worker(new URL('./codeSandbox.worker.ts', import.meta.url), { type: 'module' });
+    const nonce = Math.random().toString(36).slice(2);
+    const outcomes: Array<TestCaseResult | undefined> = [];
+    let settled = false;
+
+    const finish = (error?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate();
+
+      const ranAny = outcomes.some(Boolean);
+      if (error && !ranAny) {
+        resolve(failedRun(testCases, error));
+        return;
+      }
+      const results = testCases.map((testCase, index) =>
+        outcomes[index] ?? { args: testCase.args, expected: testCase.expected, passed: false, error: 'Not run' }
+      );
+      resolve({ results, passed: results.filter(r => r.passed).length, total: testCases.length, error });
+    };
+
+    const timer = setTimeout(
+      () => finish(`Stopped after ${TIME_LIMIT_MS / 1000}s; check for an infinite loop or very slow code`),
+      TIME_LIMIT_MS
+    );
+
+    worker.onmessage = (event: MessageEvent<SandboxReply>) => {
+      const reply = event.data;
+      if (reply?.nonce !== nonce) return;
+      if (reply.type === 'case') {
+        const testCase = testCases[reply.index];
+        outcomes[reply.index] = {
+          args: testCase.args,
+          expected: testCase.expected,
+          passed: reply.passed,
+          actual: reply.actual,
+          error: reply.error,
+        };
+      } else if (reply.type === 'error') {
+        finish(reply.error);
+      } else {
+        finish();
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish(`The sandbox crashed${event.message ? `: ${event.message}` : ''}. The code may have run out of memory.`);
+    };
+
+    const request: SandboxRequest = { nonce, code: script, functionName, testCases };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,107 @@
+// Runs a candidate's JavaScript against test cases, off the main thread.
+// codeRunner.ts starts a fresh worker per run and terminates it when the time limit is hit.
+
+import type { CodeTestCase } from '../types';
+
+export interface SandboxRequest {
+  // Echoed on every reply so the runner can ignore messages posted by the candidate's code
+  nonce: string;
+  code: string;
+  functionName: string;
+  testCases: CodeTestCase[];
+}
+
+export type SandboxReply =
+  | { nonce: string; type: 'case'; index: number; passed: boolean; actual?: string; error?: string }
+  | { nonce: string; type: 'error'; error: string }
+  | { nonce: string; type: 'done' };
+
+const MAX_ACTUAL_CHARS = 500;
+
+// The candidate's code runs in this same scope, so everything the grader relies on is taken
+// before it runs; otherwise it could, say, replace Object.is and pass every test
+const post = self.postMessage.bind(self) as (reply: SandboxReply) => void;
+const objectIs = Object.is;
+const objectKeys = Object.keys;
+const isArray = Array.isArray;
+const hasOwn = Function.prototype.call.bind(Object.prototype.hasOwnProperty) as (target: object, key: string) => boolean;
+const stringify = JSON.stringify;
+const toText = String;
+
+// Cut off the network and ways to load more code, both on the global and on the prototypes it
+// inherits them from, so WorkerGlobalScope.prototype.fetch.call(self, …) fails too.
+// This is best effort, not a security boundary: dynamic import() can't be removed from script,
+// and anything the browser exposes under another name stays reachable. The time limit and the
+// grader's saved references above are what the results rely on.
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'postMessage', 'Worker', 'SharedWorker'];
+for (let scope: object | null = self; scope !== null && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+  for (const name of BLOCKED_GLOBALS) {
+    try {
+      Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+    } catch {
+      // Some are non-configurable in some browsers; the time limit still applies
+    }
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (objectIs(a, b)) return true;
+  if (!isRecord(a) || !isRecord(b)) return false;
+  if (isArray(a) !== isArray(b)) return false;
+  const aKeys = objectKeys(a);
+  const bKeys = objectKeys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  // A plain loop, since the candidate's code may have replaced Array.prototype.every
+  for (let i = 0; i < aKeys.length; i++) {
+    const key = aKeys[i];
+    if (!hasOwn(b, key) || !deepEqual(a[key], b[key])) return false;
+  }
+  return true;
+};
+
+const describeValue = (value: unknown): string => {
+  let text: string;
+  try {
+    text = value === undefined ? 'undefined' : stringify(value) ?? toText(value);
+  } catch {
+    text = toText(value);
+  }
+  return text.length > MAX_ACTUAL_CHARS ? `${text.slice(0, MAX_ACTUAL_CHARS)}…` : text;
+};
+
+const describeError = (error: unknown): string => {
+  return error instanceof Error ? `${error.name}: ${error.message}` : toText(error);
+};
+
+const run = async ({ nonce, code, functionName, testCases }: SandboxRequest) => {
+  let fn: unknown;
+  try {
+    fn = new Function(`${code}\n;return typeof ${functionName} === 'function' ? ${functionName} : undefined;`)();
+  } catch (error) {
+    post({ nonce, type: 'error', error: describeError(error) });
+    return;
+  }
+  if (typeof fn !== 'function') {
+    post({ nonce, type: 'error', error: `No function named ${functionName} was defined` });
+    return;
+  }
+
+  for (let index = 0; index < testCases.length; index++) {
+    const { args, expected } = testCases[index];
+    try {
+      const actual = await fn(...args);
+      post({ nonce, type: 'case', index, passed: deepEqual(actual, expected), actual: describeValue(actual) });
+    } catch (error) {
+      post({ nonce, type: 'case', index, passed: false, error: describeError(error) });
+    }
+  }
+  post({ nonce, type: 'done' });
+};
+
+self.onmessage = (event: MessageEvent<SandboxRequest>) => {
+  self.onmessage = null;
+  run(event.data);
+};
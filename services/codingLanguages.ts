@@ -0,0 +1,66 @@
+// Languages offered in the coding-question editor and which subjects use it
+
+import { Subject, CodingLanguage } from '../types';
+
+export interface CodingLanguageOption {
+  id: CodingLanguage;
+  label: string;
+  // Line comment marker, used for the starter code
+  comment: string;
+}
+
+export const CODING_LANGUAGES: CodingLanguageOption[] = [
+  { id: 'javascript', label: 'JavaScript', comment: '//' },
+  { id: 'typescript', label: 'TypeScript', comment: '//' },
+  { id: 'python', label: 'Python', comment: '#' },
+  { id: 'java', label: 'Java', comment: '//' },
+  { id: 'cpp', label: 'C++', comment: '//' },
+  { id: 'csharp', label: 'C#', comment: '//' },
+  { id: 'go', label: 'Go', comment: '//' },
+  { id: 'rust', label: 'Rust', comment: '//' },
+  { id: 'kotlin', label: 'Kotlin', comment: '//' },
+  { id: 'swift', label: 'Swift', comment: '//' },
+  { id: 'php', label: 'PHP', comment: '//' },
+  { id: 'ruby', label: 'Ruby', comment: '#' },
+];
+
+const SUBJECT_LANGUAGES: Partial<Record<Subject, CodingLanguage>> = {
+  [Subject.JavaScript]: 'javascript',
+  [Subject.TypeScript]: 'typescript',
+  [Subject.Python]: 'python',
+  [Subject.Java]: 'java',
+  [Subject.C_Plus_Plus]: 'cpp',
+  [Subject.C_Sharp]: 'csharp',
+  [Subject.Go]: 'go',
+  [Subject.Rust]: 'rust',
+  [Subject.Kotlin]: 'kotlin',
+  [Subject.Swift]: 'swift',
+  [Subject.PHP]: 'php',
+  [Subject.Ruby]: 'ruby',
+};
+
+// DSA has no language of its own
+const DSA_DEFAULT_LANGUAGE: CodingLanguage = 'python';
+
+/**
+ * Whether sessions on this subject can switch to coding questions
+ */
+export const isCodingSubject = (subject: Subject | string): boolean => {
+  return subject === Subject.DSA || subject in SUBJECT_LANGUAGES;
+};
+
+/**
+ * The editor language a subject starts with: its own language, or Python for DSA
+ */
+export const getDefaultCodingLanguage = (subject: Subject | string): CodingLanguage => {
+  return SUBJECT_LANGUAGES[subject as Subject] ?? DSA_DEFAULT_LANGUAGE;
+};
+
+export const getCodingLanguageName = (language: CodingLanguage): string => {
+  return CODING_LANGUAGES.find(l => l.id === language)?.label ?? language;
+};
+
+export const getStarterCode = (language: CodingLanguage): string => {
+  const option = CODING_LANGUAGES.find(l => l.id === language);
+  return `${option?.comment ?? '//'} Write your ${getCodingLanguageName(language)} solution here\n`;
+};
@@ -0,0 +1,188 @@
+// Coding questions for the editor, from Gemini when reachable and from a small offline set otherwise
+
+import { Subject, Difficulty, CodingLanguage, CodingQuestion } from '../types';
+import { generateCodingQuestion } from './geminiService';
+
+// Language-neutral problems; the function names read naturally in any of the editor languages.
+// The test cases are what JavaScript and TypeScript answers are run against offline.
+const FALLBACK_CODING_QUESTIONS: Record<Difficulty, CodingQuestion[]> = {
+  Beginner: [
+    {
+      question: 'Write a function reverseString(s) that returns the string reversed. For example, reverseString("hello") returns "olleh".',
+      functionName: 'reverseString',
+      testCases: [
+        { args: ['hello'], expected: 'olleh' },
+        { args: [''], expected: '' },
+        { args: ['a'], expected: 'a' },
+        { args: ['Interview Prep'], expected: 'perP weivretnI' },
+      ],
+    },
+    {
+      question: 'Write a function findMax(nums) that returns the largest number in a non-empty array of integers. For example, findMax([3, 9, 2]) returns 9.',
+      functionName: 'findMax',
+      testCases: [
+        { args: [[3, 9, 2]], expected: 9 },
+        { args: [[-5, -2, -9]], expected: -2 },
+        { args: [[7]], expected: 7 },
+        { args: [[4, 4, 1]], expected: 4 },
+      ],
+    },
+    {
+      question: 'Write a function countVowels(s) that returns how many vowels (a, e, i, o, u, either case) a string contains. For example, countVowels("Interview") returns 4.',
+      functionName: 'countVowels',
+      testCases: [
+        { args: ['Interview'], expected: 4 },
+        { args: ['xyz'], expected: 0 },
+        { args: ['AEIOU'], expected: 5 },
+        { args: [''], expected: 0 },
+      ],
+    },
+    {
+      question: 'Write a function isPalindrome(s) that returns true if a string reads the same forwards and backwards, ignoring case. For example, isPalindrome("Level") returns true.',
+      functionName: 'isPalindrome',
+      testCases: [
+        { args: ['Level'], expected: true },
+        { args: ['hello'], expected: false },
+        { args: [''], expected: true },
+        { args: ['ab'], expected: false },
+      ],
+    },
+    {
+      question: 'Write a function fizzBuzz(n) that returns a list of the numbers 1 to n as strings, with multiples of 3 replaced by "Fizz", multiples of 5 by "Buzz" and multiples of both by "FizzBuzz".',
+      functionName: 'fizzBuzz',
+      testCases: [
+        { args: [1], expected: ['1'] },
+        { args: [5], expected: ['1', '2', 'Fizz', '4', 'Buzz'] },
+        { args: [15], expected: ['1', '2', 'Fizz', '4', 'Buzz', 'Fizz', '7', '8', 'Fizz', 'Buzz', '11', 'Fizz', '13', '14', 'FizzBuzz'] },
+      ],
+    },
+  ],
+  Intermediate: [
+    {
+      question: 'Write a function twoSum(nums, target) that returns the indices of the two numbers in the array that add up to target, smaller index first. For example, twoSum([2, 7, 11, 15], 9) returns [0, 1]. Aim for better than O(n²).',
+      functionName: 'twoSum',
+      testCases: [
+        { args: [[2, 7, 11, 15], 9], expected: [0, 1] },
+        { args: [[3, 2, 4], 6], expected: [1, 2] },
+        { args: [[3, 3], 6], expected: [0, 1] },
+        { args: [[-1, -2, -3, -4, -5], -8], expected: [2, 4] },
+      ],
+    },
+    {
+      question: 'Write a function isValidBrackets(s) that returns true if every bracket in a string of ()[]{} is closed in the right order. For example, isValidBrackets("([]{})") returns true and isValidBrackets("(]") returns false.',
+      functionName: 'isValidBrackets',
+      testCases: [
+        { args: ['([]{})'], expected: true },
+        { args: ['(]'], expected: false },
+        { args: ['(('], expected: false },
+        { args: [''], expected: true },
+        { args: ['{[()()]}'], expected: true },
+      ],
+    },
+    {
+      question: 'Write a function groupAnagrams(words) that groups words that are anagrams of each other. Return the groups in the order their first word appears, keeping each group\'s words in their original order. For example, groupAnagrams(["eat", "tea", "tan", "nat"]) returns [["eat", "tea"], ["tan", "nat"]].',
+      functionName: 'groupAnagrams',
+      testCases: [
+        { args: [['eat', 'tea', 'tan', 'nat']], expected: [['eat', 'tea'], ['tan', 'nat']] },
+        { args: [['eat', 'tea', 'tan', 'ate', 'nat', 'bat']], expected: [['eat', 'tea', 'ate'], ['tan', 'nat'], ['bat']] },
+        { args: [['a']], expected: [['a']] },
+        { args: [[]], expected: [] },
+      ],
+    },
+    {
+      question: 'Write a function mergeIntervals(intervals) that merges all overlapping [start, end] intervals and returns them sorted by start. For example, mergeIntervals([[1, 3], [2, 6], [8, 10]]) returns [[1, 6], [8, 10]].',
+      functionName: 'mergeIntervals',
+      testCases: [
+        { args: [[[1, 3], [2, 6], [8, 10]]], expected: [[1, 6], [8, 10]] },
+        { args: [[[1, 4], [4, 5]]], expected: [[1, 5]] },
+        { args: [[[5, 6], [1, 2]]], expected: [[1, 2], [5, 6]] },
+        { args: [[]], expected: [] },
+      ],
+    },
+    {
+      question: 'Write a function longestUniqueSubstring(s) that returns the length of the longest substring without repeating characters. For example, longestUniqueSubstring("abcabcbb") returns 3.',
+      functionName: 'longestUniqueSubstring',
+      testCases: [
+        { args: ['abcabcbb'], expected: 3 },
+        { args: ['bbbbb'], expected: 1 },
+        { args: ['pwwkew'], expected: 3 },
+        { args: [''], expected: 0 },
+      ],
+    },
+  ],
+  Advanced: [
+    {
+      question: 'Write a function longestIncreasingSubsequence(nums) that returns the length of the longest strictly increasing subsequence. For example, longestIncreasingSubsequence([10, 9, 2, 5, 3, 7, 101, 18]) returns 4. Aim for O(n log n).',
+      functionName: 'longestIncreasingSubsequence',
+      testCases: [
+        { args: [[10, 9, 2, 5, 3, 7, 101, 18]], expected: 4 },
+        { args: [[0, 1, 0, 3, 2, 3]], expected: 4 },
+        { args: [[7, 7, 7]], expected: 1 },
+        { args: [[]], expected: 0 },
+      ],
+    },
+    {
+      question: 'Write a function editDistance(a, b) that returns the minimum number of single-character inserts, deletes and replacements to turn a into b. For example, editDistance("horse", "ros") returns 3.',
+      functionName: 'editDistance',
+      testCases: [
+        { args: ['horse', 'ros'], expected: 3 },
+        { args: ['intention', 'execution'], expected: 5 },
+        { args: ['', 'abc'], expected: 3 },
+        { args: ['same', 'same'], expected: 0 },
+      ],
+    },
+    {
+      question: 'Write a function shortestPath(n, edges, source) that returns the shortest distance from source to every node in a directed graph with n nodes and non-negative weighted edges [from, to, weight], using -1 for unreachable nodes. For example, shortestPath(3, [[0, 1, 5]], 0) returns [0, 5, -1].',
+      functionName: 'shortestPath',
+      testCases: [
+        { args: [3, [[0, 1, 5]], 0], expected: [0, 5, -1] },
+        { args: [4, [[0, 1, 4], [0, 2, 1], [2, 1, 2], [1, 3, 1]], 0], expected: [0, 3, 1, 4] },
+        { args: [2, [[1, 0, 3]], 0], expected: [0, -1] },
+        { args: [1, [], 0], expected: [0] },
+      ],
+    },
+    {
+      question: 'Write a function coinChange(coins, amount) that returns the fewest coins needed to make amount, or -1 if it can\'t be made. For example, coinChange([1, 2, 5], 11) returns 3.',
+      functionName: 'coinChange',
+      testCases: [
+        { args: [[1, 2, 5], 11], expected: 3 },
+        { args: [[2], 3], expected: -1 },
+        { args: [[1], 0], expected: 0 },
+        { args: [[2, 5, 10, 1], 27], expected: 4 },
+      ],
+    },
+    {
+      question: 'Write a function slidingWindowMax(nums, k) that returns the maximum of every window of size k. For example, slidingWindowMax([1, 3, -1, -3, 5, 3, 6, 7], 3) returns [3, 3, 5, 5, 6, 7]. Aim for O(n).',
+      functionName: 'slidingWindowMax',
+      testCases: [
+        { args: [[1, 3, -1, -3, 5, 3, 6, 7], 3], expected: [3, 3, 5, 5, 6, 7] },
+        { args: [[1], 1], expected: [1] },
+        { args: [[9, 8, 7], 2], expected: [9, 8] },
+        { args: [[4, 2, 12, 3], 4], expected: [12] },
+      ],
+    },
+  ],
+};
+
+/**
+ * An offline coding problem that hasn't been asked yet this session, if any remain
+ */
+export const getFallbackCodingQuestion = (difficulty: Difficulty, previousQuestions: string[] = []): CodingQuestion => {
+  const questions = FALLBACK_CODING_QUESTIONS[difficulty];
+  const unused = questions.filter(q => !previousQuestions.includes(q.question));
+  const pool = unused.length > 0 ? unused : questions;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+/**
+ * Next coding problem for the session, from Gemini when reachable
+ */
+export const getCodingQuestion = async (
+  subject: Subject | string,
+  language: CodingLanguage,
+  difficulty: Difficulty,
+  previousQuestions: string[] = []
+): Promise<CodingQuestion> => {
+  const codingQuestion = await generateCodingQuestion(subject, language, difficulty, previousQuestions);
+  return codingQuestion ?? getFallbackCodingQuestion(difficulty, previousQuestions);
+};
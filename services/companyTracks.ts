@@ -0,0 +1,162 @@
+// Interview tracks for the companies on the dashboard: the rounds each one runs, in order,
+// and how its interviewers tend to ask questions
+
+import { Company, CompanyRound, CompanyRoundType, CompanyTrack, Subject } from '../types';
+
+export const ROUND_TYPE_LABELS: Record<CompanyRoundType, string> = {
+  onlineAssessment: 'Online Assessment',
+  aptitude: 'Aptitude Test',
+  technical: 'Technical Interview',
+  systemDesign: 'System Design',
+  managerial: 'Managerial Round',
+  hr: 'HR Round',
+};
+
+// What each kind of round asks about, whichever company runs it
+export const ROUND_FOCUS: Record<CompanyRoundType, string> = {
+  onlineAssessment: 'a timed coding problem with a clear input and output, like an online assessment',
+  aptitude: 'a quantitative aptitude, logical reasoning or verbal ability question with one correct answer, like a campus placement test',
+  technical: 'core computer science and programming: data structures, algorithms, OOP, databases, operating systems and networks',
+  systemDesign: 'designing a real system end to end: requirements, components, data model, scaling and trade-offs',
+  managerial: 'how they have handled ownership, conflict, prioritisation and working with a team, drawn from their past projects',
+  hr: 'motivation, fit with the company, career goals and behavioral questions about past experience',
+};
+
+// Rounds whose answers are scored as another subject, which picks the rubric and STAR analysis.
+// Everything else is scored as the company itself.
+const ROUND_SUBJECTS: Partial<Record<CompanyRoundType, Subject>> = {
+  onlineAssessment: Subject.DSA,
+  managerial: Subject.HR,
+  hr: Subject.HR,
+};
+
+export const AMAZON_LEADERSHIP_PRINCIPLES = [
+  'Customer Obsession',
+  'Ownership',
+  'Invent and Simplify',
+  'Are Right, A Lot',
+  'Learn and Be Curious',
+  'Hire and Develop the Best',
+  'Insist on the Highest Standards',
+  'Think Big',
+  'Bias for Action',
+  'Frugality',
+  'Earn Trust',
+  'Dive Deep',
+  'Have Backbone; Disagree and Commit',
+  'Deliver Results',
+  "Strive to be Earth's Best Employer",
+  'Success and Scale Bring Broad Responsibility',
+];
+
+const round = (type: CompanyRoundType, questionCount: number, name = ROUND_TYPE_LABELS[type]): CompanyRound => ({ type, name, questionCount });
+
+export const COMPANY_TRACKS: Record<Company, CompanyTrack> = {
+  [Company.Google]: {
+    company: Company.Google,
+    rounds: [round('onlineAssessment', 1), round('technical', 2, 'Coding Interview'), round('systemDesign', 1), round('hr', 1, 'Googleyness & Leadership')],
+    questionStyle: "Open-ended algorithm problems where the candidate is expected to clarify the problem, talk through approaches and their complexity, then refine. Behavioral questions look for 'Googleyness': comfort with ambiguity, collaboration and intellectual humility.",
+  },
+  [Company.Microsoft]: {
+    company: Company.Microsoft,
+    rounds: [round('onlineAssessment', 1), round('technical', 2), round('systemDesign', 1), round('managerial', 1, 'As Appropriate')],
+    questionStyle: 'Practical problem solving with an emphasis on working, well-tested code and explaining design choices. Behavioral questions often come back to a growth mindset and learning from failure.',
+  },
+  [Company.Amazon]: {
+    company: Company.Amazon,
+    rounds: [round('onlineAssessment', 1), round('technical', 2), round('systemDesign', 1), round('managerial', 1, 'Bar Raiser')],
+    questionStyle: 'Behavioral questions are built around the Leadership Principles and expect specific stories with data and measurable results. Coding and design questions are practical and often framed around services at Amazon scale.',
+    principles: { name: 'Leadership Principles', items: AMAZON_LEADERSHIP_PRINCIPLES },
+  },
+  [Company.Apple]: {
+    company: Company.Apple,
+    rounds: [round('technical', 2), round('systemDesign', 1), round('managerial', 1, 'Hiring Manager'), round('hr', 1)],
+    questionStyle: "Deep dives into past projects and the details of the candidate's own domain, with attention to quality, user experience and cross-functional work.",
+  },
+  [Company.Meta]: {
+    company: Company.Meta,
+    rounds: [round('technical', 2, 'Coding Interview'), round('systemDesign', 1), round('hr', 1, 'Behavioral')],
+    questionStyle: 'Fast-paced coding, usually two problems in 45 minutes, so a clear, optimal solution matters more than a long discussion. Behavioral questions focus on impact, conflict and moving fast.',
+  },
+  [Company.Netflix]: {
+    company: Company.Netflix,
+    rounds: [round('technical', 2), round('systemDesign', 1), round('hr', 2, 'Culture Fit')],
+    questionStyle: 'Senior-level expectations throughout: pragmatic design for streaming scale and reliability, and culture questions about freedom and responsibility, candour, and context over control.',
+  },
+  [Company.TCS]: {
+    company: Company.TCS,
+    rounds: [round('aptitude', 2, 'TCS NQT'), round('technical', 2), round('managerial', 1), round('hr', 1)],
+    questionStyle: "Campus-placement style: aptitude from the National Qualifier Test, then programming fundamentals, OOP, DBMS and the candidate's final-year project. HR asks about relocation, shifts and willingness to learn new technologies.",
+  },
+  [Company.Infosys]: {
+    company: Company.Infosys,
+    rounds: [round('aptitude', 2, 'Online Test'), round('technical', 2), round('hr', 1)],
+    questionStyle: 'Logical reasoning and puzzle-style aptitude with pseudo-code output questions, then the fundamentals of one programming language, DBMS and SQL. HR checks communication and flexibility.',
+  },
+  [Company.Wipro]: {
+    company: Company.Wipro,
+    rounds: [round('aptitude', 2, 'NLTH Assessment'), round('technical', 2), round('hr', 1)],
+    questionStyle: 'Aptitude, verbal ability and written communication in the National Level Talent Hunt, then programming basics and a walk through their project. HR focuses on communication and adaptability.',
+  },
+  [Company.HCL]: {
+    company: Company.HCL,
+    rounds: [round('aptitude', 1), round('technical', 2), round('hr', 1)],
+    questionStyle: 'Aptitude and basic programming, then C, C++ or Java along with networking and operating system concepts used in infrastructure and support projects.',
+  },
+  [Company.Cognizant]: {
+    company: Company.Cognizant,
+    rounds: [round('aptitude', 2, 'GenC Assessment'), round('technical', 2), round('hr', 1)],
+    questionStyle: 'Aptitude and automata-style coding in the GenC assessment, then OOP, SQL and project questions. HR looks at communication, teamwork and readiness to work on client projects.',
+  },
+  [Company.IBM]: {
+    company: Company.IBM,
+    rounds: [round('onlineAssessment', 1, 'Cognitive & Coding Assessment'), round('technical', 2), round('hr', 1)],
+    questionStyle: "A coding assessment, then technical questions on the candidate's projects and on cloud and data fundamentals. Behavioral questions center on client focus and teamwork.",
+  },
+  [Company.Oracle]: {
+    company: Company.Oracle,
+    rounds: [round('onlineAssessment', 1), round('technical', 2), round('systemDesign', 1), round('managerial', 1, 'Hiring Manager')],
+    questionStyle: 'Strong emphasis on databases, SQL and Java; design questions tend to revolve around data-heavy enterprise systems.',
+  },
+  [Company.Accenture]: {
+    company: Company.Accenture,
+    rounds: [round('aptitude', 2, 'Cognitive & Technical Assessment'), round('technical', 1), round('hr', 1)],
+    questionStyle: 'Cognitive and technical assessment covering pseudo-code, networking and cloud basics, then a combined technical and HR interview about projects, teamwork and client scenarios.',
+  },
+};
+
+export const getCompanyTrack = (company: Company): CompanyTrack => {
+  return COMPANY_TRACKS[company];
+};
+
+export const getTrackQuestionCount = (track: CompanyTrack): number => {
+  return track.rounds.reduce((sum, r) => sum + r.questionCount, 0);
+};
+
+/**
+ * How many main questions have been asked by the end of a round
+ */
+export const getRoundEnd = (track: CompanyTrack, roundIndex: number): number => {
+  return track.rounds.slice(0, roundIndex + 1).reduce((sum, r) => sum + r.questionCount, 0);
+};
+
+/**
+ * The subject a round's answers are scored as: HR for behavioral rounds, DSA for online
+ * assessments, otherwise the company
+ */
+export const getRoundSubject = (company: Company, companyRound: CompanyRound): Subject | string => {
+  return ROUND_SUBJECTS[companyRound.type] ?? company;
+};
+
+/**
+ * Context for the question generation prompt: which round this is, what it asks about and how
+ * the company asks it. Behavioral rounds are tied to the company's principles when it has any.
+ */
+export const describeCompanyRound = (company: Company, companyRound: CompanyRound): string => {
+  const track = getCompanyTrack(company);
+  const isBehavioral = companyRound.type === 'managerial' || companyRound.type === 'hr';
+  const principles = track.principles && isBehavioral
+    ? ` Base the question on one of ${company}'s ${track.principles.name}: ${track.principles.items.join(', ')}.`
+    : '';
+  return `This is the ${companyRound.name} round of a ${company} interview, so ask about ${ROUND_FOCUS[companyRound.type]}. How ${company} interviews: ${track.questionStyle}${principles} `;
+};
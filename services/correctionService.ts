@@ -0,0 +1,96 @@
+// Grammar, vocabulary and pronunciation corrections for English Speaking Practice answers
+
+import { CorrectionType, LanguageCorrection } from '../types';
+
+// Rule names the evaluator is asked to use, so the same mistake is grouped across answers
+export const CORRECTION_RULES = [
+  'Verb tense',
+  'Subject-verb agreement',
+  'Articles',
+  'Prepositions',
+  'Plurals',
+  'Pronouns',
+  'Word order',
+  'Word choice',
+  'Sentence structure',
+  'Mispronounced word',
+];
+
+export const CORRECTION_TYPE_LABELS: Record<CorrectionType, string> = {
+  grammar: 'Grammar',
+  vocabulary: 'Vocabulary',
+  pronunciation: 'Pronunciation',
+};
+
+const CORRECTION_TYPES = Object.keys(CORRECTION_TYPE_LABELS) as CorrectionType[];
+const MAX_CORRECTIONS = 10;
+
+export interface TrackedChangePart {
+  text: string;
+  // Set on the spans of the answer a correction applies to
+  correction?: LanguageCorrection;
+}
+
+/**
+ * Keep the model's corrections that point at words really in the answer and change something.
+ * Returns undefined when there are none.
+ */
+export const normalizeCorrections = (value: unknown, answer: string): LanguageCorrection[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  const lowerAnswer = answer.toLowerCase();
+  const corrections = value
+    .filter((c: any) =>
+      c &&
+      typeof c.original === 'string' && c.original.trim() &&
+      typeof c.corrected === 'string' &&
+      typeof c.rule === 'string' && c.rule.trim() &&
+      typeof c.explanation === 'string' &&
+      CORRECTION_TYPES.includes(c.type) &&
+      c.original.trim() !== c.corrected.trim() &&
+      lowerAnswer.includes(c.original.trim().toLowerCase())
+    )
+    .slice(0, MAX_CORRECTIONS)
+    .map((c: any): LanguageCorrection => ({
+      original: c.original.trim(),
+      corrected: c.corrected.trim(),
+      type: c.type,
+      rule: c.rule.trim(),
+      explanation: c.explanation,
+    }));
+  return corrections.length > 0 ? corrections : undefined;
+};
+
+/**
+ * Split an answer into unchanged text and corrected spans, in reading order, for a
+ * tracked-changes view. A correction overlapping an earlier one is left out of the view.
+ */
+export const buildTrackedChanges = (answer: string, corrections: LanguageCorrection[]): TrackedChangePart[] => {
+  const lowerAnswer = answer.toLowerCase();
+  const spans = corrections
+    .map(correction => {
+      const start = lowerAnswer.indexOf(correction.original.toLowerCase());
+      return { correction, start, end: start + correction.original.length };
+    })
+    .filter(span => span.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const parts: TrackedChangePart[] = [];
+  let cursor = 0;
+  spans.forEach(span => {
+    if (span.start < cursor) return;
+    if (span.start > cursor) parts.push({ text: answer.slice(cursor, span.start) });
+    parts.push({ text: answer.slice(span.start, span.end), correction: span.correction });
+    cursor = span.end;
+  });
+  if (cursor < answer.length) parts.push({ text: answer.slice(cursor) });
+  return parts;
+};
+
+/**
+ * Key rule names case- and punctuation-insensitively, so "Subject-verb agreement" and
+ * "subject verb agreement" count as the same mistake
+ */
+export const getRuleKey = (rule: string): string => {
+  return rule.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+};
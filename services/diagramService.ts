@@ -0,0 +1,135 @@
+// System design diagrams: the components and connections drawn on the canvas, and the text
+// version of them that is sent to the evaluator
+
+import { ComponentFeedback, DesignConcern, DiagramNode, DiagramNodeKind, SystemDiagram } from '../types';
+
+export const DIAGRAM_NODE_KINDS: Record<DiagramNodeKind, { label: string; icon: string }> = {
+  client: { label: 'Client', icon: '💻' },
+  loadBalancer: { label: 'Load Balancer', icon: '⚖️' },
+  service: { label: 'Service', icon: '⚙️' },
+  database: { label: 'Database', icon: '🗄️' },
+  cache: { label: 'Cache', icon: '⚡' },
+  queue: { label: 'Queue', icon: '📬' },
+  storage: { label: 'Object Storage', icon: '🪣' },
+  external: { label: 'External API', icon: '🌐' },
+};
+
+export const DESIGN_CONCERN_LABELS: Record<DesignConcern, string> = {
+  scalability: 'Scalability',
+  bottleneck: 'Bottleneck',
+  dataStore: 'Data store',
+  reliability: 'Reliability',
+};
+
+// Canvas size in SVG units; nodes are kept inside it
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 450;
+
+// Limits the backend also enforces, so a diagram never makes the prompt unreasonably long
+export const MAX_DIAGRAM_NODES = 30;
+export const MAX_DIAGRAM_EDGES = 60;
+export const MAX_DIAGRAM_LABEL_LENGTH = 40;
+
+const DESIGN_CONCERNS = Object.keys(DESIGN_CONCERN_LABELS) as DesignConcern[];
+const MAX_COMPONENT_FEEDBACK = 8;
+
+// Question generation context for System Design sessions
+export const DESIGN_QUESTION_CONTEXT = 'Ask them to design one real system, like a URL shortener, a chat service or a news feed, scoped to their level. They will sketch its architecture on a diagram and talk you through it, so name the system and its key requirements but leave the design to them.';
+
+export const EMPTY_DIAGRAM: SystemDiagram = { nodes: [], edges: [] };
+
+export const isDiagramEmpty = (diagram: SystemDiagram): boolean => {
+  return diagram.nodes.length === 0;
+};
+
+const nextId = (prefix: string, ids: string[]): string => {
+  let n = ids.length + 1;
+  while (ids.includes(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+};
+
+// The kind's name, numbered from the second box of a kind on, e.g. 'Service 2'
+const defaultLabel = (diagram: SystemDiagram, kind: DiagramNodeKind): string => {
+  const base = DIAGRAM_NODE_KINDS[kind].label;
+  const labels = diagram.nodes.map(n => n.label.toLowerCase());
+  if (!labels.includes(base.toLowerCase())) return base;
+  let n = 2;
+  while (labels.includes(`${base} ${n}`.toLowerCase())) n++;
+  return `${base} ${n}`;
+};
+
+/**
+ * Add a box of the given kind, cascading new boxes down from the top left so they don't stack
+ */
+export const addNode = (diagram: SystemDiagram, kind: DiagramNodeKind): SystemDiagram => {
+  if (diagram.nodes.length >= MAX_DIAGRAM_NODES) return diagram;
+  const offset = (diagram.nodes.length % 8) * 40;
+  const node: DiagramNode = {
+    id: nextId('n', diagram.nodes.map(n => n.id)),
+    kind,
+    label: defaultLabel(diagram, kind),
+    x: 120 + offset,
+    y: 70 + offset,
+  };
+  return { ...diagram, nodes: [...diagram.nodes, node] };
+};
+
+/**
+ * Connect two boxes. Connecting a box to itself, or repeating an existing arrow, does nothing.
+ */
+export const addEdge = (diagram: SystemDiagram, from: string, to: string): SystemDiagram => {
+  const exists = diagram.edges.some(e => e.from === from && e.to === to);
+  if (from === to || exists || diagram.edges.length >= MAX_DIAGRAM_EDGES) return diagram;
+  const edge = { id: nextId('e', diagram.edges.map(e => e.id)), from, to, label: '' };
+  return { ...diagram, edges: [...diagram.edges, edge] };
+};
+
+/**
+ * Remove a box or an arrow by id; removing a box also removes its arrows
+ */
+export const removeElement = (diagram: SystemDiagram, id: string): SystemDiagram => ({
+  nodes: diagram.nodes.filter(n => n.id !== id),
+  edges: diagram.edges.filter(e => e.id !== id && e.from !== id && e.to !== id),
+});
+
+/**
+ * The diagram as text for the evaluation prompt: each component with its id and kind, then each
+ * connection. Boxes are named by id as well as label, since two boxes can share a label.
+ */
+export const describeDiagram = (diagram: SystemDiagram): string => {
+  const names = new Map(diagram.nodes.map(n => [n.id, `[${n.id}] ${n.label}`]));
+  const components = diagram.nodes.map(n => `- ${names.get(n.id)} (${DIAGRAM_NODE_KINDS[n.kind].label})`);
+  const connections = diagram.edges
+    .filter(e => names.has(e.from) && names.has(e.to))
+    .map(e => `- ${names.get(e.from)} → ${names.get(e.to)}${e.label ? `: ${e.label}` : ''}`);
+  return `Components:\n${components.join('\n')}\nConnections:\n${connections.length > 0 ? connections.join('\n') : '- none'}`;
+};
+
+/**
+ * The box a feedback entry refers to: by id, or by label when only one box has that label
+ */
+const findFeedbackNode = (diagram: SystemDiagram, component: string): DiagramNode | undefined => {
+  const name = component.trim().replace(/^\[|\]$/g, '').toLowerCase();
+  const byId = diagram.nodes.find(n => n.id.toLowerCase() === name);
+  if (byId) return byId;
+  const byLabel = diagram.nodes.filter(n => n.label.toLowerCase() === name);
+  return byLabel.length === 1 ? byLabel[0] : undefined;
+};
+
+/**
+ * Keep the model's component feedback that names a box really on the diagram, with that box's
+ * id and its own spelling of the label. Returns undefined when there is none.
+ */
+export const normalizeComponentFeedback = (value: unknown, diagram: SystemDiagram): ComponentFeedback[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  const feedback = value
+    .map((f: any): ComponentFeedback | null => {
+      const node = typeof f?.component === 'string' ? findFeedbackNode(diagram, f.component) : undefined;
+      if (!node || !DESIGN_CONCERNS.includes(f.concern) || typeof f.comment !== 'string' || !f.comment.trim()) return null;
+      return { component: node.label, nodeId: node.id, concern: f.concern, comment: f.comment.trim() };
+    })
+    .filter((f): f is ComponentFeedback => f !== null)
+    .slice(0, MAX_COMPONENT_FEEDBACK);
+  return feedback.length > 0 ? feedback : undefined;
+};
@@ -0,0 +1,48 @@
+// Difficulty ordering and the adaptive rule that moves a session up or down a level
+
+import { Difficulty } from '../types';
+
+export const DIFFICULTY_ORDER: Difficulty[] = ['Beginner', 'Intermediate', 'Advanced'];
+
+export const STRONG_SCORE = 8;
+export const WEAK_SCORE = 5;
+// Consecutive strong (or weak) answers at the current level needed before adaptive mode changes it
+const ADAPTIVE_STREAK = 2;
+
+/**
+ * The level above or below, clamped to the ends of DIFFICULTY_ORDER
+ */
+export const stepDifficulty = (difficulty: Difficulty, direction: 1 | -1): Difficulty => {
+  const index = DIFFICULTY_ORDER.indexOf(difficulty) + direction;
+  return DIFFICULTY_ORDER[Math.min(Math.max(index, 0), DIFFICULTY_ORDER.length - 1)];
+};
+
+/**
+ * Difficulty for the next question in adaptive mode. `scoresAtLevel` are the scores
+ * earned since the session last changed level, oldest first.
+ */
+export const getAdaptiveDifficulty = (current: Difficulty, scoresAtLevel: number[]): Difficulty => {
+  const recent = scoresAtLevel.slice(-ADAPTIVE_STREAK);
+  if (recent.length < ADAPTIVE_STREAK) return current;
+  if (recent.every(score => score >= STRONG_SCORE)) return stepDifficulty(current, 1);
+  if (recent.every(score => score < WEAK_SCORE)) return stepDifficulty(current, -1);
+  return current;
+};
+
+/**
+ * Levels the main questions were asked at, with repeats collapsed,
+ * e.g. "Intermediate ×2 → Advanced ×3 → Intermediate"
+ */
+export const describeDifficultyPath = (entries: Array<{ difficulty?: Difficulty; followUpTo?: string }>): string => {
+  const runs: Array<{ difficulty: Difficulty; count: number }> = [];
+  entries.forEach(entry => {
+    if (!entry.difficulty || entry.followUpTo) return;
+    const last = runs[runs.length - 1];
+    if (last && last.difficulty === entry.difficulty) {
+      last.count++;
+    } else {
+      runs.push({ difficulty: entry.difficulty, count: 1 });
+    }
+  });
+  return runs.map(run => (run.count > 1 ? `${run.difficulty} ×${run.count}` : run.difficulty)).join(' → ');
+};
@@ -0,0 +1,359 @@
+// Renders a saved session to Markdown, JSON or a printable PDF so it can be shared with a mentor.
+// Everything happens in the browser; nothing is sent to the backend.
+
+import { Feedback, CodeTestRun, RubricDimension, FluencyMetrics, RoundSummary } from '../types';
+import { createFeedbackBundle, SessionFeedback, FeedbackEntry, SESSION_EXPORT_FORMAT, FEEDBACK_BUNDLE_VERSION } from './feedbackService';
+import { formatDuration } from './sessionPresets';
+import { describeDifficultyPath } from './difficultyService';
+import { RUBRIC_DIMENSION_LABELS } from './rubrics';
+import { STAR_LABELS } from './starService';
+import { DESIGN_CONCERN_LABELS, describeDiagram } from './diagramService';
+import { MAINS_PAPERS, getMainsCriterionLabel } from './mainsAnswers';
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+export interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: SessionFeedback;
+}
+
+const formatTimestamp = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} at ${date.toLocaleTimeString()}`;
+};
+
+const getSessionTitle = (session: SessionFeedback): string => {
+  if (session.adaptive) return `${session.subject} - Adaptive`;
+  return `${session.subject}${session.difficulty ? ` - ${session.difficulty}` : ''}`;
+};
+
+/**
+ * File name without extension, e.g. "makePrepWithMe-JavaScript-2024-05-01"
+ */
+const getExportFileName = (session: SessionFeedback): string => {
+  const subject = String(session.subject).replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '');
+  return `makePrepWithMe-${subject}-${session.timestamp.slice(0, 10)}`;
+};
+
+const formatTimeTaken = (entry: FeedbackEntry): string | null => {
+  if (entry.timeTakenSeconds === undefined) return null;
+  return `${formatDuration(entry.timeTakenSeconds)}${entry.timedOut ? ' (time ran out)' : ''}`;
+};
+
+const formatCodeScores = (feedback: Feedback): string | null => {
+  if (!feedback.codeScores) return null;
+  const { correctness, complexity, style } = feedback.codeScores;
+  return `correctness ${correctness}/10 · complexity ${complexity}/10 · style ${style}/10`;
+};
+
+const formatRubricScores = (feedback: Feedback): string | null => {
+  if (!feedback.rubricScores) return null;
+  return (Object.keys(RUBRIC_DIMENSION_LABELS) as RubricDimension[])
+    .filter(dimension => feedback.rubricScores![dimension] !== undefined)
+    .map(dimension => `${RUBRIC_DIMENSION_LABELS[dimension].toLowerCase()} ${feedback.rubricScores![dimension]}/10`)
+    .join(' · ');
+};
+
+const formatStarAnalysis = (feedback: Feedback): string | null => {
+  if (!feedback.starAnalysis) return null;
+  const { elements, completeness } = feedback.starAnalysis;
+  return `${completeness}% complete (${elements.map(e => `${STAR_LABELS[e.component].toLowerCase()} ${e.strength}`).join(' · ')})`;
+};
+
+const formatCorrections = (feedback: Feedback): string | null => {
+  if (!feedback.corrections) return null;
+  return feedback.corrections.map(c => `"${c.original}" → "${c.corrected}" (${c.rule})`).join(' · ');
+};
+
+const formatComponentFeedback = (feedback: Feedback): string | null => {
+  if (!feedback.componentFeedback) return null;
+  return feedback.componentFeedback.map(f => `${f.component} (${DESIGN_CONCERN_LABELS[f.concern].toLowerCase()}): ${f.comment}`).join(' · ');
+};
+
+const formatMainsEvaluation = (feedback: Feedback): string | null => {
+  if (!feedback.mainsEvaluation) return null;
+  const { paper, marks, maxMarks, wordCount, wordLimit, criteria } = feedback.mainsEvaluation;
+  return `${MAINS_PAPERS[paper].name} · ${marks}/${maxMarks} marks · ${wordCount}/${wordLimit} words (${criteria.map(c => `${getMainsCriterionLabel(c.criterion)} ${c.score}`).join(' · ')})`;
+};
+
+const formatFluency = (fluency: FluencyMetrics): string => {
+  return `${fluency.wordsPerMinute} wpm · ${fluency.fillerCount} filler word(s) · ${fluency.longPauses} long pause(s) · ${Math.round(fluency.vocabularyDiversity * 100)}% distinct words`;
+};
+
+const formatRoundSummary = (summary: RoundSummary): string => {
+  return summary.answered > 0
+    ? `${summary.round}: ${summary.averageScore.toFixed(1)}/10 over ${summary.answered} answer(s)`
+    : `${summary.round}: not scored`;
+};
+
+const formatTestRun = (testRun: CodeTestRun): string => {
+  return `${testRun.passed}/${testRun.total} passed${testRun.error ? ` (${testRun.error})` : ''}`;
+};
+
+// Markdown blockquotes need every line prefixed, otherwise multi-line answers break out of the quote
+const quote = (text: string): string => {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Markdown transcript with each question, the answer given and the feedback on it
+ */
+export const sessionToMarkdown = (session: SessionFeedback): string => {
+  const lines: string[] = [
+    `# ${getSessionTitle(session)}`,
+    '',
+    `- **Date:** ${formatTimestamp(session.timestamp)}`,
+    `- **Questions answered:** ${session.feedbacks.length}`,
+    `- **Average score:** ${session.averageScore.toFixed(1)}/10`,
+  ];
+  if (session.adaptive) {
+    lines.push(`- **Difficulty path:** ${describeDifficultyPath(session.feedbacks)}`);
+  }
+  lines.push('');
+
+  if (session.report) {
+    const { report } = session;
+    lines.push('## Summary', '', report.summary, '');
+    lines.push(`**Recommended next difficulty:** ${report.recommendedDifficulty}`, '');
+    if (report.rounds) {
+      lines.push('### Rounds', '', ...report.rounds.map(r => `- ${formatRoundSummary(r)}`), '');
+    }
+    if (report.strengths.length > 0) {
+      lines.push('### Strengths', '', ...report.strengths.map(s => `- ${s}`), '');
+    }
+    if (report.weaknesses.length > 0) {
+      lines.push('### Areas to Improve', '', ...report.weaknesses.map(w => `- ${w}`), '');
+    }
+  }
+
+  lines.push('## Transcript', '');
+  session.feedbacks.forEach((entry, index) => {
+    const { feedback } = entry;
+    lines.push(`### ${index + 1}. ${entry.followUpTo ? '↳ Follow-up: ' : ''}${entry.question}`, '');
+    if (entry.codeLanguage) {
+      lines.push('**Answer**', '', `\`\`\`${entry.codeLanguage}`, entry.answer, '\`\`\`', '');
+    } else {
+      lines.push('**Answer**', '', quote(entry.answer || '(no answer)'), '');
+    }
+    if (entry.diagram) {
+      lines.push('**Diagram**', '', '```', describeDiagram(entry.diagram), '```', '');
+    }
+    lines.push(`**Score:** ${feedback.error ? 'not scored' : `${feedback.score}/10`}`, '');
+    if (session.adaptive && entry.difficulty) {
+      lines.push(`**Difficulty:** ${entry.difficulty}`, '');
+    }
+    if (entry.round) {
+      lines.push(`**Round:** ${entry.round}`, '');
+    }
+    const codeScores = formatCodeScores(feedback);
+    if (codeScores) {
+      lines.push(`**Code rubric:** ${codeScores}`, '');
+    }
+    const rubricScores = formatRubricScores(feedback);
+    if (rubricScores) {
+      lines.push(`**Rubric:** ${rubricScores}`, '');
+    }
+    const starAnalysis = formatStarAnalysis(feedback);
+    if (starAnalysis) {
+      lines.push(`**STAR:** ${starAnalysis}`, '');
+    }
+    const corrections = formatCorrections(feedback);
+    if (corrections) {
+      lines.push(`**Corrections:** ${corrections}`, '');
+    }
+    const componentFeedback = formatComponentFeedback(feedback);
+    if (componentFeedback) {
+      lines.push(`**Design review:** ${componentFeedback}`, '');
+    }
+    const mainsEvaluation = formatMainsEvaluation(feedback);
+    if (mainsEvaluation) {
+      lines.push(`**Mains rubric:** ${mainsEvaluation}`, '');
+    }
+    if (entry.testRun) {
+      lines.push(`**Tests:** ${formatTestRun(entry.testRun)}`, '');
+    }
+    if (entry.fluency) {
+      lines.push(`**Fluency:** ${formatFluency(entry.fluency)}`, '');
+    }
+    const timeTaken = formatTimeTaken(entry);
+    if (timeTaken) {
+      lines.push(`**Time taken:** ${timeTaken}`, '');
+    }
+    lines.push('**Feedback**', '', feedback.feedback, '');
+    if (feedback.nonVerbalFeedback) {
+      lines.push('**Non-verbal feedback**', '', feedback.nonVerbalFeedback, '');
+    }
+    if (feedback.suggestedAnswer) {
+      lines.push('**Suggested answer**', '', feedback.suggestedAnswer, '');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Machine-readable export wrapping the stored session record
+ */
+export const sessionToJson = (session: SessionFeedback): string => {
+  const payload: SessionExport = {
+    format: SESSION_EXPORT_FORMAT,
+    version: FEEDBACK_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+/**
+ * Standalone HTML page laid out for printing
+ */
+export const sessionToPrintableHtml = (session: SessionFeedback): string => {
+  const title = escapeHtml(getSessionTitle(session));
+
+  const reportSection = session.report
+    ? `
+      <h2>Summary</h2>
+      <p>${escapeHtml(session.report.summary)}</p>
+      <p><strong>Recommended next difficulty:</strong> ${escapeHtml(session.report.recommendedDifficulty)}</p>
+      ${session.report.rounds ? `<h3>Rounds</h3><ul>${session.report.rounds.map(r => `<li>${escapeHtml(formatRoundSummary(r))}</li>`).join('')}</ul>` : ''}
+      ${session.report.strengths.length > 0 ? `<h3>Strengths</h3><ul>${session.report.strengths.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul>` : ''}
+      ${session.report.weaknesses.length > 0 ? `<h3>Areas to Improve</h3><ul>${session.report.weaknesses.map(w => `<li>${escapeHtml(w)}</li>`).join('')}</ul>` : ''}`
+    : '';
+
+  const turns = session.feedbacks.map((entry, index) => {
+    const { feedback } = entry;
+    const timeTaken = formatTimeTaken(entry);
+    return `
+      <section class="turn${entry.followUpTo ? ' follow-up' : ''}">
+        <h3>${index + 1}. ${entry.followUpTo ? '↳ Follow-up: ' : ''}${escapeHtml(entry.question)}</h3>
+        <p class="score">Score: ${feedback.error ? 'not scored' : `${feedback.score}/10`}${timeTaken ? ` · Time taken: ${escapeHtml(timeTaken)}` : ''}${session.adaptive && entry.difficulty ? ` · ${escapeHtml(entry.difficulty)}` : ''}${entry.round ? ` · ${escapeHtml(entry.round)}` : ''}</p>
+        ${formatCodeScores(feedback) ? `<p>Code rubric: ${escapeHtml(formatCodeScores(feedback)!)}</p>` : ''}
+        ${formatRubricScores(feedback) ? `<p>Rubric: ${escapeHtml(formatRubricScores(feedback)!)}</p>` : ''}
+        ${formatStarAnalysis(feedback) ? `<p>STAR: ${escapeHtml(formatStarAnalysis(feedback)!)}</p>` : ''}
+        ${formatCorrections(feedback) ? `<p>Corrections: ${escapeHtml(formatCorrections(feedback)!)}</p>` : ''}
+        ${formatComponentFeedback(feedback) ? `<p>Design review: ${escapeHtml(formatComponentFeedback(feedback)!)}</p>` : ''}
+        ${formatMainsEvaluation(feedback) ? `<p>Mains rubric: ${escapeHtml(formatMainsEvaluation(feedback)!)}</p>` : ''}
+        ${entry.testRun ? `<p>Tests: ${escapeHtml(formatTestRun(entry.testRun))}</p>` : ''}
+        ${entry.fluency ? `<p>Fluency: ${escapeHtml(formatFluency(entry.fluency))}</p>` : ''}
+        <h4>Answer</h4>
+        ${entry.codeLanguage ? `<pre>${escapeHtml(entry.answer)}</pre>` : `<blockquote>${escapeHtml(entry.answer || '(no answer)')}</blockquote>`}
+        ${entry.diagram ? `<h4>Diagram</h4><pre>${escapeHtml(describeDiagram(entry.diagram))}</pre>` : ''}
+        <h4>Feedback</h4>
+        <p>${escapeHtml(feedback.feedback)}</p>
+        ${feedback.nonVerbalFeedback ? `<h4>Non-verbal feedback</h4><p>${escapeHtml(feedback.nonVerbalFeedback)}</p>` : ''}
+        ${feedback.suggestedAnswer ? `<h4>Suggested answer</h4><p>${escapeHtml(feedback.suggestedAnswer)}</p>` : ''}
+      </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; max-width: 760px; margin: 32px auto; padding: 0 16px; line-height: 1.5; }
+    h1 { margin-bottom: 4px; }
+    .meta { color: #555; font-size: 14px; }
+    .turn { border-top: 1px solid #ddd; padding-top: 12px; margin-top: 16px; page-break-inside: avoid; }
+    .follow-up { margin-left: 24px; }
+    .score { font-weight: bold; }
+    pre { margin: 0; padding: 8px 12px; background: #f4f4f5; font-size: 13px; overflow-x: auto; }
+    blockquote { margin: 0; padding: 8px 12px; background: #f4f4f5; border-left: 3px solid #888; white-space: pre-wrap; }
+    h4 { margin: 12px 0 4px; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p class="meta">${escapeHtml(formatTimestamp(session.timestamp))} · ${session.feedbacks.length} question(s) · average score ${session.averageScore.toFixed(1)}/10${session.adaptive ? ` · ${escapeHtml(describeDifficultyPath(session.feedbacks))}` : ''}</p>
+  ${reportSection}
+  <h2>Transcript</h2>
+  ${turns}
+</body>
+</html>`;
+};
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Print the session from a hidden frame so the browser's "Save as PDF" produces the file
+ */
+const printSession = (session: SessionFeedback): void => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    return;
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(sessionToPrintableHtml(session));
+  frameWindow.document.close();
+  frameWindow.document.title = getExportFileName(session);
+
+  frameWindow.onafterprint = () => frame.remove();
+  frameWindow.focus();
+  frameWindow.print();
+};
+
+/**
+ * Download every session as one JSON bundle that can be imported again later
+ */
+export const exportAllSessions = (sessions: SessionFeedback[]): void => {
+  try {
+    const json = JSON.stringify(createFeedbackBundle(sessions), null, 2);
+    downloadFile(json, `makePrepWithMe-history-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+  } catch (error) {
+    console.error('Failed to export history:', error);
+  }
+};
+
+/**
+ * Export a session in the given format
+ */
+export const exportSession = (session: SessionFeedback, format: ExportFormat): void => {
+  try {
+    const fileName = getExportFileName(session);
+    switch (format) {
+      case 'markdown':
+        downloadFile(sessionToMarkdown(session), `${fileName}.md`, 'text/markdown');
+        break;
+      case 'json':
+        downloadFile(sessionToJson(session), `${fileName}.json`, 'application/json');
+        break;
+      case 'pdf':
+        printSession(session);
+        break;
+    }
+  } catch (error) {
+    console.error('Failed to export session:', error);
+  }
+};
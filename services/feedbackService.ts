@@ -1,18 +1,73 @@
 // Service to store and retrieve feedback for each user and session
 
-import { Subject, Difficulty, Feedback } from '../types';
+import { Subject, Difficulty, Feedback, SessionReport, RoundSummary, CodingLanguage, CodeScores, CodeTestRun, TestCaseResult, RubricDimension, RubricScores, StarAnalysis, StarElement, FluencyMetrics, CorrectionType, LanguageCorrection, SystemDiagram, DiagramNode, DiagramNodeKind, DiagramEdge, ComponentFeedback, DesignConcern, MainsCriterion, MainsCriterionScore, MainsEvaluation, MainsPaper } from '../types';
+import { queueSessionForSync } from './syncQueue';
+import { rebuildProfileFromSessions } from './profileService';
+import { CORRECTION_TYPE_LABELS, getRuleKey } from './correctionService';
+import { MAINS_CRITERIA, MAINS_PAPER_ORDER, WORD_LIMITS } from './mainsAnswers';
+import { DIFFICULTY_ORDER } from './difficultyService';
+import { CODING_LANGUAGES } from './codingLanguages';
+import { RUBRIC_DIMENSION_LABELS } from './rubrics';
+import { STAR_COMPONENTS, STAR_STRENGTHS } from './starService';
+import { DESIGN_CONCERN_LABELS, DIAGRAM_NODE_KINDS } from './diagramService';
+
+export interface FeedbackEntry {
+  question: string;
+  answer: string;
+  feedback: Feedback;
+  // For interviewer follow-ups, the main question this one drilled down on
+  followUpTo?: string;
+  // Seconds from the question being asked to the answer being submitted
+  timeTakenSeconds?: number;
+  // Set when the answer was submitted automatically because the time limit ran out
+  timedOut?: boolean;
+  // Level the question was asked at; differs from the session's in adaptive sessions
+  difficulty?: Difficulty;
+  // Set when the answer is code written in the editor
+  codeLanguage?: CodingLanguage;
+  // Results of running that code against the question's test cases
+  testRun?: CodeTestRun;
+  // Speaking metrics, for answers given by voice in English Speaking Practice
+  fluency?: FluencyMetrics;
+  // Company interviews: the round the question was asked in
+  round?: string;
+  // System design answers: the diagram drawn alongside the explanation
+  diagram?: SystemDiagram;
+}
 
 export interface SessionFeedback {
   sessionId: string;
-  subject: Subject;
-  difficulty: Difficulty;
+  subject: Subject | string;
+  difficulty: Difficulty | null;
   timestamp: string;
-  feedbacks: Array<{
-    question: string;
-    answer: string;
-    feedback: Feedback;
-  }>;
+  feedbacks: FeedbackEntry[];
   averageScore: number;
+  report?: SessionReport;
+  // Difficulty moved with the scores; `difficulty` is then the level the session started at
+  adaptive?: boolean;
+}
+
+// Keep only the most recent sessions per user to avoid localStorage bloat; the backend keeps the full history
+const MAX_LOCAL_SESSIONS = 100;
+
+// Portable exports of saved sessions, used to move history between machines or restore it.
+// A bundle holds a user's whole history; the per-session JSON export from exportService holds one.
+export const FEEDBACK_BUNDLE_FORMAT = 'makePrepWithMe-sessions';
+export const SESSION_EXPORT_FORMAT = 'makePrepWithMe-session';
+export const FEEDBACK_BUNDLE_VERSION = 1;
+
+export interface FeedbackBundle {
+  format: typeof FEEDBACK_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: SessionFeedback[];
+}
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  imported: number;
+  duplicates: number;
 }
 
 /**
@@ -36,15 +91,23 @@ export const getUserFeedbacks = (userId: string): SessionFeedback[] => {
   }
 };
 
+/**
+ * Get a single saved session
+ */
+export const getSessionFeedback = (userId: string, sessionId: string): SessionFeedback | null => {
+  return getUserFeedbacks(userId).find(f => f.sessionId === sessionId) ?? null;
+};
+
 /**
  * Save feedbacks for a session
  */
 export const saveFeedback = (
   userId: string,
-  subject: Subject,
-  difficulty: Difficulty,
-  feedbacks: Array<{ question: string; answer: string; feedback: Feedback }>
-): { success: boolean; message: string } => {
+  subject: Subject | string,
+  difficulty: Difficulty | null,
+  feedbacks: FeedbackEntry[],
+  adaptive = false
+): { success: boolean; message: string; sessionId?: string } => {
   try {
     if (!userId) {
       return { success: false, message: 'User not logged in' };
@@ -52,8 +115,10 @@ export const saveFeedback = (
 
     const allFeedbacks = getUserFeedbacks(userId);
     
-    const averageScore = feedbacks.length > 0
-      ? feedbacks.reduce((sum, f) => sum + f.feedback.score, 0) / feedbacks.length
+    // Turns where evaluation failed are kept for review but don't count towards the score
+    const scored = feedbacks.filter(f => !f.feedback.error);
+    const averageScore = scored.length > 0
+      ? scored.reduce((sum, f) => sum + f.feedback.score, 0) / scored.length
       : 0;
 
     const sessionFeedback: SessionFeedback = {
@@ -63,25 +128,39 @@ export const saveFeedback = (
       timestamp: new Date().toISOString(),
       feedbacks,
       averageScore,
+      adaptive: adaptive || undefined,
     };
 
     allFeedbacks.push(sessionFeedback);
 
-    // Keep only last 100 sessions per user to avoid localStorage bloat
-    if (allFeedbacks.length > 100) {
-      allFeedbacks.splice(0, allFeedbacks.length - 100);
+    if (allFeedbacks.length > MAX_LOCAL_SESSIONS) {
+      allFeedbacks.splice(0, allFeedbacks.length - MAX_LOCAL_SESSIONS);
     }
 
     const key = getFeedbackKey(userId);
     localStorage.setItem(key, JSON.stringify(allFeedbacks));
+    queueSessionForSync(userId, sessionFeedback);
 
-    return { success: true, message: 'Feedback saved successfully' };
+    return { success: true, message: 'Feedback saved successfully', sessionId: sessionFeedback.sessionId };
   } catch (error) {
     console.error('Failed to save feedback:', error);
     return { success: false, message: 'Failed to save feedback' };
   }
 };
 
+/**
+ * Replace a user's stored history, e.g. with the merged history from the backend.
+ * Sessions are ordered oldest first and capped like saveFeedback.
+ */
+export const replaceUserFeedbacks = (userId: string, sessions: SessionFeedback[]): void => {
+  try {
+    const sorted = [...sessions].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    localStorage.setItem(getFeedbackKey(userId), JSON.stringify(sorted.slice(-MAX_LOCAL_SESSIONS)));
+  } catch (error) {
+    console.error('Failed to replace user feedbacks:', error);
+  }
+};
+
 /**
  * Add single feedback to the current session
  */
@@ -90,21 +169,22 @@ export const addFeedback = (
   question: string,
   answer: string,
   feedback: Feedback,
-  subject: Subject,
-  difficulty: Difficulty
+  subject: Subject | string,
+  difficulty: Difficulty,
+  details: Omit<FeedbackEntry, 'question' | 'answer' | 'feedback'> = {}
 ): void => {
   try {
     if (!userId) return;
 
     const tempKey = `makePrepWithMe_temp_session_${userId}`;
-    let currentSession = [] as Array<{ question: string; answer: string; feedback: Feedback }>;
+    let currentSession = [] as FeedbackEntry[];
 
     const data = localStorage.getItem(tempKey);
     if (data) {
       currentSession = JSON.parse(data);
     }
 
-    currentSession.push({ question, answer, feedback });
+    currentSession.push({ question, answer, feedback, difficulty, ...details });
     localStorage.setItem(tempKey, JSON.stringify(currentSession));
   } catch (error) {
     console.error('Failed to add feedback:', error);
@@ -116,9 +196,10 @@ export const addFeedback = (
  */
 export const endSessionAndSaveFeedbacks = (
   userId: string,
-  subject: Subject,
-  difficulty: Difficulty
-): { success: boolean; message: string } => {
+  subject: Subject | string,
+  difficulty: Difficulty,
+  adaptive = false
+): { success: boolean; message: string; sessionId?: string } => {
   try {
     if (!userId) {
       return { success: false, message: 'User not logged in' };
@@ -131,16 +212,327 @@ export const endSessionAndSaveFeedbacks = (
       return { success: true, message: 'No feedbacks to save' };
     }
 
-    const feedbacks = JSON.parse(data) as Array<{ question: string; answer: string; feedback: Feedback }>;
+    const feedbacks = JSON.parse(data) as FeedbackEntry[];
     localStorage.removeItem(tempKey);
 
-    return saveFeedback(userId, subject, difficulty, feedbacks);
+    return saveFeedback(userId, subject, difficulty, feedbacks, adaptive);
   } catch (error) {
     console.error('Failed to end session:', error);
     return { success: false, message: 'Failed to end session' };
   }
 };
 
+/**
+ * Attach the end-of-session report to a saved session
+ */
+export const attachSessionReport = (userId: string, sessionId: string, report: SessionReport): void => {
+  try {
+    if (!userId) return;
+
+    const allFeedbacks = getUserFeedbacks(userId);
+    const session = allFeedbacks.find(f => f.sessionId === sessionId);
+    if (!session) return;
+
+    session.report = report;
+    localStorage.setItem(getFeedbackKey(userId), JSON.stringify(allFeedbacks));
+    queueSessionForSync(userId, session);
+  } catch (error) {
+    console.error('Failed to attach session report:', error);
+  }
+};
+
+const isValidTimestamp = (value: unknown): value is string => {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isListOf = <T>(check: (value: unknown) => value is T) => (value: unknown): value is T[] =>
+  Array.isArray(value) && value.every(check);
+
+const isOneOf = <T extends string>(values: readonly T[]) => (value: unknown): value is T =>
+  values.some(v => v === value);
+
+const isDifficulty = isOneOf(DIFFICULTY_ORDER);
+
+// Imported sessions may leave optional fields out, but one that is there has to have the
+// shape the screens and exports read, or they crash on it later
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean => {
+  return value === undefined || check(value);
+};
+
+const isCodingLanguage = isOneOf(CODING_LANGUAGES.map(language => language.id));
+
+const isCodeScores = (value: any): value is CodeScores => {
+  return !!value && [value.correctness, value.complexity, value.style].every(isNumber);
+};
+
+const isTestCaseResult = (value: any): value is TestCaseResult => {
+  return !!value &&
+    Array.isArray(value.args) &&
+    isBoolean(value.passed) &&
+    isOptional(value.actual, isString) &&
+    isOptional(value.error, isString);
+};
+
+const isCodeTestRun = (value: any): value is CodeTestRun => {
+  return !!value &&
+    Array.isArray(value.results) && value.results.every(isTestCaseResult) &&
+    isNumber(value.passed) &&
+    isNumber(value.total) &&
+    isOptional(value.error, isString);
+};
+
+const isRubricDimension = isOneOf(Object.keys(RUBRIC_DIMENSION_LABELS) as RubricDimension[]);
+
+const isRubricScores = (value: any): value is RubricScores => {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.entries(value).every(([dimension, score]) => isRubricDimension(dimension) && isNumber(score));
+};
+
+const isStarElement = (value: any): value is StarElement => {
+  return !!value &&
+    isOneOf(STAR_COMPONENTS)(value.component) &&
+    isOneOf(STAR_STRENGTHS)(value.strength) &&
+    isOptional(value.excerpt, isString) &&
+    isString(value.comment);
+};
+
+const isStarAnalysis = (value: any): value is StarAnalysis => {
+  return !!value &&
+    Array.isArray(value.elements) && value.elements.every(isStarElement) &&
+    isNumber(value.completeness);
+};
+
+const isCorrectionType = isOneOf(Object.keys(CORRECTION_TYPE_LABELS) as CorrectionType[]);
+
+const isLanguageCorrection = (value: any): value is LanguageCorrection => {
+  return !!value &&
+    [value.original, value.corrected, value.rule, value.explanation].every(isString) &&
+    isCorrectionType(value.type);
+};
+
+const isDesignConcern = isOneOf(Object.keys(DESIGN_CONCERN_LABELS) as DesignConcern[]);
+
+const isComponentFeedback = (value: any): value is ComponentFeedback => {
+  return !!value &&
+    isString(value.component) &&
+    isOptional(value.nodeId, isString) &&
+    isDesignConcern(value.concern) &&
+    isString(value.comment);
+};
+
+const isMainsCriterionScore = (value: any): value is MainsCriterionScore => {
+  return !!value &&
+    MAINS_CRITERIA.some(c => c.criterion === value.criterion) &&
+    isNumber(value.score) &&
+    isString(value.comment);
+};
+
+const isMainsEvaluation = (value: any): value is MainsEvaluation => {
+  return !!value &&
+    isOneOf(MAINS_PAPER_ORDER)(value.paper) &&
+    isNumber(value.wordLimit) && Object.prototype.hasOwnProperty.call(WORD_LIMITS, value.wordLimit) &&
+    isListOf(isMainsCriterionScore)(value.criteria) &&
+    [value.wordCount, value.marks, value.maxMarks].every(isNumber);
+};
+
+const isFeedback = (value: any): value is Feedback => {
+  return !!value &&
+    isNumber(value.score) &&
+    isString(value.feedback) &&
+    isString(value.suggestedAnswer) &&
+    isOptional(value.nonVerbalFeedback, isString) &&
+    isOptional(value.codeScores, isCodeScores) &&
+    isOptional(value.rubricScores, isRubricScores) &&
+    isOptional(value.starAnalysis, isStarAnalysis) &&
+    isOptional(value.corrections, isListOf(isLanguageCorrection)) &&
+    isOptional(value.componentFeedback, isListOf(isComponentFeedback)) &&
+    isOptional(value.mainsEvaluation, isMainsEvaluation) &&
+    isOptional(value.error, isBoolean);
+};
+
+const isFluencyMetrics = (value: any): value is FluencyMetrics => {
+  return !!value &&
+    [
+      value.wordCount, value.speakingSeconds, value.wordsPerMinute, value.fillerCount,
+      value.longPauses, value.longestPauseSeconds, value.vocabularyDiversity,
+    ].every(isNumber) &&
+    !!value.fillers && typeof value.fillers === 'object' && Object.values(value.fillers).every(isNumber) &&
+    Array.isArray(value.repeatedPhrases) &&
+    value.repeatedPhrases.every((p: any) => !!p && isString(p.phrase) && isNumber(p.count));
+};
+
+const isDiagramNodeKind = isOneOf(Object.keys(DIAGRAM_NODE_KINDS) as DiagramNodeKind[]);
+
+const isDiagramNode = (value: any): value is DiagramNode => {
+  return !!value &&
+    isString(value.id) &&
+    isDiagramNodeKind(value.kind) &&
+    isString(value.label) &&
+    isNumber(value.x) &&
+    isNumber(value.y);
+};
+
+const isDiagramEdge = (value: any): value is DiagramEdge => {
+  return !!value && [value.id, value.from, value.to, value.label].every(isString);
+};
+
+const isSystemDiagram = (value: any): value is SystemDiagram => {
+  return !!value && isListOf(isDiagramNode)(value.nodes) && isListOf(isDiagramEdge)(value.edges);
+};
+
+const isFeedbackEntry = (value: any): value is FeedbackEntry => {
+  return !!value &&
+    isString(value.question) &&
+    isString(value.answer) &&
+    isOptional(value.followUpTo, isString) &&
+    isOptional(value.timeTakenSeconds, isNumber) &&
+    isOptional(value.timedOut, isBoolean) &&
+    isOptional(value.difficulty, isDifficulty) &&
+    isOptional(value.codeLanguage, isCodingLanguage) &&
+    isOptional(value.testRun, isCodeTestRun) &&
+    isOptional(value.fluency, isFluencyMetrics) &&
+    isOptional(value.round, isString) &&
+    isOptional(value.diagram, isSystemDiagram) &&
+    isFeedback(value.feedback);
+};
+
+const isScoredQuestion = (value: any): boolean => {
+  return value === null || (!!value && isString(value.question) && isNumber(value.score));
+};
+
+const isRoundSummary = (value: any): value is RoundSummary => {
+  return !!value &&
+    isString(value.round) &&
+    isNumber(value.answered) &&
+    isNumber(value.averageScore) &&
+    isScoredQuestion(value.bestAnswer) &&
+    isScoredQuestion(value.worstAnswer);
+};
+
+const isSessionReport = (value: any): value is SessionReport => {
+  return !!value &&
+    isString(value.summary) &&
+    [value.strengths, value.weaknesses, value.topicsCovered].every(isStringList) &&
+    isOptional(value.bestAnswer, isScoredQuestion) &&
+    isOptional(value.worstAnswer, isScoredQuestion) &&
+    isDifficulty(value.recommendedDifficulty) &&
+    isOptional(value.rounds, isListOf(isRoundSummary));
+};
+
+const isSessionFeedback = (value: any): value is SessionFeedback => {
+  return !!value &&
+    isString(value.sessionId) && value.sessionId.length > 0 &&
+    isString(value.subject) &&
+    (value.difficulty === null || isDifficulty(value.difficulty)) &&
+    isValidTimestamp(value.timestamp) &&
+    isNumber(value.averageScore) &&
+    Array.isArray(value.feedbacks) && value.feedbacks.every(isFeedbackEntry) &&
+    isOptional(value.report, isSessionReport) &&
+    isOptional(value.adaptive, isBoolean);
+};
+
+/**
+ * Wrap sessions in a versioned bundle for export
+ */
+export const createFeedbackBundle = (sessions: SessionFeedback[]): FeedbackBundle => {
+  return {
+    format: FEEDBACK_BUNDLE_FORMAT,
+    version: FEEDBACK_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions,
+  };
+};
+
+/**
+ * Pull the sessions out of a parsed bundle (or single-session export), or explain why it can't be read
+ */
+const readBundleSessions = (data: any): { sessions?: SessionFeedback[]; error?: string } => {
+  if (!data || typeof data !== 'object') {
+    return { error: 'File is not a session export' };
+  }
+  if (data.format !== FEEDBACK_BUNDLE_FORMAT && data.format !== SESSION_EXPORT_FORMAT) {
+    return { error: 'File is not a session export' };
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    return { error: 'Export is missing a valid version' };
+  }
+  if (data.version > FEEDBACK_BUNDLE_VERSION) {
+    return { error: 'Export was created by a newer version of the app' };
+  }
+
+  const sessions: unknown[] = data.format === SESSION_EXPORT_FORMAT ? [data.session] : data.sessions;
+  if (!Array.isArray(sessions) || !sessions.every(isSessionFeedback)) {
+    return { error: 'Export contains invalid session records' };
+  }
+  return { sessions };
+};
+
+/**
+ * Merge an exported bundle into a user's history. Sessions already stored locally
+ * (same sessionId) are kept as they are; new ones are added, queued for sync and
+ * counted towards the profile stats. Only the newest MAX_LOCAL_SESSIONS stay on this
+ * device, and the message says how many of the imported ones that left out.
+ */
+export const importFeedbackBundle = (userId: string, json: string): ImportResult => {
+  if (!userId) {
+    return { success: false, message: 'User not logged in', imported: 0, duplicates: 0 };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { success: false, message: 'File is not valid JSON', imported: 0, duplicates: 0 };
+  }
+
+  const { sessions, error } = readBundleSessions(data);
+  if (!sessions) {
+    return { success: false, message: error ?? 'Failed to read export', imported: 0, duplicates: 0 };
+  }
+
+  try {
+    const existing = getUserFeedbacks(userId);
+    const knownIds = new Set(existing.map(s => s.sessionId));
+    const added: SessionFeedback[] = [];
+    sessions.forEach(session => {
+      if (knownIds.has(session.sessionId)) return;
+      knownIds.add(session.sessionId);
+      added.push(session);
+    });
+
+    const merged = [...existing, ...added];
+    replaceUserFeedbacks(userId, merged);
+    added.forEach(session => queueSessionForSync(userId, session));
+    if (added.length > 0) {
+      rebuildProfileFromSessions(merged);
+    }
+
+    const duplicates = sessions.length - added.length;
+    const storedIds = new Set(getUserFeedbacks(userId).map(s => s.sessionId));
+    const kept = added.filter(session => storedIds.has(session.sessionId)).length;
+    const trimmedNote = kept < added.length
+      ? `. This device keeps your latest ${MAX_LOCAL_SESSIONS} sessions, so ${kept} of them are stored here and the older ${added.length - kept} only in your synced history`
+      : '';
+    return {
+      success: true,
+      message: `Imported ${added.length} session(s)${duplicates > 0 ? `, skipped ${duplicates} already in your history` : ''}${trimmedNote}`,
+      imported: added.length,
+      duplicates,
+    };
+  } catch (error) {
+    console.error('Failed to import feedbacks:', error);
+    return { success: false, message: 'Failed to import feedbacks', imported: 0, duplicates: 0 };
+  }
+};
+
 /**
  * Get statistics for a user
  */
@@ -152,7 +544,7 @@ export const getUserStats = (userId: string) => {
     ? feedbacks.reduce((sum, f) => sum + f.averageScore, 0) / feedbacks.length
     : 0;
 
-  const subjectStats: { [key in Subject]?: number } = {};
+  const subjectStats: { [key: string]: number } = {};
   feedbacks.forEach(session => {
     subjectStats[session.subject] = (subjectStats[session.subject] || 0) + 1;
   });
@@ -164,6 +556,184 @@ export const getUserStats = (userId: string) => {
   };
 };
 
+export interface RubricAverage {
+  dimension: RubricDimension;
+  average: number;
+  // Answers scored on this dimension
+  count: number;
+}
+
+/**
+ * Average score per rubric dimension across every scored answer in these sessions.
+ * Dimensions no answer was scored on are left out.
+ */
+export const getRubricAverages = (sessions: SessionFeedback[]): RubricAverage[] => {
+  const totals = new Map<RubricDimension, { sum: number; count: number }>();
+  sessions.forEach(session => {
+    session.feedbacks.forEach(entry => {
+      if (entry.feedback.error || !entry.feedback.rubricScores) return;
+      (Object.entries(entry.feedback.rubricScores) as Array<[RubricDimension, number | undefined]>).forEach(([dimension, score]) => {
+        if (typeof score !== 'number') return;
+        const total = totals.get(dimension) ?? { sum: 0, count: 0 };
+        total.sum += score;
+        total.count++;
+        totals.set(dimension, total);
+      });
+    });
+  });
+
+  return Array.from(totals, ([dimension, { sum, count }]) => ({ dimension, average: sum / count, count }));
+};
+
+export interface StarHistoryPoint {
+  sessionId: string;
+  timestamp: string;
+  // Average STAR completeness (0-100) of the session's analysed answers
+  completeness: number;
+  answers: number;
+}
+
+/**
+ * STAR completeness per session, oldest first, for sessions with at least one analysed answer
+ */
+export const getStarHistory = (sessions: SessionFeedback[]): StarHistoryPoint[] => {
+  return sessions
+    .map(session => {
+      const analysed = session.feedbacks.filter(entry => !entry.feedback.error && entry.feedback.starAnalysis);
+      const total = analysed.reduce((sum, entry) => sum + entry.feedback.starAnalysis!.completeness, 0);
+      return {
+        sessionId: session.sessionId,
+        timestamp: session.timestamp,
+        completeness: analysed.length > 0 ? total / analysed.length : 0,
+        answers: analysed.length,
+      };
+    })
+    .filter(point => point.answers > 0)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+export interface FluencyHistoryPoint {
+  sessionId: string;
+  timestamp: string;
+  wordsPerMinute: number;
+  // Fillers per 100 words, so long and short answers compare fairly
+  fillerRate: number;
+  answers: number;
+}
+
+/**
+ * Average pace and filler rate per session, oldest first, for sessions with spoken answers
+ */
+export const getFluencyHistory = (sessions: SessionFeedback[]): FluencyHistoryPoint[] => {
+  return sessions
+    .map(session => {
+      const measured = session.feedbacks.filter(entry => entry.fluency);
+      const words = measured.reduce((sum, entry) => sum + entry.fluency!.wordCount, 0);
+      const fillers = measured.reduce((sum, entry) => sum + entry.fluency!.fillerCount, 0);
+      const wpm = measured.reduce((sum, entry) => sum + entry.fluency!.wordsPerMinute, 0);
+      return {
+        sessionId: session.sessionId,
+        timestamp: session.timestamp,
+        wordsPerMinute: measured.length > 0 ? wpm / measured.length : 0,
+        fillerRate: words > 0 ? (fillers / words) * 100 : 0,
+        answers: measured.length,
+      };
+    })
+    .filter(point => point.answers > 0)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+export interface RecurringMistake {
+  rule: string;
+  type: CorrectionType;
+  count: number;
+  // Timestamp of the latest session it came up in
+  lastSeen: string;
+  // Latest first
+  examples: Array<{ original: string; corrected: string }>;
+}
+
+const MAX_MISTAKE_EXAMPLES = 3;
+// Mistakes made at least this often are the ones later sessions focus on
+const MIN_FOCUS_OCCURRENCES = 2;
+const MAX_FOCUS_RULES = 3;
+
+/**
+ * English practice corrections across these sessions, grouped by rule, most frequent first
+ */
+export const getRecurringMistakes = (sessions: SessionFeedback[]): RecurringMistake[] => {
+  const byRule = new Map<string, RecurringMistake>();
+  [...sessions]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .forEach(session => {
+      session.feedbacks.forEach(entry => {
+        entry.feedback.corrections?.forEach(correction => {
+          const key = getRuleKey(correction.rule);
+          const mistake = byRule.get(key) ?? { rule: correction.rule, type: correction.type, count: 0, lastSeen: session.timestamp, examples: [] };
+          mistake.count++;
+          if (mistake.examples.length < MAX_MISTAKE_EXAMPLES) {
+            mistake.examples.push({ original: correction.original, corrected: correction.corrected });
+          }
+          byRule.set(key, mistake);
+        });
+      });
+    });
+
+  return Array.from(byRule.values()).sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen));
+};
+
+/**
+ * The user's most frequent recurring mistakes, for a new English session to target
+ */
+export const getMistakeFocus = (userId: string): string[] => {
+  return getRecurringMistakes(getUserFeedbacks(userId))
+    .filter(mistake => mistake.count >= MIN_FOCUS_OCCURRENCES)
+    .slice(0, MAX_FOCUS_RULES)
+    .map(mistake => mistake.rule);
+};
+
+export interface MainsPaperPerformance {
+  paper: MainsPaper;
+  answers: number;
+  // Average share of the available marks scored, 0-100
+  averageShare: number;
+  // Share of the marks scored on each answer, oldest first
+  history: Array<{ timestamp: string; share: number }>;
+  // Average 0-10 score per rubric criterion, in rubric order
+  criteria: Array<{ criterion: MainsCriterion; average: number }>;
+}
+
+/**
+ * UPSC Mains answer-writing results per General Studies paper, for papers with at least one marked answer
+ */
+export const getMainsPaperPerformance = (sessions: SessionFeedback[]): MainsPaperPerformance[] => {
+  const answers = sessions
+    .flatMap(session => session.feedbacks
+      .filter(entry => !entry.feedback.error && entry.feedback.mainsEvaluation)
+      .map(entry => ({ timestamp: session.timestamp, evaluation: entry.feedback.mainsEvaluation! })))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return MAINS_PAPER_ORDER
+    .map(paper => {
+      const paperAnswers = answers.filter(a => a.evaluation.paper === paper);
+      const history = paperAnswers.map(a => ({ timestamp: a.timestamp, share: (a.evaluation.marks / a.evaluation.maxMarks) * 100 }));
+      const criteria = MAINS_CRITERIA.map(({ criterion }) => {
+        const scores = paperAnswers
+          .map(a => a.evaluation.criteria.find(c => c.criterion === criterion)?.score)
+          .filter((score): score is number => typeof score === 'number');
+        return { criterion, average: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0 };
+      });
+      return {
+        paper,
+        answers: paperAnswers.length,
+        averageShare: history.length > 0 ? history.reduce((sum, h) => sum + h.share, 0) / history.length : 0,
+        history,
+        criteria,
+      };
+    })
+    .filter(performance => performance.answers > 0);
+};
+
 /**
  * Clear all feedbacks for a user (destructive operation)
  */
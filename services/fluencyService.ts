@@ -0,0 +1,115 @@
+// Speaking-fluency metrics for spoken answers, computed from the speech recognition results
+// and when each one arrived. Nothing here is sent to Gemini.
+
+import { FluencyMetrics, SpeechSegment } from '../types';
+
+// Silence between two recognised phrases longer than this counts as a long pause
+export const LONG_PAUSE_SECONDS = 2;
+
+// Multi-word fillers come first so "you know" isn't also counted as "know"
+const FILLER_PHRASES = ['you know', 'i mean', 'kind of', 'sort of'];
+const FILLER_WORDS = ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'like', 'basically', 'actually', 'literally'];
+
+// Runs of PHRASE_LENGTH words said at least MIN_PHRASE_REPEATS times count as repeated phrases
+const PHRASE_LENGTH = 3;
+const MIN_PHRASE_REPEATS = 2;
+const MAX_REPEATED_PHRASES = 5;
+
+const toWords = (text: string): string[] => {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+};
+
+const countFillers = (words: string[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  const add = (filler: string) => {
+    counts[filler] = (counts[filler] ?? 0) + 1;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const pair = `${words[i]} ${words[i + 1] ?? ''}`;
+    const phrase = FILLER_PHRASES.find(p => p === pair);
+    if (phrase) {
+      add(phrase);
+      i++;
+    } else if (FILLER_WORDS.includes(words[i])) {
+      add(words[i]);
+    }
+  }
+  return counts;
+};
+
+const countOccurrences = (words: string[], phrase: string[]): number => {
+  let count = 0;
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, k) => words[i + k] === word)) count++;
+  }
+  return count;
+};
+
+// Overlapping repeats are chained into the longest phrase that still repeats,
+// so "i like to read" is reported once rather than as "i like to" and "like to read"
+const findRepeatedPhrases = (words: string[]): Array<{ phrase: string; count: number }> => {
+  const runCounts = new Map<string, number>();
+  for (let i = 0; i + PHRASE_LENGTH <= words.length; i++) {
+    const run = words.slice(i, i + PHRASE_LENGTH).join(' ');
+    runCounts.set(run, (runCounts.get(run) ?? 0) + 1);
+  }
+  const repeatsAt = (i: number) => (runCounts.get(words.slice(i, i + PHRASE_LENGTH).join(' ')) ?? 0) >= MIN_PHRASE_REPEATS;
+
+  const found = new Map<string, number>();
+  let i = 0;
+  while (i + PHRASE_LENGTH <= words.length) {
+    if (!repeatsAt(i)) {
+      i++;
+      continue;
+    }
+    let end = i + PHRASE_LENGTH;
+    while (repeatsAt(end - PHRASE_LENGTH + 1) && countOccurrences(words, words.slice(i, end + 1)) >= MIN_PHRASE_REPEATS) {
+      end++;
+    }
+    const phrase = words.slice(i, end);
+    found.set(phrase.join(' '), countOccurrences(words, phrase));
+    i = end;
+  }
+
+  return Array.from(found, ([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_REPEATED_PHRASES);
+};
+
+/**
+ * Fluency metrics for one spoken answer. Speaking time runs from the first recognised phrase to
+ * the last, so the wait before they start talking doesn't drag down the pace; that wait is
+ * still counted as a pause if it's long. Returns null when nothing was recognised.
+ */
+export const computeFluencyMetrics = (segments: SpeechSegment[], listeningStartedAt: number): FluencyMetrics | null => {
+  const spoken = segments.filter(s => s.text.trim().length > 0);
+  if (spoken.length === 0) return null;
+
+  const words = toWords(spoken.map(s => s.text).join(' '));
+  if (words.length === 0) return null;
+
+  const fillers = countFillers(words);
+  const fillerCount = Object.values(fillers).reduce((sum, n) => sum + n, 0);
+  const contentWords = words.filter(w => !FILLER_WORDS.includes(w));
+
+  const gaps = [spoken[0].startedAt - listeningStartedAt];
+  for (let i = 1; i < spoken.length; i++) {
+    gaps.push(spoken[i].startedAt - spoken[i - 1].endedAt);
+  }
+  const longPauses = gaps.filter(gap => gap / 1000 > LONG_PAUSE_SECONDS);
+
+  const speakingSeconds = Math.max((spoken[spoken.length - 1].endedAt - spoken[0].startedAt) / 1000, 1);
+
+  return {
+    wordCount: words.length,
+    speakingSeconds: Math.round(speakingSeconds),
+    wordsPerMinute: Math.round(words.length / (speakingSeconds / 60)),
+    fillerCount,
+    fillers,
+    longPauses: longPauses.length,
+    longestPauseSeconds: longPauses.length > 0 ? Math.round(Math.max(...longPauses) / 100) / 10 : 0,
+    vocabularyDiversity: contentWords.length > 0 ? new Set(contentWords).size / contentWords.length : 0,
+    repeatedPhrases: findRepeatedPhrases(words),
+  };
+};
@@ -1,6 +1,17 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { Subject, Feedback, Difficulty, ResumeData } from '../types';
+import { Subject, Feedback, Difficulty, ResumeData, ConversationTurn, SessionReport, JobDescriptionData, JobContext, ResumeBullet, CodingLanguage, CodingQuestion, CodeTestCase, CodeTestRun, CompanyRoundContext, SystemDiagram, ObjectiveQuestion, TestSection, AnswerWritingSettings } from '../types';
+import type { FeedbackEntry } from './feedbackService';
+import { getCodingLanguageName } from './codingLanguages';
+import { getRubric, normalizeRubricScores } from './rubrics';
+import { isBehavioralQuestion, normalizeStarAnalysis } from './starService';
+import { CORRECTION_RULES, normalizeCorrections } from './correctionService';
+import { describeCompanyRound, getRoundSubject } from './companyTracks';
+import { DESIGN_QUESTION_CONTEXT, describeDiagram, normalizeComponentFeedback } from './diagramService';
+import { normalizeObjectiveQuestions } from './objectiveTests';
+import { JUDGED_CRITERIA, MAINS_CRITERIA, MAINS_PAPERS, WORD_LIMITS, getMainsScore, normalizeMainsEvaluation } from './mainsAnswers';
+import { describeBankAnswer, findBankQuestion, pickBankQuestion } from './questionBankService';
+import { buildApiUrl, fetchWithTimeout } from './apiConfig';
 
 // Lazily initialize GoogleGenAI client so the app doesn't crash at module import in the browser.
 // Support both Node-style `process.env.API_KEY` (server) and Vite client env `import.meta.env.VITE_GEMINI_API_KEY` (local/dev).
@@ -33,48 +44,9 @@ const getApiKey = () => {
     return '';
 };
 
-const getApiBaseUrl = (): string => {
-    // Prefer explicit API base URL from Vite env (e.g., VITE_API_BASE_URL="https://api.example.com")
-    try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const meta: any = typeof import.meta !== 'undefined' ? (import.meta as any) : undefined;
-        const envBase = meta?.env?.VITE_API_BASE_URL;
-        if (envBase && typeof envBase === 'string') {
-            return envBase.replace(/\/+$/, '');
-        }
-    } catch (e) {
-        // ignore
-    }
-
-    // If running locally or on LAN, default to the same host on port 4000.
-    try {
-        if (typeof window !== 'undefined' && window.location) {
-            const { hostname, protocol } = window.location;
-            const isLocalhost =
-                hostname === 'localhost' ||
-                hostname === '127.0.0.1' ||
-                hostname === '[::1]' ||
-                hostname.endsWith('.local') ||
-                /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
-            if (isLocalhost) {
-                return `${protocol}//${hostname}:4000`;
-            }
-        }
-    } catch (e) {
-        // ignore
-    }
-
-    // Fallback to relative path (useful in production if API is on same origin)
-    return '';
-};
-
-const buildApiUrl = (path: string) => {
-    const base = getApiBaseUrl();
-    if (!base) return path.startsWith('/') ? path : `/${path}`;
-    return `${base}${path.startsWith('/') ? path : `/${path}`}`;
-};
-
 const BACKEND_TIMEOUT_MS = 6000;
+// Evaluations and resume parsing produce much longer responses than a single question
+const BACKEND_LONG_TIMEOUT_MS = 25000;
 const GEMINI_TIMEOUT_MS = 8000;
 
 const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
@@ -92,16 +64,40 @@ const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise
     });
 };
 
-const fetchWithTimeout = async (url: string, options: RequestInit, ms: number) => {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), ms);
+// POST a JSON body to the backend and return the parsed JSON reply, throwing on any non-2xx status.
+const postToBackend = async <T>(path: string, body: unknown, ms: number): Promise<T> => {
+    const response = await fetchWithTimeout(buildApiUrl(path), {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+    }, ms);
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`API request failed with status ${response.status}: ${errorText}`);
+    }
+    return response.json() as Promise<T>;
+};
+
+// Parse a JSON model reply, tolerating stray text around the JSON block.
+const parseModelJson = (raw: string): any => {
+    const jsonText = (raw || '').trim();
     try {
-        return await fetch(url, { ...options, signal: controller.signal });
-    } finally {
-        clearTimeout(timeoutId);
+        return JSON.parse(jsonText);
+    } catch (e) {
+        const match = jsonText.match(/\{[\s\S]*\}/);
+        if (match) {
+            return JSON.parse(match[0]);
+        }
+        throw new Error('Could not parse JSON from Gemini response');
     }
 };
 
+const isFeedback = (value: any): value is Feedback =>
+    !!value && typeof value.score === 'number' && typeof value.feedback === 'string';
+
 let ai: any | null = null;
 const getAi = () => {
     if (!ai) {
@@ -143,6 +139,17 @@ const baseFeedbackSchema = {
         suggestedAnswer: {
             type: Type.STRING,
             description: "An ideal, well-structured answer to the original question."
+        },
+        rubricScores: {
+            type: Type.OBJECT,
+            description: "Scores from 0 to 10 for each rubric dimension the prompt lists. Leave out dimensions it does not list.",
+            properties: {
+                technicalAccuracy: { type: Type.INTEGER },
+                completeness: { type: Type.INTEGER },
+                clarity: { type: Type.INTEGER },
+                structure: { type: Type.INTEGER },
+                examples: { type: Type.INTEGER }
+            }
         }
     },
     required: ["score", "feedback", "suggestedAnswer"]
@@ -159,29 +166,115 @@ const visualFeedbackSchema = {
     }
 };
 
+const starAnalysisProperty = {
+    type: Type.OBJECT,
+    properties: {
+        elements: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    component: { type: Type.STRING, enum: ["situation", "task", "action", "result"] },
+                    strength: { type: Type.STRING, enum: ["strong", "weak", "missing"] },
+                    excerpt: { type: Type.STRING, description: "The exact words from the answer that cover this part, copied verbatim. Empty when missing." },
+                    comment: { type: Type.STRING, description: "One sentence on what is there or what to add." }
+                },
+                required: ["component", "strength", "excerpt", "comment"]
+            }
+        }
+    },
+    required: ["elements"]
+};
+
+const withStarAnalysis = <T extends typeof baseFeedbackSchema>(schema: T) => ({
+    ...schema,
+    properties: { ...schema.properties, starAnalysis: starAnalysisProperty },
+    required: [...schema.required, "starAnalysis"]
+});
+
+const correctionsProperty = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            original: { type: Type.STRING, description: "The wrong words exactly as they appear in the answer." },
+            corrected: { type: Type.STRING, description: "How those words should have been said." },
+            type: { type: Type.STRING, enum: ["grammar", "vocabulary", "pronunciation"] },
+            rule: { type: Type.STRING, description: "Short rule name, e.g. 'Subject-verb agreement'." },
+            explanation: { type: Type.STRING, description: "One sentence explaining the rule." }
+        },
+        required: ["original", "corrected", "type", "rule", "explanation"]
+    }
+};
+
+const withCorrections = <T extends typeof baseFeedbackSchema>(schema: T) => ({
+    ...schema,
+    properties: { ...schema.properties, corrections: correctionsProperty },
+    required: [...schema.required, "corrections"]
+});
+
+const componentFeedbackProperty = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            component: { type: Type.STRING, description: "The id of a component as listed on the diagram, e.g. n1." },
+            concern: { type: Type.STRING, enum: ["scalability", "bottleneck", "dataStore", "reliability"] },
+            comment: { type: Type.STRING, description: "One or two sentences on the problem and how to fix it." }
+        },
+        required: ["component", "concern", "comment"]
+    }
+};
 
-const getQuestionGenerationPrompt = (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = []): string => {
+const withComponentFeedback = <T extends typeof baseFeedbackSchema>(schema: T) => ({
+    ...schema,
+    properties: { ...schema.properties, componentFeedback: componentFeedbackProperty },
+    required: [...schema.required, "componentFeedback"]
+});
+
+const codeFeedbackSchema = {
+    ...baseFeedbackSchema,
+    properties: {
+        ...baseFeedbackSchema.properties,
+        codeScores: {
+            type: Type.OBJECT,
+            properties: {
+                correctness: { type: Type.INTEGER, description: "0-10: does the code solve the problem, including edge cases?" },
+                complexity: { type: Type.INTEGER, description: "0-10: are the time and space complexity appropriate for the problem?" },
+                style: { type: Type.INTEGER, description: "0-10: naming, structure, readability and idiomatic use of the language" }
+            },
+            required: ["correctness", "complexity", "style"]
+        }
+    },
+    required: [...baseFeedbackSchema.required, "codeScores"]
+};
+
+const getMistakeFocusPrompt = (focusMistakes: string[]): string =>
+    focusMistakes.length > 0
+        ? `\n\nThey are working on these recurring mistakes: ${focusMistakes.join(', ')}. Ask a question whose natural answer would use those structures, e.g. a question about the past for verb tense.`
+        : '';
+
+const getQuestionGenerationPrompt = (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = [], focusMistakes: string[] = [], companyRound?: CompanyRoundContext): string => {
     let persona: string;
     let examContext: string = '';
     let avoidRepetitionContext: string = '';
     let difficultyGuidance: string = '';
-    const isHrInterview = /hr/i.test(subject);
-
-    // List of company names to detect company-specific interviews
-    const companyNames = [
-        'Google', 'Microsoft', 'Amazon', 'Apple', 'Meta', 'Netflix',
-        'TCS', 'Infosys', 'Wipro', 'HCL', 'Cognizant', 'IBM', 'Oracle', 'Accenture'
-    ];
-    const isCompanyInterview = companyNames.some(company => subject.includes(company));
+    const isHrInterview = companyRound
+        ? companyRound.round.type === 'hr' || companyRound.round.type === 'managerial'
+        : /hr/i.test(subject);
 
     // Add context about previously asked questions to avoid repetition
     if (previousQuestions.length > 0) {
         avoidRepetitionContext = `\n\nIMPORTANT: Do NOT ask any of these previously asked questions:\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}\n\nPlease ask something completely different and fresh.`;
     }
 
-    // Special handling for companies
-    if (isCompanyInterview) {
-        examContext = `You're chatting with a candidate for ${subject}. Keep it natural and conversational while asking about topics that ${subject} cares about. `;
+    // Company interviews follow the company's round structure
+    if (companyRound) {
+        examContext = describeCompanyRound(companyRound.company, companyRound.round);
+    }
+    // System design questions are answered with a diagram
+    else if (subject === Subject.SystemDesign) {
+        examContext = `${DESIGN_QUESTION_CONTEXT} `;
     }
     // Special handling for competitive exams
     else if (subject === 'GATE Exam' || subject === 'UPSC Exam') {
@@ -189,7 +282,7 @@ const getQuestionGenerationPrompt = (subject: Subject | string, difficulty: Diff
         examContext = `Help the candidate prepare for ${examType}. Ask like you're a study buddy or mentor, not a test machine. For GATE: ask about core concepts naturally. For UPSC: chat like you're exploring topics together. `;
     }
     // HR/behavioral interviews
-    if (isHrInterview) {
+    if (isHrInterview && !companyRound) {
         examContext += `This is a friendly HR chat. Ask a behavioral question that feels natural, like you're getting to know the person. Good examples: "Tell me a bit about yourself", "Any challenges you've tackled?", "What brings you here?", "What are you good at?". Keep it conversational, not interrogating. `;
     }
 
@@ -222,291 +315,21 @@ ${difficultyGuidance}
 Ask just ONE question - make it sound natural like you're actually trying to learn about them or explore a topic together. No lists, no multiple parts, no question marks at the end of each part.
 
 Return your question as JSON like this: {"question": "Your question here?"}
-Keep it simple and conversational.${avoidRepetitionContext}`;
-};
-
-
-// Fallback questions for demo/testing when API is unavailable
-const fallbackQuestions: Record<string, Record<string, string[]>> = {
-    'javascript': {
-        'Beginner': [
-            "Let's start simple. What is a variable in JavaScript, and how do you create one?",
-            "How do you write a basic function in JavaScript? Give me an example.",
-            "What are the common data types in JavaScript? Name a few.",
-            "What's an array in JavaScript and what can you do with it?",
-            "Tell me about conditional statements in JavaScript. How do you use if-else?"
-        ],
-        'Intermediate': [
-            "So let's get into something more interesting—the JavaScript event loop. How does it actually work, from your perspective?",
-            "What are callbacks and promises? How do they help you handle asynchronous code?",
-            "If I asked you to write a debounce function, what would you do? Walk me through your thinking.",
-            "Tell me about scope in JavaScript. What's the difference between global and local scope?",
-            "How would you find and fix a bug in your JavaScript code? Walk me through your approach."
-        ],
-        'Advanced': [
-            "Let's dig deep—if you had to implement a Promise from scratch, what would you need to handle?",
-            "Okay, advanced topic: microtasks vs macrotasks. How would you explain that distinction, and when does it matter?",
-            "Hoisting is one of those things that really makes JavaScript unique. Walk me through how it actually works.",
-            "I've got a nested array, and I need to flatten it. Tell me how you'd approach that, maybe show me a few ways.",
-            "You're looking at a React component that's rendering slowly. What's your process for figuring out what's wrong and fixing it?"
-        ]
-    },
-    'typescript': {
-        'Beginner': [
-            "So, what is TypeScript? In simple terms, why would you use it?",
-            "What is a type in TypeScript? Can you give me a simple example like a string or number?",
-            "How do you tell TypeScript that a variable should be a specific type?",
-            "What's an interface in TypeScript? How would you create a simple one?",
-            "Tell me about the basic types in TypeScript—what are some examples?"
-        ],
-        'Intermediate': [
-            "Let's talk union types. When would you use them and how do you create one?",
-            "What are generics in TypeScript and when would you actually use them in real code?",
-            "How do you handle cases where a value could be null or undefined in TypeScript?",
-            "Tell me about optional properties. How do you make a property optional in an interface?",
-            "You've got a function that should accept different types. How would you handle that with TypeScript?"
-        ],
-        'Advanced': [
-            "Let's say you needed to implement a complex type utility. Walk me through how you'd approach that.",
-            "Mapped types can be pretty sophisticated. Explain how they work and show me you've really used them.",
-            "Template literal types are pretty cool. What can you do with them? Any real use cases you've seen?",
-            "Decorators in TypeScript—how do they work? Have you written custom ones?",
-            "Here's a deep one: variance in TypeScript generics. Explain that concept."
-        ]
-    },
-    'python': {
-        'Beginner': [
-            "Let's start simple. What's a variable in Python and how do you create one?",
-            "How do you write a function in Python? Give me an example.",
-            "What's a list in Python? How do you create one and add items to it?",
-            "Tell me about loops in Python. How do you use a for loop?",
-            "What are conditional statements in Python? How do you use if, elif, and else?"
-        ],
-        'Intermediate': [
-            "You need to repeat an action on every item in a list. How would you do that in Python?",
-            "Tell me about classes and objects in Python. How do you create a simple class?",
-            "What's the difference between a list and a dictionary? When would you use each one?",
-            "How do you read data from a file in Python? Walk me through the basic steps.",
-            "Tell me about error handling in Python. How do you use try and except?"
-        ],
-        'Advanced': [
-            "Metaclasses are pretty advanced. How would you implement one, and what would you use it for?",
-            "Descriptors are powerful but confusing to a lot of people. Walk me through how they work.",
-            "If you had to optimize a Python script for memory, what's your approach? What tools do you use?",
-            "Context managers are elegant. How would you implement one from scratch?",
-            "How does Python's import system actually work? Walk me through it."
-        ]
-    },
-    'java': {
-        'Beginner': [
-            "Let's start with the basics. What is a class in Java and why do you need one?",
-            "How do you create a simple variable in Java with a specific type?",
-            "Tell me about the main method. What does it do and why is it important?",
-            "What's a method in Java and how do you write a simple one?",
-            "What are the basic data types in Java? Can you name a few?"
-        ],
-        'Intermediate': [
-            "What's the difference between a class and an object? Give me a real example.",
-            "Tell me about constructors in Java. What do they do and how do you write one?",
-            "What are access modifiers in Java? Why would you use public, private, or protected?",
-            "How do you create a new object from a class in Java?",
-            "Tell me about methods. Can you write a method that takes parameters and returns a value?"
-        ],
-        'Advanced': [
-            "Java's memory model is sophisticated. Explain how it works at a deep level.",
-            "Streams in Java changed how people write code. What are they, and how do they work?",
-            "Design patterns are tools you use. Tell me about some you know and when you'd use them.",
-            "If you needed to optimize Java app performance, what's your approach? What tools do you use?",
-            "Concurrent collections—what are they? How are they different from regular collections?"
-        ]
-    },
-    'data structures and algorithms': {
-        'Beginner': [
-            "Let's start with basics. What is an array and how do you create one?",
-            "What's a list and how is it different from an array?",
-            "Tell me about loops and how you'd go through each item in a list.",
-            "What does sorting mean? Can you give me an example of sorted data?",
-            "What's the difference between searching for something in a small list versus a big list? Which is faster?"
-        ],
-        'Intermediate': [
-            "What's the difference between a stack and a queue? Give me real-world examples of each.",
-            "Tell me about a linked list. How is it different from an array?",
-            "Can you explain binary search? How would you use it to find something quickly?",
-            "What are some common sorting methods? Name at least two and compare them.",
-            "What does Big O notation mean and why does it matter when choosing algorithms?"
-        ],
-        'Advanced': [
-            "Red-black trees are sophisticated. How would you implement one? Tell me the key properties.",
-            "Dynamic programming solves hard problems efficiently. Explain it and give me some real examples.",
-            "Advanced graph algorithms like Dijkstra's—walk me through how they work.",
-            "The trie data structure is useful for specific problems. Explain how it works and where you'd use it.",
-            "Longest common subsequence is a classic DP problem. How would you solve it?"
-        ]
-    },
-    'hr interview': {
-        'Beginner': [
-            "Let's start simple. Tell me your name and a bit about your background.",
-            "Why are you interested in this role? What attracted you to apply?",
-            "Tell me about something you're good at. What's a strength of yours?",
-            "What's something you want to improve about yourself?",
-            "Where do you want to be in your career in a few years?"
-        ],
-        'Intermediate': [
-            "Tell me about a time you had to work on a team. How did you contribute?",
-            "Can you describe a situation where you had to solve a problem at work? Walk me through it.",
-            "Tell me about a time you had to meet a deadline. How did you manage it?",
-            "Have you ever disagreed with a coworker? How did you handle it?",
-            "What kind of work environment helps you be most productive? Describe it."
-        ],
-        'Advanced': [
-            "What's something you've done that you're really proud of? Walk me through what made it special.",
-            "Teams win together. How have you helped your team succeed? Any examples that really stick with you?",
-            "Change is constant at work. Tell me about a time you had to adapt to something significant. How did you handle it?",
-            "The landscape is always changing—new tech, new approaches. How do you learn and stay current? What's your style?",
-            "Nobody's perfect. Tell me about a time you really failed at something. What did you learn from it?"
-        ]
-    },
-    'english speaking practice': {
-        'Beginner': [
-            "Hey, I'm curious—who are you? Where are you from?",
-            "So what does a typical day look like for you? Walk me through it.",
-            "What do you like to do in your free time? Any hobbies?",
-            "Tell me about your family. Who are they?",
-            "What's your favorite food? I'd love to know why you like it."
-        ],
-        'Intermediate': [
-            "You mentioned a trip before—where did you go? What was it like?",
-            "Have you faced any big challenges? How did you handle them?",
-            "Where do you see yourself heading career-wise? What's the dream?",
-            "Is there someone who's really mattered in your life? Who and why?",
-            "What's something you've accomplished that you're genuinely proud of?"
-        ],
-        'Advanced': [
-            "We talk a lot about tech these days. What's your take on how technology is changing society? What do you think the big impacts are?",
-            "Here's a big one—climate change. What's your perspective? How do you think about it?",
-            "Is there a book or movie that really stuck with you? Tell me about it and why it resonated.",
-            "Globalization touches everything now. What do you see as the challenges of living in such a connected world?",
-            "Learning never stops, does it? What do you think about continuous learning? Why does it matter to you?"
-        ]
-    },
-    'gate exam': {
-        'Beginner': [
-            "What is the difference between a compiler and an interpreter?",
-            "Explain the concept of time complexity with an example.",
-            "What is a binary search tree?",
-            "Describe the working of a stack data structure.",
-            "What is the difference between TCP and UDP?"
-        ],
-        'Intermediate': [
-            "Explain the concept of dynamic programming with an example.",
-            "What is the difference between BFS and DFS?",
-            "Describe the working of a hash table.",
-            "What is normalization in databases?",
-            "Explain the concept of virtual memory."
-        ],
-        'Advanced': [
-            "Explain the A* search algorithm.",
-            "What is the difference between NP-hard and NP-complete problems?",
-            "Describe the working of a B-tree.",
-            "Explain the concept of deadlock in operating systems.",
-            "What is the CAP theorem in distributed systems?"
-        ]
-    },
-    'upsc exam': {
-        'Beginner': [
-            "What is the preamble of the Indian Constitution?",
-            "Explain the three branches of government in India.",
-            "What is the difference between fundamental rights and directive principles?",
-            "Describe the federal structure of India.",
-            "What is the role of the Election Commission of India?"
-        ],
-        'Intermediate': [
-            "Explain the concept of secularism in the Indian Constitution.",
-            "What are the powers of the President of India?",
-            "Describe the functions of the Parliament.",
-            "What is the significance of the 73rd and 74th Constitutional Amendments?",
-            "Explain the concept of judicial review in India."
-        ],
-        'Advanced': [
-            "Discuss the challenges to federalism in India.",
-            "Explain the concept of basic structure doctrine.",
-            "What are the implications of the Right to Privacy judgment?",
-            "Discuss the role of the Supreme Court in protecting fundamental rights.",
-            "Explain the concept of cooperative federalism in India."
-        ]
-    }
+Keep it simple and conversational.${avoidRepetitionContext}${subject === Subject.English ? getMistakeFocusPrompt(focusMistakes) : ''}`;
 };
 
-const getFallbackQuestion = (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = []): string => {
-    console.log('getFallbackQuestion called with:', { subject, difficulty, previousQuestionsCount: previousQuestions.length });
-    const subjectStr = typeof subject === 'string' ? subject.toLowerCase() : String(subject).toLowerCase();
-    const difficultyKey = difficulty as 'Beginner' | 'Intermediate' | 'Advanced';
-
-    console.log('Looking for fallback questions:', { subject, subjectStr, difficulty: difficultyKey });
-
-    let questions = fallbackQuestions[subjectStr]?.[difficultyKey];
-    console.log('Direct lookup result:', { questions: questions ? questions.length : 'undefined', subjectStr, difficultyKey });
-
-    // If no questions for this subject, try to find a suitable fallback
-    if (!questions || questions.length === 0) {
-        console.log('No direct questions found, trying fallbacks...');
-        // For programming languages, use javascript
-        if (['java', 'python', 'typescript', 'c++', 'c#', 'go', 'rust', 'kotlin', 'swift', 'php', 'ruby'].includes(subjectStr)) {
-            questions = fallbackQuestions['javascript']?.[difficultyKey];
-            console.log('Using javascript fallback:', questions ? questions.length : 'undefined');
-        }
-        // For DSA related
-        else if (subjectStr.includes('data') || subjectStr.includes('algorithm') || subjectStr.includes('dsa')) {
-            questions = fallbackQuestions['data structures and algorithms']?.[difficultyKey];
-            console.log('Using DSA fallback:', questions ? questions.length : 'undefined');
-        }
-        // For HR interviews
-        else if (subjectStr.includes('hr') || subjectStr.includes('behavioral')) {
-            questions = fallbackQuestions['hr interview']?.[difficultyKey];
-            console.log('Using HR fallback:', questions ? questions.length : 'undefined');
-        }
-        // For English/communication
-        else if (subjectStr.includes('english') || subjectStr.includes('communication')) {
-            questions = fallbackQuestions['english speaking practice']?.[difficultyKey];
-            console.log('Using English fallback:', questions ? questions.length : 'undefined');
-        }
-        // For GATE exam
-        else if (subjectStr.includes('gate')) {
-            questions = fallbackQuestions['gate exam']?.[difficultyKey];
-            console.log('Using GATE fallback:', questions ? questions.length : 'undefined');
-        }
-        // For UPSC exam
-        else if (subjectStr.includes('upsc')) {
-            questions = fallbackQuestions['upsc exam']?.[difficultyKey];
-            console.log('Using UPSC fallback:', questions ? questions.length : 'undefined');
-        }
-        // For companies or unknown subjects, use technical questions
-        else {
-            // Use JavaScript questions for companies, as most tech companies ask coding questions
-            questions = fallbackQuestions['javascript']?.[difficultyKey] || fallbackQuestions['hr interview']?.[difficultyKey];
-            console.log('Using default fallback:', questions ? questions.length : 'undefined');
-        }
-    }
 
-    if (questions && questions.length > 0) {
-        // Get questions that haven't been asked yet
-        const unusedQuestions = questions.filter(q => !previousQuestions.includes(q));
-        const selectedQuestion = unusedQuestions.length > 0
-            ? unusedQuestions[Math.floor(Math.random() * unusedQuestions.length)]
-            : questions[Math.floor(Math.random() * questions.length)];
+/**
+ * A question from the offline bank for when neither the backend nor Gemini is reachable
+ */
+const getFallbackQuestion = (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = []): string =>
+    pickBankQuestion(subject, difficulty, previousQuestions)?.question
+        ?? "So, what's your experience with this? Tell me about what you've worked on.";
 
-        console.log('Returning fallback question:', selectedQuestion);
-        return selectedQuestion;
-    }
-
-    // Ultimate fallback
-    return "So, what's your experience with this? Tell me about what you've worked on.";
-};
-
-const generateQuestionViaGemini = async (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = []): Promise<string> => {
+const generateQuestionViaGemini = async (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = [], focusMistakes: string[] = [], companyRound?: CompanyRoundContext): Promise<string> => {
     console.log('generateQuestionViaGemini called');
     try {
-        const prompt = getQuestionGenerationPrompt(subject, difficulty, previousQuestions);
+        const prompt = getQuestionGenerationPrompt(subject, difficulty, previousQuestions, focusMistakes, companyRound);
         console.log('Generated prompt for Gemini');
 
         const response = await getAi().models.generateContent({
@@ -548,7 +371,12 @@ const generateQuestionViaGemini = async (subject: Subject | string, difficulty:
     }
 };
 
-export const generateQuestion = async (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = []): Promise<string> => {
+/**
+ * Ask for the next question. For English practice, `focusMistakes` are rule names of the
+ * user's recurring mistakes, and the question is steered towards practising them. In company
+ * interviews, `companyRound` is the round being run, which sets the style of question.
+ */
+export const generateQuestion = async (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = [], focusMistakes: string[] = [], companyRound?: CompanyRoundContext): Promise<string> => {
     console.log('generateQuestion called with:', { subject, difficulty, previousQuestionsCount: previousQuestions.length });
 
     const apiKey = getApiKey();
@@ -569,6 +397,9 @@ export const generateQuestion = async (subject: Subject | string, difficulty: Di
                 subject,
                 difficulty,
                 previousQuestions,
+                focusMistakes,
+                company: companyRound?.company,
+                round: companyRound?.round,
             }),
         }, BACKEND_TIMEOUT_MS);
 
@@ -596,7 +427,7 @@ export const generateQuestion = async (subject: Subject | string, difficulty: Di
         try {
             console.log('Falling back to direct Gemini question generation...');
             const question = await withTimeout(
-                generateQuestionViaGemini(subject, difficulty, previousQuestions),
+                generateQuestionViaGemini(subject, difficulty, previousQuestions, focusMistakes, companyRound),
                 GEMINI_TIMEOUT_MS,
                 'Gemini question generation'
             );
@@ -613,27 +444,121 @@ export const generateQuestion = async (subject: Subject | string, difficulty: Di
 
     console.log('Falling back to local questions...');
     // Fallback to local questions if API and Gemini both fail or no key available
-    const fallbackQuestion = getFallbackQuestion(subject, difficulty, previousQuestions);
-    if (!fallbackQuestion) {
-        console.error('❌ No fallback question available! This should not happen.');
-        return "Tell me about your experience with this technology.";
-    }
+    // Company rounds fall back to the questions of the subject they're scored as
+    const fallbackSubject = companyRound ? getRoundSubject(companyRound.company, companyRound.round) : subject;
+    const fallbackQuestion = getFallbackQuestion(fallbackSubject, difficulty, previousQuestions);
     console.log('✅ Returning fallback question:', fallbackQuestion);
     return fallbackQuestion;
 };
 
+const followUpSchema = {
+    type: Type.OBJECT,
+    properties: {
+        askFollowUp: {
+            type: Type.BOOLEAN,
+            description: "True if the candidate's last answer warrants drilling down with a follow-up question."
+        },
+        question: {
+            type: Type.STRING,
+            description: "The follow-up question, referencing the candidate's previous answer. Empty when askFollowUp is false."
+        }
+    },
+    required: ["askFollowUp", "question"]
+};
+
+const getFollowUpPrompt = (subject: Subject | string, difficulty: Difficulty, history: ConversationTurn[], lastScore: number): string => {
+    const transcript = history
+        .map(turn => `${turn.role === 'interviewer' ? 'Interviewer' : 'Candidate'}: ${turn.text}`)
+        .join('\n');
+
+    return `You're interviewing a candidate on '${subject}' at ${difficulty} level. Here is the conversation on the current question so far:
+
+${transcript}
+
+Their last answer scored ${lastScore}/10. Decide whether a real interviewer would drill down here: probe a vague claim, ask them to go deeper on something they mentioned, or check a gap in their reasoning. If the answer was complete or the thread has run its course, don't ask a follow-up.
+
+If you do ask, ask EXACTLY ONE short follow-up question that directly references something from their last answer. No lists or multiple parts.
+
+Return JSON like this: {"askFollowUp": true, "question": "You mentioned X - how would ...?"} or {"askFollowUp": false, "question": ""}`;
+};
+
+const generateFollowUpQuestionViaGemini = async (subject: Subject | string, difficulty: Difficulty, history: ConversationTurn[], lastScore: number): Promise<string | null> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: getFollowUpPrompt(subject, difficulty, history, lastScore),
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: followUpSchema,
+            temperature: 0.7,
+            maxOutputTokens: 160,
+            thinkingConfig: { thinkingBudget: 0 }
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    const question = typeof parsed?.question === 'string' ? parsed.question.trim() : '';
+    return parsed?.askFollowUp && question ? question : null;
+};
+
+/**
+ * Ask the model whether to drill down on the candidate's last answer.
+ * Resolves to the follow-up question, or null when the model (or an unavailable backend) says move on.
+ */
+export const generateFollowUpQuestion = async (subject: Subject | string, difficulty: Difficulty, history: ConversationTurn[], lastScore: number): Promise<string | null> => {
+    try {
+        const data = await postToBackend<{ askFollowUp?: boolean; question?: string }>('/api/follow-up', { subject, difficulty, history, lastScore }, BACKEND_TIMEOUT_MS);
+        const question = typeof data?.question === 'string' ? data.question.trim() : '';
+        return data?.askFollowUp && question ? question : null;
+    } catch (error) {
+        console.error('❌ Error calling backend /api/follow-up:', error);
+    }
+
+    if (!getApiKey()) {
+        return null;
+    }
+
+    try {
+        return await withTimeout(
+            generateFollowUpQuestionViaGemini(subject, difficulty, history, lastScore),
+            GEMINI_TIMEOUT_MS,
+            'Gemini follow-up generation'
+        );
+    } catch (error) {
+        console.error('❌ Error generating follow-up question:', error);
+        return null;
+    }
+};
+
+const askCustomQuestionViaGemini = async (question: string, subject: Subject | string, difficulty: Difficulty): Promise<string> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: `You're a friendly interview coach helping someone prepare for ${subject} at the ${difficulty} level. They're asking: "${question}". Give them a helpful, straight answer (keep it under 150 words). Sound like a real person, not a textbook. Be encouraging and practical. Don't ask them follow-up questions.`,
+        config: {
+            temperature: 0.6,
+            maxOutputTokens: 220,
+            thinkingConfig: { thinkingBudget: 0 }
+        }
+    });
+    return (response.text || '').trim();
+};
+
 export const askCustomQuestion = async (question: string, subject: Subject | string, difficulty: Difficulty): Promise<string> => {
     try {
-        const response = await getAi().models.generateContent({
-            model,
-            contents: `You're a friendly interview coach helping someone prepare for ${subject} at the ${difficulty} level. They're asking: "${question}". Give them a helpful, straight answer (keep it under 150 words). Sound like a real person, not a textbook. Be encouraging and practical. Don't ask them follow-up questions.`,
-            config: {
-                temperature: 0.6,
-                maxOutputTokens: 220,
-                thinkingConfig: { thinkingBudget: 0 }
-            }
-        });
-        const text = (response.text || '').trim();
+        const data = await postToBackend<{ answer?: string }>('/api/ask', { question, subject, difficulty }, BACKEND_TIMEOUT_MS);
+        const answer = typeof data?.answer === 'string' ? data.answer.trim() : '';
+        if (answer) {
+            return answer;
+        }
+    } catch (error) {
+        console.error('❌ Error calling backend /api/ask:', error);
+    }
+
+    if (!getApiKey()) {
+        return "Sorry, I hit a snag answering that. Please try again.";
+    }
+
+    try {
+        const text = await askCustomQuestionViaGemini(question, subject, difficulty);
         if (!text) {
             return "I couldn't get you an answer just then. Try rephrasing and asking again?";
         }
@@ -644,7 +569,28 @@ export const askCustomQuestion = async (question: string, subject: Subject | str
     }
 };
 
-const getEvaluationPrompt = (question: string, answer: string, subject: Subject, difficulty: Difficulty, withVisualAnalysis: boolean): string => {
+const describeRubric = (subject: Subject | string): string => {
+    const criteria = getRubric(subject).map(({ dimension, description }) => `- ${dimension}: ${description}`);
+    return `Also score each of these dimensions from 0 to 10 in 'rubricScores':\n${criteria.join('\n')}\nThe overall 'score' should be consistent with them.`;
+};
+
+const STAR_INSTRUCTIONS = `This is a behavioral answer, so also break it down with the STAR method in 'starAnalysis.elements', one entry each for situation, task, action and result:
+- 'strength': 'strong' if it's clearly there with specifics, 'weak' if it's vague or only implied, 'missing' if it isn't there
+- 'excerpt': the words from their answer that cover it, copied exactly (empty when missing)
+- 'comment': one short sentence on what's there or what to add
+Call out the missing and weak parts in the feedback.`;
+
+const getCorrectionInstructions = (focusMistakes: string[]): string => `This is English speaking practice, so also correct their language in 'corrections'. For each mistake give:
+- 'original': the wrong words exactly as they appear in their answer, just the phrase that's wrong
+- 'corrected': how it should have been said
+- 'type': 'grammar', 'vocabulary' for a wrong or unnatural word, or 'pronunciation' when a word makes no sense in context (the answer came from speech recognition, so it was probably mispronounced)
+- 'rule': a short rule name, one of ${CORRECTION_RULES.join(', ')} where it fits
+- 'explanation': one sentence explaining the rule
+Don't correct informal but natural spoken English, and leave 'corrections' empty if there's nothing to fix.${focusMistakes.length > 0
+    ? `\nThey keep making these mistakes: ${focusMistakes.join(', ')}. Check carefully for them and say in the feedback whether they avoided them this time.`
+    : ''}`;
+
+const getEvaluationPrompt = (question: string, answer: string, subject: Subject, difficulty: Difficulty, withVisualAnalysis: boolean, focusMistakes: string[] = []): string => {
     let evaluationCriteria: string;
     let examContext: string = '';
 
@@ -678,135 +624,739 @@ const getEvaluationPrompt = (question: string, answer: string, subject: Subject,
         Question they were asked: "${question}"
         Their answer: "${answer}"
 
+        ${describeRubric(subject)}
+        ${subject === Subject.HR ? STAR_INSTRUCTIONS : ''}
+        ${subject === Subject.English ? getCorrectionInstructions(focusMistakes) : ''}
+
         Give them real, human feedback. Be honest but kind. Return JSON with:
         1. 'score': A number from 0-10
         2. 'feedback': What you really think about their answer (honest, encouraging, specific)
         3. 'suggestedAnswer': How an ideal answer to this question might sound
-        ${withVisualAnalysis ? "4. 'nonVerbalFeedback': Your thoughts on their presence and confidence (based on their image)" : ""}
+        4. 'rubricScores': The per-dimension scores above
+        ${withVisualAnalysis ? "5. 'nonVerbalFeedback': Your thoughts on their presence and confidence (based on their image)" : ""}
     `;
 };
 
 
-export const evaluateAnswer = async (question: string, answer: string, subject: Subject, difficulty: Difficulty, imageB64Data?: string | null): Promise<Feedback> => {
-    try {
-        const withVisualAnalysis = difficulty === 'Advanced' && !!imageB64Data;
-        const schema = withVisualAnalysis ? visualFeedbackSchema : baseFeedbackSchema;
-        const prompt = getEvaluationPrompt(question, answer, subject, difficulty, withVisualAnalysis);
+const MAX_REPORTED_FAILURES = 5;
 
-        let requestContents: any;
+const describeTestRun = (testRun: CodeTestRun): string => {
+    if (testRun.error && testRun.results.length === 0) {
+        return `\nWe tried to run their code but it failed before any test ran: ${testRun.error}\n`;
+    }
+    const failures = testRun.results
+        .filter(r => !r.passed)
+        .slice(0, MAX_REPORTED_FAILURES)
+        .map(r => `- args ${JSON.stringify(r.args)}: expected ${JSON.stringify(r.expected)}, ${r.error ? `threw ${r.error}` : `got ${r.actual ?? 'undefined'}`}`);
+    return `
+We ran their code against ${testRun.total} test case(s) and ${testRun.passed} passed.${testRun.error ? ` The run was stopped: ${testRun.error}.` : ''}
+${failures.length > 0 ? `Failing cases:\n${failures.join('\n')}\n` : ''}These results are real execution output: base the correctness score on them, and explain any failures in the feedback.
+`;
+};
 
-        if (withVisualAnalysis && imageB64Data) {
-            requestContents = [
-                {
-                    role: "user",
-                    parts: [
-                        { text: prompt },
-                        {
-                            inlineData: {
-                                mimeType: 'image/jpeg',
-                                data: imageB64Data.split(',')[1], // remove dataURL prefix
-                            },
-                        }
-                    ]
-                }
-            ];
-        } else {
-            requestContents = prompt;
-        }
+const getCodeEvaluationPrompt = (question: string, code: string, language: CodingLanguage, subject: Subject, difficulty: Difficulty, testRun?: CodeTestRun): string => {
+    const languageName = getCodingLanguageName(language);
+    return `You're a ${difficulty}-level ${subject} coding interviewer reviewing a candidate's solution written in ${languageName}.
 
-        const response = await getAi().models.generateContent({
-            model,
-            contents: requestContents,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: schema,
-            }
-        });
+Problem: "${question}"
 
-        const jsonText = (response.text || '').trim();
-        let parsed: any;
-        try {
-            parsed = JSON.parse(jsonText);
-        } catch (e) {
-            const match = jsonText.match(/\{[\s\S]*\}/);
-            if (match) {
-                parsed = JSON.parse(match[0]);
-            } else {
-                throw new Error("Could not parse JSON from Gemini feedback");
+Their code:
+\`\`\`${language}
+${code}
+\`\`\`
+${testRun ? describeTestRun(testRun) : ''}
+Score it with this rubric, each 0-10:
+- correctness: does it solve the problem, including edge cases (empty input, duplicates, large values)? Trace through it rather than assuming.
+- complexity: are the time and space complexity appropriate? State the complexity you see in the feedback.
+- style: naming, structure, readability and idiomatic ${languageName}.
+
+Weight correctness most heavily in the overall 'score' (0-10); code that doesn't work can't score above 4. Point to specific lines or constructs in the feedback. Put a clean reference solution in ${languageName} in 'suggestedAnswer'.
+
+Return JSON with 'score', 'feedback', 'suggestedAnswer' and 'codeScores' ({"correctness", "complexity", "style"}).`;
+};
+
+const getDesignEvaluationPrompt = (question: string, answer: string, diagram: SystemDiagram, subject: Subject, difficulty: Difficulty): string => `You're a ${difficulty}-level ${subject} system design interviewer. The candidate drew an architecture diagram and talked you through it.
+
+Design problem: "${question}"
+
+Their diagram:
+${describeDiagram(diagram)}
+
+What they said: "${answer}"
+
+Judge the design as a whole: does it meet the problem's requirements, are the components and connections sensible, and did they explain the trade-offs?
+${describeRubric(subject)}
+
+Then give feedback on specific components in 'componentFeedback'. Each entry gives one component's id as listed in the diagram (e.g. 'n1') in 'component', a 'concern' and a short comment:
+- 'scalability': it won't keep up as traffic or data grows, e.g. a single instance with no way to scale out
+- 'bottleneck': everything funnels through it, or it sits on the hot path doing slow work
+- 'dataStore': the wrong kind of store for the data or access pattern, a missing index, cache or replica, or unclear consistency
+- 'reliability': a single point of failure, or no retries, redundancy or backpressure
+Only comment on real problems, at most one or two per component. If something important is missing from the diagram altogether, say so in 'feedback' instead.
+
+Return JSON with 'score' (0-10), 'feedback', 'suggestedAnswer' (a short description of a strong design for this problem), 'rubricScores' and 'componentFeedback'.`;
+
+const evaluateAnswerViaGemini = async (question: string, answer: string, subject: Subject, difficulty: Difficulty, imageB64Data?: string | null, codeLanguage?: CodingLanguage, testRun?: CodeTestRun, focusMistakes: string[] = [], diagram?: SystemDiagram): Promise<Feedback> => {
+    // Design answers are judged on their diagram rather than the webcam frame
+    const withVisualAnalysis = !codeLanguage && !diagram && difficulty === 'Advanced' && !!imageB64Data;
+    const feedbackSchema = codeLanguage ? codeFeedbackSchema : withVisualAnalysis ? visualFeedbackSchema : baseFeedbackSchema;
+    // HR answers are also broken down with the STAR method, and English answers get language corrections
+    const withStar = !codeLanguage && !diagram && subject === Subject.HR;
+    const withLanguageCorrections = !codeLanguage && !diagram && subject === Subject.English;
+    const schema = diagram
+        ? withComponentFeedback(feedbackSchema)
+        : withStar
+            ? withStarAnalysis(feedbackSchema)
+            : withLanguageCorrections ? withCorrections(feedbackSchema) : feedbackSchema;
+    const prompt = codeLanguage
+        ? getCodeEvaluationPrompt(question, answer, codeLanguage, subject, difficulty, testRun)
+        : diagram
+            ? getDesignEvaluationPrompt(question, answer, diagram, subject, difficulty)
+            : getEvaluationPrompt(question, answer, subject, difficulty, withVisualAnalysis, focusMistakes);
+
+    let requestContents: any;
+
+    if (withVisualAnalysis && imageB64Data) {
+        requestContents = [
+            {
+                role: "user",
+                parts: [
+                    { text: prompt },
+                    {
+                        inlineData: {
+                            mimeType: 'image/jpeg',
+                            data: imageB64Data.split(',')[1], // remove dataURL prefix
+                        },
+                    }
+                ]
             }
+        ];
+    } else {
+        requestContents = prompt;
+    }
+
+    const response = await getAi().models.generateContent({
+        model,
+        contents: requestContents,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: schema,
         }
-        
-        return parsed as Feedback;
+    });
+
+    const parsed = parseModelJson(response.text);
+    if (!isFeedback(parsed)) {
+        throw new Error("Gemini feedback is missing a score");
+    }
+    // Code answers are scored on codeScores instead of the subject rubric
+    return {
+        ...parsed,
+        rubricScores: codeLanguage ? undefined : normalizeRubricScores(parsed.rubricScores, subject),
+        starAnalysis: withStar ? normalizeStarAnalysis(parsed.starAnalysis, answer) : undefined,
+        corrections: withLanguageCorrections ? normalizeCorrections(parsed.corrections, answer) : undefined,
+        componentFeedback: diagram ? normalizeComponentFeedback(parsed.componentFeedback, diagram) : undefined,
+    };
+};
+
+/**
+ * Score an answer. Spoken answers come back with `rubricScores` for the subject family's
+ * dimensions, HR answers with a STAR breakdown in `starAnalysis`, and English answers with
+ * language `corrections`.
+ *
+ * `imageB64Data` is a webcam frame, used for body language feedback in Advanced sessions.
+ * `codeLanguage` marks the answer as code from the editor, scored against the coding rubric
+ * with the sub-scores in `codeScores`, and `testRun` is the result of executing that code, so
+ * correctness reflects whether it works. `focusMistakes` are rule names of the user's recurring
+ * English mistakes, which the corrections check especially. With a `diagram` the answer is a
+ * system design walkthrough, and comes back with `componentFeedback` on the boxes it names.
+ */
+export const evaluateAnswer = async (question: string, answer: string, subject: Subject, difficulty: Difficulty, imageB64Data?: string | null, codeLanguage?: CodingLanguage, testRun?: CodeTestRun, focusMistakes: string[] = [], diagram?: SystemDiagram): Promise<Feedback> => {
+    // Prefer the backend so the Gemini key can stay on the server
+    try {
+        const data = await postToBackend<Feedback>('/api/evaluate-answer', { question, answer, subject, difficulty, imageB64Data, codeLanguage, testRun, focusMistakes, diagram }, BACKEND_LONG_TIMEOUT_MS);
+        if (isFeedback(data)) {
+            return data;
+        }
+        console.error('Backend returned malformed feedback:', data);
+    } catch (error) {
+        console.error('❌ Error calling backend /api/evaluate-answer:', error);
+    }
 
+    try {
+        if (!getApiKey()) {
+            throw new Error('No Gemini API key available for direct evaluation');
+        }
+        return await evaluateAnswerViaGemini(question, answer, subject, difficulty, imageB64Data, codeLanguage, testRun, focusMistakes, diagram);
     } catch (error) {
         console.error("Error evaluating answer:", error);
+        // Offline questions come from the bank, which has a reference answer to compare against
+        const bankQuestion = findBankQuestion(question);
         return {
             score: 0,
             feedback: "Oops, something went wrong while I was evaluating your answer. It might be a network hiccup or a content issue. Want to give it another shot or try a different answer?",
-            suggestedAnswer: "No suggestion available right now.",
+            suggestedAnswer: bankQuestion ? describeBankAnswer(bankQuestion) : "No suggestion available right now.",
             error: true
         };
     }
 };
 
-// Resume-based interview functions
-const resumeParsingSchema = {
+const getCodingQuestionPrompt = (subject: Subject | string, language: CodingLanguage, difficulty: Difficulty, previousQuestions: string[]): string => {
+    const avoid = previousQuestions.length > 0
+        ? `\n\nDo NOT repeat any of these:\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+        : '';
+    const scope = difficulty === 'Beginner'
+        ? "an EASY problem: arrays, strings or simple loops, solvable in under 15 lines"
+        : difficulty === 'Intermediate'
+            ? "a MEDIUM problem: hash maps, two pointers, sorting, recursion or basic trees"
+            : "a HARD problem: dynamic programming, graphs, or an efficient solution to a problem with an obvious slow one";
+
+    return `You're a coding interviewer for '${subject}'. Set ${scope}, to be solved in ${getCodingLanguageName(language)}.
+
+Describe it in 2-4 sentences: what the function receives, what it must return, and one small example input with its expected output. Name the function to write. Don't include a solution or hints.
+
+Also give the function's exact name and four to six test cases, including edge cases, as JSON-encoded arguments and expected return values. Only use inputs and outputs that JSON can represent, and make sure every expected value is the single correct answer.${avoid}
+
+Return JSON like this: {"question": "Write a function twoSum(nums, target) ...", "functionName": "twoSum", "testCases": [{"args": "[[2, 7, 11, 15], 9]", "expected": "[0, 1]"}]}`;
+};
+
+const codingQuestionSchema = {
     type: Type.OBJECT,
     properties: {
-        skills: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "List of technical and professional skills found in the resume"
-        },
-        projects: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "List of projects and their descriptions found in the resume"
+        question: {
+            type: Type.STRING,
+            description: "The problem statement: what the function receives, what it returns, and one small example."
         },
-        experience: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "List of work experience and roles mentioned in the resume"
+        functionName: {
+            type: Type.STRING,
+            description: "The exact name of the function the candidate must write, e.g. twoSum"
         },
-        education: {
+        testCases: {
             type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "List of educational qualifications mentioned in the resume"
-        },
-        suggestions: {
-            type: Type.OBJECT,
-            properties: {
-                toAdd: {
-                    type: Type.ARRAY,
-                    items: { type: Type.STRING },
-                    description: "Skills the candidate should consider adding based on their goals/projects"
-                },
-                toRemove: {
-                    type: Type.ARRAY,
-                    items: { type: Type.STRING },
-                    description: "Outdated or irrelevant skills/buzzwords they should consider removing"
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    args: { type: Type.STRING, description: "JSON array of the arguments to call the function with, e.g. \"[[2, 7, 11, 15], 9]\"" },
+                    expected: { type: Type.STRING, description: "JSON of the exact return value expected, e.g. \"[0, 1]\"" }
                 },
-                justification: {
-                    type: Type.STRING,
-                    description: "A brief, professional explanation for these suggestions"
-                }
+                required: ["args", "expected"]
             },
-            required: ["toAdd", "toRemove", "justification"]
+            description: "Four to six test cases including edge cases. Expected values must be the only correct answer (no \"any order\")."
         }
     },
-    required: ["skills", "projects", "experience", "education", "suggestions"]
+    required: ["question", "functionName", "testCases"]
 };
 
-export const parseResumeText = async (resumeText: string): Promise<ResumeData> => {
-    try {
-        const response = await getAi().models.generateContent({
-            model,
-            contents: [
-                {
-                    role: "user",
-                    parts: [
-                        {
-                            text: `Please analyze this resume and extract the following information in JSON format:
+// Test cases come back with JSON-encoded args and expected values; decode them and drop any that don't parse
+const parseModelTestCases = (value: unknown): CodeTestCase[] => {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap(raw => {
+        try {
+            const args = JSON.parse(raw?.args);
+            const expected = JSON.parse(raw?.expected);
+            return Array.isArray(args) ? [{ args, expected }] : [];
+        } catch {
+            return [];
+        }
+    });
+};
+
+const isCodeTestCase = (value: any): value is CodeTestCase =>
+    !!value && Array.isArray(value.args) && 'expected' in value;
+
+const toCodingQuestion = (data: any): CodingQuestion | null => {
+    const question = typeof data?.question === 'string' ? data.question.trim() : '';
+    if (!question) return null;
+    const functionName = typeof data.functionName === 'string' ? data.functionName.trim() : '';
+    const testCases = Array.isArray(data.testCases) ? data.testCases.filter(isCodeTestCase) : [];
+    return functionName && testCases.length > 0 ? { question, functionName, testCases } : { question };
+};
+
+const generateCodingQuestionViaGemini = async (subject: Subject | string, language: CodingLanguage, difficulty: Difficulty, previousQuestions: string[]): Promise<CodingQuestion | null> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: getCodingQuestionPrompt(subject, language, difficulty, previousQuestions),
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: codingQuestionSchema,
+            temperature: 0.8,
+            maxOutputTokens: 800,
+            thinkingConfig: { thinkingBudget: 0 }
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    return toCodingQuestion({ ...parsed, testCases: parseModelTestCases(parsed?.testCases) });
+};
+
+/**
+ * A coding problem to solve in the editor, with the function name and test cases when the
+ * model supplied usable ones. Resolves to null when neither the backend nor Gemini is
+ * reachable so the caller can use an offline problem.
+ */
+export const generateCodingQuestion = async (subject: Subject | string, language: CodingLanguage, difficulty: Difficulty, previousQuestions: string[] = []): Promise<CodingQuestion | null> => {
+    try {
+        const data = await postToBackend<CodingQuestion>('/api/coding/question', { subject, language, difficulty, previousQuestions }, BACKEND_TIMEOUT_MS);
+        const codingQuestion = toCodingQuestion(data);
+        if (codingQuestion) {
+            return codingQuestion;
+        }
+    } catch (error) {
+        console.error('❌ Error calling backend /api/coding/question:', error);
+    }
+
+    if (!getApiKey()) {
+        return null;
+    }
+
+    try {
+        return await withTimeout(
+            generateCodingQuestionViaGemini(subject, language, difficulty, previousQuestions),
+            GEMINI_TIMEOUT_MS,
+            'Gemini coding question generation'
+        );
+    } catch (error) {
+        console.error('❌ Error generating coding question:', error);
+        return null;
+    }
+};
+
+const OBJECTIVE_LEVELS: Record<Difficulty, string> = {
+    Beginner: "EASY questions: one step, on the basics of each topic",
+    Intermediate: "MEDIUM questions: two or three steps, typical of the real paper",
+    Advanced: "HARD questions: the trickiest the paper asks, with tempting wrong options",
+};
+
+const getObjectiveQuestionsPrompt = (exam: string, section: TestSection, difficulty: Difficulty, previousQuestions: string[]): string => {
+    const avoid = previousQuestions.length > 0
+        ? `\n\nDo NOT repeat any of these:\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+        : '';
+    const mix = section.numerical
+        ? "Make most of them multiple choice ('mcq') and about a third numerical answer type ('numerical'), where the candidate types a number."
+        : "Make all of them multiple choice ('mcq').";
+
+    return `You're setting the ${section.name} section of a ${exam} practice test. Write ${section.questionCount} ${OBJECTIVE_LEVELS[difficulty]}, spread across these topics: ${section.topics.join(', ')}.
+
+${mix} For each question give:
+- 'type': 'mcq' or 'numerical'
+- 'question': the full question, with every number and detail needed to solve it
+- 'options' (mcq only): exactly four distinct options, with plausible wrong ones
+- 'correctOption' (mcq only): the index (0-3) of the single correct option
+- 'correctValue' (numerical only): the answer as a plain number
+- 'tolerance' (numerical only): how far an answer may be from it and still count; 0 for exact answers, 0.01 for answers rounded to two decimals
+- 'explanation': a short worked solution
+- 'topic': exactly one of the topics above
+- 'marks': 1, or 2 for the harder questions
+
+Solve every question yourself before writing it down, and make sure exactly one option is correct.${avoid}
+
+Return JSON like this: {"questions": [{"type": "mcq", "question": "...", "options": ["...", "...", "...", "..."], "correctOption": 2, "explanation": "...", "topic": "...", "marks": 1}]}`;
+};
+
+const objectiveQuestionsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        questions: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: ["mcq", "numerical"] },
+                    question: { type: Type.STRING },
+                    options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Exactly four options; multiple choice only." },
+                    correctOption: { type: Type.INTEGER, description: "Index (0-3) of the correct option; multiple choice only." },
+                    correctValue: { type: Type.NUMBER, description: "The answer; numerical questions only." },
+                    tolerance: { type: Type.NUMBER, description: "Allowed distance from correctValue; numerical questions only." },
+                    explanation: { type: Type.STRING, description: "A short worked solution." },
+                    topic: { type: Type.STRING },
+                    marks: { type: Type.INTEGER, description: "1, or 2 for harder questions." }
+                },
+                required: ["type", "question", "explanation", "topic", "marks"]
+            }
+        }
+    },
+    required: ["questions"]
+};
+
+const generateObjectiveQuestionsViaGemini = async (exam: string, section: TestSection, difficulty: Difficulty, previousQuestions: string[]): Promise<ObjectiveQuestion[]> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: getObjectiveQuestionsPrompt(exam, section, difficulty, previousQuestions),
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: objectiveQuestionsSchema,
+            temperature: 0.7,
+            maxOutputTokens: 4000
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    return normalizeObjectiveQuestions(parsed?.questions, section);
+};
+
+/**
+ * Multiple-choice and numerical questions for one section of a practice test, checked against the
+ * schema so they can be graded without the model. May return fewer than the section needs, and
+ * resolves to null when neither the backend nor Gemini is reachable so the caller can use the
+ * offline bank.
+ */
+export const generateObjectiveQuestions = async (exam: string, section: TestSection, difficulty: Difficulty, previousQuestions: string[] = []): Promise<ObjectiveQuestion[] | null> => {
+    try {
+        const data = await postToBackend<{ questions?: unknown }>('/api/objective-questions', { exam, section, difficulty, previousQuestions }, BACKEND_LONG_TIMEOUT_MS);
+        const questions = normalizeObjectiveQuestions(data?.questions, section);
+        if (questions.length > 0) {
+            return questions;
+        }
+    } catch (error) {
+        console.error('❌ Error calling backend /api/objective-questions:', error);
+    }
+
+    if (!getApiKey()) {
+        return null;
+    }
+
+    try {
+        return await generateObjectiveQuestionsViaGemini(exam, section, difficulty, previousQuestions);
+    } catch (error) {
+        console.error('❌ Error generating objective questions:', error);
+        return null;
+    }
+};
+
+const MAINS_LEVELS: Record<Difficulty, string> = {
+    Beginner: "a direct question on one well-known issue, with a simple directive like 'Discuss' or 'Explain'",
+    Intermediate: "a question typical of recent Mains papers, linking the static syllabus to a current issue",
+    Advanced: "a multi-dimensional question with a demanding directive like 'Critically examine' or 'Evaluate', the kind toppers separate themselves on",
+};
+
+const getMainsQuestionPrompt = (settings: AnswerWritingSettings, difficulty: Difficulty, previousQuestions: string[]): string => {
+    const paper = MAINS_PAPERS[settings.paper];
+    const avoid = previousQuestions.length > 0
+        ? `\n\nDo NOT repeat any of these:\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+        : '';
+    return `You're setting a UPSC Civil Services Mains question for ${paper.name}, which covers ${paper.topics.join(', ')}. Write ${MAINS_LEVELS[difficulty]}.
+
+It is a ${WORD_LIMITS[settings.wordLimit].marks}-mark question, so it must be answerable in ${settings.wordLimit} words. Word it exactly as the paper would, ending with the word limit and marks in brackets, e.g. "(${settings.wordLimit} words, ${WORD_LIMITS[settings.wordLimit].marks} marks)".${settings.paper === 'GS4' ? ' It may be a short ethics case study.' : ''}${avoid}
+
+Return JSON with 'question'.`;
+};
+
+const generateMainsQuestionViaGemini = async (settings: AnswerWritingSettings, difficulty: Difficulty, previousQuestions: string[]): Promise<string> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: getMainsQuestionPrompt(settings, difficulty, previousQuestions),
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: questionSchema,
+            temperature: 0.8,
+            maxOutputTokens: 400
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    return typeof parsed?.question === 'string' ? parsed.question.trim() : '';
+};
+
+/**
+ * A Mains question for the paper and word limit, or null when neither the backend nor Gemini is
+ * reachable so the caller can use the offline bank
+ */
+export const generateMainsQuestion = async (settings: AnswerWritingSettings, difficulty: Difficulty, previousQuestions: string[] = []): Promise<string | null> => {
+    try {
+        const data = await postToBackend<{ question?: string }>('/api/mains-question', { ...settings, difficulty, previousQuestions }, BACKEND_TIMEOUT_MS);
+        if (data?.question) {
+            return data.question;
+        }
+    } catch (error) {
+        console.error('❌ Error calling backend /api/mains-question:', error);
+    }
+
+    if (!getApiKey()) {
+        return null;
+    }
+
+    try {
+        return (await generateMainsQuestionViaGemini(settings, difficulty, previousQuestions)) || null;
+    } catch (error) {
+        console.error('❌ Error generating Mains question:', error);
+        return null;
+    }
+};
+
+const mainsFeedbackSchema = {
+    type: Type.OBJECT,
+    properties: {
+        score: {
+            type: Type.INTEGER,
+            description: "A score from 0 to 10 for the answer as a whole."
+        },
+        feedback: {
+            type: Type.STRING,
+            description: "What an examiner would tell the candidate: what earned marks, what lost them and what to change next time."
+        },
+        suggestedAnswer: {
+            type: Type.STRING,
+            description: "A model answer within the word limit, with an introduction, sub-headed body and conclusion."
+        },
+        criteria: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    criterion: { type: Type.STRING, enum: JUDGED_CRITERIA },
+                    score: { type: Type.INTEGER, description: "0-10" },
+                    comment: { type: Type.STRING, description: "One or two sentences on what is there or what to add." }
+                },
+                required: ["criterion", "score", "comment"]
+            }
+        }
+    },
+    required: ["score", "feedback", "suggestedAnswer", "criteria"]
+};
+
+const getMainsEvaluationPrompt = (question: string, answer: string, settings: AnswerWritingSettings, difficulty: Difficulty): string => {
+    const criteria = MAINS_CRITERIA
+        .filter(({ criterion }) => JUDGED_CRITERIA.includes(criterion))
+        .map(({ criterion, description }) => `- ${criterion}: ${description}`);
+    return `You're a UPSC Mains examiner marking a ${MAINS_PAPERS[settings.paper].name} answer from a ${difficulty}-level aspirant.
+
+Question (${settings.wordLimit} words, ${WORD_LIMITS[settings.wordLimit].marks} marks): "${question}"
+
+Their answer:
+"""
+${answer}
+"""
+
+Score each of these from 0 to 10 in 'criteria', with a short comment on each:
+${criteria.join('\n')}
+Word-limit adherence is measured separately, so don't score it.
+
+Mark the way real Mains examiners do: content that answers the directive matters most, and even good answers rarely score above 7. In 'feedback', say what earned marks, what lost them and what to change next time. Put a model answer of about ${settings.wordLimit} words in 'suggestedAnswer'.
+
+Return JSON with 'score' (0-10), 'feedback', 'suggestedAnswer' and 'criteria'.`;
+};
+
+/**
+ * Use the rubric's marks for the overall score, so the two can't disagree
+ */
+const toMainsFeedback = (parsed: any, answer: string, settings: AnswerWritingSettings): Feedback => {
+    const mainsEvaluation = normalizeMainsEvaluation(parsed.criteria, answer, settings);
+    return {
+        score: mainsEvaluation ? getMainsScore(mainsEvaluation) : parsed.score,
+        feedback: parsed.feedback,
+        suggestedAnswer: typeof parsed.suggestedAnswer === 'string' ? parsed.suggestedAnswer : '',
+        mainsEvaluation,
+    };
+};
+
+const evaluateMainsAnswerViaGemini = async (question: string, answer: string, settings: AnswerWritingSettings, difficulty: Difficulty): Promise<Feedback> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: getMainsEvaluationPrompt(question, answer, settings, difficulty),
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: mainsFeedbackSchema,
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    if (!isFeedback(parsed)) {
+        throw new Error("Gemini feedback is missing a score");
+    }
+    return toMainsFeedback(parsed, answer, settings);
+};
+
+/**
+ * Mark a written Mains answer against the examiner's rubric. The feedback comes back with
+ * `mainsEvaluation`: a score per criterion, word-limit adherence measured from the answer itself,
+ * and marks out of the question's maximum. `suggestedAnswer` holds a model answer.
+ */
+export const evaluateMainsAnswer = async (question: string, answer: string, settings: AnswerWritingSettings, difficulty: Difficulty): Promise<Feedback> => {
+    try {
+        const data = await postToBackend<Feedback>('/api/evaluate-mains-answer', { question, answer, ...settings, difficulty }, BACKEND_LONG_TIMEOUT_MS);
+        if (isFeedback(data)) {
+            return data;
+        }
+        console.error('Backend returned malformed feedback:', data);
+    } catch (error) {
+        console.error('❌ Error calling backend /api/evaluate-mains-answer:', error);
+    }
+
+    try {
+        if (!getApiKey()) {
+            throw new Error('No Gemini API key available for direct evaluation');
+        }
+        return await evaluateMainsAnswerViaGemini(question, answer, settings, difficulty);
+    } catch (error) {
+        console.error("Error evaluating Mains answer:", error);
+        return {
+            score: 0,
+            feedback: "Oops, something went wrong while I was marking your answer. It might be a network hiccup. Want to submit it again?",
+            suggestedAnswer: "No model answer available right now.",
+            error: true
+        };
+    }
+};
+
+const sessionReportSchema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: {
+            type: Type.STRING,
+            description: "Two or three sentences summarising how the session went overall."
+        },
+        strengths: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Specific things the candidate did well across their answers."
+        },
+        weaknesses: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Specific gaps or habits the candidate should work on."
+        },
+        topicsCovered: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Short topic names covered by the questions, e.g. 'Closures', 'Event loop'."
+        },
+        recommendedDifficulty: {
+            type: Type.STRING,
+            enum: ["Beginner", "Intermediate", "Advanced"],
+            description: "The difficulty the candidate should practise at next."
+        }
+    },
+    required: ["summary", "strengths", "weaknesses", "topicsCovered", "recommendedDifficulty"]
+};
+
+export type SessionReportNarrative = Pick<SessionReport, 'summary' | 'strengths' | 'weaknesses' | 'topicsCovered' | 'recommendedDifficulty'>;
+
+const isSessionReportNarrative = (value: any): value is SessionReportNarrative =>
+    !!value &&
+    typeof value.summary === 'string' &&
+    ['strengths', 'weaknesses', 'topicsCovered'].every(key => Array.isArray(value[key])) &&
+    ['Beginner', 'Intermediate', 'Advanced'].includes(value.recommendedDifficulty);
+
+const getSessionReportPrompt = (subject: Subject | string, difficulty: Difficulty, entries: FeedbackEntry[]): string => {
+    const transcript = entries
+        .map((e, i) => `Q${i + 1}${e.followUpTo ? ' (follow-up)' : ''}: ${e.question}\nAnswer: ${e.answer}\nScore: ${e.feedback.score}/10\nEvaluator notes: ${e.feedback.feedback}`)
+        .join('\n\n');
+
+    return `You're reviewing a finished ${difficulty} ${subject} practice interview. Here is every question, the candidate's answer, its score and the evaluator's notes:
+
+${transcript}
+
+Write an end-of-session report. Be specific and refer to what they actually said. Keep each strength and weakness to one sentence, list the topics covered, and recommend the difficulty they should practise at next (step up only if they were consistently strong, step down if they struggled).`;
+};
+
+const generateSessionReportViaGemini = async (subject: Subject | string, difficulty: Difficulty, entries: FeedbackEntry[]): Promise<SessionReportNarrative> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: getSessionReportPrompt(subject, difficulty, entries),
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: sessionReportSchema,
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    if (!isSessionReportNarrative(parsed)) {
+        throw new Error("Gemini session report is missing fields");
+    }
+    return parsed;
+};
+
+/**
+ * Strengths, weaknesses, topics and next difficulty for a finished session.
+ * Resolves to null when neither the backend nor Gemini can produce one, so callers can use a deterministic report.
+ */
+export const generateSessionReportNarrative = async (subject: Subject | string, difficulty: Difficulty, entries: FeedbackEntry[]): Promise<SessionReportNarrative | null> => {
+    const turns = entries.map(({ question, answer, feedback, followUpTo }) => ({
+        question,
+        answer,
+        score: feedback.score,
+        feedback: feedback.feedback,
+        followUp: !!followUpTo,
+    }));
+
+    try {
+        const data = await postToBackend<SessionReportNarrative>('/api/session-report', { subject, difficulty, turns }, BACKEND_LONG_TIMEOUT_MS);
+        if (isSessionReportNarrative(data)) {
+            return data;
+        }
+        console.error('Backend returned malformed session report:', data);
+    } catch (error) {
+        console.error('❌ Error calling backend /api/session-report:', error);
+    }
+
+    if (!getApiKey()) {
+        return null;
+    }
+
+    try {
+        return await generateSessionReportViaGemini(subject, difficulty, entries);
+    } catch (error) {
+        console.error("Error generating session report:", error);
+        return null;
+    }
+};
+
+// Resume-based interview functions
+const resumeParsingSchema = {
+    type: Type.OBJECT,
+    properties: {
+        skills: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "List of technical and professional skills found in the resume"
+        },
+        projects: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "List of projects and their descriptions found in the resume"
+        },
+        experience: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "List of work experience and roles mentioned in the resume"
+        },
+        education: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "List of educational qualifications mentioned in the resume"
+        },
+        suggestions: {
+            type: Type.OBJECT,
+            properties: {
+                toAdd: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: "Skills the candidate should consider adding based on their goals/projects"
+                },
+                toRemove: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: "Outdated or irrelevant skills/buzzwords they should consider removing"
+                },
+                justification: {
+                    type: Type.STRING,
+                    description: "A brief, professional explanation for these suggestions"
+                }
+            },
+            required: ["toAdd", "toRemove", "justification"]
+        }
+    },
+    required: ["skills", "projects", "experience", "education", "suggestions"]
+};
+
+const parseResumeTextViaGemini = async (resumeText: string): Promise<ResumeData> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: [
+            {
+                role: "user",
+                parts: [
+                    {
+                        text: `Please analyze this resume and extract the following information in JSON format:
 - skills: Array of technical and professional skills
 - projects: Array of projects with brief descriptions
 - experience: Array of work experience/job roles
@@ -820,18 +1370,34 @@ Resume content:
 ${resumeText}
 
 Return ONLY valid JSON with the exact structure specified.`
-                        }
-                    ]
-                }
-            ],
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: resumeParsingSchema,
+                    }
+                ]
             }
-        });
+        ],
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: resumeParsingSchema,
+        }
+    });
 
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as ResumeData;
+    return parseModelJson(response.text) as ResumeData;
+};
+
+export const parseResumeText = async (resumeText: string): Promise<ResumeData> => {
+    try {
+        const data = await postToBackend<ResumeData>('/api/resume/parse', { resumeText }, BACKEND_LONG_TIMEOUT_MS);
+        if (Array.isArray(data?.skills)) {
+            return data;
+        }
+    } catch (error) {
+        console.error('❌ Error calling backend /api/resume/parse:', error);
+    }
+
+    try {
+        if (!getApiKey()) {
+            throw new Error('No Gemini API key available for direct resume parsing');
+        }
+        return await parseResumeTextViaGemini(resumeText);
     } catch (error) {
         console.error("Error parsing resume:", error);
         return {
@@ -848,64 +1414,225 @@ Return ONLY valid JSON with the exact structure specified.`
     }
 };
 
-export const generateResumeBasedQuestion = async (resumeData: ResumeData, questionIndex: number): Promise<string> => {
+const jobDescriptionSchema = {
+    type: Type.OBJECT,
+    properties: {
+        title: {
+            type: Type.STRING,
+            description: "The job title, or a short description of the role if no title is given"
+        },
+        requiredSkills: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Skills, technologies and qualifications the posting says are required. Short names, e.g. 'React', 'SQL'."
+        },
+        preferredSkills: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Skills listed as nice-to-have, preferred or a bonus"
+        },
+        responsibilities: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "The main day-to-day responsibilities of the role, one short sentence each"
+        }
+    },
+    required: ["title", "requiredSkills", "preferredSkills", "responsibilities"]
+};
+
+const isJobDescriptionData = (value: any): value is JobDescriptionData =>
+    !!value &&
+    typeof value.title === 'string' &&
+    ['requiredSkills', 'preferredSkills', 'responsibilities'].every(key => Array.isArray(value[key]));
+
+const parseJobDescriptionViaGemini = async (jobDescriptionText: string): Promise<JobDescriptionData> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: [
+            {
+                role: "user",
+                parts: [
+                    {
+                        text: `Please analyze this job description and extract, in JSON format:
+- title: The job title
+- requiredSkills: Skills and technologies the role requires
+- preferredSkills: Skills listed as nice-to-have
+- responsibilities: The main responsibilities of the role
+
+Keep skill names short (e.g. "Kubernetes", not "Experience deploying services to Kubernetes").
+
+Job description:
+${jobDescriptionText}
+
+Return ONLY valid JSON with the exact structure specified.`
+                    }
+                ]
+            }
+        ],
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: jobDescriptionSchema,
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    if (!isJobDescriptionData(parsed)) {
+        throw new Error("Gemini job description is missing fields");
+    }
+    return parsed;
+};
+
+/**
+ * Extract the role's skills and responsibilities from a pasted job description.
+ * Resolves to null when neither the backend nor Gemini is reachable so the caller can fall back.
+ */
+export const parseJobDescription = async (jobDescriptionText: string): Promise<JobDescriptionData | null> => {
     try {
-        // Rotate through different question types based on index
-        const questionTypes = [
-            `Based on the skills mentioned (${resumeData.skills.slice(0, 3).join(', ')}), ask a technical question related to one of these skills.`,
-            `Based on the projects mentioned, ask a question about the most relevant project and how it demonstrates problem-solving.`,
-            `Ask a behavioral question related to the experience mentioned (${resumeData.experience[0] || 'work experience'}).`,
-            `Ask a question about how one of the skills (${resumeData.skills[Math.floor(Math.random() * resumeData.skills.length)] || 'mentioned skills'}) has been applied in practice.`
-        ];
+        const data = await postToBackend<JobDescriptionData>('/api/job-description/parse', { jobDescriptionText }, BACKEND_LONG_TIMEOUT_MS);
+        if (isJobDescriptionData(data)) {
+            return data;
+        }
+        console.error('Backend returned malformed job description:', data);
+    } catch (error) {
+        console.error('❌ Error calling backend /api/job-description/parse:', error);
+    }
 
-        const selectedType = questionTypes[questionIndex % questionTypes.length];
+    if (!getApiKey()) {
+        return null;
+    }
 
-        const response = await getAi().models.generateContent({
-            model,
-            contents: [
-                {
-                    role: "user",
-                    parts: [
-                        {
-                            text: `You are conducting a technical interview based on someone's resume. ${selectedType}
-
-Resume Summary:
+    try {
+        return await parseJobDescriptionViaGemini(jobDescriptionText);
+    } catch (error) {
+        console.error("Error parsing job description:", error);
+        return null;
+    }
+};
+
+// With a target role, steer questions towards skills the role needs but the resume doesn't show,
+// then role-critical skills the candidate has, then the role's responsibilities
+const getJobQuestionType = (resumeData: ResumeData, jobContext: JobContext, questionIndex: number): string => {
+    const { jobDescription, gapAnalysis } = jobContext;
+    const round = Math.floor(questionIndex / 4);
+    const pick = (items: string[]): string | undefined => (items.length > 0 ? items[round % items.length] : undefined);
+
+    const gap = pick(gapAnalysis.missingRequiredSkills) ?? pick(gapAnalysis.missingPreferredSkills);
+    const strength = pick(gapAnalysis.matchedSkills);
+    const responsibility = pick(jobDescription.responsibilities);
+
+    const questionTypes = [
+        gap && `The role needs ${gap}, which their resume doesn't show. Ask a question that checks whether they understand ${gap}, or how they would apply closely related experience to it.`,
+        strength && `The role relies on ${strength}, which is on their resume. Ask an in-depth technical question about ${strength} at the level this role expects.`,
+        responsibility && `One responsibility of the role is: "${responsibility}". Ask a scenario question about how they would handle it, drawing on their past experience.`,
+        `Ask a behavioral question related to the experience mentioned (${resumeData.experience[0] || 'work experience'}) and how it prepares them for this role.`
+    ].filter((type): type is string => !!type);
+
+    return questionTypes[questionIndex % questionTypes.length];
+};
+
+const getResumeQuestionPrompt = (resumeData: ResumeData, questionIndex: number, jobContext?: JobContext): string => {
+    const resumeSummary = `Resume Summary:
 Skills: ${resumeData.skills.join(', ')}
 Projects: ${resumeData.projects.slice(0, 2).join('; ')}
-Experience: ${resumeData.experience.slice(0, 2).join('; ')}
+Experience: ${resumeData.experience.slice(0, 2).join('; ')}`;
+
+    if (jobContext) {
+        const { jobDescription } = jobContext;
+        return `You are interviewing a candidate for the role of ${jobDescription.title}. ${getJobQuestionType(resumeData, jobContext, questionIndex)}
+
+Role requirements:
+Required skills: ${jobDescription.requiredSkills.join(', ')}
+Responsibilities: ${jobDescription.responsibilities.slice(0, 4).join('; ')}
+
+${resumeSummary}
+
+Generate EXACTLY ONE clear, professional interview question. The question should be relevant to this role and assess their technical knowledge or problem-solving approach.
+
+Return ONLY the question in this JSON format: {"question": "Your question here?"}`;
+    }
+
+    // Rotate through different question types based on index
+    const questionTypes = [
+        `Based on the skills mentioned (${resumeData.skills.slice(0, 3).join(', ')}), ask a technical question related to one of these skills.`,
+        `Based on the projects mentioned, ask a question about the most relevant project and how it demonstrates problem-solving.`,
+        `Ask a behavioral question related to the experience mentioned (${resumeData.experience[0] || 'work experience'}).`,
+        `Ask a question about how one of the skills (${resumeData.skills[Math.floor(Math.random() * resumeData.skills.length)] || 'mentioned skills'}) has been applied in practice.`
+    ];
+
+    const selectedType = questionTypes[questionIndex % questionTypes.length];
+
+    return `You are conducting a technical interview based on someone's resume. ${selectedType}
+
+${resumeSummary}
 
 Generate EXACTLY ONE clear, professional interview question. The question should be specific to their resume and assess their technical knowledge or problem-solving approach.
 
-Return ONLY the question in this JSON format: {"question": "Your question here?"}`
-                        }
-                    ]
-                }
-            ],
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: questionSchema,
+Return ONLY the question in this JSON format: {"question": "Your question here?"}`;
+};
+
+const generateResumeBasedQuestionViaGemini = async (resumeData: ResumeData, questionIndex: number, jobContext?: JobContext): Promise<string> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: [
+            {
+                role: "user",
+                parts: [{ text: getResumeQuestionPrompt(resumeData, questionIndex, jobContext) }]
             }
-        });
+        ],
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: questionSchema,
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    return parsed.question || "Tell me about your experience with the technologies mentioned in your resume.";
+};
 
-        const jsonText = response.text.trim();
-        const parsed = JSON.parse(jsonText);
-        return parsed.question || "Tell me about your experience with the technologies mentioned in your resume.";
+export const generateResumeBasedQuestion = async (resumeData: ResumeData, questionIndex: number, jobContext?: JobContext): Promise<string> => {
+    try {
+        const data = await postToBackend<{ question?: string }>('/api/resume/question', { resumeData, questionIndex, jobContext }, BACKEND_TIMEOUT_MS);
+        const question = typeof data?.question === 'string' ? data.question.trim() : '';
+        if (question) {
+            return question;
+        }
+    } catch (error) {
+        console.error('❌ Error calling backend /api/resume/question:', error);
+    }
+
+    try {
+        if (!getApiKey()) {
+            throw new Error('No Gemini API key available for direct question generation');
+        }
+        return await withTimeout(
+            generateResumeBasedQuestionViaGemini(resumeData, questionIndex, jobContext),
+            GEMINI_TIMEOUT_MS,
+            'Gemini resume question generation'
+        );
     } catch (error) {
         console.error("Error generating resume-based question:", error);
+        const gap = jobContext?.gapAnalysis.missingRequiredSkills[0];
+        if (gap) {
+            return `This role calls for ${gap}. What do you know about it, and how would your experience help you get up to speed?`;
+        }
         return `Tell me about your experience with ${resumeData.skills[0] || 'the skills mentioned in your resume'}?`;
     }
 };
 
-export const provideFeedbackOnAnswer = async (question: string, answer: string, resumeData: ResumeData): Promise<Feedback> => {
-    try {
-        const response = await getAi().models.generateContent({
-            model,
-            contents: [
-                {
-                    role: "user",
-                    parts: [
-                        {
-                            text: `You are evaluating a resume-based interview answer. 
+// The subject resume interviews are saved under; it picks the rubric their answers are scored on
+const RESUME_SUBJECT = 'Resume Interview';
+
+const provideFeedbackOnAnswerViaGemini = async (question: string, answer: string, resumeData: ResumeData): Promise<Feedback> => {
+    // Behavioral questions about their experience get a STAR breakdown
+    const withStar = isBehavioralQuestion(question);
+    const response = await getAi().models.generateContent({
+        model,
+        contents: [
+            {
+                role: "user",
+                parts: [
+                    {
+                        text: `You are evaluating a resume-based interview answer. 
 
 Question asked: "${question}"
 
@@ -919,19 +1646,46 @@ Please evaluate the answer based on:
 3. Depth of understanding
 4. How well it aligns with their resume
 
+${describeRubric(RESUME_SUBJECT)}
+${withStar ? `\n${STAR_INSTRUCTIONS}\n` : ''}
 Provide constructive feedback and a score from 0-10.`
-                        }
-                    ]
-                }
-            ],
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: baseFeedbackSchema,
+                    }
+                ]
             }
-        });
+        ],
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: withStar ? withStarAnalysis(baseFeedbackSchema) : baseFeedbackSchema,
+        }
+    });
+
+    const parsed = parseModelJson(response.text);
+    if (!isFeedback(parsed)) {
+        throw new Error("Gemini feedback is missing a score");
+    }
+    return {
+        ...parsed,
+        rubricScores: normalizeRubricScores(parsed.rubricScores, RESUME_SUBJECT),
+        starAnalysis: withStar ? normalizeStarAnalysis(parsed.starAnalysis, answer) : undefined,
+    };
+};
 
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as Feedback;
+export const provideFeedbackOnAnswer = async (question: string, answer: string, resumeData: ResumeData): Promise<Feedback> => {
+    try {
+        const data = await postToBackend<Feedback>('/api/resume/feedback', { question, answer, resumeData }, BACKEND_LONG_TIMEOUT_MS);
+        if (isFeedback(data)) {
+            return data;
+        }
+        console.error('Backend returned malformed feedback:', data);
+    } catch (error) {
+        console.error('❌ Error calling backend /api/resume/feedback:', error);
+    }
+
+    try {
+        if (!getApiKey()) {
+            throw new Error('No Gemini API key available for direct evaluation');
+        }
+        return await provideFeedbackOnAnswerViaGemini(question, answer, resumeData);
     } catch (error) {
         console.error("Error providing feedback on answer:", error);
         return {
@@ -943,6 +1697,96 @@ Provide constructive feedback and a score from 0-10.`
     }
 };
 
+const bulletRewriteSchema = {
+    type: Type.OBJECT,
+    properties: {
+        rewrites: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING, description: "The id of the bullet being rewritten, copied exactly" },
+                    rewritten: { type: Type.STRING, description: "The improved bullet: starts with a strong action verb and states a concrete, quantified impact" },
+                    rationale: { type: Type.STRING, description: "One short sentence on what was improved" }
+                },
+                required: ["id", "rewritten", "rationale"]
+            },
+            description: "One entry per bullet that can be improved. Leave out bullets that are already strong."
+        }
+    },
+    required: ["rewrites"]
+};
+
+export type BulletSuggestion = { id: string; rewritten: string; rationale: string };
+
+// Keep only suggestions that point back at a bullet we sent
+const toBulletSuggestions = (value: any, bullets: ResumeBullet[]): BulletSuggestion[] | null => {
+    if (!Array.isArray(value?.rewrites)) return null;
+    const ids = new Set(bullets.map(b => b.id));
+    return value.rewrites.filter((r: any) =>
+        r && ids.has(r.id) && typeof r.rewritten === 'string' && r.rewritten.trim() && typeof r.rationale === 'string'
+    );
+};
+
+const suggestBulletRewritesViaGemini = async (bullets: ResumeBullet[]): Promise<BulletSuggestion[] | null> => {
+    const response = await getAi().models.generateContent({
+        model,
+        contents: [
+            {
+                role: "user",
+                parts: [
+                    {
+                        text: `You're a resume coach. Rewrite these resume bullets so each one:
+- starts with a strong action verb (Built, Led, Reduced, Automated...)
+- states the concrete impact, quantified where possible (%, time saved, users, revenue)
+- stays truthful: keep the facts from the original, and where a number is missing use a clear placeholder like [X%] for the candidate to fill in
+- stays to one line
+
+Bullets:
+${bullets.map(b => `[${b.id}] (${b.section}) ${b.text}`).join('\n')}
+
+Return JSON: {"rewrites": [{"id": "<bullet id>", "rewritten": "...", "rationale": "..."}]}. Skip bullets that are already strong.`
+                    }
+                ]
+            }
+        ],
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: bulletRewriteSchema,
+        }
+    });
+
+    return toBulletSuggestions(parseModelJson(response.text), bullets);
+};
+
+/**
+ * Ask for stronger versions of resume bullets. Resolves to null when neither the
+ * backend nor Gemini is reachable so the caller can fall back.
+ */
+export const suggestBulletRewrites = async (bullets: ResumeBullet[]): Promise<BulletSuggestion[] | null> => {
+    try {
+        const data = await postToBackend<{ rewrites: BulletSuggestion[] }>('/api/resume/rewrite', { bullets }, BACKEND_LONG_TIMEOUT_MS);
+        const suggestions = toBulletSuggestions(data, bullets);
+        if (suggestions) {
+            return suggestions;
+        }
+        console.error('Backend returned malformed bullet rewrites:', data);
+    } catch (error) {
+        console.error('❌ Error calling backend /api/resume/rewrite:', error);
+    }
+
+    if (!getApiKey()) {
+        return null;
+    }
+
+    try {
+        return await suggestBulletRewritesViaGemini(bullets);
+    } catch (error) {
+        console.error("Error rewriting resume bullets:", error);
+        return null;
+    }
+};
+
 // Test function for debugging - can be called from browser console
 (globalThis as any).testQuestion = async (subject = 'JavaScript', difficulty = 'Beginner') => {
     console.log('Testing generateQuestion with:', { subject, difficulty });
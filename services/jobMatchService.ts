@@ -0,0 +1,107 @@
+// Compares a resume against a pasted job description so resume interviews can target the role
+
+import { ResumeData, JobDescriptionData, GapAnalysis, JobContext } from '../types';
+import { parseJobDescription } from './geminiService';
+
+// Used to spot skills in a job description when Gemini isn't available
+const COMMON_SKILLS = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'C#', 'Rust', 'Kotlin', 'Swift', 'PHP', 'Ruby', 'Scala', 'Golang',
+  'React', 'Angular', 'Vue', 'Next.js', 'Node.js', 'Express', 'Django', 'Flask', 'Spring', '.NET',
+  'HTML', 'CSS', 'Tailwind', 'GraphQL', 'RESTful', 'gRPC',
+  'SQL', 'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'Kafka', 'Elasticsearch',
+  'AWS', 'Azure', 'GCP', 'Docker', 'Kubernetes', 'Terraform', 'CI/CD', 'Linux', 'Git',
+  'Machine Learning', 'Deep Learning', 'TensorFlow', 'PyTorch', 'Pandas', 'NLP',
+  'Microservices', 'System Design', 'Data Structures', 'Algorithms', 'Agile', 'Scrum', 'Testing',
+];
+
+const PREFERRED_MARKERS = /nice to have|preferred|bonus|a plus|good to have|desirable/i;
+const BULLET = /^\s*(?:[-*•▪●]|\d+[.)])\s+/;
+const MAX_FALLBACK_RESPONSIBILITIES = 6;
+
+/**
+ * Lowercase and reduce to space-separated tokens so "Node.js," and "node.js" compare equal.
+ * Keeps the characters that matter in skill names (+, #, ., /).
+ */
+const normalize = (text: string): string => {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9+#./]+/g, ' ').replace(/\.(?=\s|$)/g, ' ').replace(/\s+/g, ' ').trim()} `;
+};
+
+const mentions = (normalizedText: string, skill: string): boolean => {
+  const needle = normalize(skill);
+  return needle.trim().length > 0 && normalizedText.includes(needle);
+};
+
+const dedupe = (items: string[]): string[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = normalize(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Keyword-based job description parsing used when Gemini is unreachable.
+ * Looks for well-known skills plus anything already on the resume.
+ */
+export const buildFallbackJobDescription = (jobDescriptionText: string, resumeData: ResumeData): JobDescriptionData => {
+  const lines = jobDescriptionText.split('\n').map(line => line.trim()).filter(Boolean);
+  const preferredText = normalize(lines.filter(line => PREFERRED_MARKERS.test(line)).join(' '));
+  const requiredText = normalize(lines.filter(line => !PREFERRED_MARKERS.test(line)).join(' '));
+
+  const candidates = dedupe([...COMMON_SKILLS, ...resumeData.skills]);
+  const requiredSkills = candidates.filter(skill => mentions(requiredText, skill));
+  const preferredSkills = candidates.filter(skill => !requiredSkills.includes(skill) && mentions(preferredText, skill));
+
+  const responsibilities = lines
+    .filter(line => BULLET.test(line) && !PREFERRED_MARKERS.test(line))
+    .map(line => line.replace(BULLET, ''))
+    .slice(0, MAX_FALLBACK_RESPONSIBILITIES);
+
+  return {
+    title: (lines[0] ?? 'Target role').slice(0, 80),
+    requiredSkills,
+    preferredSkills,
+    responsibilities,
+  };
+};
+
+/**
+ * Which of the role's skills the resume shows. A skill counts as matched when it is
+ * listed as a skill or mentioned anywhere in the projects or experience.
+ */
+export const computeGapAnalysis = (resumeData: ResumeData, jobDescription: JobDescriptionData): GapAnalysis => {
+  const resumeText = normalize([...resumeData.skills, ...resumeData.projects, ...resumeData.experience].join(' '));
+  const hasSkill = (skill: string): boolean => mentions(resumeText, skill);
+
+  const required = dedupe(jobDescription.requiredSkills);
+  const preferred = dedupe(jobDescription.preferredSkills);
+  const matchedRequired = required.filter(hasSkill);
+
+  return {
+    matchedSkills: dedupe([...matchedRequired, ...preferred.filter(hasSkill)]),
+    missingRequiredSkills: required.filter(skill => !hasSkill(skill)),
+    missingPreferredSkills: preferred.filter(skill => !hasSkill(skill)),
+    matchScore: required.length > 0 ? Math.round((matchedRequired.length / required.length) * 100) : 100,
+  };
+};
+
+/**
+ * Parse the job description (with Gemini when reachable) and compare it to the resume
+ */
+export const analyzeJobFit = async (
+  jobDescriptionText: string,
+  resumeData: ResumeData
+): Promise<{ jobContext: JobContext; source: 'ai' | 'fallback' }> => {
+  const parsed = await parseJobDescription(jobDescriptionText);
+  const jobDescription = parsed ?? buildFallbackJobDescription(jobDescriptionText, resumeData);
+
+  return {
+    jobContext: {
+      jobDescription,
+      gapAnalysis: computeGapAnalysis(resumeData, jobDescription),
+    },
+    source: parsed ? 'ai' : 'fallback',
+  };
+};
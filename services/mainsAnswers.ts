@@ -0,0 +1,107 @@
+// UPSC Mains answer writing: the General Studies papers, word limits, and the examiner's rubric.
+// Word-limit adherence is measured here rather than left to the model.
+
+import { AnswerWritingSettings, MainsCriterion, MainsCriterionScore, MainsEvaluation, MainsPaper, MainsWordLimit } from '../types';
+
+export const MAINS_PAPERS: Record<MainsPaper, { name: string; topics: string[] }> = {
+  GS1: { name: 'GS Paper I', topics: ['Indian Heritage and Culture', 'Modern Indian History', 'World History', 'Indian Society', 'Geography of India and the World'] },
+  GS2: { name: 'GS Paper II', topics: ['Indian Constitution and Polity', 'Governance', 'Social Justice', 'International Relations'] },
+  GS3: { name: 'GS Paper III', topics: ['Indian Economy', 'Agriculture', 'Science and Technology', 'Environment and Biodiversity', 'Disaster Management', 'Internal Security'] },
+  GS4: { name: 'GS Paper IV', topics: ['Ethics and Human Interface', 'Attitude and Aptitude', 'Emotional Intelligence', 'Probity in Governance', 'Case Studies'] },
+};
+
+export const MAINS_PAPER_ORDER: MainsPaper[] = ['GS1', 'GS2', 'GS3', 'GS4'];
+
+// Marks and the time a candidate can spend per question in the real paper
+export const WORD_LIMITS: Record<MainsWordLimit, { marks: number; minutes: number }> = {
+  150: { marks: 10, minutes: 7 },
+  250: { marks: 15, minutes: 11 },
+};
+
+export const MAINS_CRITERIA: Array<{ criterion: MainsCriterion; label: string; description: string }> = [
+  { criterion: 'introduction', label: 'Introduction', description: 'does it open with context, a definition or a fact that frames the question, in two or three lines?' },
+  { criterion: 'body', label: 'Body Structure', description: 'does it address every part of the directive (discuss, examine, critically analyse...) under clear sub-points or headings?' },
+  { criterion: 'examples', label: 'Examples', description: 'does it back its points with data, reports, schemes, judgments, case studies or current affairs?' },
+  { criterion: 'conclusion', label: 'Conclusion', description: 'does it close with a balanced, forward-looking way ahead rather than repeating the body?' },
+  { criterion: 'wordLimit', label: 'Word Limit', description: 'does it stay close to the word limit?' },
+];
+
+// Criteria the model judges; word-limit adherence is counted
+export const JUDGED_CRITERIA: MainsCriterion[] = ['introduction', 'body', 'examples', 'conclusion'];
+
+// Examiners tolerate running about 10% over, and an answer well short of the limit can't cover the question
+const WORD_LIMIT_LEEWAY = 0.1;
+const MIN_WORD_SHARE = 0.8;
+
+export const getMainsCriterionLabel = (criterion: MainsCriterion): string => {
+  return MAINS_CRITERIA.find(c => c.criterion === criterion)?.label ?? criterion;
+};
+
+export const countWords = (text: string): number => {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+};
+
+/**
+ * Whether a running word count is short of, within, or over the limit, for the live counter
+ */
+export const getWordCountStatus = (wordCount: number, wordLimit: MainsWordLimit): 'short' | 'within' | 'over' => {
+  if (wordCount > wordLimit * (1 + WORD_LIMIT_LEEWAY)) return 'over';
+  return wordCount >= wordLimit * MIN_WORD_SHARE ? 'within' : 'short';
+};
+
+/**
+ * Score word-limit adherence from 0 to 10. Within the leeway scores full marks; every further
+ * 10% over loses two points, and short answers score in proportion to how much they wrote.
+ */
+export const scoreWordLimit = (wordCount: number, wordLimit: MainsWordLimit): MainsCriterionScore => {
+  const ratio = wordCount / wordLimit;
+  const status = getWordCountStatus(wordCount, wordLimit);
+  const score = status === 'over'
+    ? Math.max(0, 10 - Math.ceil((ratio - 1 - WORD_LIMIT_LEEWAY) / 0.1) * 2)
+    : status === 'within' ? 10 : Math.round((ratio / MIN_WORD_SHARE) * 10);
+  const comment = status === 'over'
+    ? `${wordCount} words for a ${wordLimit}-word answer. In the exam that time comes out of the next question, so trim the body.`
+    : status === 'within'
+      ? `${wordCount} words for a ${wordLimit}-word answer, within the limit.`
+      : `${wordCount} words for a ${wordLimit}-word answer. Too short to cover the question at the depth its marks expect.`;
+  return { criterion: 'wordLimit', score, comment };
+};
+
+/**
+ * Marks for a set of criterion scores: their average, scaled to the question's marks and rounded
+ * to the nearest half mark
+ */
+const getMarks = (criteria: MainsCriterionScore[], maxMarks: number): number => {
+  const average = criteria.reduce((sum, c) => sum + c.score, 0) / criteria.length;
+  return Math.round((average / 10) * maxMarks * 2) / 2;
+};
+
+/**
+ * Check the model's rubric scores and complete them with the measured word-limit score. Every
+ * judged criterion needs a score; returns undefined otherwise.
+ */
+export const normalizeMainsEvaluation = (value: unknown, answer: string, settings: AnswerWritingSettings): MainsEvaluation | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const judged = JUDGED_CRITERIA.map(criterion => {
+    const entry = value.find((c: any) => c?.criterion === criterion);
+    if (!entry || typeof entry.score !== 'number' || !Number.isFinite(entry.score)) return null;
+    return {
+      criterion,
+      score: Math.max(0, Math.min(10, Math.round(entry.score))),
+      comment: typeof entry.comment === 'string' ? entry.comment.trim() : '',
+    };
+  });
+  if (judged.some(c => c === null)) return undefined;
+
+  const wordCount = countWords(answer);
+  const criteria = [...(judged as MainsCriterionScore[]), scoreWordLimit(wordCount, settings.wordLimit)];
+  const maxMarks = WORD_LIMITS[settings.wordLimit].marks;
+  return { paper: settings.paper, wordLimit: settings.wordLimit, wordCount, criteria, marks: getMarks(criteria, maxMarks), maxMarks };
+};
+
+/**
+ * The overall 0-10 score for an evaluated answer, consistent with its marks
+ */
+export const getMainsScore = (evaluation: MainsEvaluation): number => {
+  return Math.round((evaluation.marks / evaluation.maxMarks) * 10);
+};
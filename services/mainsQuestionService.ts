@@ -0,0 +1,59 @@
+// Questions for UPSC Mains answer writing, from Gemini when reachable and otherwise from a small offline bank
+
+import { AnswerWritingSettings, Difficulty, MainsPaper } from '../types';
+import { generateMainsQuestion } from './geminiService';
+import { WORD_LIMITS } from './mainsAnswers';
+
+// Past-paper style questions without their word limit, which is added for the chosen setting
+const FALLBACK_MAINS_QUESTIONS: Record<MainsPaper, string[]> = {
+  GS1: [
+    'Discuss the main features of Harappan town planning and what they reveal about its civic life.',
+    'How did the Bhakti movement challenge the social order of medieval India?',
+    "Evaluate the role of the moderates in India's freedom struggle.",
+    'Why are the Himalayan states increasingly prone to landslides and flash floods? Suggest mitigation measures.',
+    'Is rapid urbanisation in India weakening the joint family? Discuss with examples.',
+    'Examine the factors responsible for the location of the iron and steel industry in India.',
+  ],
+  GS2: [
+    "Discuss the significance of the basic structure doctrine in protecting India's constitutional democracy.",
+    'Critically examine the role of the Governor in the functioning of state governments.',
+    'How far have Self-Help Groups succeeded in empowering rural women in India?',
+    'The Right to Information Act has been diluted over time. Critically analyse.',
+    "Discuss the importance of the Quad for India's strategic interests in the Indo-Pacific.",
+    'Examine the challenges in implementing the National Education Policy 2020.',
+  ],
+  GS3: [
+    'Discuss the causes of persistent inflation in food prices in India and suggest remedies.',
+    'Examine the potential and challenges of natural farming in India.',
+    'How can green hydrogen help India meet its net-zero commitments? Discuss the challenges.',
+    'Critically evaluate the effectiveness of the Insolvency and Bankruptcy Code in resolving stressed assets.',
+    'Discuss the role of technology in managing left-wing extremism in India.',
+    'What are heatwaves? Discuss the measures India needs to reduce their impact.',
+  ],
+  GS4: [
+    "What do you understand by 'probity in governance'? Suggest measures to strengthen it.",
+    'Discuss the role of emotional intelligence in effective public administration.',
+    "'Conscience is a safer guide than laws.' Discuss with examples from public life.",
+    'Differentiate between attitude and aptitude. Why are both important for a civil servant?',
+    'You are a district collector and a flood relief contractor offers you a gift after the tender is awarded. What will you do and why?',
+    'Discuss the relevance of Gandhian ethics for public servants today.',
+  ],
+};
+
+const withWordLimit = (question: string, settings: AnswerWritingSettings): string =>
+  `${question} (${settings.wordLimit} words, ${WORD_LIMITS[settings.wordLimit].marks} marks)`;
+
+/**
+ * A question from the offline bank for the paper, avoiding ones already asked when possible
+ */
+export const getFallbackMainsQuestion = (settings: AnswerWritingSettings, previousQuestions: string[] = []): string => {
+  const questions = FALLBACK_MAINS_QUESTIONS[settings.paper].map(q => withWordLimit(q, settings));
+  const unasked = questions.filter(q => !previousQuestions.includes(q));
+  const pool = unasked.length > 0 ? unasked : questions;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+export const getMainsQuestion = async (settings: AnswerWritingSettings, difficulty: Difficulty, previousQuestions: string[] = []): Promise<string> => {
+  const generated = await generateMainsQuestion(settings, difficulty, previousQuestions);
+  return generated ?? getFallbackMainsQuestion(settings, previousQuestions);
+};
@@ -0,0 +1,130 @@
+// Questions for timed MCQ tests, from Gemini when reachable and topped up from a small offline bank
+
+import { Difficulty, ObjectiveQuestion, TestSection } from '../types';
+import { generateObjectiveQuestions } from './geminiService';
+
+const mcq = (topic: string, question: string, options: string[], correctOption: number, explanation: string, marks = 1): ObjectiveQuestion =>
+  ({ type: 'mcq', topic, question, options, correctOption, explanation, marks });
+
+const numerical = (topic: string, question: string, correctValue: number, explanation: string, marks = 1, tolerance = 0): ObjectiveQuestion =>
+  ({ type: 'numerical', topic, question, correctValue, tolerance, explanation, marks });
+
+// Used at any difficulty; each section draws the questions tagged with its topics
+const FALLBACK_OBJECTIVE_QUESTIONS: ObjectiveQuestion[] = [
+  // GATE General Aptitude
+  mcq('Quantitative Aptitude', 'A shopkeeper marks an item 40% above its cost price and then gives a 25% discount on the marked price. What is the profit percentage?',
+    ['5%', '10%', '15%', '−5%'], 0, 'Selling price = 1.40 × 0.75 = 1.05 times the cost, a 5% profit.'),
+  numerical('Quantitative Aptitude', 'The average of five consecutive odd numbers is 27. What is the largest of them?',
+    31, 'The numbers are centred on the average: 23, 25, 27, 29, 31.'),
+  mcq('Quantitative Aptitude', 'Pipe A fills a tank in 6 hours and pipe B fills it in 3 hours. How long do they take to fill it together?',
+    ['2 hours', '4.5 hours', '1.5 hours', '3 hours'], 0, 'Together they fill 1/6 + 1/3 = 1/2 of the tank per hour, so 2 hours.'),
+  mcq('Verbal Aptitude', "Choose the word most nearly opposite in meaning to 'ephemeral'.",
+    ['Transient', 'Permanent', 'Fragile', 'Obscure'], 1, "'Ephemeral' means lasting a very short time; its opposite is 'permanent'."),
+  mcq('Verbal Aptitude', 'Select the grammatically correct sentence.',
+    ['Neither of the students have submitted the assignment.', 'Neither of the students has submitted the assignment.', 'Neither of the student has submitted the assignment.', 'Neither of the students having submitted the assignment.'],
+    1, "'Neither' is singular, so it takes 'has', and 'of the' is followed by the plural 'students'."),
+  mcq('Analytical Reasoning', 'All bloops are razzies and all razzies are lazzies. Which statement must be true?',
+    ['All lazzies are bloops', 'All bloops are lazzies', 'Some razzies are not bloops', 'No lazzies are bloops'], 1, 'Bloops sit inside razzies, which sit inside lazzies, so every bloop is a lazzie. Nothing is known about the reverse.'),
+  numerical('Analytical Reasoning', "In how many distinct ways can the letters of the word 'LEVEL' be arranged?",
+    30, 'Five letters with L and E each repeated twice: 5! / (2! × 2!) = 120 / 4 = 30.', 2),
+
+  // GATE Computer Science
+  mcq('Algorithms', 'What is the worst-case time complexity of quicksort on n elements?',
+    ['O(n log n)', 'O(n²)', 'O(n)', 'O(log n)'], 1, 'When every pivot is the smallest or largest element, the partitions have sizes n−1 and 0, giving O(n²).'),
+  numerical('Algorithms', 'What is the minimum number of comparisons needed in the worst case to find both the minimum and the maximum of 100 numbers?',
+    148, 'Compare elements in pairs, then the smaller with the running minimum and the larger with the running maximum: ⌈3n/2⌉ − 2 = 150 − 2 = 148.', 2),
+  numerical('Data Structures', 'How many nodes are in a perfect binary tree of height 4, counting the root as height 0?',
+    31, 'A perfect binary tree of height h has 2^(h+1) − 1 nodes: 2^5 − 1 = 31.'),
+  mcq('Data Structures', 'Which data structure does breadth-first search use to decide which vertex to visit next?',
+    ['Stack', 'Queue', 'Heap', 'Hash table'], 1, 'BFS visits vertices in the order they were discovered, which is first-in, first-out: a queue.'),
+  mcq('Operating Systems', 'Which of these is NOT one of the necessary conditions for deadlock?',
+    ['Mutual exclusion', 'Hold and wait', 'Preemption', 'Circular wait'], 2, 'The four conditions are mutual exclusion, hold and wait, NO preemption and circular wait. Allowing preemption prevents deadlock.'),
+  numerical('Operating Systems', 'A system uses 32-bit virtual addresses and 4 KB pages. How many bits of a virtual address form the page offset?',
+    12, '4 KB = 2^12 bytes, so the low 12 bits address a byte within the page.'),
+  mcq('Databases', 'A relation is in BCNF if, for every non-trivial functional dependency X → Y,',
+    ['X is a superkey', 'Y is a prime attribute', 'X is a candidate key or Y is prime', 'Y is a superkey'], 0, "BCNF requires the left side of every non-trivial dependency to be a superkey. 'Or Y is prime' is the weaker 3NF condition."),
+  numerical('Databases', 'Relation R has 10 tuples and relation S has 20 tuples. How many tuples are in the Cartesian product R × S?',
+    200, 'Every tuple of R is paired with every tuple of S: 10 × 20 = 200.'),
+  numerical('Computer Networks', 'How many usable host addresses does an IPv4 /26 subnet have?',
+    62, 'A /26 leaves 6 host bits, so 2^6 = 64 addresses, minus the network and broadcast addresses.'),
+  mcq('Computer Networks', 'At which OSI layer does a router primarily operate?',
+    ['Data link', 'Network', 'Transport', 'Session'], 1, 'Routers forward packets using IP addresses, which belong to the network layer.'),
+  mcq('Theory of Computation', 'Which of these languages is NOT regular?',
+    ["Strings over {a, b} with an even number of a's", 'aⁿbⁿ for n ≥ 0', 'Strings over {a, b} ending in ab', '(ab)*'], 1, 'aⁿbⁿ needs to count an unbounded number of a\'s, which a finite automaton cannot do (pumping lemma). The others have simple DFAs.', 2),
+  numerical('Digital Logic', 'How many select lines does a 16-to-1 multiplexer need?',
+    4, 'The select lines pick one of 16 inputs, and 2^4 = 16.'),
+  mcq('Digital Logic', 'The Boolean expression A + AB simplifies to',
+    ['AB', 'A', 'B', 'A + B'], 1, 'By absorption, A + AB = A(1 + B) = A.'),
+  numerical('Computer Organization', 'A 5-stage pipeline with no stalls executes 100 instructions. How many clock cycles does it take?',
+    104, 'The first instruction takes 5 cycles and each one after it completes one cycle later: k + n − 1 = 5 + 100 − 1 = 104.', 2),
+
+  // Campus placement: Quantitative Aptitude
+  mcq('Percentages', 'A number is increased by 20% and the result is then decreased by 20%. What is the net change?',
+    ['No change', '4% decrease', '4% increase', '2% decrease'], 1, '1.2 × 0.8 = 0.96, a 4% decrease.'),
+  mcq('Profit and Loss', 'An article bought for ₹800 is sold for ₹920. What is the profit percentage?',
+    ['12%', '15%', '13.5%', '18%'], 1, 'Profit = ₹120, and 120 / 800 = 15%.'),
+  mcq('Time and Work', 'A can finish a job in 10 days and B in 15 days. How many days do they take working together?',
+    ['5 days', '6 days', '7.5 days', '12.5 days'], 1, 'Together they do 1/10 + 1/15 = 1/6 of the job per day, so 6 days.'),
+  mcq('Time, Speed and Distance', 'A 150 m long train passes a pole in 10 seconds. What is its speed?',
+    ['45 km/h', '54 km/h', '60 km/h', '15 km/h'], 1, '150 m / 10 s = 15 m/s, and 15 × 18/5 = 54 km/h.'),
+  mcq('Time, Speed and Distance', 'A car covers the first half of a distance at 40 km/h and the second half at 60 km/h. What is its average speed?',
+    ['50 km/h', '48 km/h', '45 km/h', '52 km/h'], 1, 'For equal distances the average is the harmonic mean: 2 × 40 × 60 / (40 + 60) = 48 km/h.'),
+  mcq('Ratio and Proportion', 'Two numbers are in the ratio 3 : 5 and their sum is 96. What is the larger number?',
+    ['36', '48', '60', '64'], 2, 'Each part is 96 / 8 = 12, so the numbers are 36 and 60.'),
+  mcq('Number System', 'What is the remainder when 2¹⁰ is divided by 7?',
+    ['1', '2', '4', '3'], 1, '2¹⁰ = 1024 = 7 × 146 + 2.'),
+
+  // Campus placement: Logical Reasoning
+  mcq('Number Series', 'Find the next number: 2, 6, 12, 20, 30, ?',
+    ['40', '42', '44', '36'], 1, 'The differences go up by 2 each time (4, 6, 8, 10), so the next difference is 12.'),
+  mcq('Number Series', 'Find the next number: 3, 9, 27, 81, ?',
+    ['162', '243', '324', '121'], 1, 'Each term is three times the one before: 81 × 3 = 243.'),
+  mcq('Coding-Decoding', 'If CAT is coded as DBU, how is DOG coded?',
+    ['EPH', 'CNF', 'EPG', 'FQI'], 0, 'Each letter moves one place forward: D→E, O→P, G→H.'),
+  mcq('Blood Relations', "Pointing to a man, Riya says, \"He is the son of my grandfather's only son.\" How is the man related to Riya?",
+    ['Cousin', 'Brother', 'Uncle', 'Father'], 1, "Her grandfather's only son is her father, and her father's son is her brother."),
+  mcq('Seating Arrangement', 'Five friends A, B, C, D and E sit in a row facing north. C is at the left end, D sits between and next to both C and A, and B is to the immediate right of A. Who sits in the middle?',
+    ['D', 'A', 'B', 'E'], 1, 'From the left: C, D, A, B, E. A is third of five.'),
+  mcq('Syllogisms', 'Statements: All pens are books. Some books are bags. Conclusions: I. Some pens are bags. II. Some bags are books.',
+    ['Only I follows', 'Only II follows', 'Both follow', 'Neither follows'], 1, "II is the converse of 'some books are bags', so it follows. The bags that are books need not be pens, so I doesn't."),
+
+  // Campus placement: Verbal Ability
+  mcq('Grammar', 'Fill in the blank: She has been working here ___ 2019.',
+    ['for', 'since', 'from', 'by'], 1, "'Since' introduces a point in time; 'for' would need a period such as 'five years'."),
+  mcq('Grammar', 'Fill in the blank: If I ___ you, I would accept the offer.',
+    ['was', 'were', 'am', 'be'], 1, "Hypothetical conditions take the subjunctive 'were' for every subject."),
+  mcq('Vocabulary', "Choose the word closest in meaning to 'candid'.",
+    ['Frank', 'Secretive', 'Careful', 'Rude'], 0, "'Candid' means open and honest, like 'frank'."),
+  mcq('Vocabulary', "Choose the word opposite in meaning to 'scarce'.",
+    ['Rare', 'Abundant', 'Limited', 'Costly'], 1, "'Scarce' means in short supply; 'abundant' means plentiful."),
+  mcq('Sentence Correction', 'Pick the sentence with no error.',
+    ['He is senior than me.', 'He is senior to me.', 'He is more senior than me to.', 'He is senior from me.'], 1, "Latin comparatives such as senior, junior and superior take 'to', not 'than'."),
+  mcq('Reading Comprehension', 'Passage: "Remote work cut commuting time for many employees, but surveys show that new hires who never met their teams in person took longer to feel part of the company." Which statement is best supported by the passage?',
+    ['Remote work should be banned', 'Remote work has drawbacks for bringing in new employees', 'Commuting time went up with remote work', 'All employees prefer working in the office'], 1, 'The passage notes one benefit and one drawback for new hires; it makes no recommendation and says nothing about all employees.'),
+];
+
+/**
+ * Offline questions for a section that haven't been asked yet, in random order
+ */
+export const getFallbackObjectiveQuestions = (section: TestSection, count: number, previousQuestions: string[] = []): ObjectiveQuestion[] => {
+  return FALLBACK_OBJECTIVE_QUESTIONS
+    .filter(q => section.topics.includes(q.topic) && (section.numerical || q.type === 'mcq') && !previousQuestions.includes(q.question))
+    .sort(() => Math.random() - 0.5)
+    .slice(0, count);
+};
+
+/**
+ * A section's questions, from Gemini when reachable. A short or missing set is topped up
+ * from the offline bank, which may still leave fewer than the section's count.
+ */
+export const getSectionQuestions = async (
+  exam: string,
+  section: TestSection,
+  difficulty: Difficulty,
+  previousQuestions: string[] = []
+): Promise<ObjectiveQuestion[]> => {
+  const generated = (await generateObjectiveQuestions(exam, section, difficulty, previousQuestions)) ?? [];
+  if (generated.length >= section.questionCount) return generated;
+  const asked = [...previousQuestions, ...generated.map(q => q.question)];
+  return [...generated, ...getFallbackObjectiveQuestions(section, section.questionCount - generated.length, asked)];
+};
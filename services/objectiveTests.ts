@@ -0,0 +1,206 @@
+// Timed multiple-choice and numerical-answer tests for GATE and campus placement aptitude rounds:
+// the exam patterns, checking generated questions, and grading answers without a model call
+
+import {
+  Company,
+  ExamPattern,
+  MarkingScheme,
+  ObjectiveOutcome,
+  ObjectiveQuestion,
+  ObjectiveResult,
+  Subject,
+  TestSection,
+  TopicBreakdown,
+} from '../types';
+import { getCompanyTrack } from './companyTracks';
+
+export const NEGATIVE_MARKING_OPTIONS: Array<{ label: string; fraction: number }> = [
+  { label: 'None', fraction: 0 },
+  { label: '−1/4', fraction: 1 / 4 },
+  { label: '−1/3', fraction: 1 / 3 },
+];
+
+// A practice-sized GATE CS paper: General Aptitude, then the core subjects.
+// Wrong MCQs lose a third of their marks; numerical answers are never penalised.
+export const GATE_PATTERN: ExamPattern = {
+  name: 'GATE CS',
+  sections: [
+    {
+      name: 'General Aptitude',
+      topics: ['Quantitative Aptitude', 'Verbal Aptitude', 'Analytical Reasoning'],
+      questionCount: 4,
+      minutes: 8,
+      numerical: true,
+    },
+    {
+      name: 'Computer Science',
+      topics: ['Algorithms', 'Data Structures', 'Operating Systems', 'Databases', 'Computer Networks', 'Theory of Computation', 'Digital Logic', 'Computer Organization'],
+      questionCount: 8,
+      minutes: 20,
+      numerical: true,
+    },
+  ],
+  marking: { negativeFraction: 1 / 3, negativeOnNumerical: false },
+};
+
+// The aptitude test most service companies open their campus drives with
+const CAMPUS_SECTIONS: TestSection[] = [
+  {
+    name: 'Quantitative Aptitude',
+    topics: ['Percentages', 'Profit and Loss', 'Time and Work', 'Time, Speed and Distance', 'Ratio and Proportion', 'Number System'],
+    questionCount: 5,
+    minutes: 8,
+    numerical: false,
+  },
+  {
+    name: 'Logical Reasoning',
+    topics: ['Number Series', 'Coding-Decoding', 'Blood Relations', 'Seating Arrangement', 'Syllogisms'],
+    questionCount: 5,
+    minutes: 7,
+    numerical: false,
+  },
+  {
+    name: 'Verbal Ability',
+    topics: ['Grammar', 'Vocabulary', 'Sentence Correction', 'Reading Comprehension'],
+    questionCount: 5,
+    minutes: 5,
+    numerical: false,
+  },
+];
+
+const NO_NEGATIVE_MARKING: MarkingScheme = { negativeFraction: 0, negativeOnNumerical: false };
+
+/**
+ * The test for a subject or company, if it has one: GATE, or the aptitude round of a company
+ * track. Company tests are named after the round, e.g. "TCS NQT".
+ */
+export const getExamPattern = (subject: Subject | string): ExamPattern | null => {
+  if (subject === Subject.GATE) return GATE_PATTERN;
+  if (!Object.values(Company).includes(subject as Company)) return null;
+  const aptitudeRound = getCompanyTrack(subject as Company).rounds.find(r => r.type === 'aptitude');
+  if (!aptitudeRound) return null;
+  const name = aptitudeRound.name === 'Aptitude Test' ? `${subject} Aptitude Test` : aptitudeRound.name;
+  return { name, sections: CAMPUS_SECTIONS, marking: NO_NEGATIVE_MARKING };
+};
+
+export const getPatternQuestionCount = (pattern: ExamPattern): number => {
+  return pattern.sections.reduce((sum, s) => sum + s.questionCount, 0);
+};
+
+export const getPatternMinutes = (pattern: ExamPattern): number => {
+  return pattern.sections.reduce((sum, s) => sum + s.minutes, 0);
+};
+
+/**
+ * Marking scheme as shown to the candidate, e.g. "−1/3 for a wrong MCQ, no penalty on numerical answers"
+ */
+export const describeMarking = (marking: MarkingScheme, numerical: boolean): string => {
+  if (marking.negativeFraction === 0) return 'No negative marking';
+  const label = NEGATIVE_MARKING_OPTIONS.find(o => o.fraction === marking.negativeFraction)?.label
+    ?? `−${Math.round(marking.negativeFraction * 100)}%`;
+  if (!numerical) return `${label} of the marks for a wrong answer`;
+  return `${label} of the marks for a wrong MCQ${marking.negativeOnNumerical ? ' or numerical answer' : ', no penalty on numerical answers'}`;
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Check one generated question against the schema, in the section's own spelling of its topic.
+ * Multiple-choice questions need four distinct options and a correct index; numerical ones a
+ * finite answer. Returns null for anything that can't be graded reliably.
+ */
+const toObjectiveQuestion = (value: any, section: TestSection): ObjectiveQuestion | null => {
+  if (!value || !isNonEmptyString(value.question) || !isNonEmptyString(value.explanation)) return null;
+  const topic = typeof value.topic === 'string'
+    ? section.topics.find(t => t.toLowerCase() === value.topic.trim().toLowerCase())
+    : undefined;
+  if (!topic) return null;
+  const marks = value.marks === 2 ? 2 : 1;
+  const base = { question: value.question.trim(), explanation: value.explanation.trim(), topic, marks };
+
+  if (value.type === 'mcq') {
+    const options = Array.isArray(value.options) ? value.options : [];
+    const distinct = new Set(options.map((o: unknown) => (typeof o === 'string' ? o.trim().toLowerCase() : '')));
+    if (options.length !== 4 || !options.every(isNonEmptyString) || distinct.size !== 4) return null;
+    if (!Number.isInteger(value.correctOption) || value.correctOption < 0 || value.correctOption > 3) return null;
+    return { type: 'mcq', ...base, options: options.map((o: string) => o.trim()), correctOption: value.correctOption };
+  }
+  if (value.type === 'numerical' && section.numerical) {
+    if (typeof value.correctValue !== 'number' || !Number.isFinite(value.correctValue)) return null;
+    const tolerance = typeof value.tolerance === 'number' && Number.isFinite(value.tolerance) && value.tolerance >= 0 ? value.tolerance : 0;
+    return { type: 'numerical', ...base, correctValue: value.correctValue, tolerance };
+  }
+  return null;
+};
+
+/**
+ * The usable questions from a model response, without repeats, up to the section's count
+ */
+export const normalizeObjectiveQuestions = (value: unknown, section: TestSection): ObjectiveQuestion[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value
+    .map(q => toObjectiveQuestion(q, section))
+    .filter((q): q is ObjectiveQuestion => {
+      if (!q || seen.has(q.question)) return false;
+      seen.add(q.question);
+      return true;
+    })
+    .slice(0, section.questionCount);
+};
+
+const getOutcome = (question: ObjectiveQuestion, answer: number | null): ObjectiveOutcome => {
+  if (answer === null || Number.isNaN(answer)) return 'unattempted';
+  const correct = question.type === 'mcq'
+    ? answer === question.correctOption
+    // Allow for floating point error on top of the question's own tolerance
+    : Math.abs(answer - question.correctValue!) <= (question.tolerance ?? 0) + 1e-9;
+  return correct ? 'correct' : 'wrong';
+};
+
+/**
+ * Grade one answer. Wrong answers lose the scheme's fraction of the question's marks, except
+ * numerical answers when the scheme doesn't penalise them.
+ */
+export const gradeObjectiveAnswer = (question: ObjectiveQuestion, section: string, answer: number | null, marking: MarkingScheme): ObjectiveResult => {
+  const outcome = getOutcome(question, answer);
+  const penalised = question.type === 'mcq' || marking.negativeOnNumerical;
+  const marks = outcome === 'correct'
+    ? question.marks
+    : outcome === 'wrong' && penalised ? -question.marks * marking.negativeFraction : 0;
+  return { question, section, answer: outcome === 'unattempted' ? null : answer, outcome, marks };
+};
+
+/**
+ * Marks scored and available across a set of results, rounded to two decimals like an exam scorecard
+ */
+export const getTestTotals = (results: ObjectiveResult[]) => {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const count = (outcome: ObjectiveOutcome) => results.filter(r => r.outcome === outcome).length;
+  const correct = count('correct');
+  const wrong = count('wrong');
+  return {
+    marks: round(results.reduce((sum, r) => sum + r.marks, 0)),
+    maxMarks: results.reduce((sum, r) => sum + r.question.marks, 0),
+    correct,
+    wrong,
+    unattempted: count('unattempted'),
+    // Share of attempted questions answered correctly
+    accuracy: correct + wrong > 0 ? Math.round((correct / (correct + wrong)) * 100) : 0,
+  };
+};
+
+/**
+ * Results grouped by topic, weakest first by share of marks scored
+ */
+export const summarizeByTopic = (results: ObjectiveResult[]): TopicBreakdown[] => {
+  const topics = new Map<string, ObjectiveResult[]>();
+  results.forEach(r => topics.set(r.question.topic, [...(topics.get(r.question.topic) ?? []), r]));
+  return Array.from(topics.entries())
+    .map(([topic, topicResults]) => {
+      const { marks, maxMarks, correct, wrong, unattempted } = getTestTotals(topicResults);
+      return { topic, correct, wrong, unattempted, marks, maxMarks };
+    })
+    .sort((a, b) => a.marks / a.maxMarks - b.marks / b.maxMarks);
+};
@@ -1,5 +1,8 @@
 
 import { ProfileData, Subject } from '../types';
+import { getCurrentUser } from './authService';
+import { queueProfileForSync } from './syncQueue';
+import type { SessionFeedback } from './feedbackService';
 
 const PROFILE_KEY = 'makePrepWithMeProfile';
 
@@ -52,6 +55,11 @@ const saveProfileData = (profile: ProfileData) => {
   }
 };
 
+// Overwrite the local profile with one merged on the backend, without queueing it for upload again
+export const replaceProfileData = (profile: ProfileData) => {
+  saveProfileData({ ...defaultProfile, ...profile });
+};
+
 const isSameDay = (date1: Date, date2: Date): boolean => {
     return date1.getFullYear() === date2.getFullYear() &&
            date1.getMonth() === date2.getMonth() &&
@@ -105,8 +113,78 @@ export const updateProfileOnSessionEnd = (subject: Subject, score: number) => {
   });
 
   saveProfileData(profile);
+  queueProfileForSync(getCurrentUser()?.id ?? '');
+};
+
+
+const isSubject = (value: string): value is Subject => {
+  return (Object.values(Subject) as string[]).includes(value);
 };
 
+const toDayKey = (date: Date): string => {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+};
+
+/**
+ * Rebuild the profile stats from a user's saved sessions, e.g. after importing history.
+ * Only subject interviews with at least one scored answer count, matching updateProfileOnSessionEnd.
+ * Local history is capped, so counters never drop below what the profile already records.
+ */
+export const rebuildProfileFromSessions = (sessions: SessionFeedback[]) => {
+  const current = getProfileData();
+  const profile: ProfileData = { ...current, badges: [...current.badges], subjectStats: { ...current.subjectStats } };
+  const counted = sessions
+    .filter(s => isSubject(s.subject) && s.feedbacks.some(f => !f.feedback.error))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  if (counted.length === 0) return;
+
+  if (counted.length >= profile.interviewsCompleted) {
+    profile.interviewsCompleted = counted.length;
+    profile.averageScore = counted.reduce((sum, s) => sum + s.averageScore, 0) / counted.length;
+  }
+
+  const subjectStats: ProfileData['subjectStats'] = {};
+  counted.forEach(s => {
+    const subject = s.subject as Subject;
+    subjectStats[subject] = (subjectStats[subject] || 0) + 1;
+  });
+  (Object.keys(subjectStats) as Subject[]).forEach(subject => {
+    profile.subjectStats[subject] = Math.max(profile.subjectStats[subject] ?? 0, subjectStats[subject] ?? 0);
+  });
+
+  // Walk the distinct session days in order, counting consecutive-day runs
+  let streak = 0;
+  let longest = 0;
+  let previousDay: Date | null = null;
+  const seenDays = new Set<string>();
+  counted.forEach(s => {
+    const day = new Date(s.timestamp);
+    if (seenDays.has(toDayKey(day))) return;
+    seenDays.add(toDayKey(day));
+    streak = previousDay && isYesterday(previousDay, day) ? streak + 1 : 1;
+    longest = Math.max(longest, streak);
+    previousDay = day;
+  });
+
+  const latest = counted[counted.length - 1].timestamp;
+  if (!profile.lastSessionDate || new Date(latest) >= new Date(profile.lastSessionDate)) {
+    profile.lastSessionDate = latest;
+    profile.currentStreak = streak;
+  }
+  profile.longestStreak = Math.max(profile.longestStreak, longest, profile.currentStreak);
+
+  counted.forEach(s => {
+    allBadges.forEach(badge => {
+      if (!profile.badges.includes(badge.name) && badge.condition(profile, s.subject as Subject, s.averageScore)) {
+        profile.badges.push(badge.name);
+      }
+    });
+  });
+
+  saveProfileData(profile);
+  queueProfileForSync(getCurrentUser()?.id ?? '');
+};
 
 // For displaying in the profile screen
 export const getAllBadges = (): (Badge & { earned: boolean })[] => {
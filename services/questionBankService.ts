@@ -0,0 +1,202 @@
+// Offline interview questions, one JSON file per subject in ./questionBank, each tagged with its
+// topics, difficulty, the key points a good answer covers and a reference answer.
+// Used when neither the backend nor Gemini is reachable.
+
+import { BankQuestion, Difficulty, Subject } from '../types';
+import cpp from './questionBank/cpp.json';
+import csharp from './questionBank/csharp.json';
+import dsa from './questionBank/dsa.json';
+import english from './questionBank/english.json';
+import gate from './questionBank/gate.json';
+import go from './questionBank/go.json';
+import hr from './questionBank/hr.json';
+import java from './questionBank/java.json';
+import javascript from './questionBank/javascript.json';
+import kotlin from './questionBank/kotlin.json';
+import php from './questionBank/php.json';
+import python from './questionBank/python.json';
+import ruby from './questionBank/ruby.json';
+import rust from './questionBank/rust.json';
+import swift from './questionBank/swift.json';
+import systemDesign from './questionBank/system-design.json';
+import typescript from './questionBank/typescript.json';
+import upsc from './questionBank/upsc.json';
+
+const BANK_FILES: unknown[] = [
+  javascript, typescript, python, java, cpp, csharp, go, rust, kotlin, swift, php, ruby,
+  dsa, systemDesign, hr, english, gate, upsc,
+];
+
+const DIFFICULTIES: Difficulty[] = ['Beginner', 'Intermediate', 'Advanced'];
+
+// Custom subjects that name one of the banks, e.g. 'Behavioral questions' uses the HR bank.
+// Matched as whole words, so 'Data Structures' names the DSA bank but 'Database Design' or 'Data Science' don't.
+const SUBJECT_KEYWORDS: Record<string, Subject> = {
+  'data structure': Subject.DSA,
+  'data structures': Subject.DSA,
+  algorithms: Subject.DSA,
+  dsa: Subject.DSA,
+  'system design': Subject.SystemDesign,
+  hr: Subject.HR,
+  behavioral: Subject.HR,
+  behavioural: Subject.HR,
+  english: Subject.English,
+  communication: Subject.English,
+  gate: Subject.GATE,
+  upsc: Subject.UPSC,
+};
+
+// Company technical rounds and other topics have no file of their own
+const DEFAULT_BANK_SUBJECT = Subject.DSA;
+
+export interface BankQuestionFilters {
+  difficulty?: Difficulty;
+  // Matches questions with any of these tags
+  tags?: string[];
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const toStringList = (value: unknown): string[] | null =>
+  Array.isArray(value) && value.length > 0 && value.every(isNonEmptyString) ? value.map(v => v.trim()) : null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDifficulty = (value: unknown): value is Difficulty =>
+  DIFFICULTIES.some(difficulty => difficulty === value);
+
+/**
+ * Check one entry of a bank file. Tags are lower-cased and de-duplicated so filters can match them exactly.
+ */
+const toBankQuestion = (value: unknown): BankQuestion | null => {
+  if (!isRecord(value) || !isNonEmptyString(value.question) || !isNonEmptyString(value.referenceAnswer)) return null;
+  if (!isDifficulty(value.difficulty)) return null;
+  const tags = toStringList(value.tags);
+  const keyPoints = toStringList(value.keyPoints);
+  if (!tags || !keyPoints) return null;
+  return {
+    question: value.question.trim(),
+    difficulty: value.difficulty,
+    tags: [...new Set(tags.map(t => t.toLowerCase()))],
+    keyPoints,
+    referenceAnswer: value.referenceAnswer.trim(),
+  };
+};
+
+/**
+ * Index the bank files by lower-case subject. Malformed entries are dropped and listed in
+ * `problems`, so one bad edit can't take down offline sessions for every subject.
+ */
+const loadQuestionBank = (files: unknown[]): { bank: Map<string, BankQuestion[]>; problems: string[] } => {
+  const bank = new Map<string, BankQuestion[]>();
+  const problems: string[] = [];
+  files.forEach((file, fileIndex) => {
+    if (!isRecord(file) || !isNonEmptyString(file.subject) || !Array.isArray(file.questions)) {
+      problems.push(`File #${fileIndex + 1} has no subject or questions, skipped it`);
+      return;
+    }
+    const subject = file.subject.trim();
+    const key = subject.toLowerCase();
+    const questions = bank.get(key) ?? [];
+    file.questions.forEach((entry: unknown, index: number) => {
+      const question = toBankQuestion(entry);
+      if (!question) {
+        problems.push(`Skipped invalid ${subject} question #${index + 1}`);
+      } else if (questions.some(q => q.question === question.question)) {
+        problems.push(`Skipped duplicate ${subject} question: ${question.question}`);
+      } else {
+        questions.push(question);
+      }
+    });
+    bank.set(key, questions);
+  });
+  return { bank, problems };
+};
+
+const { bank: QUESTION_BANK, problems: bankProblems } = loadQuestionBank(BANK_FILES);
+// The files only change with a code edit, so this is for whoever made it, not for users
+if (import.meta.env.DEV && bankProblems.length > 0) {
+  console.warn(`Question bank problems:\n${bankProblems.join('\n')}`);
+}
+
+const matchesFilters = (question: BankQuestion, { difficulty, tags }: BankQuestionFilters): boolean => {
+  if (difficulty && question.difficulty !== difficulty) return false;
+  if (tags && tags.length > 0 && !tags.some(tag => question.tags.includes(tag.trim().toLowerCase()))) return false;
+  return true;
+};
+
+/**
+ * The subject's own bank questions, optionally narrowed by difficulty and tags
+ */
+export const getBankQuestions = (subject: Subject | string, filters: BankQuestionFilters = {}): BankQuestion[] =>
+  (QUESTION_BANK.get(String(subject).toLowerCase()) ?? []).filter(q => matchesFilters(q, filters));
+
+/**
+ * Every tag used in a subject's bank, alphabetically
+ */
+export const getQuestionBankTags = (subject: Subject | string): string[] =>
+  [...new Set(getBankQuestions(subject).flatMap(q => q.tags))].sort();
+
+/**
+ * Bank questions whose text, tags or key points contain every word of the query, across all
+ * subjects unless one is given
+ */
+export const searchQuestionBank = (query: string, filters: BankQuestionFilters & { subject?: Subject | string } = {}): BankQuestion[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const questions = filters.subject ? getBankQuestions(filters.subject) : [...QUESTION_BANK.values()].flat();
+  return questions.filter(q => {
+    if (!matchesFilters(q, filters)) return false;
+    const text = [q.question, ...q.tags, ...q.keyPoints].join(' ').toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
+
+/**
+ * The bank entry for a question as it was asked, if it came from the bank
+ */
+export const findBankQuestion = (question: string): BankQuestion | undefined => {
+  const text = question.trim();
+  for (const questions of QUESTION_BANK.values()) {
+    const match = questions.find(q => q.question === text);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+const resolveBankSubject = (subject: Subject | string): Subject | string => {
+  if (QUESTION_BANK.has(String(subject).toLowerCase())) return subject;
+  const words = ` ${String(subject).toLowerCase().split(/[^a-z]+/).filter(Boolean).join(' ')} `;
+  const keyword = Object.keys(SUBJECT_KEYWORDS).find(phrase => words.includes(` ${phrase} `));
+  return keyword ? SUBJECT_KEYWORDS[keyword] : DEFAULT_BANK_SUBJECT;
+};
+
+/**
+ * A bank question for the subject, or for the closest bank when it has none of its own.
+ * Prefers the requested difficulty, then questions not asked yet, then ones whose tags the
+ * session hasn't covered, so an offline session moves across topics instead of circling one.
+ */
+export const pickBankQuestion = (subject: Subject | string, difficulty: Difficulty, previousQuestions: string[] = []): BankQuestion | null => {
+  const bank = getBankQuestions(resolveBankSubject(subject));
+  if (bank.length === 0) return null;
+
+  const atLevel = bank.filter(q => q.difficulty === difficulty);
+  const candidates = atLevel.length > 0 ? atLevel : bank;
+  const asked = new Set(previousQuestions.map(q => q.trim()));
+  const unasked = candidates.filter(q => !asked.has(q.question));
+  if (unasked.length === 0) {
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  const coveredTags = new Set(bank.filter(q => asked.has(q.question)).flatMap(q => q.tags));
+  const freshTopics = unasked.filter(q => !q.tags.some(tag => coveredTags.has(tag)));
+  const pool = freshTopics.length > 0 ? freshTopics : unasked;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+/**
+ * A bank question's reference answer with its key points, for showing as the suggested answer
+ */
+export const describeBankAnswer = (question: BankQuestion): string =>
+  `${question.referenceAnswer} Key points: ${question.keyPoints.join('; ')}.`;
@@ -0,0 +1,124 @@
+// Builds the end-of-session report from the turns recorded during an interview
+
+import { Subject, Difficulty, SessionReport, ScoredQuestion, RoundSummary } from '../types';
+import type { FeedbackEntry } from './feedbackService';
+import { generateSessionReportNarrative } from './geminiService';
+import { stepDifficulty, STRONG_SCORE, WEAK_SCORE } from './difficultyService';
+
+// Turns whose evaluation failed carry a placeholder score and are left out of the report
+const getScoredEntries = (entries: FeedbackEntry[]): FeedbackEntry[] => {
+  return entries.filter(e => !e.feedback.error);
+};
+
+const truncate = (text: string, max = 80): string => {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+};
+
+/**
+ * Highest and lowest scoring answers. Ties go to the earliest question.
+ */
+export const getBestAndWorstAnswers = (entries: FeedbackEntry[]): { best: ScoredQuestion | null; worst: ScoredQuestion | null } => {
+  const scored = getScoredEntries(entries);
+  if (scored.length === 0) return { best: null, worst: null };
+
+  let best = scored[0];
+  let worst = scored[0];
+  scored.forEach(e => {
+    if (e.feedback.score > best.feedback.score) best = e;
+    if (e.feedback.score < worst.feedback.score) worst = e;
+  });
+  return {
+    best: { question: best.question, score: best.feedback.score },
+    worst: { question: worst.question, score: worst.feedback.score },
+  };
+};
+
+/**
+ * Step up a level after a strong session, down after a weak one, otherwise stay.
+ */
+export const recommendNextDifficulty = (difficulty: Difficulty, entries: FeedbackEntry[]): Difficulty => {
+  const scored = getScoredEntries(entries);
+  if (scored.length === 0) return difficulty;
+
+  const average = scored.reduce((sum, e) => sum + e.feedback.score, 0) / scored.length;
+  if (average >= STRONG_SCORE) return stepDifficulty(difficulty, 1);
+  if (average < WEAK_SCORE) return stepDifficulty(difficulty, -1);
+  return difficulty;
+};
+
+const getAverageScore = (entries: FeedbackEntry[]): number => {
+  const scored = getScoredEntries(entries);
+  return scored.length > 0 ? scored.reduce((sum, e) => sum + e.feedback.score, 0) / scored.length : 0;
+};
+
+/**
+ * How one round of a company interview went, from the answers given in it
+ */
+export const summarizeRound = (round: string, entries: FeedbackEntry[]): RoundSummary => {
+  const roundEntries = entries.filter(e => e.round === round);
+  const { best, worst } = getBestAndWorstAnswers(roundEntries);
+  return {
+    round,
+    answered: getScoredEntries(roundEntries).length,
+    averageScore: getAverageScore(roundEntries),
+    bestAnswer: best,
+    worstAnswer: worst,
+  };
+};
+
+/**
+ * One summary per round, in the order the rounds were run. Empty for sessions without rounds.
+ */
+export const summarizeRounds = (entries: FeedbackEntry[]): RoundSummary[] => {
+  const rounds = Array.from(new Set(entries.map(e => e.round).filter((round): round is string => !!round)));
+  return rounds.map(round => summarizeRound(round, entries));
+};
+
+/**
+ * Report built purely from the scores, used when Gemini isn't available
+ */
+export const buildFallbackReport = (subject: Subject | string, difficulty: Difficulty, entries: FeedbackEntry[]): SessionReport => {
+  const scored = getScoredEntries(entries);
+  const { best, worst } = getBestAndWorstAnswers(entries);
+  const average = getAverageScore(entries);
+  const rounds = summarizeRounds(entries);
+
+  const strengths = scored
+    .filter(e => e.feedback.score >= STRONG_SCORE)
+    .map(e => `Strong answer (${e.feedback.score}/10) on: ${truncate(e.question)}`);
+  const weaknesses = scored
+    .filter(e => e.feedback.score < WEAK_SCORE)
+    .map(e => `Revisit (${e.feedback.score}/10): ${truncate(e.question)}`);
+
+  return {
+    summary: scored.length > 0
+      ? `You answered ${scored.length} ${subject} question${scored.length === 1 ? '' : 's'} at ${difficulty} level with an average score of ${average.toFixed(1)}/10.`
+      : `No answers were scored in this ${subject} session.`,
+    strengths,
+    weaknesses,
+    topicsCovered: entries.map(e => truncate(e.question)),
+    bestAnswer: best,
+    worstAnswer: worst,
+    recommendedDifficulty: recommendNextDifficulty(difficulty, entries),
+    source: 'fallback',
+    rounds: rounds.length > 0 ? rounds : undefined,
+  };
+};
+
+/**
+ * Build the session report, using Gemini for the strengths/weaknesses narrative when it's reachable.
+ * Best/worst answers are always computed from the scores so they match the transcript exactly.
+ */
+export const createSessionReport = async (subject: Subject | string, difficulty: Difficulty, entries: FeedbackEntry[]): Promise<SessionReport> => {
+  const fallback = buildFallbackReport(subject, difficulty, entries);
+  if (getScoredEntries(entries).length === 0) return fallback;
+
+  const narrative = await generateSessionReportNarrative(subject, difficulty, entries);
+  if (!narrative) return fallback;
+
+  return {
+    ...fallback,
+    ...narrative,
+    source: 'ai',
+  };
+};
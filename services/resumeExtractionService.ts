@@ -0,0 +1,93 @@
+// Pulls plain text out of uploaded resume files so it can be reviewed before parsing.
+// PDF and DOCX are decoded in the browser; the libraries are loaded on demand to keep them out of the main bundle.
+
+export const RESUME_FILE_ACCEPT = '.pdf,.docx,.txt,.md';
+
+// Text shorter than this after extraction usually means a scanned (image-only) PDF
+const MIN_EXTRACTED_LENGTH = 50;
+
+export interface ExtractionResult {
+  success: boolean;
+  text: string;
+  message?: string;
+}
+
+const getExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+};
+
+// Collapse the runs of spaces and blank lines PDF text extraction tends to produce
+const normalizeText = (text: string): string => {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    // hasEOL marks the end of a visual line; without it everything on a page runs together
+    const text = content.items
+      .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+      .join('');
+    pages.push(text);
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
+
+const extractDocxText = async (file: File): Promise<string> => {
+  const mammoth = (await import('mammoth')).default;
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+/**
+ * Extract the text of a resume file. Plain text files are read as-is.
+ */
+export const extractResumeText = async (file: File): Promise<ExtractionResult> => {
+  const extension = getExtension(file.name);
+
+  try {
+    let text: string;
+    switch (extension) {
+      case 'pdf':
+        text = await extractPdfText(file);
+        break;
+      case 'docx':
+        text = await extractDocxText(file);
+        break;
+      case 'txt':
+      case 'md':
+        text = await file.text();
+        break;
+      case 'doc':
+        return { success: false, text: '', message: 'Older .doc files are not supported. Please save your resume as .docx or PDF.' };
+      default:
+        return { success: false, text: '', message: 'Unsupported file type. Please upload a PDF, DOCX or text file.' };
+    }
+
+    const normalized = normalizeText(text);
+    if (normalized.length < MIN_EXTRACTED_LENGTH) {
+      return {
+        success: true,
+        text: normalized,
+        message: 'Very little text could be read from this file. If it is a scanned PDF, paste your resume text below instead.',
+      };
+    }
+    return { success: true, text: normalized };
+  } catch (error) {
+    console.error('Failed to extract resume text:', error);
+    return { success: false, text: '', message: 'Could not read this file. It may be corrupted or password-protected.' };
+  }
+};
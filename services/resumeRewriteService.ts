@@ -0,0 +1,169 @@
+// Suggests stronger versions of resume bullets and rebuilds the resume from the ones the user accepts
+
+import { ResumeData, ResumeBullet, ResumeSection, BulletRewrite } from '../types';
+import { suggestBulletRewrites } from './geminiService';
+
+export type RewriteDecision = 'accepted' | 'rejected';
+export type ResumeOutputFormat = 'text' | 'markdown';
+
+export interface DiffPart {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+// Weak openers and the action verb to use instead, for the offline fallback
+const WEAK_OPENERS: Array<[RegExp, string]> = [
+  [/^(?:was\s+)?responsible\s+for\s+/i, 'Owned '],
+  [/^worked\s+on\s+/i, 'Built '],
+  [/^helped\s+(?:to\s+|with\s+)?/i, 'Contributed to '],
+  [/^assisted\s+(?:in\s+|with\s+)?/i, 'Supported '],
+  [/^involved\s+in\s+/i, 'Delivered '],
+  [/^tasked\s+with\s+/i, 'Led '],
+  [/^participated\s+in\s+/i, 'Contributed to '],
+  [/^did\s+/i, 'Executed '],
+];
+
+const METRIC_PLACEHOLDER = ', improving [metric] by [X%]';
+const SECTION_TITLES: Record<ResumeSection, string> = {
+  experience: 'Experience',
+  projects: 'Projects',
+};
+
+/**
+ * Flatten the experience and project entries into individually rewritable bullets
+ */
+export const getResumeBullets = (resumeData: ResumeData): ResumeBullet[] => {
+  const toBullets = (section: ResumeSection, items: string[]): ResumeBullet[] =>
+    items
+      .map((text, index) => ({ id: `${section}-${index}`, section, text: text.trim() }))
+      .filter(b => b.text.length > 0);
+
+  return [...toBullets('experience', resumeData.experience), ...toBullets('projects', resumeData.projects)];
+};
+
+/**
+ * Rule-based rewrite used when Gemini isn't available: swap a weak opener for an
+ * action verb and, if the bullet has no numbers, add a placeholder for the impact.
+ * Returns null when there's nothing to improve.
+ */
+export const buildFallbackRewrite = (bullet: ResumeBullet): BulletRewrite | null => {
+  let rewritten = bullet.text.replace(/[.;]\s*$/, '');
+  const reasons: string[] = [];
+
+  const opener = WEAK_OPENERS.find(([pattern]) => pattern.test(rewritten));
+  if (opener) {
+    rewritten = rewritten.replace(opener[0], opener[1]);
+    reasons.push('starts with an action verb');
+  }
+  if (!/\d/.test(rewritten)) {
+    rewritten += METRIC_PLACEHOLDER;
+    reasons.push('adds a placeholder for the measurable impact');
+  }
+  if (reasons.length === 0) return null;
+
+  return {
+    id: bullet.id,
+    section: bullet.section,
+    original: bullet.text,
+    rewritten,
+    rationale: `Rewritten so it ${reasons.join(' and ')}.`,
+  };
+};
+
+/**
+ * Suggested rewrites for every bullet that can be improved, from Gemini when reachable
+ */
+export const createRewriteSuggestions = async (resumeData: ResumeData): Promise<{ rewrites: BulletRewrite[]; source: 'ai' | 'fallback' }> => {
+  const bullets = getResumeBullets(resumeData);
+  if (bullets.length === 0) return { rewrites: [], source: 'fallback' };
+
+  const suggestions = await suggestBulletRewrites(bullets);
+  if (!suggestions) {
+    const rewrites = bullets.map(buildFallbackRewrite).filter((r): r is BulletRewrite => r !== null);
+    return { rewrites, source: 'fallback' };
+  }
+
+  const byId = new Map(bullets.map(b => [b.id, b]));
+  const rewrites = suggestions
+    .filter(s => s.rewritten.trim() !== byId.get(s.id)?.text)
+    .map(s => {
+      const bullet = byId.get(s.id)!;
+      return { id: s.id, section: bullet.section, original: bullet.text, rewritten: s.rewritten.trim(), rationale: s.rationale };
+    });
+  return { rewrites, source: 'ai' };
+};
+
+/**
+ * Word-level diff between two bullets (longest common subsequence), keeping whitespace with each word
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(?<=\s)/);
+  const b = after.split(/(?<=\s)/);
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, type: DiffPart['type']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      push(b[j], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
+
+/**
+ * The resume with accepted rewrites applied. Rejected and undecided bullets keep their original text.
+ */
+export const buildImprovedResume = (
+  resumeData: ResumeData,
+  rewrites: BulletRewrite[],
+  decisions: Record<string, RewriteDecision>,
+  format: ResumeOutputFormat
+): string => {
+  const accepted = new Map(rewrites.filter(r => decisions[r.id] === 'accepted').map(r => [r.id, r.rewritten]));
+  const bullets = getResumeBullets(resumeData);
+  const heading = (title: string) => (format === 'markdown' ? `## ${title}` : title.toUpperCase());
+  const listItem = (text: string) => (format === 'markdown' ? `- ${text}` : `• ${text}`);
+
+  const sections: string[] = [];
+  if (resumeData.skills.length > 0) {
+    sections.push([heading('Skills'), resumeData.skills.join(', ')].join('\n'));
+  }
+  (['experience', 'projects'] as ResumeSection[]).forEach(section => {
+    const items = bullets.filter(b => b.section === section).map(b => listItem(accepted.get(b.id) ?? b.text));
+    if (items.length > 0) {
+      sections.push([heading(SECTION_TITLES[section]), ...items].join('\n'));
+    }
+  });
+  if (resumeData.education.length > 0) {
+    sections.push([heading('Education'), ...resumeData.education.map(listItem)].join('\n'));
+  }
+
+  return `${sections.join('\n\n')}\n`;
+};
@@ -0,0 +1,80 @@
+// Scoring rubric for spoken and written answers: the dimensions each subject family is scored on
+
+import { Subject, RubricDimension, RubricFamily, RubricScores } from '../types';
+
+export interface RubricCriterion {
+  dimension: RubricDimension;
+  // What this dimension means for the family, given to the model
+  description: string;
+}
+
+export const RUBRIC_DIMENSION_LABELS: Record<RubricDimension, string> = {
+  technicalAccuracy: 'Technical Accuracy',
+  completeness: 'Completeness',
+  clarity: 'Communication Clarity',
+  structure: 'Structure',
+  examples: 'Examples',
+};
+
+export const RUBRICS: Record<RubricFamily, RubricCriterion[]> = {
+  engineering: [
+    { dimension: 'technicalAccuracy', description: 'are the facts, terms and reasoning correct?' },
+    { dimension: 'completeness', description: 'does it cover the key points, trade-offs and edge cases the question calls for?' },
+    { dimension: 'clarity', description: 'could another engineer follow the explanation?' },
+    { dimension: 'examples', description: 'does it use concrete code, scenarios or real-world use to back up the points?' },
+  ],
+  behavioral: [
+    { dimension: 'structure', description: 'does it walk through the situation, their own actions and the result in order?' },
+    { dimension: 'examples', description: 'is it grounded in a specific, real experience rather than generalities?' },
+    { dimension: 'clarity', description: 'is it concise, confident and easy to follow?' },
+    { dimension: 'completeness', description: 'does it answer what was asked, including the outcome and what they learned?' },
+  ],
+  english: [
+    { dimension: 'clarity', description: 'grammar, vocabulary and how easily the meaning comes across' },
+    { dimension: 'structure', description: 'do the ideas flow logically, with linking words between them?' },
+    { dimension: 'examples', description: 'does it support its points with details or examples?' },
+    { dimension: 'completeness', description: 'does it fully answer the question at a natural length?' },
+  ],
+  exam: [
+    { dimension: 'technicalAccuracy', description: 'are the facts, figures, formulas or provisions correct?' },
+    { dimension: 'completeness', description: 'does it cover every part of the question at the depth the exam expects?' },
+    { dimension: 'structure', description: 'is it organised the way a model exam answer would be?' },
+    { dimension: 'examples', description: 'does it cite relevant examples, data, cases or derivations?' },
+  ],
+};
+
+const SUBJECT_FAMILIES: Partial<Record<Subject, RubricFamily>> = {
+  [Subject.HR]: 'behavioral',
+  [Subject.English]: 'english',
+  [Subject.GATE]: 'exam',
+  [Subject.UPSC]: 'exam',
+};
+
+/**
+ * The rubric family for a subject. Programming subjects, company interviews and
+ * anything else not listed are scored as engineering answers.
+ */
+export const getRubricFamily = (subject: Subject | string): RubricFamily => {
+  return SUBJECT_FAMILIES[subject as Subject] ?? 'engineering';
+};
+
+export const getRubric = (subject: Subject | string): RubricCriterion[] => {
+  return RUBRICS[getRubricFamily(subject)];
+};
+
+/**
+ * Keep the model's scores for the subject's own dimensions, rounded and clamped to 0-10.
+ * Returns undefined when none of them are usable.
+ */
+export const normalizeRubricScores = (value: unknown, subject: Subject | string): RubricScores | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const scores: RubricScores = {};
+  getRubric(subject).forEach(({ dimension }) => {
+    const score = (value as Record<string, unknown>)[dimension];
+    if (typeof score === 'number' && Number.isFinite(score)) {
+      scores[dimension] = Math.max(0, Math.min(10, Math.round(score)));
+    }
+  });
+  return Object.keys(scores).length > 0 ? scores : undefined;
+};
@@ -0,0 +1,26 @@
+// Session length presets offered when starting a topic interview
+
+import { SessionPreset, SessionSettings } from '../types';
+
+export const UNTIMED_SETTINGS: SessionSettings = {
+  questionCount: null,
+  answerTimeLimit: null,
+  totalTimeLimit: null,
+  adaptiveDifficulty: false,
+};
+
+export const SESSION_PRESETS: SessionPreset[] = [
+  { id: 'practice', label: 'Practice', description: 'No limits, end whenever you like', settings: UNTIMED_SETTINGS },
+  { id: 'quick', label: 'Quick 15', description: '5 questions · 2 min per answer', settings: { questionCount: 5, answerTimeLimit: 120, totalTimeLimit: 15, adaptiveDifficulty: false } },
+  { id: 'round-30', label: '30 min', description: '8 questions · 3 min per answer', settings: { questionCount: 8, answerTimeLimit: 180, totalTimeLimit: 30, adaptiveDifficulty: false } },
+  { id: 'round-45', label: '45 min', description: '10 questions · 4 min per answer', settings: { questionCount: 10, answerTimeLimit: 240, totalTimeLimit: 45, adaptiveDifficulty: false } },
+  { id: 'round-60', label: '60 min', description: '12 questions · 4 min per answer', settings: { questionCount: 12, answerTimeLimit: 240, totalTimeLimit: 60, adaptiveDifficulty: false } },
+];
+
+/**
+ * Format a number of seconds as m:ss for countdowns
+ */
+export const formatDuration = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,88 @@
+// STAR-method (Situation, Task, Action, Result) analysis of behavioral answers
+
+import { StarAnalysis, StarComponent, StarElement, StarStrength } from '../types';
+
+export const STAR_COMPONENTS: StarComponent[] = ['situation', 'task', 'action', 'result'];
+
+export const STAR_LABELS: Record<StarComponent, string> = {
+  situation: 'Situation',
+  task: 'Task',
+  action: 'Action',
+  result: 'Result',
+};
+
+export const STAR_STRENGTHS: StarStrength[] = ['strong', 'weak', 'missing'];
+const STRENGTH_CREDIT: Record<StarStrength, number> = { strong: 1, weak: 0.5, missing: 0 };
+
+// Phrasings that ask for a story about past experience
+const BEHAVIORAL_QUESTION = /\b(?:tell (?:me|us) about a time|describe a (?:\w+ )?(?:time|situation)|give (?:me |us )?an example|walk (?:me|us) through a (?:\w+ )?(?:time|situation)|a time when|how did you (?:handle|deal with|resolve|manage|overcome)|have you ever)\b/i;
+
+export interface AnnotatedPart {
+  text: string;
+  // Set on the excerpts the analysis attributed to a STAR component
+  component?: StarComponent;
+}
+
+/**
+ * Whether a question asks for a story from past experience, e.g. "Tell me about a time..."
+ */
+export const isBehavioralQuestion = (question: string): boolean => {
+  return BEHAVIORAL_QUESTION.test(question);
+};
+
+export const getStarCompleteness = (elements: StarElement[]): number => {
+  const credit = elements.reduce((sum, element) => sum + STRENGTH_CREDIT[element.strength], 0);
+  return Math.round((credit / STAR_COMPONENTS.length) * 100);
+};
+
+/**
+ * Turn the model's STAR breakdown into one element per component, in order. Components it
+ * left out count as missing, and excerpts that aren't verbatim in the answer are dropped so
+ * everything left can be highlighted. Returns undefined when there's no breakdown at all.
+ */
+export const normalizeStarAnalysis = (value: unknown, answer: string): StarAnalysis | undefined => {
+  const raw = (value as { elements?: unknown } | null)?.elements;
+  if (!Array.isArray(raw)) return undefined;
+
+  const lowerAnswer = answer.toLowerCase();
+  const elements = STAR_COMPONENTS.map((component): StarElement => {
+    const found = raw.find((e: any) => e?.component === component);
+    const strength: StarStrength = STAR_STRENGTHS.includes(found?.strength) ? found.strength : 'missing';
+    const excerpt = typeof found?.excerpt === 'string' ? found.excerpt.trim() : '';
+    return {
+      component,
+      strength,
+      excerpt: strength !== 'missing' && excerpt && lowerAnswer.includes(excerpt.toLowerCase()) ? excerpt : undefined,
+      comment: typeof found?.comment === 'string' ? found.comment : '',
+    };
+  });
+
+  return { elements, completeness: getStarCompleteness(elements) };
+};
+
+/**
+ * Split an answer into plain text and the excerpts attributed to each STAR component, in
+ * reading order. An excerpt overlapping an earlier one is left unhighlighted.
+ */
+export const annotateStarAnswer = (answer: string, analysis: StarAnalysis): AnnotatedPart[] => {
+  const lowerAnswer = answer.toLowerCase();
+  const spans = analysis.elements
+    .filter((element): element is StarElement & { excerpt: string } => !!element.excerpt)
+    .map(element => {
+      const start = lowerAnswer.indexOf(element.excerpt.toLowerCase());
+      return { component: element.component, start, end: start + element.excerpt.length };
+    })
+    .filter(span => span.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const parts: AnnotatedPart[] = [];
+  let cursor = 0;
+  spans.forEach(span => {
+    if (span.start < cursor) return;
+    if (span.start > cursor) parts.push({ text: answer.slice(cursor, span.start) });
+    parts.push({ text: answer.slice(span.start, span.end), component: span.component });
+    cursor = span.end;
+  });
+  if (cursor < answer.length) parts.push({ text: answer.slice(cursor) });
+  return parts;
+};
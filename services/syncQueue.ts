@@ -0,0 +1,86 @@
+// Offline queue of local progress changes waiting to be uploaded by syncService
+
+import type { SessionFeedback } from './feedbackService';
+
+export interface SyncQueue {
+  sessions: SessionFeedback[];
+  profileDirty: boolean;
+}
+
+// Dispatched on window whenever something is queued, so a running sync loop can flush right away
+export const SYNC_QUEUED_EVENT = 'makePrepWithMe:sync-queued';
+
+const getQueueKey = (userId: string): string => {
+  return `makePrepWithMe_syncQueue_${userId}`;
+};
+
+const emptyQueue = (): SyncQueue => ({ sessions: [], profileDirty: false });
+
+/**
+ * Get the pending changes for a user
+ */
+export const getSyncQueue = (userId: string): SyncQueue => {
+  try {
+    const data = localStorage.getItem(getQueueKey(userId));
+    return data ? { ...emptyQueue(), ...JSON.parse(data) } : emptyQueue();
+  } catch (error) {
+    console.error('Failed to read sync queue:', error);
+    return emptyQueue();
+  }
+};
+
+const saveSyncQueue = (userId: string, queue: SyncQueue) => {
+  try {
+    localStorage.setItem(getQueueKey(userId), JSON.stringify(queue));
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new Event(SYNC_QUEUED_EVENT));
+    }
+  } catch (error) {
+    console.error('Failed to save sync queue:', error);
+  }
+};
+
+/**
+ * Queue a finished session for upload
+ */
+export const queueSessionForSync = (userId: string, session: SessionFeedback): void => {
+  if (!userId) return;
+  const queue = getSyncQueue(userId);
+  queue.sessions = [...queue.sessions.filter(s => s.sessionId !== session.sessionId), session];
+  saveSyncQueue(userId, queue);
+};
+
+/**
+ * Mark the local profile as changed since the last upload
+ */
+export const queueProfileForSync = (userId: string): void => {
+  if (!userId) return;
+  const queue = getSyncQueue(userId);
+  queue.profileDirty = true;
+  saveSyncQueue(userId, queue);
+};
+
+/**
+ * Remove the items that were uploaded, keeping anything queued while the upload was in flight
+ */
+export const removeSyncedItems = (userId: string, synced: SyncQueue): void => {
+  try {
+    const current = getSyncQueue(userId);
+    const syncedIds = new Set(synced.sessions.map(s => s.sessionId));
+    const remaining: SyncQueue = {
+      sessions: current.sessions.filter(s => !syncedIds.has(s.sessionId)),
+      profileDirty: current.profileDirty && !synced.profileDirty,
+    };
+    if (remaining.sessions.length === 0 && !remaining.profileDirty) {
+      localStorage.removeItem(getQueueKey(userId));
+    } else {
+      localStorage.setItem(getQueueKey(userId), JSON.stringify(remaining));
+    }
+  } catch (error) {
+    console.error('Failed to update sync queue:', error);
+  }
+};
+
+export const isSyncQueueEmpty = (queue: SyncQueue): boolean => {
+  return queue.sessions.length === 0 && !queue.profileDirty;
+};
@@ -0,0 +1,172 @@
+// Keeps localStorage profile and feedback history in step with the backend so progress follows the user across machines
+
+import { ProfileData } from '../types';
+import { buildApiUrl, fetchWithTimeout } from './apiConfig';
+import { getAuthToken, User } from './authService';
+import { getUserFeedbacks, replaceUserFeedbacks, SessionFeedback } from './feedbackService';
+import { getProfileData, replaceProfileData } from './profileService';
+import { getSyncQueue, queueSessionForSync, removeSyncedItems, isSyncQueueEmpty, SyncQueue, SYNC_QUEUED_EVENT } from './syncQueue';
+
+interface SyncState {
+  profile: ProfileData | null;
+  sessions: SessionFeedback[];
+  // Uploaded sessionIds the server could not store this time
+  conflicts?: string[];
+}
+
+const SYNC_TIMEOUT_MS = 10000;
+const RETRY_INTERVAL_MS = 60000;
+// Users registered by the old localStorage-only auth; their history lives under their old local id
+const LEGACY_USERS_KEY = 'makePrepWithMe_users';
+// Id of the user whose data the (single, unscoped) local profile currently holds
+const PROFILE_OWNER_KEY = 'makePrepWithMe_profileOwner';
+
+const getSyncedAtKey = (userId: string): string => {
+  return `makePrepWithMe_syncedAt_${userId}`;
+};
+
+let inFlight: Promise<boolean> | null = null;
+
+/**
+ * Send local changes to /api/sync and return the merged state, or null if the backend is unreachable
+ */
+const postSync = async (profile: ProfileData | null, sessions: SessionFeedback[]): Promise<SyncState | null> => {
+  const token = getAuthToken();
+  if (!token) return null;
+
+  try {
+    const response = await fetchWithTimeout(buildApiUrl('/api/sync'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ profile, sessions }),
+    }, SYNC_TIMEOUT_MS);
+
+    if (!response.ok) {
+      console.error('Sync rejected by backend:', response.status, await response.text());
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.warn('Backend unreachable, keeping changes queued:', error);
+    return null;
+  }
+};
+
+/**
+ * Replace local data with the merged state, keeping any sessions queued while the request was in flight.
+ * A queued session is newer than the server's copy of it (e.g. it just got its end-of-session report), so it wins.
+ */
+const applyServerState = (userId: string, state: SyncState) => {
+  const pending = getSyncQueue(userId).sessions;
+  const byId = new Map<string, SessionFeedback>();
+  [...state.sessions, ...pending].forEach(session => byId.set(session.sessionId, session));
+  replaceUserFeedbacks(userId, Array.from(byId.values()));
+
+  if (state.profile) {
+    replaceProfileData(state.profile);
+    localStorage.setItem(PROFILE_OWNER_KEY, userId);
+  }
+  localStorage.setItem(getSyncedAtKey(userId), new Date().toISOString());
+};
+
+/**
+ * Take what was uploaded off the queue, except sessions the server reported as conflicting:
+ * those stay queued, so they are retried and survive the local history being replaced
+ */
+const settleUpload = (userId: string, uploaded: SyncQueue, state: SyncState) => {
+  const conflicts = new Set(state.conflicts ?? []);
+  removeSyncedItems(userId, uploaded);
+  uploaded.sessions
+    .filter(session => conflicts.has(session.sessionId))
+    .forEach(session => queueSessionForSync(userId, session));
+};
+
+const getLegacyFeedbacks = (email: string): SessionFeedback[] => {
+  try {
+    const data = localStorage.getItem(LEGACY_USERS_KEY);
+    const legacyUsers: Array<{ id: string; email: string }> = data ? JSON.parse(data) : [];
+    const legacy = legacyUsers.find(u => u.email.toLowerCase() === email.toLowerCase());
+    return legacy ? getUserFeedbacks(legacy.id) : [];
+  } catch (error) {
+    console.error('Failed to read legacy users:', error);
+    return [];
+  }
+};
+
+/**
+ * Upload queued changes. Resolves to true when the queue was flushed (or was already empty).
+ */
+export const flushSyncQueue = (userId: string): Promise<boolean> => {
+  if (inFlight) return inFlight;
+
+  inFlight = (async () => {
+    const queue: SyncQueue = getSyncQueue(userId);
+    if (isSyncQueueEmpty(queue)) return true;
+
+    const profile = queue.profileDirty && localStorage.getItem(PROFILE_OWNER_KEY) === userId ? getProfileData() : null;
+    const state = await postSync(profile, queue.sessions);
+    if (!state) return false;
+
+    settleUpload(userId, queue, state);
+    applyServerState(userId, state);
+    return true;
+  })().finally(() => {
+    inFlight = null;
+  });
+
+  return inFlight;
+};
+
+/**
+ * Sync after login. The first time a user logs in on this device, everything stored
+ * locally (including history from the old local-only accounts) is uploaded; after
+ * that only the offline queue is sent.
+ */
+export const syncOnLogin = async (user: User): Promise<boolean> => {
+  if (localStorage.getItem(getSyncedAtKey(user.id))) {
+    await flushSyncQueue(user.id);
+    // Pull what other machines uploaded since
+    const state = await postSync(null, []);
+    if (state) applyServerState(user.id, state);
+    return !!state;
+  }
+
+  // Only upload the local profile if it isn't another account's already-synced data
+  const owner = localStorage.getItem(PROFILE_OWNER_KEY);
+  const profile = !owner || owner === user.id ? getProfileData() : null;
+  // The queue can hold sessions the capped local history no longer does, e.g. from a large import
+  const queued = getSyncQueue(user.id);
+  const sessions = [...getLegacyFeedbacks(user.email), ...getUserFeedbacks(user.id), ...queued.sessions];
+
+  const state = await postSync(profile, sessions);
+  if (!state) return false;
+
+  settleUpload(user.id, { ...queued, sessions }, state);
+  applyServerState(user.id, state);
+  return true;
+};
+
+/**
+ * Flush the queue whenever the browser comes back online, something new is queued,
+ * or periodically while changes are pending. Returns a cleanup function.
+ */
+export const startBackgroundSync = (userId: string): (() => void) => {
+  const flush = () => {
+    flushSyncQueue(userId);
+  };
+
+  window.addEventListener('online', flush);
+  window.addEventListener(SYNC_QUEUED_EVENT, flush);
+  const interval = setInterval(() => {
+    if (!isSyncQueueEmpty(getSyncQueue(userId))) flush();
+  }, RETRY_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener('online', flush);
+    window.removeEventListener(SYNC_QUEUED_EVENT, flush);
+    clearInterval(interval);
+  };
+};
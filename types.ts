@@ -4,6 +4,7 @@ export enum Subject {
   Java = "Java",
   Python = "Python",
   DSA = "Data Structures and Algorithms",
+  SystemDesign = "System Design",
   JavaScript = "JavaScript",
   TypeScript = "TypeScript",
   C_Plus_Plus = "C++",
@@ -46,13 +47,325 @@ export enum Company {
   Accenture = "Accenture",
 }
 
-export type View = "login" | "dashboard" | "session" | "profile" | "resume";
+// Kinds of round a company interview runs; each kind asks a different style of question
+export type CompanyRoundType = 'onlineAssessment' | 'aptitude' | 'technical' | 'systemDesign' | 'managerial' | 'hr';
+
+export interface CompanyRound {
+  type: CompanyRoundType;
+  // What the company calls the round, e.g. "Bar Raiser" or "TCS NQT"
+  name: string;
+  // Main questions asked before moving on to the next round
+  questionCount: number;
+}
+
+// How a company interviews: its rounds in order and how its interviewers ask questions
+export interface CompanyTrack {
+  company: Company;
+  rounds: CompanyRound[];
+  questionStyle: string;
+  // Values behavioral answers are expected to show, e.g. Amazon's Leadership Principles
+  principles?: { name: string; items: string[] };
+}
+
+// The company and round a question is asked for
+export interface CompanyRoundContext {
+  company: Company;
+  round: CompanyRound;
+}
+
+export type View = "login" | "dashboard" | "session" | "test" | "answerWriting" | "profile" | "resume";
 export type Difficulty = 'Beginner' | 'Intermediate' | 'Advanced';
 
+export interface SessionSettings {
+  // Main questions before the session wraps up; null runs until "End Session"
+  questionCount: number | null;
+  // Seconds allowed for each answer; null leaves answers untimed
+  answerTimeLimit: number | null;
+  // Minutes for the whole session; null leaves the session untimed
+  totalTimeLimit: number | null;
+  // Move the difficulty up or down between questions based on recent scores
+  adaptiveDifficulty: boolean;
+}
+
+export interface SessionPreset {
+  id: string;
+  label: string;
+  description: string;
+  settings: SessionSettings;
+}
+
 export interface ChatMessage {
   role: 'user' | 'model' | 'system';
   text: string;
   feedback?: Feedback;
+  // Set on follow-up questions and on the answer/feedback that belong to them
+  isFollowUp?: boolean;
+  // Level the question was asked at, on interviewer messages
+  difficulty?: Difficulty;
+  // Coding questions are answered in the code editor; on the answer, the language it was written in
+  isCoding?: boolean;
+  codeLanguage?: CodingLanguage;
+  // On coding questions, the function the answer must define and the tests to run it against
+  functionName?: string;
+  testCases?: CodeTestCase[];
+  // On code answers, the results of running those tests
+  testRun?: CodeTestRun;
+  // On spoken answers in English Speaking Practice, how they were delivered
+  fluency?: FluencyMetrics;
+  // System design questions are answered with a diagram plus an explanation; on the answer, the diagram
+  isDesign?: boolean;
+  diagram?: SystemDiagram;
+  // Shown between rounds of a company interview
+  roundSummary?: RoundSummary;
+}
+
+// One phrase from speech recognition and when it was heard (ms timestamps)
+export interface SpeechSegment {
+  text: string;
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface FluencyMetrics {
+  wordCount: number;
+  speakingSeconds: number;
+  wordsPerMinute: number;
+  fillerCount: number;
+  // Count per filler word or phrase, e.g. { um: 3, like: 2 }
+  fillers: Record<string, number>;
+  longPauses: number;
+  longestPauseSeconds: number;
+  // Share of distinct words among the non-filler words (0-1)
+  vocabularyDiversity: number;
+  repeatedPhrases: Array<{ phrase: string; count: number }>;
+}
+
+export interface ConversationTurn {
+  role: 'interviewer' | 'candidate';
+  text: string;
+}
+
+export type CodingLanguage =
+  | 'javascript' | 'typescript' | 'python' | 'java' | 'cpp' | 'csharp'
+  | 'go' | 'rust' | 'kotlin' | 'swift' | 'php' | 'ruby';
+
+// Rubric sub-scores (0-10 each) for answers written in the code editor
+export interface CodeScores {
+  correctness: number;
+  complexity: number;
+  style: number;
+}
+
+// One call of the candidate's function: the arguments to pass and the value it should return
+export interface CodeTestCase {
+  args: unknown[];
+  expected: unknown;
+}
+
+// A coding problem; JavaScript/TypeScript answers are run against its test cases when it has them
+export interface CodingQuestion {
+  question: string;
+  functionName?: string;
+  testCases?: CodeTestCase[];
+}
+
+export interface TestCaseResult {
+  args: unknown[];
+  expected: unknown;
+  passed: boolean;
+  // JSON of what the function returned, cut short when very long
+  actual?: string;
+  error?: string;
+}
+
+export interface CodeTestRun {
+  results: TestCaseResult[];
+  passed: number;
+  total: number;
+  // Set when the code couldn't be run at all or was stopped (syntax error, missing function, time limit)
+  error?: string;
+}
+
+export type ObjectiveQuestionType = 'mcq' | 'numerical';
+
+// A multiple-choice or numerical-answer question, graded locally without calling the model
+export interface ObjectiveQuestion {
+  type: ObjectiveQuestionType;
+  question: string;
+  // Multiple choice: the four options and the index of the correct one
+  options?: string[];
+  correctOption?: number;
+  // Numerical answer: the value and how far off an answer can be and still count
+  correctValue?: number;
+  tolerance?: number;
+  explanation: string;
+  // One of its section's topics, for the results breakdown
+  topic: string;
+  marks: number;
+}
+
+// A timed part of a test, e.g. GATE's General Aptitude
+export interface TestSection {
+  name: string;
+  topics: string[];
+  questionCount: number;
+  minutes: number;
+  // Whether the section mixes in numerical-answer questions
+  numerical: boolean;
+}
+
+// An interview question from the offline bank in services/questionBank, used when Gemini is unavailable
+export interface BankQuestion {
+  question: string;
+  difficulty: Difficulty;
+  // Lower-case topics, e.g. 'closures' or 'federalism'
+  tags: string[];
+  // What a good answer should cover
+  keyPoints: string[];
+  referenceAnswer: string;
+}
+
+export interface MarkingScheme {
+  // Marks lost for a wrong multiple-choice answer, as a fraction of the question's marks
+  negativeFraction: number;
+  // GATE doesn't deduct marks for wrong numerical answers
+  negativeOnNumerical: boolean;
+}
+
+// The shape of a practice test: its sections in order and how answers are marked
+export interface ExamPattern {
+  name: string;
+  sections: TestSection[];
+  marking: MarkingScheme;
+}
+
+export type ObjectiveOutcome = 'correct' | 'wrong' | 'unattempted';
+
+// A graded answer. `answer` is the chosen option's index for multiple choice, the value entered
+// for numerical questions, and null when skipped.
+export interface ObjectiveResult {
+  question: ObjectiveQuestion;
+  section: string;
+  answer: number | null;
+  outcome: ObjectiveOutcome;
+  // Marks awarded, negative for a penalised wrong answer
+  marks: number;
+}
+
+export interface TopicBreakdown {
+  topic: string;
+  correct: number;
+  wrong: number;
+  unattempted: number;
+  marks: number;
+  maxMarks: number;
+}
+
+// UPSC Mains answer writing: a General Studies paper and the word limit its questions set
+export type MainsPaper = 'GS1' | 'GS2' | 'GS3' | 'GS4';
+export type MainsWordLimit = 150 | 250;
+
+export interface AnswerWritingSettings {
+  paper: MainsPaper;
+  wordLimit: MainsWordLimit;
+}
+
+export type MainsCriterion = 'introduction' | 'body' | 'examples' | 'conclusion' | 'wordLimit';
+
+export interface MainsCriterionScore {
+  criterion: MainsCriterion;
+  // 0-10
+  score: number;
+  comment: string;
+}
+
+export interface MainsEvaluation {
+  paper: MainsPaper;
+  wordLimit: MainsWordLimit;
+  wordCount: number;
+  // One entry per criterion, in rubric order
+  criteria: MainsCriterionScore[];
+  // Marks out of the question's maximum, as a Mains examiner would award them
+  marks: number;
+  maxMarks: number;
+}
+
+// Dimensions a spoken or written answer is scored on. Each subject family uses a subset,
+// so scores from different subjects can still be compared per dimension.
+export type RubricDimension = 'technicalAccuracy' | 'completeness' | 'clarity' | 'structure' | 'examples';
+export type RubricFamily = 'engineering' | 'behavioral' | 'english' | 'exam';
+
+// 0-10 per dimension, only for the dimensions in the answer's subject family
+export type RubricScores = Partial<Record<RubricDimension, number>>;
+
+export type StarComponent = 'situation' | 'task' | 'action' | 'result';
+export type StarStrength = 'strong' | 'weak' | 'missing';
+
+export interface StarElement {
+  component: StarComponent;
+  strength: StarStrength;
+  // The candidate's own words covering this part; only set when they appear verbatim in the answer
+  excerpt?: string;
+  // What's there, or what to add
+  comment: string;
+}
+
+// STAR-method breakdown of a behavioral answer
+export interface StarAnalysis {
+  // One per component, in STAR order
+  elements: StarElement[];
+  // 0-100: strong components count fully, weak ones half
+  completeness: number;
+}
+
+export type DiagramNodeKind = 'client' | 'loadBalancer' | 'service' | 'database' | 'cache' | 'queue' | 'storage' | 'external';
+
+// A box on the system design canvas; x and y are its centre in canvas units
+export interface DiagramNode {
+  id: string;
+  kind: DiagramNodeKind;
+  label: string;
+  x: number;
+  y: number;
+}
+
+// An arrow from one box to another, e.g. "writes" or "publishes events"
+export interface DiagramEdge {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+}
+
+// A system design answer's diagram as a graph of components and connections
+export interface SystemDiagram {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export type DesignConcern = 'scalability' | 'bottleneck' | 'dataStore' | 'reliability';
+
+// Feedback on one component of a system design diagram
+export interface ComponentFeedback {
+  // The label of the diagram box it refers to
+  component: string;
+  // That box's id, since labels can repeat; missing on feedback saved before it was recorded
+  nodeId?: string;
+  concern: DesignConcern;
+  comment: string;
+}
+
+export type CorrectionType = 'grammar' | 'vocabulary' | 'pronunciation';
+
+// One fix to an English practice answer
+export interface LanguageCorrection {
+  // The words as they appear in the answer, and what they should have been
+  original: string;
+  corrected: string;
+  type: CorrectionType;
+  // Short rule name, e.g. "Subject-verb agreement"; recurring mistakes are grouped by it
+  rule: string;
+  explanation: string;
 }
 
 export interface Feedback {
@@ -60,9 +373,43 @@ export interface Feedback {
   feedback: string;
   suggestedAnswer: string;
   nonVerbalFeedback?: string;
+  codeScores?: CodeScores;
+  rubricScores?: RubricScores;
+  starAnalysis?: StarAnalysis;
+  corrections?: LanguageCorrection[];
+  componentFeedback?: ComponentFeedback[];
+  mainsEvaluation?: MainsEvaluation;
   error?: boolean;
 }
 
+export interface ScoredQuestion {
+  question: string;
+  score: number;
+}
+
+// How the candidate did in one round of a company interview
+export interface RoundSummary {
+  round: string;
+  answered: number;
+  averageScore: number;
+  bestAnswer: ScoredQuestion | null;
+  worstAnswer: ScoredQuestion | null;
+}
+
+export interface SessionReport {
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+  topicsCovered: string[];
+  bestAnswer: ScoredQuestion | null;
+  worstAnswer: ScoredQuestion | null;
+  recommendedDifficulty: Difficulty;
+  // Whether the narrative parts came from Gemini or the deterministic fallback
+  source: 'ai' | 'fallback';
+  // Per-round results, for company interviews
+  rounds?: RoundSummary[];
+}
+
 export interface ProfileData {
   username: string;
   interviewsCompleted: number;
@@ -86,6 +433,44 @@ export interface ResumeData {
   };
 }
 
+export type ResumeSection = 'experience' | 'projects';
+
+export interface ResumeBullet {
+  // Stable key like "experience-0", used to match suggestions back to their bullet
+  id: string;
+  section: ResumeSection;
+  text: string;
+}
+
+export interface BulletRewrite {
+  id: string;
+  section: ResumeSection;
+  original: string;
+  rewritten: string;
+  rationale: string;
+}
+
+export interface JobDescriptionData {
+  title: string;
+  requiredSkills: string[];
+  preferredSkills: string[];
+  responsibilities: string[];
+}
+
+export interface GapAnalysis {
+  matchedSkills: string[];
+  missingRequiredSkills: string[];
+  missingPreferredSkills: string[];
+  // Share of the required skills found on the resume, 0-100
+  matchScore: number;
+}
+
+// Target role a resume interview is tailored to
+export interface JobContext {
+  jobDescription: JobDescriptionData;
+  gapAnalysis: GapAnalysis;
+}
+
 export interface ResumeSession {
   resumeData: ResumeData;
   currentQuestionIndex: number;